@@ -78,6 +78,33 @@ CREATE TABLE IF NOT EXISTS public.metadata_options (
 -- ALTER TABLE public.metadata_options DROP COLUMN IF EXISTS created_by;
 -- DROP INDEX IF EXISTS idx_metadata_options_created_by;
 
+-- Create search_synonyms table (admin-managed synonym and abbreviation groups)
+-- Every term in a group is equivalent: keyword queries are expanded to all of them and
+-- Jaccard tokenization maps them to one token ('LPA' = 'Limited Partnership Agreement').
+CREATE TABLE IF NOT EXISTS public.search_synonyms (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  terms TEXT[] NOT NULL CHECK (cardinality(terms) >= 2),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+-- Seed common fund-document abbreviations on first setup only
+INSERT INTO public.search_synonyms (terms)
+SELECT seed.terms
+FROM (VALUES
+  (ARRAY['LPA', 'Limited Partnership Agreement']),
+  (ARRAY['AML', 'anti-money laundering']),
+  (ARRAY['KYC', 'know your customer']),
+  (ARRAY['PPM', 'Private Placement Memorandum']),
+  (ARRAY['GP', 'General Partner']),
+  (ARRAY['LP', 'Limited Partner']),
+  (ARRAY['LLC', 'limited liability company']),
+  (ARRAY['ERISA', 'Employee Retirement Income Security Act']),
+  (ARRAY['FATCA', 'Foreign Account Tax Compliance Act']),
+  (ARRAY['US', 'U.S.', 'United States'])
+) AS seed(terms)
+WHERE NOT EXISTS (SELECT 1 FROM public.search_synonyms);
+
 -- Create documents table with enterprise features
 CREATE TABLE IF NOT EXISTS public.documents (
   id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
@@ -593,6 +620,7 @@ WHERE created_at >= NOW() - INTERVAL '24 hours';
 -- Enable RLS on all tables
 ALTER TABLE users ENABLE ROW LEVEL SECURITY;
 ALTER TABLE metadata_options ENABLE ROW LEVEL SECURITY;
+ALTER TABLE search_synonyms ENABLE ROW LEVEL SECURITY;
 ALTER TABLE documents ENABLE ROW LEVEL SECURITY;
 -- RLS for extracted_fields removed (table no longer exists)
 ALTER TABLE document_embeddings ENABLE ROW LEVEL SECURITY;
@@ -663,6 +691,32 @@ CREATE POLICY "Admins can delete options"
     )
   );
 
+-- Search synonym policies (readable by everyone, admin-only management)
+DROP POLICY IF EXISTS "Anyone can view search synonyms" ON search_synonyms;
+CREATE POLICY "Anyone can view search synonyms"
+  ON public.search_synonyms
+  FOR SELECT
+  USING (true);
+
+DROP POLICY IF EXISTS "Admins can manage search synonyms" ON search_synonyms;
+CREATE POLICY "Admins can manage search synonyms"
+  ON public.search_synonyms
+  FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.users
+      WHERE users.id = auth.uid()
+      AND users.role = 'admin'
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.users
+      WHERE users.id = auth.uid()
+      AND users.role = 'admin'
+    )
+  );
+
 -- Documents policies - allow all anduintransact.com users full access
 DROP POLICY IF EXISTS "Users can view own documents" ON documents;
 CREATE POLICY "anduin can view documents" ON documents FOR SELECT
@@ -881,6 +935,7 @@ RETURNS TABLE (
   id UUID,
   user_id UUID,
   document_id UUID,
+  operation_type TEXT,
   status TEXT,
   priority INTEGER,
   processing_method TEXT,
@@ -945,6 +1000,7 @@ BEGIN
       document_jobs.id,
       document_jobs.user_id,
       document_jobs.document_id,
+      document_jobs.operation_type,
       document_jobs.status,
       document_jobs.priority,
       document_jobs.processing_method,
@@ -962,6 +1018,7 @@ BEGIN
     claimed.id,
     claimed.user_id,
     claimed.document_id,
+    claimed.operation_type,
     claimed.status,
     claimed.priority,
     claimed.processing_method,
@@ -1660,6 +1717,7 @@ SET
 -- 5. Set MAX_CONCURRENT_DOCUMENTS=10 (or adjust based on your infrastructure)
 -- 6. Run 'npm run dev' to start the application
 -- 7. Manage metadata options directly in Supabase Table Editor (metadata_options table)
+--    and search synonyms through /api/admin/search-synonyms (search_synonyms table)
 -- 8. Review PRODUCTION_MONITORING.md for alert configuration
 -- =====================================================
 
@@ -1667,15 +1725,88 @@ SET
 -- PAGINATED KEYWORD SEARCH FUNCTIONS
 -- =====================================================
 
+-- Keyword search filters (p_filters, NULL for none), matching the dashboard filter panel:
+--   {
+--     "metadata": { "law_firm": ["..."], "fund_manager": [...], "fund_admin": [...], "jurisdiction": [...] },
+--     "template_cluster_ids": ["<uuid>", ...],
+--     "uploaded_from": "YYYY-MM-DD", "uploaded_to": "YYYY-MM-DD",   -- inclusive, UTC days
+--     "page_range": { "start_page": 1, "end_page": 10 }
+--   }
+-- Values are OR-ed within a field and fields are AND-ed; '(blank)' matches documents without a value.
+
+-- Function: keyword_search_document_filter
+-- Purpose: Whether a document passes the document-level keyword search filters
+-- STABLE rather than IMMUTABLE: the text-to-DATE casts depend on the DateStyle setting
+CREATE OR REPLACE FUNCTION keyword_search_document_filter(
+  p_metadata JSONB,
+  p_template_cluster_id UUID,
+  p_created_at TIMESTAMPTZ,
+  p_filters JSONB
+)
+RETURNS BOOLEAN AS $$
+  SELECT p_filters IS NULL OR (
+    NOT EXISTS (
+      SELECT 1
+      FROM jsonb_each(COALESCE(p_filters->'metadata', '{}'::jsonb)) AS f(key, allowed)
+      WHERE jsonb_array_length(f.allowed) > 0
+        AND NOT (
+          CASE
+            WHEN NULLIF(p_metadata->>f.key, '') IS NULL THEN f.allowed ? '(blank)'
+            ELSE f.allowed ? (p_metadata->>f.key)
+          END
+        )
+    )
+    AND (
+      COALESCE(jsonb_array_length(p_filters->'template_cluster_ids'), 0) = 0
+      OR CASE
+        WHEN p_template_cluster_id IS NULL THEN p_filters->'template_cluster_ids' ? '(blank)'
+        ELSE p_filters->'template_cluster_ids' ? p_template_cluster_id::TEXT
+      END
+    )
+    AND (
+      p_filters->>'uploaded_from' IS NULL
+      OR p_created_at >= ((p_filters->>'uploaded_from')::DATE)::TIMESTAMP AT TIME ZONE 'UTC'
+    )
+    AND (
+      p_filters->>'uploaded_to' IS NULL
+      OR p_created_at < ((p_filters->>'uploaded_to')::DATE + 1)::TIMESTAMP AT TIME ZONE 'UTC'
+    )
+  )
+$$ LANGUAGE sql STABLE;
+
+-- Function: keyword_search_page_filter
+-- Purpose: Whether a chunk spanning p_start_page..p_end_page overlaps the filtered page range
+CREATE OR REPLACE FUNCTION keyword_search_page_filter(
+  p_start_page INTEGER,
+  p_end_page INTEGER,
+  p_filters JSONB
+)
+RETURNS BOOLEAN AS $$
+  SELECT p_filters IS NULL
+    OR p_filters->'page_range' IS NULL
+    OR (
+      p_start_page <= (p_filters->'page_range'->>'end_page')::INTEGER
+      AND p_end_page >= (p_filters->'page_range'->>'start_page')::INTEGER
+    )
+$$ LANGUAGE sql IMMUTABLE;
+
 -- Function: search_document_keywords_paginated
 -- Purpose: Keyword search with document-level pagination (no hard limits)
 -- Returns: Paginated document results with total count and hasMore flag
+-- p_tsquery: optional to_tsquery() text compiled by the app from the keyword query language
+--            (phrases, AND/OR/NOT, prefixes, NEAR/n); plainto_tsquery(p_search_query) otherwise
+-- p_filters: metadata, template, upload date and page range filters (see above)
+DROP FUNCTION IF EXISTS search_document_keywords_paginated(UUID, TEXT, INTEGER, INTEGER, INTEGER);
+DROP FUNCTION IF EXISTS search_document_keywords_paginated(UUID, TEXT, INTEGER, INTEGER, INTEGER, TEXT);
+
 CREATE OR REPLACE FUNCTION search_document_keywords_paginated(
   p_user_id UUID,
   p_search_query TEXT,
   p_max_pages_per_doc INTEGER DEFAULT 3,
   p_page_size INTEGER DEFAULT 20,
-  p_page_offset INTEGER DEFAULT 0
+  p_page_offset INTEGER DEFAULT 0,
+  p_tsquery TEXT DEFAULT NULL,
+  p_filters JSONB DEFAULT NULL
 )
 RETURNS TABLE (
   document_id UUID,
@@ -1688,6 +1819,7 @@ RETURNS TABLE (
 ) AS $$
 DECLARE
   v_total_docs BIGINT;
+  v_query tsquery := COALESCE(to_tsquery('english', p_tsquery), plainto_tsquery('english', p_search_query));
 BEGIN
   -- Step 1: Count total matching documents
   SELECT COUNT(DISTINCT de.document_id) INTO v_total_docs
@@ -1696,7 +1828,13 @@ BEGIN
   WHERE
     d.user_id = p_user_id
     AND d.status = 'completed'
-    AND to_tsvector('english', de.chunk_text) @@ plainto_tsquery('english', p_search_query);
+    AND to_tsvector('english', de.chunk_text) @@ v_query
+    AND keyword_search_document_filter(d.metadata, d.template_cluster_id, d.created_at, p_filters)
+    AND keyword_search_page_filter(
+      COALESCE(de.start_page_number, de.page_number),
+      COALESCE(de.end_page_number, de.page_number),
+      p_filters
+    );
 
   -- Step 2: Get paginated results
   RETURN QUERY
@@ -1711,20 +1849,20 @@ BEGIN
       ts_headline(
         'english',
         de.chunk_text,
-        plainto_tsquery('english', p_search_query),
+        v_query,
         'MaxWords=40, MinWords=20, MaxFragments=1'
       ) as excerpt,
       -- Relevance score using PostgreSQL's built-in ranking
       ts_rank(
         to_tsvector('english', de.chunk_text),
-        plainto_tsquery('english', p_search_query)
+        v_query
       ) as rank,
       -- Deduplicate: get best excerpt per page
       ROW_NUMBER() OVER (
         PARTITION BY de.document_id, COALESCE(de.start_page_number, de.page_number)
         ORDER BY ts_rank(
           to_tsvector('english', de.chunk_text),
-          plainto_tsquery('english', p_search_query)
+          v_query
         ) DESC
       ) as page_rank
     FROM document_embeddings de
@@ -1732,7 +1870,13 @@ BEGIN
     WHERE
       d.user_id = p_user_id
       AND d.status = 'completed'
-      AND to_tsvector('english', de.chunk_text) @@ plainto_tsquery('english', p_search_query)
+      AND to_tsvector('english', de.chunk_text) @@ v_query
+      AND keyword_search_document_filter(d.metadata, d.template_cluster_id, d.created_at, p_filters)
+      AND keyword_search_page_filter(
+        COALESCE(de.start_page_number, de.page_number),
+        COALESCE(de.end_page_number, de.page_number),
+        p_filters
+      )
   ),
   top_pages_per_doc AS (
     SELECT
@@ -1788,23 +1932,31 @@ END;
 $$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
 
 -- Grant execute permission to authenticated users
-GRANT EXECUTE ON FUNCTION search_document_keywords_paginated(UUID, TEXT, INTEGER, INTEGER, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION search_document_keywords_paginated(UUID, TEXT, INTEGER, INTEGER, INTEGER, TEXT, JSONB) TO authenticated;
 
 -- Function: get_additional_keyword_pages
 -- Purpose: Load additional matching pages for a specific document
 -- Returns: Next batch of matching pages (re-runs search for consistency)
+-- p_tsquery: same compiled query as search_document_keywords_paginated
+DROP FUNCTION IF EXISTS get_additional_keyword_pages(UUID, UUID, TEXT, INTEGER, INTEGER);
+DROP FUNCTION IF EXISTS get_additional_keyword_pages(UUID, UUID, TEXT, INTEGER, INTEGER, TEXT);
+
 CREATE OR REPLACE FUNCTION get_additional_keyword_pages(
   p_user_id UUID,
   p_document_id UUID,
   p_search_query TEXT,
   p_skip_pages INTEGER DEFAULT 3,
-  p_fetch_pages INTEGER DEFAULT 5
+  p_fetch_pages INTEGER DEFAULT 5,
+  p_tsquery TEXT DEFAULT NULL,
+  p_filters JSONB DEFAULT NULL
 )
 RETURNS TABLE (
   page_number INTEGER,
   excerpt TEXT,
   score NUMERIC
 ) AS $$
+DECLARE
+  v_query tsquery := COALESCE(to_tsquery('english', p_tsquery), plainto_tsquery('english', p_search_query));
 BEGIN
   RETURN QUERY
   WITH ranked_matches AS (
@@ -1813,18 +1965,18 @@ BEGIN
       ts_headline(
         'english',
         de.chunk_text,
-        plainto_tsquery('english', p_search_query),
+        v_query,
         'MaxWords=40, MinWords=20, MaxFragments=1'
       ) as excerpt,
       ts_rank(
         to_tsvector('english', de.chunk_text),
-        plainto_tsquery('english', p_search_query)
+        v_query
       ) as rank,
       ROW_NUMBER() OVER (
         PARTITION BY COALESCE(de.start_page_number, de.page_number)
         ORDER BY ts_rank(
           to_tsvector('english', de.chunk_text),
-          plainto_tsquery('english', p_search_query)
+          v_query
         ) DESC
       ) as page_rank
     FROM document_embeddings de
@@ -1833,7 +1985,13 @@ BEGIN
       d.id = p_document_id
       AND d.user_id = p_user_id
       AND d.status = 'completed'
-      AND to_tsvector('english', de.chunk_text) @@ plainto_tsquery('english', p_search_query)
+      AND to_tsvector('english', de.chunk_text) @@ v_query
+      AND keyword_search_document_filter(d.metadata, d.template_cluster_id, d.created_at, p_filters)
+      AND keyword_search_page_filter(
+        COALESCE(de.start_page_number, de.page_number),
+        COALESCE(de.end_page_number, de.page_number),
+        p_filters
+      )
   ),
   ranked_pages AS (
     SELECT
@@ -1856,6 +2014,1046 @@ END;
 $$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
 
 -- Grant execute permission to authenticated users
-GRANT EXECUTE ON FUNCTION get_additional_keyword_pages(UUID, UUID, TEXT, INTEGER, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_additional_keyword_pages(UUID, UUID, TEXT, INTEGER, INTEGER, TEXT, JSONB) TO authenticated;
+
+-- =====================================================
+
+-- =====================================================
+-- EMBEDDING CACHE
+-- =====================================================
+
+-- Content-addressed cache of chunk embeddings so boilerplate shared across uploads
+-- (representations, tax forms, AML language) is only embedded once per model.
+-- content_hash is the SHA-256 of the whitespace-normalized chunk text.
+CREATE TABLE IF NOT EXISTS public.embedding_cache (
+  content_hash TEXT NOT NULL,
+  embedding_model TEXT NOT NULL,
+  embedding vector(768) NOT NULL,
+  hit_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+  last_used_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+  PRIMARY KEY (content_hash, embedding_model)
+);
+
+CREATE INDEX IF NOT EXISTS idx_embedding_cache_last_used
+  ON public.embedding_cache (last_used_at);
+
+-- Only the service role (document processing) reads and writes the cache
+ALTER TABLE embedding_cache ENABLE ROW LEVEL SECURITY;
+
+-- Function: touch_embedding_cache
+-- Purpose: Record cache hits in one round-trip (hit_count / last_used_at drive eviction)
+CREATE OR REPLACE FUNCTION touch_embedding_cache(
+  p_embedding_model TEXT,
+  p_content_hashes TEXT[]
+)
+RETURNS VOID AS $$
+BEGIN
+  UPDATE embedding_cache
+  SET
+    hit_count = hit_count + 1,
+    last_used_at = timezone('utc'::text, now())
+  WHERE embedding_model = p_embedding_model
+    AND content_hash = ANY(p_content_hashes);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =====================================================
+
+-- =====================================================
+-- EMBEDDING MODEL MIGRATIONS
+-- =====================================================
+
+-- A migration re-embeds every document's stored chunk_text with a new model into a
+-- fresh Qdrant collection. New vectors are staged in migration_* columns so similarity
+-- search keeps using the old model until activate_embedding_migration() swaps everything
+-- over in one transaction. Per-document work runs as document_jobs rows with
+-- operation_type = 'embedding_migration'.
+CREATE TABLE IF NOT EXISTS public.embedding_migrations (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  source_model TEXT NOT NULL,
+  target_model TEXT NOT NULL,
+  source_collection TEXT NOT NULL,
+  target_collection TEXT NOT NULL UNIQUE,
+  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'active', 'superseded')),
+  total_documents INTEGER NOT NULL DEFAULT 0,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+  activated_at TIMESTAMP WITH TIME ZONE
+);
+
+-- Only one migration may run at a time
+CREATE UNIQUE INDEX IF NOT EXISTS idx_embedding_migrations_single_running
+  ON public.embedding_migrations (status) WHERE status = 'running';
+
+CREATE INDEX IF NOT EXISTS idx_embedding_migrations_activated
+  ON public.embedding_migrations (activated_at DESC) WHERE status = 'active';
+
+CREATE INDEX IF NOT EXISTS idx_document_jobs_migration
+  ON document_jobs ((processing_config->>'migration_id'), status)
+  WHERE operation_type = 'embedding_migration';
+
+ALTER TABLE embedding_migrations ENABLE ROW LEVEL SECURITY;
+
+ALTER TABLE document_embeddings ADD COLUMN IF NOT EXISTS migration_embedding vector(768);
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS migration_centroid_embedding vector(768);
+
+-- Function: activate_embedding_migration
+-- Purpose: Promote staged embeddings and centroids and make the target collection live.
+-- Refuses to activate while any searchable document not yet on the target model is still
+-- unstaged (uploaded or reprocessed after the migration started, or failed) and returns
+-- those documents so the caller can enqueue them.
+CREATE OR REPLACE FUNCTION activate_embedding_migration(p_migration_id UUID)
+RETURNS TABLE (
+  activated BOOLEAN,
+  pending_document_ids UUID[]
+) AS $$
+DECLARE
+  v_migration embedding_migrations%ROWTYPE;
+  v_pending UUID[];
+BEGIN
+  SELECT * INTO v_migration
+  FROM embedding_migrations
+  WHERE embedding_migrations.id = p_migration_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_migration.status <> 'running' THEN
+    RETURN QUERY SELECT false, ARRAY[]::UUID[];
+    RETURN;
+  END IF;
+
+  SELECT COALESCE(array_agg(documents.id), ARRAY[]::UUID[]) INTO v_pending
+  FROM documents
+  WHERE documents.status = 'completed'
+    AND documents.centroid_embedding IS NOT NULL
+    AND COALESCE(documents.embedding_model, 'text-embedding-005') <> v_migration.target_model
+    AND documents.migration_centroid_embedding IS NULL;
+
+  IF array_length(v_pending, 1) > 0 THEN
+    RETURN QUERY SELECT false, v_pending;
+    RETURN;
+  END IF;
+
+  UPDATE document_embeddings
+  SET embedding = migration_embedding,
+      migration_embedding = NULL
+  WHERE migration_embedding IS NOT NULL;
+
+  UPDATE documents
+  SET centroid_embedding = migration_centroid_embedding,
+      migration_centroid_embedding = NULL,
+      embedding_model = v_migration.target_model,
+      updated_at = timezone('utc'::text, now())
+  WHERE migration_centroid_embedding IS NOT NULL;
+
+  UPDATE embedding_migrations
+  SET status = 'superseded'
+  WHERE status = 'active';
+
+  UPDATE embedding_migrations
+  SET status = 'active',
+      activated_at = timezone('utc'::text, now())
+  WHERE embedding_migrations.id = p_migration_id;
+
+  RETURN QUERY SELECT true, ARRAY[]::UUID[];
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =====================================================
+
+-- =====================================================
+-- STORED OCR STRUCTURE (RECHUNKING)
+-- =====================================================
+
+-- Paragraph and page structure from the OCR pass, so chunks, embeddings and centroids
+-- can be rebuilt after chunking changes without paying for OCR again.
+-- Rows processed before these columns existed stay NULL until the document is retried.
+ALTER TABLE public.document_content ADD COLUMN IF NOT EXISTS paragraphs JSONB;
+ALTER TABLE public.document_content ADD COLUMN IF NOT EXISTS pages_text JSONB;
+
+CREATE INDEX IF NOT EXISTS idx_document_jobs_rechunk
+  ON public.document_jobs (document_id, status) WHERE operation_type = 'rechunk';
+
+-- =====================================================
+
+-- =====================================================
+-- DUPLICATE DETECTION
+-- =====================================================
+
+-- file_hash is the SHA-256 of the uploaded bytes and is checked before storage upload.
+-- text_fingerprint is a 64-bit simhash (16 hex chars) of the extracted text, computed after
+-- OCR so re-scans and re-exports of the same document are caught as near duplicates.
+ALTER TABLE public.documents ADD COLUMN IF NOT EXISTS file_hash TEXT;
+ALTER TABLE public.documents ADD COLUMN IF NOT EXISTS text_fingerprint TEXT;
+ALTER TABLE public.documents ADD COLUMN IF NOT EXISTS duplicate_of UUID REFERENCES public.documents(id) ON DELETE SET NULL;
+ALTER TABLE public.documents ADD COLUMN IF NOT EXISTS duplicate_type TEXT CHECK (duplicate_type IN ('exact', 'near'));
+
+CREATE INDEX IF NOT EXISTS idx_documents_file_hash
+  ON public.documents (file_hash) WHERE file_hash IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_documents_duplicate_of
+  ON public.documents (duplicate_of) WHERE duplicate_of IS NOT NULL;
+
+-- Hamming distance between simhashes; bit_count() needs PostgreSQL 14+
+CREATE OR REPLACE FUNCTION find_near_duplicate_documents(
+  p_document_id UUID,
+  p_fingerprint TEXT,
+  p_max_distance INTEGER DEFAULT 3
+)
+RETURNS TABLE(document_id UUID, hamming_distance INTEGER) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT candidates.id, candidates.distance
+  FROM (
+    SELECT
+      d.id,
+      d.created_at,
+      bit_count(('x' || d.text_fingerprint)::bit(64) # ('x' || p_fingerprint)::bit(64))::INTEGER AS distance
+    FROM documents d
+    WHERE d.id <> p_document_id
+      -- Only older documents, so the newer copy is always the one flagged
+      AND d.created_at < (SELECT created_at FROM documents WHERE id = p_document_id)
+      AND d.status = 'completed'
+      AND d.text_fingerprint IS NOT NULL
+  ) candidates
+  WHERE candidates.distance <= p_max_distance
+  ORDER BY candidates.distance ASC, candidates.created_at ASC
+  LIMIT 10;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- =====================================================
+
+-- =====================================================
+-- DOCUMENT VERSION FAMILIES
+-- =====================================================
+
+-- Revised drafts of the same document share a family. family_version orders them
+-- (1 = oldest) and is_latest_version marks the newest, so lists can collapse families
+-- and similarity search can skip superseded drafts. Families of fewer than two
+-- documents are dissolved.
+CREATE TABLE IF NOT EXISTS public.document_families (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+ALTER TABLE public.document_families ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "anduin can view document families" ON document_families;
+CREATE POLICY "anduin can view document families" ON document_families FOR SELECT
+USING (split_part(auth.jwt()->>'email','@',2) = 'anduintransact.com');
+
+ALTER TABLE public.documents ADD COLUMN IF NOT EXISTS family_id UUID REFERENCES public.document_families(id) ON DELETE SET NULL;
+ALTER TABLE public.documents ADD COLUMN IF NOT EXISTS family_version INTEGER;
+ALTER TABLE public.documents ADD COLUMN IF NOT EXISTS is_latest_version BOOLEAN NOT NULL DEFAULT true;
+ALTER TABLE public.documents ADD COLUMN IF NOT EXISTS version_link_type TEXT CHECK (version_link_type IN ('auto', 'manual'));
+
+CREATE INDEX IF NOT EXISTS idx_documents_family
+  ON public.documents (family_id, family_version) WHERE family_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_documents_superseded
+  ON public.documents (id) WHERE is_latest_version = false;
+
+-- Renumber versions 1..n, mark the newest and dissolve families left with one document
+CREATE OR REPLACE FUNCTION refresh_document_family(p_family_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  IF p_family_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  IF (SELECT count(*) FROM documents WHERE family_id = p_family_id) < 2 THEN
+    UPDATE documents
+    SET family_id = NULL,
+        family_version = NULL,
+        is_latest_version = true,
+        version_link_type = NULL
+    WHERE family_id = p_family_id;
+
+    DELETE FROM document_families WHERE id = p_family_id;
+    RETURN;
+  END IF;
+
+  WITH ordered AS (
+    SELECT
+      id,
+      row_number() OVER (ORDER BY family_version ASC NULLS LAST, created_at ASC) AS version,
+      count(*) OVER () AS total
+    FROM documents
+    WHERE family_id = p_family_id
+  )
+  UPDATE documents d
+  SET family_version = ordered.version,
+      is_latest_version = (ordered.version = ordered.total)
+  FROM ordered
+  WHERE d.id = ordered.id;
+
+  UPDATE document_families
+  SET updated_at = timezone('utc'::text, now())
+  WHERE id = p_family_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Make p_document_id the version directly after p_previous_document_id, moving it out of
+-- any family it was in. Later versions in the target family shift up by one.
+CREATE OR REPLACE FUNCTION link_document_version(
+  p_document_id UUID,
+  p_previous_document_id UUID,
+  p_link_type TEXT DEFAULT 'manual'
+)
+RETURNS UUID AS $$
+DECLARE
+  v_old_family UUID;
+  v_family UUID;
+  v_previous_version INTEGER;
+BEGIN
+  IF p_document_id = p_previous_document_id THEN
+    RAISE EXCEPTION 'A document cannot be a version of itself';
+  END IF;
+
+  SELECT family_id INTO v_old_family FROM documents WHERE id = p_document_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Document % not found', p_document_id;
+  END IF;
+
+  PERFORM 1 FROM documents WHERE id = p_previous_document_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Document % not found', p_previous_document_id;
+  END IF;
+
+  UPDATE documents
+  SET family_id = NULL, family_version = NULL, is_latest_version = true, version_link_type = NULL
+  WHERE id = p_document_id;
+
+  SELECT family_id INTO v_family FROM documents WHERE id = p_previous_document_id;
+
+  IF v_old_family IS NOT NULL AND v_old_family IS DISTINCT FROM v_family THEN
+    PERFORM refresh_document_family(v_old_family);
+  END IF;
+
+  IF v_family IS NULL THEN
+    INSERT INTO document_families DEFAULT VALUES RETURNING id INTO v_family;
+
+    UPDATE documents
+    SET family_id = v_family, family_version = 1, version_link_type = p_link_type
+    WHERE id = p_previous_document_id;
+  END IF;
+
+  SELECT family_version INTO v_previous_version FROM documents WHERE id = p_previous_document_id;
+
+  UPDATE documents
+  SET family_version = family_version + 1
+  WHERE family_id = v_family AND family_version > v_previous_version;
+
+  UPDATE documents
+  SET family_id = v_family,
+      family_version = v_previous_version + 1,
+      version_link_type = p_link_type
+  WHERE id = p_document_id;
+
+  PERFORM refresh_document_family(v_family);
+  RETURN v_family;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION unlink_document_version(p_document_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  v_family UUID;
+BEGIN
+  SELECT family_id INTO v_family FROM documents WHERE id = p_document_id FOR UPDATE;
+
+  IF v_family IS NULL THEN
+    RETURN;
+  END IF;
+
+  UPDATE documents
+  SET family_id = NULL, family_version = NULL, is_latest_version = true, version_link_type = NULL
+  WHERE id = p_document_id;
+
+  PERFORM refresh_document_family(v_family);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Deleting the newest draft promotes the previous one
+CREATE OR REPLACE FUNCTION public.handle_family_document_deleted()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  PERFORM refresh_document_family(OLD.family_id);
+  RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_family_document_deleted ON documents;
+CREATE TRIGGER on_family_document_deleted
+  AFTER DELETE ON documents
+  FOR EACH ROW
+  WHEN (OLD.family_id IS NOT NULL)
+  EXECUTE FUNCTION public.handle_family_document_deleted();
+
+-- =====================================================
+
+-- =====================================================
+-- BOILERPLATE FREQUENCY INDEX
+-- =====================================================
+
+-- Chunks are grouped into clusters by their text with case, digits and punctuation
+-- stripped, so the same W-9 / FATCA paragraph with different fund names or dates
+-- still lands in one cluster. chunk_cluster_frequency records how many documents
+-- contain each cluster; similarity scoring uses it for IDF-style down-weighting.
+ALTER TABLE document_embeddings
+  ADD COLUMN IF NOT EXISTS cluster_key TEXT
+  GENERATED ALWAYS AS (md5(btrim(regexp_replace(lower(chunk_text), '[^a-z]+', ' ', 'g')))) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_document_embeddings_cluster_key
+  ON public.document_embeddings (cluster_key);
+
+-- Only clusters shared by two or more documents are stored; a missing key means 1
+CREATE TABLE IF NOT EXISTS public.chunk_cluster_frequency (
+  cluster_key TEXT PRIMARY KEY,
+  document_count INTEGER NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+-- Only the service role (processing and similarity search) reads and writes the index
+ALTER TABLE chunk_cluster_frequency ENABLE ROW LEVEL SECURITY;
+
+-- Function: refresh_chunk_cluster_frequency
+-- Purpose: Recount every cluster that appears in one document (run after (re)chunking)
+CREATE OR REPLACE FUNCTION refresh_chunk_cluster_frequency(p_document_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+  v_updated INTEGER;
+BEGIN
+  WITH keys AS (
+    SELECT DISTINCT cluster_key
+    FROM document_embeddings
+    WHERE document_id = p_document_id
+  ),
+  counts AS (
+    SELECT e.cluster_key, COUNT(DISTINCT e.document_id)::INTEGER AS document_count
+    FROM document_embeddings e
+    JOIN keys k ON k.cluster_key = e.cluster_key
+    GROUP BY e.cluster_key
+  ),
+  removed AS (
+    DELETE FROM chunk_cluster_frequency f
+    USING counts c
+    WHERE f.cluster_key = c.cluster_key
+      AND c.document_count < 2
+  )
+  INSERT INTO chunk_cluster_frequency (cluster_key, document_count, updated_at)
+  SELECT cluster_key, document_count, timezone('utc'::text, now())
+  FROM counts
+  WHERE document_count >= 2
+  ON CONFLICT (cluster_key) DO UPDATE
+  SET document_count = EXCLUDED.document_count,
+      updated_at = EXCLUDED.updated_at;
+
+  GET DIAGNOSTICS v_updated = ROW_COUNT;
+  RETURN v_updated;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function: rebuild_chunk_cluster_frequency
+-- Purpose: Recount the whole corpus (after bulk deletes or the initial backfill)
+CREATE OR REPLACE FUNCTION rebuild_chunk_cluster_frequency()
+RETURNS INTEGER AS $$
+DECLARE
+  v_clusters INTEGER;
+BEGIN
+  DELETE FROM chunk_cluster_frequency;
+
+  INSERT INTO chunk_cluster_frequency (cluster_key, document_count, updated_at)
+  SELECT cluster_key, COUNT(DISTINCT document_id)::INTEGER, timezone('utc'::text, now())
+  FROM document_embeddings
+  GROUP BY cluster_key
+  HAVING COUNT(DISTINCT document_id) >= 2;
+
+  GET DIAGNOSTICS v_clusters = ROW_COUNT;
+  RETURN v_clusters;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function: get_chunk_cluster_frequencies
+-- Purpose: Per-chunk document frequency for one document, used to weight its chunks
+CREATE OR REPLACE FUNCTION get_chunk_cluster_frequencies(p_document_id UUID)
+RETURNS TABLE (
+  chunk_index INTEGER,
+  document_count INTEGER
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT e.chunk_index, COALESCE(f.document_count, 1)
+  FROM document_embeddings e
+  LEFT JOIN chunk_cluster_frequency f ON f.cluster_key = e.cluster_key
+  WHERE e.document_id = p_document_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =====================================================
+
+-- =====================================================
+-- SIMILARITY SEARCH JOBS
+-- =====================================================
+
+-- Background similarity searches. The POST handler stores the normalized request,
+-- the pipeline writes stage progress and partial Stage 2 results as it runs, and
+-- the events endpoint streams row changes to the browser over SSE.
+CREATE TABLE IF NOT EXISTS public.similarity_search_jobs (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  document_id UUID NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'completed', 'error')),
+  stage TEXT CHECK (stage IN ('stage0', 'stage1', 'stage2')),
+  progress INTEGER NOT NULL DEFAULT 0 CHECK (progress >= 0 AND progress <= 100),
+  request JSONB NOT NULL DEFAULT '{}'::jsonb,
+  stage_summary JSONB NOT NULL DEFAULT '{}'::jsonb,
+  partial_results JSONB NOT NULL DEFAULT '[]'::jsonb,
+  response JSONB,
+  error_message TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+  started_at TIMESTAMP WITH TIME ZONE,
+  completed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_similarity_search_jobs_user
+  ON public.similarity_search_jobs (user_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_similarity_search_jobs_document
+  ON public.similarity_search_jobs (document_id);
+
+ALTER TABLE similarity_search_jobs ENABLE ROW LEVEL SECURITY;
+
+-- Jobs are written by the service role; users can read their own
+DROP POLICY IF EXISTS "Users can view own similarity search jobs" ON similarity_search_jobs;
+CREATE POLICY "Users can view own similarity search jobs" ON similarity_search_jobs FOR SELECT
+USING (auth.uid() = user_id);
+
+-- =====================================================
+
+-- =====================================================
+-- SAVED SIMILARITY SEARCHES
+-- =====================================================
+
+-- Every completed similarity search is stored with its full configuration, pipeline
+-- timings and results (including matched sections) so it can be reopened from a
+-- permalink. Like documents, saved searches are visible to the whole organisation.
+CREATE TABLE IF NOT EXISTS public.similarity_searches (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  source_document_id UUID NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_by_email TEXT,
+  job_id UUID REFERENCES similarity_search_jobs(id) ON DELETE SET NULL,
+  page_range JSONB,
+  filters JSONB NOT NULL DEFAULT '{}'::jsonb,
+  source_min_score NUMERIC,
+  target_min_score NUMERIC,
+  config JSONB NOT NULL DEFAULT '{}'::jsonb,
+  timing JSONB NOT NULL DEFAULT '{}'::jsonb,
+  stages JSONB NOT NULL DEFAULT '{}'::jsonb,
+  results JSONB NOT NULL DEFAULT '[]'::jsonb,
+  result_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_similarity_searches_source
+  ON public.similarity_searches (source_document_id, created_at DESC);
+
+ALTER TABLE similarity_searches ENABLE ROW LEVEL SECURITY;
+
+-- Searches are written by the service role once the pipeline finishes
+DROP POLICY IF EXISTS "anduin can view similarity searches" ON similarity_searches;
+CREATE POLICY "anduin can view similarity searches" ON similarity_searches FOR SELECT
+USING (
+  split_part(auth.jwt()->>'email','@',2) = 'anduintransact.com'
+  AND EXISTS (SELECT 1 FROM documents d WHERE d.id = source_document_id)
+);
+
+-- =====================================================
+
+-- =====================================================
+-- TEMPLATE CLUSTERS
+-- =====================================================
+
+-- Documents drafted from the same template, found by a corpus-wide background run
+-- (centroid similarity, confirmed by Stage 2 chunk matching). A run replaces every
+-- cluster; new uploads join an existing cluster when processing completes.
+CREATE TABLE IF NOT EXISTS public.template_cluster_runs (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'completed', 'error')),
+  requested_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  progress INTEGER NOT NULL DEFAULT 0 CHECK (progress >= 0 AND progress <= 100),
+  document_count INTEGER,
+  cluster_count INTEGER,
+  clustered_document_count INTEGER,
+  error_message TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+  started_at TIMESTAMP WITH TIME ZONE,
+  completed_at TIMESTAMP WITH TIME ZONE
+);
+
+-- Only one run may be queued or running at a time
+CREATE UNIQUE INDEX IF NOT EXISTS idx_template_cluster_runs_single_active
+  ON public.template_cluster_runs ((true)) WHERE status IN ('queued', 'running');
+
+CREATE TABLE IF NOT EXISTS public.template_clusters (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  run_id UUID REFERENCES template_cluster_runs(id) ON DELETE SET NULL,
+  label TEXT NOT NULL,
+  representative_document_id UUID REFERENCES documents(id) ON DELETE SET NULL,
+  embedding_model TEXT NOT NULL,
+  member_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+ALTER TABLE public.documents ADD COLUMN IF NOT EXISTS template_cluster_id UUID REFERENCES public.template_clusters(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_documents_template_cluster
+  ON public.documents (template_cluster_id) WHERE template_cluster_id IS NOT NULL;
+
+ALTER TABLE template_cluster_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE template_clusters ENABLE ROW LEVEL SECURITY;
+
+-- Runs and clusters are written by the service role
+DROP POLICY IF EXISTS "anduin can view template cluster runs" ON template_cluster_runs;
+CREATE POLICY "anduin can view template cluster runs" ON template_cluster_runs FOR SELECT
+USING (split_part(auth.jwt()->>'email','@',2) = 'anduintransact.com');
+
+DROP POLICY IF EXISTS "anduin can view template clusters" ON template_clusters;
+CREATE POLICY "anduin can view template clusters" ON template_clusters FOR SELECT
+USING (split_part(auth.jwt()->>'email','@',2) = 'anduintransact.com');
+
+-- Function: replace_template_clusters
+-- Purpose: Swap the stored clusters for a run's clusters in one transaction, so a failed
+-- write leaves the previous clusters and memberships untouched. Deleting the old clusters
+-- clears their memberships (ON DELETE SET NULL) before the new ones are assigned.
+-- p_clusters: [{"label": "...", "representative_document_id": "<uuid>",
+--               "embedding_model": "...", "member_ids": ["<uuid>", ...]}, ...]
+CREATE OR REPLACE FUNCTION replace_template_clusters(p_run_id UUID, p_clusters JSONB)
+RETURNS INTEGER AS $$
+DECLARE
+  v_cluster JSONB;
+  v_cluster_id UUID;
+  v_count INTEGER := 0;
+BEGIN
+  DELETE FROM template_clusters;
+
+  FOR v_cluster IN SELECT value FROM jsonb_array_elements(p_clusters) LOOP
+    INSERT INTO template_clusters (run_id, label, representative_document_id, embedding_model, member_count)
+    VALUES (
+      p_run_id,
+      v_cluster->>'label',
+      (v_cluster->>'representative_document_id')::UUID,
+      v_cluster->>'embedding_model',
+      jsonb_array_length(v_cluster->'member_ids')
+    )
+    RETURNING id INTO v_cluster_id;
+
+    UPDATE documents
+    SET template_cluster_id = v_cluster_id
+    WHERE id IN (SELECT jsonb_array_elements_text(v_cluster->'member_ids')::UUID);
+
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =====================================================
+
+-- =====================================================
+-- FUZZY KEYWORD SEARCH (pg_trgm)
+-- =====================================================
+
+-- Typo-tolerant keyword search for OCR noise ("Subscrlber" for "Subscriber").
+-- Chunks match when they contain the query exactly (full-text) or a trigram-similar
+-- extent (word_similarity above p_similarity_threshold). Exact matches score their ts_rank
+-- and fuzzy-only matches their word_similarity; exact matches always rank first.
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+CREATE INDEX IF NOT EXISTS idx_document_embeddings_chunk_text_trgm
+  ON public.document_embeddings USING gin (chunk_text gin_trgm_ops);
+
+-- Function: fuzzy_keyword_headline
+-- Purpose: Excerpt for a fuzzy-only match, highlighting the chunk words closest to each query word
+CREATE OR REPLACE FUNCTION fuzzy_keyword_headline(
+  p_chunk_text TEXT,
+  p_search_query TEXT,
+  p_similarity_threshold REAL
+)
+RETURNS TEXT AS $$
+DECLARE
+  v_variants TEXT;
+BEGIN
+  -- Tokens are reduced to alphanumerics, so they are safe to join into a tsquery
+  SELECT string_agg(DISTINCT best.token, ' | ') INTO v_variants
+  FROM regexp_split_to_table(lower(p_search_query), '[^[:alnum:]]+') AS q(word)
+  CROSS JOIN LATERAL (
+    SELECT t.token
+    FROM regexp_split_to_table(lower(p_chunk_text), '[^[:alnum:]]+') AS t(token)
+    WHERE t.token <> '' AND similarity(q.word, t.token) >= p_similarity_threshold
+    ORDER BY similarity(q.word, t.token) DESC
+    LIMIT 1
+  ) best
+  WHERE length(q.word) >= 3;
+
+  IF v_variants IS NULL THEN
+    RETURN left(p_chunk_text, 200);
+  END IF;
+
+  RETURN ts_headline(
+    'simple',
+    p_chunk_text,
+    to_tsquery('simple', v_variants),
+    'MaxWords=40, MinWords=20, MaxFragments=1'
+  );
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Function: search_document_keywords_fuzzy
+-- Purpose: Fuzzy variant of search_document_keywords_paginated (same result shape; each match
+--          also carries "fuzzy": true when it was found only by trigram similarity)
+-- p_document_id: restrict to one document (used to load more pages for a result)
+-- p_filters: same filters as search_document_keywords_paginated
+DROP FUNCTION IF EXISTS search_document_keywords_fuzzy(UUID, TEXT, INTEGER, INTEGER, INTEGER, REAL, UUID);
+
+CREATE OR REPLACE FUNCTION search_document_keywords_fuzzy(
+  p_user_id UUID,
+  p_search_query TEXT,
+  p_max_pages_per_doc INTEGER DEFAULT 3,
+  p_page_size INTEGER DEFAULT 20,
+  p_page_offset INTEGER DEFAULT 0,
+  p_similarity_threshold REAL DEFAULT 0.5,
+  p_document_id UUID DEFAULT NULL,
+  p_filters JSONB DEFAULT NULL
+)
+RETURNS TABLE (
+  document_id UUID,
+  title TEXT,
+  filename TEXT,
+  total_matches BIGINT,
+  matches JSONB,
+  total_documents BIGINT,
+  has_more BOOLEAN
+) AS $$
+DECLARE
+  v_exact_query tsquery := plainto_tsquery('english', p_search_query);
+BEGIN
+  -- The <% operator (and its trigram index) reads this setting; is_local scopes it to the transaction
+  PERFORM set_config('pg_trgm.word_similarity_threshold', p_similarity_threshold::TEXT, true);
+
+  RETURN QUERY
+  WITH matched_chunks AS (
+    SELECT
+      de.document_id AS doc_id,
+      d.title AS doc_title,
+      d.filename AS doc_filename,
+      COALESCE(de.start_page_number, de.page_number) AS page_num,
+      de.chunk_text,
+      to_tsvector('english', de.chunk_text) @@ v_exact_query AS is_exact
+    FROM document_embeddings de
+    INNER JOIN documents d ON d.id = de.document_id
+    WHERE
+      d.user_id = p_user_id
+      AND d.status = 'completed'
+      AND (p_document_id IS NULL OR d.id = p_document_id)
+      AND keyword_search_document_filter(d.metadata, d.template_cluster_id, d.created_at, p_filters)
+      AND keyword_search_page_filter(
+        COALESCE(de.start_page_number, de.page_number),
+        COALESCE(de.end_page_number, de.page_number),
+        p_filters
+      )
+      AND (
+        to_tsvector('english', de.chunk_text) @@ v_exact_query
+        OR p_search_query <% de.chunk_text
+      )
+  ),
+  ranked_matches AS (
+    SELECT
+      mc.*,
+      CASE
+        WHEN mc.is_exact THEN ts_rank(to_tsvector('english', mc.chunk_text), v_exact_query)
+        ELSE word_similarity(p_search_query, mc.chunk_text)
+      END AS rank
+    FROM matched_chunks mc
+  ),
+  best_chunk_per_page AS (
+    SELECT
+      rm.*,
+      ROW_NUMBER() OVER (PARTITION BY rm.doc_id, rm.page_num ORDER BY rm.is_exact DESC, rm.rank DESC) AS page_rank
+    FROM ranked_matches rm
+  ),
+  top_pages_per_doc AS (
+    SELECT
+      b.*,
+      ROW_NUMBER() OVER (PARTITION BY b.doc_id ORDER BY b.is_exact DESC, b.rank DESC, b.page_num ASC) AS doc_page_rank
+    FROM best_chunk_per_page b
+    WHERE b.page_rank = 1  -- Best chunk per page only
+  ),
+  doc_stats AS (
+    SELECT
+      t.doc_id,
+      t.doc_title,
+      t.doc_filename,
+      COUNT(*) AS page_matches,
+      BOOL_OR(t.is_exact) AS has_exact,
+      -- Documents with exact matches rank by those alone
+      COALESCE(MAX(t.rank) FILTER (WHERE t.is_exact), MAX(t.rank)) AS max_rank
+    FROM top_pages_per_doc t
+    GROUP BY t.doc_id, t.doc_title, t.doc_filename
+  ),
+  paginated_docs AS (
+    SELECT
+      ds.*,
+      ROW_NUMBER() OVER (ORDER BY ds.has_exact DESC, ds.max_rank DESC) AS row_num,
+      COUNT(*) OVER () AS doc_count
+    FROM doc_stats ds
+  )
+  SELECT
+    pd.doc_id,
+    pd.doc_title,
+    pd.doc_filename,
+    pd.page_matches,
+    -- Excerpts are only built for the pages being returned
+    (
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'pageNumber', t.page_num,
+          'excerpt', CASE
+            WHEN t.is_exact THEN ts_headline('english', t.chunk_text, v_exact_query, 'MaxWords=40, MinWords=20, MaxFragments=1')
+            ELSE fuzzy_keyword_headline(t.chunk_text, p_search_query, p_similarity_threshold)
+          END,
+          'score', ROUND(t.rank::numeric, 4),
+          'fuzzy', NOT t.is_exact
+        ) ORDER BY t.is_exact DESC, t.rank DESC
+      )
+      FROM top_pages_per_doc t
+      WHERE t.doc_id = pd.doc_id AND t.doc_page_rank <= p_max_pages_per_doc
+    ),
+    pd.doc_count,
+    (pd.doc_count > p_page_offset + p_page_size)
+  FROM paginated_docs pd
+  WHERE pd.row_num > p_page_offset AND pd.row_num <= p_page_offset + p_page_size
+  ORDER BY pd.row_num;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION search_document_keywords_fuzzy(UUID, TEXT, INTEGER, INTEGER, INTEGER, REAL, UUID, JSONB) TO authenticated;
+
+-- =====================================================
+
+-- =====================================================
+-- REGEX KEYWORD SEARCH
+-- =====================================================
+
+-- Exact-pattern search over extracted text, e.g. EINs (\d{2}-\d{7}) or placeholders like [●].
+-- Patterns are PostgreSQL regular expressions; exact-string searches arrive as ***= literals.
+-- A document qualifies when its extracted_text matches, then the match is located on pages
+-- using pages_text, or chunk text for documents processed before page text was stored.
+-- A match that straddles a page break has no page and is not returned.
+-- regexp_instr/regexp_count/regexp_like need PostgreSQL 15+.
+--
+-- Pattern complexity is limited by the API (lib/search/regex-search). Run time is bounded by
+-- a deadline checked before every regex evaluation, because statement_timeout cannot be
+-- lowered for a statement that is already running.
+
+-- Function: regex_search_within_deadline
+-- Purpose: Cancel the search (SQLSTATE 57014) once it runs past p_deadline
+CREATE OR REPLACE FUNCTION regex_search_within_deadline(p_deadline TIMESTAMPTZ)
+RETURNS BOOLEAN AS $$
+BEGIN
+  IF clock_timestamp() > p_deadline THEN
+    RAISE EXCEPTION 'Regex search exceeded its time limit' USING ERRCODE = 'query_canceled';
+  END IF;
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql VOLATILE;
+
+-- Function: regex_match_excerpt
+-- Purpose: Text around the first match with the match wrapped in <b>, like ts_headline output
+CREATE OR REPLACE FUNCTION regex_match_excerpt(
+  p_text TEXT,
+  p_pattern TEXT,
+  p_flags TEXT
+)
+RETURNS TEXT AS $$
+DECLARE
+  v_context CONSTANT INTEGER := 100;
+  v_start INTEGER := regexp_instr(p_text, p_pattern, 1, 1, 0, p_flags);
+  v_end INTEGER := regexp_instr(p_text, p_pattern, 1, 1, 1, p_flags);
+BEGIN
+  IF v_start = 0 THEN
+    RETURN left(p_text, 200);
+  END IF;
+
+  RETURN regexp_replace(
+    CASE WHEN v_start > v_context + 1 THEN '…' ELSE '' END
+      || substr(p_text, GREATEST(v_start - v_context, 1), LEAST(v_start - 1, v_context))
+      || '<b>' || substr(p_text, v_start, v_end - v_start) || '</b>'
+      || substr(p_text, v_end, v_context)
+      || CASE WHEN v_end + v_context <= length(p_text) THEN '…' ELSE '' END,
+    '\s+', ' ', 'g'
+  );
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Function: search_document_keywords_regex
+-- Purpose: Pattern variant of search_document_keywords_paginated (same result shape; each match
+--          also carries "occurrences", the number of matches on the page)
+-- Documents rank by total occurrences and list their pages in page order.
+-- p_document_id: restrict to one document (used to load more pages for a result)
+-- p_filters: same filters as search_document_keywords_paginated
+-- p_timeout_ms: search deadline, clamped to 100ms-15s
+CREATE OR REPLACE FUNCTION search_document_keywords_regex(
+  p_user_id UUID,
+  p_pattern TEXT,
+  p_case_sensitive BOOLEAN DEFAULT TRUE,
+  p_max_pages_per_doc INTEGER DEFAULT 3,
+  p_page_size INTEGER DEFAULT 20,
+  p_page_offset INTEGER DEFAULT 0,
+  p_document_id UUID DEFAULT NULL,
+  p_filters JSONB DEFAULT NULL,
+  p_timeout_ms INTEGER DEFAULT 5000
+)
+RETURNS TABLE (
+  document_id UUID,
+  title TEXT,
+  filename TEXT,
+  total_matches BIGINT,
+  matches JSONB,
+  total_documents BIGINT,
+  has_more BOOLEAN
+) AS $$
+DECLARE
+  v_flags TEXT := CASE WHEN p_case_sensitive THEN 'c' ELSE 'i' END;
+  v_deadline TIMESTAMPTZ := clock_timestamp()
+    + make_interval(secs => LEAST(GREATEST(p_timeout_ms, 100), 15000) / 1000.0);
+BEGIN
+  RETURN QUERY
+  WITH matched_docs AS (
+    SELECT
+      d.id AS doc_id,
+      d.title AS doc_title,
+      d.filename AS doc_filename,
+      dc.pages_text
+    FROM documents d
+    INNER JOIN document_content dc ON dc.document_id = d.id
+    WHERE
+      d.user_id = p_user_id
+      AND d.status = 'completed'
+      AND (p_document_id IS NULL OR d.id = p_document_id)
+      AND keyword_search_document_filter(d.metadata, d.template_cluster_id, d.created_at, p_filters)
+      -- CASE guarantees the deadline is checked before each regex evaluation
+      AND CASE
+        WHEN regex_search_within_deadline(v_deadline) THEN regexp_like(dc.extracted_text, p_pattern, v_flags)
+        ELSE FALSE
+      END
+  ),
+  page_texts AS (
+    SELECT
+      md.doc_id,
+      md.doc_title,
+      md.doc_filename,
+      (p.page->>'pageNumber')::INTEGER AS page_num,
+      (p.page->>'pageNumber')::INTEGER AS end_page_num,
+      p.page->>'text' AS page_text
+    FROM matched_docs md
+    CROSS JOIN LATERAL jsonb_array_elements(COALESCE(md.pages_text, '[]'::jsonb)) AS p(page)
+    UNION ALL
+    SELECT
+      md.doc_id,
+      md.doc_title,
+      md.doc_filename,
+      COALESCE(de.start_page_number, de.page_number),
+      COALESCE(de.end_page_number, de.page_number),
+      de.chunk_text
+    FROM matched_docs md
+    INNER JOIN document_embeddings de ON de.document_id = md.doc_id
+    WHERE COALESCE(jsonb_array_length(md.pages_text), 0) = 0
+  ),
+  matched_pages AS (
+    SELECT
+      pt.doc_id,
+      pt.doc_title,
+      pt.doc_filename,
+      pt.page_num,
+      pt.page_text,
+      regexp_count(pt.page_text, p_pattern, 1, v_flags) AS occurrences
+    FROM page_texts pt
+    WHERE
+      keyword_search_page_filter(pt.page_num, pt.end_page_num, p_filters)
+      AND CASE
+        WHEN regex_search_within_deadline(v_deadline) THEN regexp_like(pt.page_text, p_pattern, v_flags)
+        ELSE FALSE
+      END
+  ),
+  best_text_per_page AS (
+    -- Chunk fallback can yield several chunks per page
+    SELECT
+      mp.*,
+      ROW_NUMBER() OVER (PARTITION BY mp.doc_id, mp.page_num ORDER BY mp.occurrences DESC) AS page_rank
+    FROM matched_pages mp
+  ),
+  pages_per_doc AS (
+    SELECT
+      b.*,
+      ROW_NUMBER() OVER (PARTITION BY b.doc_id ORDER BY b.page_num ASC) AS doc_page_rank
+    FROM best_text_per_page b
+    WHERE b.page_rank = 1
+  ),
+  doc_stats AS (
+    SELECT
+      p.doc_id,
+      p.doc_title,
+      p.doc_filename,
+      COUNT(*) AS page_matches,
+      SUM(p.occurrences) AS total_occurrences
+    FROM pages_per_doc p
+    GROUP BY p.doc_id, p.doc_title, p.doc_filename
+  ),
+  paginated_docs AS (
+    SELECT
+      ds.*,
+      ROW_NUMBER() OVER (ORDER BY ds.total_occurrences DESC, ds.doc_title ASC, ds.doc_id) AS row_num,
+      COUNT(*) OVER () AS doc_count
+    FROM doc_stats ds
+  )
+  SELECT
+    pd.doc_id,
+    pd.doc_title,
+    pd.doc_filename,
+    pd.page_matches,
+    -- Excerpts are only built for the pages being returned
+    (
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'pageNumber', p.page_num,
+          'excerpt', regex_match_excerpt(p.page_text, p_pattern, v_flags),
+          'score', 1,
+          'occurrences', p.occurrences
+        ) ORDER BY p.page_num ASC
+      )
+      FROM pages_per_doc p
+      WHERE p.doc_id = pd.doc_id AND p.doc_page_rank <= p_max_pages_per_doc
+    ),
+    pd.doc_count,
+    (pd.doc_count > p_page_offset + p_page_size)
+  FROM paginated_docs pd
+  WHERE pd.row_num > p_page_offset AND pd.row_num <= p_page_offset + p_page_size
+  ORDER BY pd.row_num;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION search_document_keywords_regex(UUID, TEXT, BOOLEAN, INTEGER, INTEGER, INTEGER, UUID, JSONB, INTEGER) TO authenticated;
 
 -- =====================================================
@@ -6,7 +6,7 @@ const __dirname = dirname(__filename)
 
 /** @type {import('next').NextConfig} */
 const nextConfig = {
-  serverExternalPackages: ['@google-cloud/documentai'],
+  serverExternalPackages: ['@google-cloud/documentai', 'pdfjs-dist'],
 
   // Docker configuration
   output: 'standalone',
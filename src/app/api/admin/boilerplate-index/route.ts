@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/api-auth'
+import { rebuildBoilerplateIndex } from '@/lib/boilerplate-index'
+import { apiSuccess, handleApiError } from '@/lib/utils/api-response'
+import { logger } from '@/lib/logger'
+
+/**
+ * POST /api/admin/boilerplate-index
+ *
+ * Recount how many documents share each chunk cluster (admin only). Processing keeps
+ * counts current for new documents; run this after deletions or the initial backfill.
+ */
+export async function POST(request: NextRequest) {
+  const authResult = await requireAdmin(request)
+  if (authResult instanceof NextResponse) {
+    return authResult
+  }
+
+  try {
+    const startTime = Date.now()
+    const sharedClusters = await rebuildBoilerplateIndex()
+
+    logger.info('Boilerplate index rebuild requested', {
+      requestedBy: authResult.userId,
+      sharedClusters,
+      durationMs: Date.now() - startTime
+    })
+
+    return apiSuccess({ sharedClusters })
+  } catch (error) {
+    return handleApiError(error, 'Failed to rebuild boilerplate index')
+  }
+}
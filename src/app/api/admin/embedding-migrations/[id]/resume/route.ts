@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/api-auth'
+import { getEmbeddingMigrationProgress, resumeEmbeddingMigration } from '@/lib/embedding-migration'
+import { apiSuccess, handleApiError, notFoundError } from '@/lib/utils/api-response'
+import { logger } from '@/lib/logger'
+
+function triggerCronProcessing(request: NextRequest) {
+  const cronSecret = process.env['CRON_SECRET']
+  if (!cronSecret) {
+    logger.warn('CRON_SECRET not set; skipping auto-trigger of cron job')
+    return
+  }
+
+  try {
+    const cronUrl = new URL('/api/cron/process-jobs', request.url)
+    fetch(cronUrl.toString(), {
+      method: 'GET',
+      headers: {
+        authorization: `Bearer ${cronSecret}`,
+        'user-agent': 'EmbeddingMigrationAutoTrigger'
+      }
+    }).catch(error => {
+      logger.warn('Auto-triggered cron job failed', { error: error instanceof Error ? error.message : String(error) })
+    })
+  } catch (error) {
+    logger.warn('Failed to construct cron trigger URL', { error: error instanceof Error ? error.message : String(error) })
+  }
+}
+
+/**
+ * POST /api/admin/embedding-migrations/[id]/resume
+ *
+ * Re-queue failed jobs of a running migration; each job continues from its last
+ * checkpointed chunk (admin only)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const authResult = await requireAdmin(request)
+  if (authResult instanceof NextResponse) {
+    return authResult
+  }
+
+  try {
+    const { id } = await params
+    const existing = await getEmbeddingMigrationProgress(id)
+    if (!existing || existing.migration.status !== 'running') {
+      return notFoundError('Running embedding migration not found')
+    }
+
+    const requeued = await resumeEmbeddingMigration(id)
+    if (requeued > 0) {
+      triggerCronProcessing(request)
+    }
+
+    return apiSuccess({ requeued, progress: await getEmbeddingMigrationProgress(id) })
+  } catch (error) {
+    return handleApiError(error, 'Failed to resume embedding migration')
+  }
+}
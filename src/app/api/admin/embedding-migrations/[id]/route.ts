@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/api-auth'
+import { getEmbeddingMigrationProgress } from '@/lib/embedding-migration'
+import { apiSuccess, handleApiError, notFoundError } from '@/lib/utils/api-response'
+
+/**
+ * GET /api/admin/embedding-migrations/[id]
+ *
+ * Job progress for one embedding migration (admin only)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const authResult = await requireAdmin(request)
+  if (authResult instanceof NextResponse) {
+    return authResult
+  }
+
+  try {
+    const { id } = await params
+    const progress = await getEmbeddingMigrationProgress(id)
+    if (!progress) {
+      return notFoundError('Embedding migration not found')
+    }
+
+    return apiSuccess(progress)
+  } catch (error) {
+    return handleApiError(error, 'Failed to load embedding migration')
+  }
+}
@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/api-auth'
+import { isRegisteredEmbeddingModel, listEmbeddingModels } from '@/lib/embeddings'
+import {
+  EmbeddingMigrationConflictError,
+  getEmbeddingMigrationProgress,
+  listEmbeddingMigrations,
+  startEmbeddingMigration
+} from '@/lib/embedding-migration'
+import { apiError, apiSuccess, createdResponse, handleApiError, validationError } from '@/lib/utils/api-response'
+import { ERROR_CODES, HTTP_STATUS } from '@/lib/constants'
+import { logger } from '@/lib/logger'
+
+function triggerCronProcessing(request: NextRequest) {
+  const cronSecret = process.env['CRON_SECRET']
+  if (!cronSecret) {
+    logger.warn('CRON_SECRET not set; skipping auto-trigger of cron job')
+    return
+  }
+
+  try {
+    const cronUrl = new URL('/api/cron/process-jobs', request.url)
+    fetch(cronUrl.toString(), {
+      method: 'GET',
+      headers: {
+        authorization: `Bearer ${cronSecret}`,
+        'user-agent': 'EmbeddingMigrationAutoTrigger'
+      }
+    }).catch(error => {
+      logger.warn('Auto-triggered cron job failed', { error: error instanceof Error ? error.message : String(error) })
+    })
+  } catch (error) {
+    logger.warn('Failed to construct cron trigger URL', { error: error instanceof Error ? error.message : String(error) })
+  }
+}
+
+/**
+ * GET /api/admin/embedding-migrations
+ *
+ * List recent embedding migrations with job progress for the running one (admin only)
+ */
+export async function GET(request: NextRequest) {
+  const authResult = await requireAdmin(request)
+  if (authResult instanceof NextResponse) {
+    return authResult
+  }
+
+  try {
+    const migrations = await listEmbeddingMigrations()
+    const running = migrations.find(migration => migration.status === 'running')
+
+    return apiSuccess({
+      migrations,
+      running: running ? await getEmbeddingMigrationProgress(running.id) : null
+    })
+  } catch (error) {
+    return handleApiError(error, 'Failed to list embedding migrations')
+  }
+}
+
+/**
+ * POST /api/admin/embedding-migrations
+ *
+ * Start re-embedding the corpus with a new model (admin only)
+ *
+ * Request body:
+ * - targetModel: string (a registered embedding model)
+ */
+export async function POST(request: NextRequest) {
+  const authResult = await requireAdmin(request)
+  if (authResult instanceof NextResponse) {
+    return authResult
+  }
+
+  let targetModel: unknown
+  try {
+    const body = await request.json()
+    targetModel = body?.targetModel
+  } catch {
+    return validationError('Invalid request body')
+  }
+
+  if (typeof targetModel !== 'string' || !isRegisteredEmbeddingModel(targetModel)) {
+    return validationError(`targetModel must be one of: ${listEmbeddingModels().join(', ')}`)
+  }
+
+  try {
+    const migration = await startEmbeddingMigration(targetModel, authResult.userId)
+    triggerCronProcessing(request)
+    return createdResponse({ migration })
+  } catch (error) {
+    if (error instanceof EmbeddingMigrationConflictError) {
+      return apiError(error.message, ERROR_CODES.CONFLICT, HTTP_STATUS.CONFLICT)
+    }
+    logger.error('Failed to start embedding migration', error as Error, { targetModel })
+    return handleApiError(error, 'Failed to start embedding migration')
+  }
+}
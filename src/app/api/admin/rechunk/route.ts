@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/api-auth'
+import { queueRechunkJobs } from '@/lib/document-rechunk'
+import { apiSuccess, handleApiError, validationError } from '@/lib/utils/api-response'
+import { logger } from '@/lib/logger'
+
+function triggerCronProcessing(request: NextRequest) {
+  const cronSecret = process.env['CRON_SECRET']
+  if (!cronSecret) {
+    logger.warn('CRON_SECRET not set; skipping auto-trigger of cron job')
+    return
+  }
+
+  try {
+    const cronUrl = new URL('/api/cron/process-jobs', request.url)
+    fetch(cronUrl.toString(), {
+      method: 'GET',
+      headers: {
+        authorization: `Bearer ${cronSecret}`,
+        'user-agent': 'RechunkAutoTrigger'
+      }
+    }).catch(error => {
+      logger.warn('Auto-triggered cron job failed', { error: error instanceof Error ? error.message : String(error) })
+    })
+  } catch (error) {
+    logger.warn('Failed to construct cron trigger URL', { error: error instanceof Error ? error.message : String(error) })
+  }
+}
+
+/**
+ * POST /api/admin/rechunk
+ *
+ * Queue rechunk jobs that rebuild chunks, embeddings and centroids from stored OCR
+ * output (admin only)
+ *
+ * Request body (optional):
+ * - documentIds: string[] (defaults to every completed document)
+ */
+export async function POST(request: NextRequest) {
+  const authResult = await requireAdmin(request)
+  if (authResult instanceof NextResponse) {
+    return authResult
+  }
+
+  let documentIds: unknown
+  try {
+    const rawBody = await request.text()
+    documentIds = rawBody.trim() ? JSON.parse(rawBody)?.documentIds : undefined
+  } catch {
+    return validationError('Invalid request body')
+  }
+
+  if (
+    documentIds !== undefined &&
+    (!Array.isArray(documentIds) || documentIds.length === 0 || !documentIds.every(id => typeof id === 'string'))
+  ) {
+    return validationError('documentIds must be a non-empty array of document IDs')
+  }
+
+  try {
+    const result = await queueRechunkJobs(documentIds as string[] | undefined)
+    if (result.queued > 0) {
+      triggerCronProcessing(request)
+    }
+
+    logger.info('Rechunk requested', {
+      requestedBy: authResult.userId,
+      scope: documentIds ? 'selected' : 'all',
+      queued: result.queued
+    })
+
+    return apiSuccess(result)
+  } catch (error) {
+    return handleApiError(error, 'Failed to queue rechunk jobs')
+  }
+}
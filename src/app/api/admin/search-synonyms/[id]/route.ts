@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/api-auth'
+import {
+  SynonymGroupConflictError,
+  SynonymGroupInputError,
+  deleteSynonymGroup,
+  normalizeSynonymTerms,
+  updateSynonymGroup
+} from '@/lib/search/synonyms'
+import { apiError, apiSuccess, handleApiError, notFoundError, validationError } from '@/lib/utils/api-response'
+import { ERROR_CODES, HTTP_STATUS } from '@/lib/constants'
+import { logger } from '@/lib/logger'
+
+/**
+ * PUT /api/admin/search-synonyms/[id]
+ *
+ * Replace the terms of a synonym group (admin only)
+ * Body: { terms: string[] }
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const authResult = await requireAdmin(request)
+  if (authResult instanceof NextResponse) {
+    return authResult
+  }
+
+  let body: { terms?: unknown }
+  try {
+    body = await request.json()
+  } catch {
+    return validationError('Invalid JSON in request body')
+  }
+
+  try {
+    const { id } = await params
+    const group = await updateSynonymGroup(id, normalizeSynonymTerms(body.terms))
+    if (!group) {
+      return notFoundError('Synonym group not found')
+    }
+
+    logger.info('Search synonym group updated', {
+      groupId: id,
+      terms: group.terms,
+      requestedBy: authResult.userId
+    })
+
+    return apiSuccess({ group })
+  } catch (error) {
+    if (error instanceof SynonymGroupInputError) {
+      return validationError(error.message)
+    }
+    if (error instanceof SynonymGroupConflictError) {
+      return apiError(error.message, ERROR_CODES.CONFLICT, HTTP_STATUS.CONFLICT)
+    }
+    return handleApiError(error, 'Failed to update synonym group')
+  }
+}
+
+/**
+ * DELETE /api/admin/search-synonyms/[id]
+ *
+ * Remove a synonym group (admin only)
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const authResult = await requireAdmin(request)
+  if (authResult instanceof NextResponse) {
+    return authResult
+  }
+
+  try {
+    const { id } = await params
+    if (!(await deleteSynonymGroup(id))) {
+      return notFoundError('Synonym group not found')
+    }
+
+    logger.info('Search synonym group deleted', { groupId: id, requestedBy: authResult.userId })
+
+    return apiSuccess({ deleted: true })
+  } catch (error) {
+    return handleApiError(error, 'Failed to delete synonym group')
+  }
+}
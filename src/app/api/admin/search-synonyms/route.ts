@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/api-auth'
+import {
+  SynonymGroupConflictError,
+  SynonymGroupInputError,
+  createSynonymGroup,
+  listSynonymGroups,
+  normalizeSynonymTerms
+} from '@/lib/search/synonyms'
+import { apiError, apiSuccess, handleApiError, validationError } from '@/lib/utils/api-response'
+import { ERROR_CODES, HTTP_STATUS } from '@/lib/constants'
+import { logger } from '@/lib/logger'
+
+/**
+ * GET /api/admin/search-synonyms
+ *
+ * Every synonym group used by keyword search and Jaccard scoring (admin only)
+ */
+export async function GET(request: NextRequest) {
+  const authResult = await requireAdmin(request)
+  if (authResult instanceof NextResponse) {
+    return authResult
+  }
+
+  try {
+    return apiSuccess({ groups: await listSynonymGroups() })
+  } catch (error) {
+    return handleApiError(error, 'Failed to load search synonyms')
+  }
+}
+
+/**
+ * POST /api/admin/search-synonyms
+ *
+ * Create a synonym group (admin only)
+ * Body: { terms: string[] } - at least two equivalent terms, e.g. ["LPA", "Limited Partnership Agreement"]
+ */
+export async function POST(request: NextRequest) {
+  const authResult = await requireAdmin(request)
+  if (authResult instanceof NextResponse) {
+    return authResult
+  }
+
+  let body: { terms?: unknown }
+  try {
+    body = await request.json()
+  } catch {
+    return validationError('Invalid JSON in request body')
+  }
+
+  try {
+    const group = await createSynonymGroup(normalizeSynonymTerms(body.terms))
+
+    logger.info('Search synonym group created', {
+      groupId: group.id,
+      terms: group.terms,
+      requestedBy: authResult.userId
+    })
+
+    return apiSuccess({ group }, HTTP_STATUS.CREATED)
+  } catch (error) {
+    if (error instanceof SynonymGroupInputError) {
+      return validationError(error.message)
+    }
+    if (error instanceof SynonymGroupConflictError) {
+      return apiError(error.message, ERROR_CODES.CONFLICT, HTTP_STATUS.CONFLICT)
+    }
+    return handleApiError(error, 'Failed to create synonym group')
+  }
+}
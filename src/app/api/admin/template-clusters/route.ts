@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse, after } from 'next/server'
+import { requireAdmin } from '@/lib/api-auth'
+import {
+  TemplateClusterRunConflictError,
+  createTemplateClusterRun,
+  getLatestTemplateClusterRun,
+  runTemplateClustering
+} from '@/lib/similarity/template-clusters'
+import { apiError, apiSuccess, handleApiError } from '@/lib/utils/api-response'
+import { ERROR_CODES, HTTP_STATUS } from '@/lib/constants'
+import { logger } from '@/lib/logger'
+
+/**
+ * GET /api/admin/template-clusters
+ *
+ * Status of the most recent template clustering run (admin only)
+ */
+export async function GET(request: NextRequest) {
+  const authResult = await requireAdmin(request)
+  if (authResult instanceof NextResponse) {
+    return authResult
+  }
+
+  try {
+    return apiSuccess({ run: await getLatestTemplateClusterRun() })
+  } catch (error) {
+    return handleApiError(error, 'Failed to load template clustering run')
+  }
+}
+
+/**
+ * POST /api/admin/template-clusters
+ *
+ * Re-cluster the whole corpus into template families in the background (admin only).
+ * Returns 202 with the run ID; poll GET for progress. New uploads are assigned to the
+ * stored clusters automatically, so rebuild after bulk imports or threshold changes.
+ */
+export async function POST(request: NextRequest) {
+  const authResult = await requireAdmin(request)
+  if (authResult instanceof NextResponse) {
+    return authResult
+  }
+
+  try {
+    const runId = await createTemplateClusterRun(authResult.userId)
+
+    after(() => runTemplateClustering(runId))
+
+    logger.info('Template clustering run queued', { runId, requestedBy: authResult.userId })
+
+    return apiSuccess({ runId, status: 'queued' }, HTTP_STATUS.ACCEPTED)
+  } catch (error) {
+    if (error instanceof TemplateClusterRunConflictError) {
+      return apiError(error.message, ERROR_CODES.CONFLICT, HTTP_STATUS.CONFLICT)
+    }
+    return handleApiError(error, 'Failed to start template clustering')
+  }
+}
@@ -0,0 +1,129 @@
+/**
+ * Document Comparison API Route
+ * Creates a comparison with the requested provider and returns its viewer URL.
+ * The native provider diffs stored extracted text in-app; Draftable is optional.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateRequest } from '@/lib/api-auth'
+import { createDraftableComparison, isDraftableConfigured, type DraftableSourceDocument } from '@/lib/draftable'
+import {
+  COMPARISON_PROVIDERS,
+  getDefaultComparisonProvider,
+  getNativeComparisonPath,
+  isComparisonProvider
+} from '@/lib/comparison/provider'
+import { logger } from '@/lib/logger'
+
+export async function POST(request: NextRequest) {
+  try {
+    // Authenticate request using centralized helper
+    // Supports: JWT tokens, service role (test-only), and cookie-based sessions
+    const authResult = await authenticateRequest(request)
+    if (authResult instanceof NextResponse) {
+      return authResult // Return error response
+    }
+
+    const { userId, supabase } = authResult
+
+    // Parse request body
+    const body = await request.json()
+    const { sourceDocId, targetDocId, provider: requestedProvider } = body
+
+    if (!sourceDocId || !targetDocId) {
+      return NextResponse.json({
+        error: 'Missing required parameters: sourceDocId and targetDocId'
+      }, { status: 400 })
+    }
+
+    if (requestedProvider !== undefined && !isComparisonProvider(requestedProvider)) {
+      return NextResponse.json({
+        error: `provider must be one of: ${COMPARISON_PROVIDERS.join(', ')}`
+      }, { status: 400 })
+    }
+
+    const provider = requestedProvider ?? getDefaultComparisonProvider()
+
+    if (provider === 'draftable' && !isDraftableConfigured()) {
+      return NextResponse.json({
+        error: 'Draftable is not configured - use the native provider instead'
+      }, { status: 400 })
+    }
+
+    logger.info('Creating document comparison', {
+      userId,
+      sourceDocId,
+      targetDocId,
+      provider
+    })
+
+    // Fetch source document metadata
+    const { data: sourceDoc, error: sourceError } = await supabase
+      .from('documents')
+      .select('file_path, title, content_type')
+      .eq('id', sourceDocId)
+      .single()
+
+    if (sourceError || !sourceDoc) {
+      logger.error('Source document not found', sourceError as Error, {
+        sourceDocId,
+        userId
+      })
+      return NextResponse.json({ error: 'Source document not found' }, { status: 404 })
+    }
+
+    // Fetch target document metadata
+    const { data: targetDoc, error: targetError } = await supabase
+      .from('documents')
+      .select('file_path, title, content_type')
+      .eq('id', targetDocId)
+      .single()
+
+    if (targetError || !targetDoc) {
+      logger.error('Target document not found', targetError as Error, {
+        targetDocId,
+        userId
+      })
+      return NextResponse.json({ error: 'Target document not found' }, { status: 404 })
+    }
+
+    if (provider === 'native') {
+      // The redline itself is computed when the in-app viewer loads
+      return NextResponse.json({
+        success: true,
+        provider,
+        viewerUrl: getNativeComparisonPath(sourceDocId, targetDocId)
+      })
+    }
+
+    const comparison = await createDraftableComparison(
+      supabase,
+      sourceDoc as unknown as DraftableSourceDocument,
+      targetDoc as unknown as DraftableSourceDocument
+    )
+
+    logger.info('Draftable comparison created successfully', {
+      identifier: comparison.identifier,
+      sourceDocId,
+      targetDocId,
+      userId
+    })
+
+    return NextResponse.json({
+      success: true,
+      provider,
+      viewerUrl: comparison.viewerUrl,
+      identifier: comparison.identifier,
+      ready: comparison.ready
+    })
+
+  } catch (error) {
+    logger.error('Document comparison error', error as Error)
+    return NextResponse.json({
+      error: 'Failed to create comparison',
+      ...(process.env.NODE_ENV === 'development' && {
+        details: error instanceof Error ? error.message : 'Unknown error'
+      })
+    }, { status: 500 })
+  }
+}
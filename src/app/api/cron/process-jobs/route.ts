@@ -1,7 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server'
 import type { SupabaseClient } from '@supabase/supabase-js'
 import { createServiceClient, releaseServiceClient } from '@/lib/supabase/server'
-import { processDocument } from '@/lib/document-processing'
+import { processDocument, rechunkDocument } from '@/lib/document-processing'
+import { RECHUNK_OPERATION } from '@/lib/document-rechunk'
+import {
+  EMBEDDING_MIGRATION_OPERATION,
+  finalizeEmbeddingMigration,
+  runEmbeddingMigrationJob
+} from '@/lib/embedding-migration'
 import { logger, withRequestContext, generateCorrelationId } from '@/lib/logger'
 import type { GenericSupabaseSchema } from '@/types/supabase'
 
@@ -50,6 +56,7 @@ interface DocumentJobRecord {
   id: string
   document_id: string
   user_id: string
+  operation_type?: string | null
   status: JobStatus
   attempts: number
   max_attempts: number
@@ -59,6 +66,7 @@ interface DocumentJobRecord {
   started_at?: string | null
   completed_at?: string | null
   result_summary?: Record<string, unknown> | null
+  processing_config?: Record<string, unknown> | null
   metadata?: Record<string, unknown> | null
 }
 
@@ -117,6 +125,156 @@ function needsBatchProcessing(fileSize: number, filename: string): boolean {
   return false // Always start with sync
 }
 
+/**
+ * Re-embed one document for an embedding model migration
+ * Unlike document processing this never touches documents.status - the document stays
+ * searchable on its current model until the migration is activated
+ */
+async function processEmbeddingMigrationJob(
+  supabase: ServiceSupabase,
+  job: DocumentJobRecord
+) {
+  const processingStartedAt = Date.now()
+
+  try {
+    const result = await runEmbeddingMigrationJob(job)
+    const processingTimeMs = Date.now() - processingStartedAt
+
+    await supabase
+      .from('document_jobs')
+      .update({
+        status: 'completed',
+        completed_at: new Date().toISOString(),
+        processing_time_ms: processingTimeMs,
+        result_summary: {
+          ...result,
+          processing_time_ms: processingTimeMs
+        }
+      })
+      .eq('id', job.id)
+
+    if (!result.skipped) {
+      try {
+        await finalizeEmbeddingMigration(result.migrationId)
+      } catch (finalizeError) {
+        // The next completed job retries activation
+        logger.warn('Failed to finalize embedding migration', {
+          jobId: job.id,
+          migrationId: result.migrationId,
+          error: finalizeError instanceof Error ? finalizeError.message : String(finalizeError),
+          component: 'cron-job'
+        })
+      }
+    }
+
+    return {
+      message: 'Embedding migration job completed',
+      jobId: job.id,
+      documentId: job.document_id
+    }
+  } catch (migrationError) {
+    const errorMessage = migrationError instanceof Error ? migrationError.message : 'Unknown error'
+    logger.error('Embedding migration job failed', migrationError as Error, {
+      jobId: job.id,
+      documentId: job.document_id,
+      attempt: job.attempts,
+      component: 'cron-job'
+    })
+
+    if (job.attempts < job.max_attempts) {
+      // Chunk checkpoint in job metadata lets the retry resume where this attempt stopped
+      await supabase
+        .from('document_jobs')
+        .update({ status: 'queued' })
+        .eq('id', job.id)
+
+      return {
+        message: 'Embedding migration job failed, marked for retry',
+        jobId: job.id,
+        documentId: job.document_id
+      }
+    }
+
+    await supabase
+      .from('document_jobs')
+      .update({
+        status: 'error',
+        completed_at: new Date().toISOString(),
+        error_message: errorMessage
+      })
+      .eq('id', job.id)
+
+    throw new Error(`Embedding migration job failed permanently: ${errorMessage}`)
+  }
+}
+
+/**
+ * Rebuild chunks and embeddings from stored OCR output
+ * rechunkDocument() owns the document status, so this only settles the job row
+ */
+async function processRechunkJob(
+  supabase: ServiceSupabase,
+  job: DocumentJobRecord
+) {
+  const processingStartedAt = Date.now()
+
+  try {
+    const result = await rechunkDocument(job.document_id)
+    const processingTimeMs = Date.now() - processingStartedAt
+
+    await supabase
+      .from('document_jobs')
+      .update({
+        status: 'completed',
+        completed_at: new Date().toISOString(),
+        processing_time_ms: processingTimeMs,
+        result_summary: {
+          ...result,
+          processing_time_ms: processingTimeMs
+        }
+      })
+      .eq('id', job.id)
+
+    return {
+      message: 'Rechunk job completed',
+      jobId: job.id,
+      documentId: job.document_id
+    }
+  } catch (rechunkError) {
+    const errorMessage = rechunkError instanceof Error ? rechunkError.message : 'Unknown error'
+    logger.error('Rechunk job failed', rechunkError as Error, {
+      jobId: job.id,
+      documentId: job.document_id,
+      attempt: job.attempts,
+      component: 'cron-job'
+    })
+
+    if (job.attempts < job.max_attempts) {
+      await supabase
+        .from('document_jobs')
+        .update({ status: 'queued' })
+        .eq('id', job.id)
+
+      return {
+        message: 'Rechunk job failed, marked for retry',
+        jobId: job.id,
+        documentId: job.document_id
+      }
+    }
+
+    await supabase
+      .from('document_jobs')
+      .update({
+        status: 'error',
+        completed_at: new Date().toISOString(),
+        error_message: errorMessage
+      })
+      .eq('id', job.id)
+
+    throw new Error(`Rechunk job failed permanently: ${errorMessage}`)
+  }
+}
+
 // Extract job processing logic into a separate function
 async function processJob(
   supabase: ServiceSupabase,
@@ -129,6 +287,14 @@ async function processJob(
     component: 'cron-job'
   })
 
+  if (job.operation_type === EMBEDDING_MIGRATION_OPERATION) {
+    return await processEmbeddingMigrationJob(supabase, job)
+  }
+
+  if (job.operation_type === RECHUNK_OPERATION) {
+    return await processRechunkJob(supabase, job)
+  }
+
   try {
     // Job status was already set to 'processing' by claim_jobs_for_processing()
     // Just need to update the document status
@@ -630,9 +796,11 @@ export async function GET(request: NextRequest) {
       id: string
       document_id: string
       user_id: string
+      operation_type?: string | null
       status: JobStatus
       attempts: number
       processing_method?: ProcessingMethod | null
+      processing_config?: Record<string, unknown> | null
       batch_operation_id?: string | null
       started_at?: string | null
       completed_at?: string | null
@@ -663,9 +831,11 @@ export async function GET(request: NextRequest) {
         id: job.id,
         document_id: job.document_id,
         user_id: job.user_id,
+        operation_type: job.operation_type,
         status: job.status,
         attempts: job.attempts,
         processing_method: job.processing_method,
+        processing_config: job.processing_config,
         batch_operation_id: job.batch_operation_id,
         started_at: job.started_at,
         completed_at: job.completed_at,
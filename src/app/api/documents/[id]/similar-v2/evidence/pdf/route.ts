@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateRequest } from '@/lib/api-auth'
+import { prepareSimilarityEvidenceRequest } from '@/lib/similarity/evidence'
+import { buildAnnotatedPdf, type AnnotatedPdfSide } from '@/lib/similarity/annotated-pdf'
+import { handleApiError, notFoundError, validationError } from '@/lib/utils/api-response'
+
+const SIDES: AnnotatedPdfSide[] = ['source', 'target']
+
+/**
+ * GET /api/documents/[id]/similar-v2/evidence/pdf
+ *
+ * Copy of the source or target PDF with matched regions highlighted and labelled with
+ * the corresponding pages in the other document
+ *
+ * Query parameters:
+ * - side: 'source' | 'target' (default 'source')
+ * - targetId, start_page, end_page, threshold, boilerplate_weighting: as for /evidence
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const authResult = await authenticateRequest(request)
+  if (authResult instanceof NextResponse) {
+    return authResult
+  }
+
+  const { id } = await params
+  const searchParams = request.nextUrl.searchParams
+  const side = (searchParams.get('side') ?? 'source') as AnnotatedPdfSide
+
+  if (!SIDES.includes(side)) {
+    return validationError(`side must be one of: ${SIDES.join(', ')}`)
+  }
+
+  try {
+    const prepared = await prepareSimilarityEvidenceRequest(authResult.supabase, id, searchParams)
+    if ('error' in prepared) {
+      return prepared.error.kind === 'not_found'
+        ? notFoundError(prepared.error.message)
+        : validationError(prepared.error.message)
+    }
+
+    const annotated = await buildAnnotatedPdf(
+      id,
+      prepared.request.targetDocumentId,
+      side,
+      prepared.request.options
+    )
+
+    return new NextResponse(Buffer.from(annotated.bytes), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${annotated.filename.replace(/"/g, '')}"`,
+        'Content-Length': annotated.bytes.byteLength.toString(),
+      },
+    })
+  } catch (error) {
+    return handleApiError(error, 'Failed to generate annotated PDF')
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateRequest } from '@/lib/api-auth'
+import { computeSimilarityEvidence, prepareSimilarityEvidenceRequest } from '@/lib/similarity/evidence'
+import { apiSuccess, handleApiError, notFoundError, validationError } from '@/lib/utils/api-response'
+
+/**
+ * GET /api/documents/[id]/similar-v2/evidence
+ *
+ * Every matched chunk pair between this source document and one target, with both
+ * chunk texts, cosine and Jaccard scores and page numbers
+ *
+ * Query parameters:
+ * - targetId: string (required)
+ * - start_page, end_page: number (optional, restricts the source document)
+ * - threshold: number (default 0.90, min 0.5)
+ * - boilerplate_weighting: 'true' to weight matches by corpus boilerplate frequency
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const authResult = await authenticateRequest(request)
+  if (authResult instanceof NextResponse) {
+    return authResult
+  }
+
+  const { id } = await params
+
+  try {
+    const prepared = await prepareSimilarityEvidenceRequest(authResult.supabase, id, request.nextUrl.searchParams)
+    if ('error' in prepared) {
+      return prepared.error.kind === 'not_found'
+        ? notFoundError(prepared.error.message)
+        : validationError(prepared.error.message)
+    }
+
+    const evidence = await computeSimilarityEvidence(
+      id,
+      prepared.request.targetDocumentId,
+      prepared.request.options
+    )
+
+    return apiSuccess(evidence)
+  } catch (error) {
+    return handleApiError(error, 'Failed to compute similarity evidence')
+  }
+}
@@ -0,0 +1,143 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateRequest } from '@/lib/api-auth'
+import { isStaleSimilaritySearchJob, type SimilaritySearchJob } from '@/lib/similarity/search-jobs'
+import { logger } from '@/lib/logger'
+
+const POLL_INTERVAL_MS = 1000
+const HEARTBEAT_INTERVAL_MS = 15000
+// EventSource reconnects on its own, so long searches simply span several streams
+const MAX_STREAM_MS = 10 * 60 * 1000
+
+function formatEvent(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`
+}
+
+/**
+ * GET /api/documents/[id]/similar-v2/jobs/[jobId]/events
+ *
+ * Server-Sent Events stream for a similarity search job:
+ * - progress: stage, percentage, per-stage summary and partial Stage 2 results
+ * - complete: the final similar-v2 response
+ * - failed: the error message
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; jobId: string }> }
+) {
+  const { id, jobId } = await params
+
+  const authResult = await authenticateRequest(request)
+  if (authResult instanceof NextResponse) {
+    return authResult
+  }
+
+  const { supabase } = authResult
+
+  const loadJob = async (): Promise<SimilaritySearchJob | null> => {
+    const { data, error } = await supabase
+      .from('similarity_search_jobs')
+      .select('*')
+      .eq('id', jobId)
+      .eq('document_id', id)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(error.message)
+    }
+    return data as unknown as SimilaritySearchJob | null
+  }
+
+  let initialJob: SimilaritySearchJob | null
+  try {
+    initialJob = await loadJob()
+  } catch (error) {
+    logger.error(
+      'Failed to load similarity search job',
+      error instanceof Error ? error : new Error(String(error))
+    )
+    return NextResponse.json({ error: 'Failed to load search job' }, { status: 500 })
+  }
+
+  if (!initialJob) {
+    return NextResponse.json({ error: 'Search job not found' }, { status: 404 })
+  }
+
+  const encoder = new TextEncoder()
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const streamStart = Date.now()
+      let lastHeartbeat = Date.now()
+      let lastUpdatedAt: string | null = null
+      let job: SimilaritySearchJob | null = initialJob
+
+      let closed = false
+      const send = (chunk: string) => {
+        if (closed) return
+        try {
+          controller.enqueue(encoder.encode(chunk))
+        } catch {
+          // The client went away between polls
+          closed = true
+        }
+      }
+
+      try {
+        while (!closed && !request.signal.aborted && Date.now() - streamStart < MAX_STREAM_MS) {
+          if (!job) {
+            send(formatEvent('failed', { error: 'Search job not found' }))
+            break
+          }
+
+          if (job.status === 'completed') {
+            send(formatEvent('complete', job.response))
+            break
+          }
+
+          if (job.status === 'error' || isStaleSimilaritySearchJob(job)) {
+            send(formatEvent('failed', { error: job.error_message ?? 'Search job stopped responding' }))
+            break
+          }
+
+          if (job.updated_at !== lastUpdatedAt) {
+            lastUpdatedAt = job.updated_at
+            send(formatEvent('progress', {
+              status: job.status,
+              stage: job.stage,
+              progress: job.progress,
+              stage_summary: job.stage_summary,
+              partial_results: job.partial_results
+            }))
+          } else if (Date.now() - lastHeartbeat >= HEARTBEAT_INTERVAL_MS) {
+            // Comment lines keep proxies from closing an idle connection
+            send(': keep-alive\n\n')
+            lastHeartbeat = Date.now()
+          }
+
+          await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS))
+          job = await loadJob()
+        }
+      } catch (error) {
+        logger.warn('Similarity search job stream failed', {
+          jobId,
+          error: error instanceof Error ? error.message : String(error)
+        })
+        send(formatEvent('failed', { error: 'Lost connection to search job' }))
+      } finally {
+        if (!closed) {
+          closed = true
+          controller.close()
+        }
+      }
+    }
+  })
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    }
+  })
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateRequest } from '@/lib/api-auth'
+import { isStaleSimilaritySearchJob, type SimilaritySearchJob } from '@/lib/similarity/search-jobs'
+import { logger } from '@/lib/logger'
+
+/**
+ * GET /api/documents/[id]/similar-v2/jobs/[jobId]
+ *
+ * Current state of a similarity search job, including partial results while running
+ * and the full similar-v2 response once completed
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; jobId: string }> }
+) {
+  try {
+    const { id, jobId } = await params
+
+    const authResult = await authenticateRequest(request)
+    if (authResult instanceof NextResponse) {
+      return authResult
+    }
+
+    const { data, error } = await authResult.supabase
+      .from('similarity_search_jobs')
+      .select('*')
+      .eq('id', jobId)
+      .eq('document_id', id)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(error.message)
+    }
+
+    if (!data) {
+      return NextResponse.json({ error: 'Search job not found' }, { status: 404 })
+    }
+
+    const job = data as unknown as SimilaritySearchJob
+    return NextResponse.json({
+      ...job,
+      stale: isStaleSimilaritySearchJob(job)
+    })
+  } catch (error) {
+    logger.error(
+      'Failed to load similarity search job',
+      error instanceof Error ? error : new Error(String(error))
+    )
+    return NextResponse.json({ error: 'Failed to load search job' }, { status: 500 })
+  }
+}
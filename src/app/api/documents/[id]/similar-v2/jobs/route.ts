@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse, after } from 'next/server'
+import { authenticateRequest } from '@/lib/api-auth'
+import { prepareSimilaritySearch } from '@/lib/similarity/search-request'
+import { createSimilaritySearchJob, runSimilaritySearchJob } from '@/lib/similarity/search-jobs'
+import { logger } from '@/lib/logger'
+
+/**
+ * POST /api/documents/[id]/similar-v2/jobs
+ *
+ * Start a similarity search in the background. Accepts the same body as
+ * POST /api/documents/[id]/similar-v2 and returns 202 with the job ID; follow progress
+ * at ./jobs/[jobId]/events (SSE) or poll ./jobs/[jobId].
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+
+    const authResult = await authenticateRequest(request)
+    if (authResult instanceof NextResponse) {
+      return authResult
+    }
+
+    const body = await request.json().catch(() => ({}))
+
+    // Validate up front so bad requests fail here rather than as a failed job
+    const preparation = await prepareSimilaritySearch(authResult.supabase, id, body)
+    if ('error' in preparation) {
+      return NextResponse.json(preparation.error.body, { status: preparation.error.status })
+    }
+
+    const jobId = await createSimilaritySearchJob(authResult.userId, id, body)
+
+    after(() => runSimilaritySearchJob(jobId, authResult.userId, preparation.prepared))
+
+    logger.info('Similarity search job queued', { documentId: id, jobId, userId: authResult.userId })
+
+    return NextResponse.json(
+      {
+        job_id: jobId,
+        status: 'queued',
+        status_url: `/api/documents/${id}/similar-v2/jobs/${jobId}`,
+        events_url: `/api/documents/${id}/similar-v2/jobs/${jobId}/events`
+      },
+      { status: 202 }
+    )
+  } catch (error) {
+    logger.error(
+      'Failed to start similarity search job',
+      error instanceof Error ? error : new Error(String(error))
+    )
+    return NextResponse.json(
+      {
+        error: 'Failed to start similarity search',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
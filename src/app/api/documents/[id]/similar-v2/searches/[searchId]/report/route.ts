@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateRequest } from '@/lib/api-auth'
+import { getSimilaritySearch } from '@/lib/similarity/saved-searches'
+import {
+  buildReportFilename,
+  buildSimilarityReportCsv,
+  buildSimilarityReportPdf,
+  type ReportSourceDocument
+} from '@/lib/similarity/search-report'
+import { getAllApprovedMetadataOptions } from '@/lib/metadata-options-server'
+import { handleApiError, notFoundError, validationError } from '@/lib/utils/api-response'
+
+const FORMATS = ['pdf', 'csv'] as const
+type ReportFormat = typeof FORMATS[number]
+
+/**
+ * GET /api/documents/[id]/similar-v2/searches/[searchId]/report
+ *
+ * Downloadable report for a saved similarity search
+ *
+ * Query parameters:
+ * - format: 'pdf' | 'csv' (default 'pdf')
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; searchId: string }> }
+) {
+  const authResult = await authenticateRequest(request)
+  if (authResult instanceof NextResponse) {
+    return authResult
+  }
+
+  const { id, searchId } = await params
+  const format = (request.nextUrl.searchParams.get('format') ?? 'pdf') as ReportFormat
+
+  if (!FORMATS.includes(format)) {
+    return validationError(`format must be one of: ${FORMATS.join(', ')}`)
+  }
+
+  try {
+    const { data: document, error } = await authResult.supabase
+      .from('documents')
+      .select('id, title, filename, page_count, metadata')
+      .eq('id', id)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to load document: ${error.message}`)
+    }
+    if (!document) {
+      return notFoundError('Document not found')
+    }
+
+    const search = await getSimilaritySearch(authResult.supabase, id, searchId)
+    if (!search) {
+      return notFoundError('Saved search not found')
+    }
+
+    const sourceDocument = document as unknown as ReportSourceDocument
+    const labels = await getAllApprovedMetadataOptions()
+
+    const body = format === 'pdf'
+      ? Buffer.from(await buildSimilarityReportPdf(search, sourceDocument, labels))
+      : buildSimilarityReportCsv(search, labels)
+
+    return new NextResponse(body, {
+      headers: {
+        'Content-Type': format === 'pdf' ? 'application/pdf' : 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${buildReportFilename(sourceDocument, search, format)}"`,
+      },
+    })
+  } catch (error) {
+    return handleApiError(error, 'Failed to generate similarity report')
+  }
+}
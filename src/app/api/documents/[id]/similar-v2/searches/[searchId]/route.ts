@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateRequest } from '@/lib/api-auth'
+import { getSimilaritySearch } from '@/lib/similarity/saved-searches'
+import { apiSuccess, handleApiError, notFoundError } from '@/lib/utils/api-response'
+
+/**
+ * GET /api/documents/[id]/similar-v2/searches/[searchId]
+ *
+ * A saved similarity search with its configuration, timings and full results
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; searchId: string }> }
+) {
+  const authResult = await authenticateRequest(request)
+  if (authResult instanceof NextResponse) {
+    return authResult
+  }
+
+  const { id, searchId } = await params
+
+  try {
+    const search = await getSimilaritySearch(authResult.supabase, id, searchId)
+    if (!search) {
+      return notFoundError('Saved search not found')
+    }
+    return apiSuccess(search)
+  } catch (error) {
+    return handleApiError(error, 'Failed to load saved search')
+  }
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateRequest } from '@/lib/api-auth'
+import { listSimilaritySearches } from '@/lib/similarity/saved-searches'
+import { apiSuccess, handleApiError } from '@/lib/utils/api-response'
+
+const DEFAULT_LIST_LIMIT = 20
+const MAX_LIST_LIMIT = 100
+
+/**
+ * GET /api/documents/[id]/similar-v2/searches
+ *
+ * Saved similarity searches for this source document, newest first
+ *
+ * Query parameters:
+ * - limit: number (default 20, max 100)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const authResult = await authenticateRequest(request)
+  if (authResult instanceof NextResponse) {
+    return authResult
+  }
+
+  const { id } = await params
+  const requestedLimit = Number.parseInt(request.nextUrl.searchParams.get('limit') ?? '', 10)
+  const limit = Number.isFinite(requestedLimit) && requestedLimit > 0
+    ? Math.min(MAX_LIST_LIMIT, requestedLimit)
+    : DEFAULT_LIST_LIMIT
+
+  try {
+    const searches = await listSimilaritySearches(authResult.supabase, id, limit)
+    return apiSuccess({ searches })
+  } catch (error) {
+    return handleApiError(error, 'Failed to list saved searches')
+  }
+}
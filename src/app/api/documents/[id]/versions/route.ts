@@ -0,0 +1,139 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateRequest } from '@/lib/api-auth'
+import { getDocumentFamily, linkDocumentVersion, unlinkDocumentVersion } from '@/lib/document-families'
+import { apiSuccess, handleApiError, notFoundError, validationError } from '@/lib/utils/api-response'
+import { logger } from '@/lib/logger'
+
+/**
+ * GET /api/documents/[id]/versions
+ *
+ * List every version in the document's family, oldest first
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const authResult = await authenticateRequest(request)
+  if (authResult instanceof NextResponse) {
+    return authResult
+  }
+
+  const { id } = await params
+
+  try {
+    const { data: document } = await authResult.supabase
+      .from('documents')
+      .select('id')
+      .eq('id', id)
+      .maybeSingle()
+
+    if (!document) {
+      return notFoundError('Document not found')
+    }
+
+    const family = await getDocumentFamily(id)
+    return apiSuccess({
+      familyId: family?.familyId ?? null,
+      versions: family?.members ?? []
+    })
+  } catch (error) {
+    return handleApiError(error, 'Failed to load document versions')
+  }
+}
+
+/**
+ * POST /api/documents/[id]/versions
+ *
+ * Mark this document as the newer version of another document
+ *
+ * Request body:
+ * - previousDocumentId: string
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const authResult = await authenticateRequest(request)
+  if (authResult instanceof NextResponse) {
+    return authResult
+  }
+
+  const { id } = await params
+
+  let previousDocumentId: unknown
+  try {
+    const body = await request.json()
+    previousDocumentId = body?.previousDocumentId
+  } catch {
+    return validationError('Invalid request body')
+  }
+
+  if (typeof previousDocumentId !== 'string' || previousDocumentId.length === 0) {
+    return validationError('previousDocumentId is required')
+  }
+
+  if (previousDocumentId === id) {
+    return validationError('A document cannot be a version of itself')
+  }
+
+  try {
+    // The caller's client enforces that both documents are visible to them
+    const { data: documents } = await authResult.supabase
+      .from('documents')
+      .select('id')
+      .in('id', [id, previousDocumentId])
+
+    if (!documents || documents.length < 2) {
+      return notFoundError('Document not found')
+    }
+
+    const familyId = await linkDocumentVersion(id, previousDocumentId, 'manual')
+    const family = await getDocumentFamily(id)
+
+    logger.info('Manual version link created', { documentId: id, previousDocumentId, userId: authResult.userId })
+
+    return apiSuccess({
+      familyId,
+      versions: family?.members ?? []
+    })
+  } catch (error) {
+    return handleApiError(error, 'Failed to link document version')
+  }
+}
+
+/**
+ * DELETE /api/documents/[id]/versions
+ *
+ * Remove the document from its family
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const authResult = await authenticateRequest(request)
+  if (authResult instanceof NextResponse) {
+    return authResult
+  }
+
+  const { id } = await params
+
+  try {
+    const { data: document } = await authResult.supabase
+      .from('documents')
+      .select('id')
+      .eq('id', id)
+      .maybeSingle()
+
+    if (!document) {
+      return notFoundError('Document not found')
+    }
+
+    await unlinkDocumentVersion(id)
+
+    logger.info('Document removed from version family', { documentId: id, userId: authResult.userId })
+
+    return apiSuccess({ familyId: null, versions: [] })
+  } catch (error) {
+    return handleApiError(error, 'Failed to unlink document version')
+  }
+}
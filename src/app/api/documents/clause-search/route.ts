@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateRequest } from '@/lib/api-auth'
+import {
+  CLAUSE_SEARCH_MAX_CHARACTERS,
+  CLAUSE_SEARCH_MIN_CHARACTERS,
+  ClauseSearchInputError,
+  searchClause
+} from '@/lib/similarity/clause-search'
+import { apiSuccess, handleApiError, validationError } from '@/lib/utils/api-response'
+
+/**
+ * POST /api/documents/clause-search
+ *
+ * Find documents containing pasted text or a close variant, without uploading it
+ *
+ * Body:
+ * - text: string (required, 20-20000 characters; blank lines separate paragraphs)
+ * - threshold: number (Stage 2 cosine threshold, 0.5-1, default 0.85)
+ *
+ * Each result lists the matched pages with cosine and Jaccard scores per chunk pair.
+ */
+export async function POST(request: NextRequest) {
+  const authResult = await authenticateRequest(request)
+  if (authResult instanceof NextResponse) {
+    return authResult
+  }
+
+  let body: { text?: unknown; threshold?: unknown }
+  try {
+    body = await request.json()
+  } catch {
+    return validationError('Invalid JSON in request body')
+  }
+
+  const text = typeof body.text === 'string' ? body.text.trim() : ''
+  if (text.length < CLAUSE_SEARCH_MIN_CHARACTERS) {
+    return validationError(`Paste at least ${CLAUSE_SEARCH_MIN_CHARACTERS} characters of text`)
+  }
+  if (text.length > CLAUSE_SEARCH_MAX_CHARACTERS) {
+    return validationError(`Pasted text is too long (max ${CLAUSE_SEARCH_MAX_CHARACTERS} characters)`)
+  }
+
+  const { threshold } = body
+  if (threshold !== undefined && (typeof threshold !== 'number' || threshold < 0.5 || threshold > 1)) {
+    return validationError('threshold must be between 0.5 and 1')
+  }
+
+  try {
+    const response = await searchClause(authResult.supabase, text, threshold !== undefined ? { threshold } : {})
+    return apiSuccess(response)
+  } catch (error) {
+    if (error instanceof ClauseSearchInputError) {
+      return validationError(error.message)
+    }
+    return handleApiError(error, 'Clause search failed')
+  }
+}
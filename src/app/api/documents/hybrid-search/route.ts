@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateRequest } from '@/lib/api-auth'
+import {
+  HYBRID_SEARCH_MAX_CANDIDATES,
+  HYBRID_SEARCH_MAX_RESULTS,
+  hybridSearch,
+  type HybridSearchOptions
+} from '@/lib/search/hybrid-search'
+import { KeywordQueryError } from '@/lib/search/keyword-query'
+import { SEMANTIC_SEARCH_MAX_QUERY_LENGTH } from '@/lib/search/semantic-search'
+import { apiSuccess, handleApiError, validationError } from '@/lib/utils/api-response'
+
+const isPositiveInteger = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value > 0
+
+/**
+ * POST /api/documents/hybrid-search
+ *
+ * Keyword and vector retrieval merged with reciprocal rank fusion
+ *
+ * Body:
+ * - query: string (required, max 2000 characters; keyword query syntax for the lexical side)
+ * - semanticWeight: number (0 = keyword only, 1 = semantic only, default 0.5)
+ * - rrfK: number (RRF damping constant, default 60)
+ * - candidates: number (documents taken from each retriever, default 50, max 100)
+ * - limit: number (fused documents returned, default 20, max 100)
+ *
+ * Each result carries provenance: 'lexical', 'semantic' or 'both'.
+ */
+export async function POST(request: NextRequest) {
+  const authResult = await authenticateRequest(request)
+  if (authResult instanceof NextResponse) {
+    return authResult
+  }
+
+  let body: Record<string, unknown>
+  try {
+    body = await request.json()
+  } catch {
+    return validationError('Invalid JSON in request body')
+  }
+
+  const query = typeof body['query'] === 'string' ? body['query'].trim() : ''
+  if (!query) {
+    return validationError('Search query is required')
+  }
+  if (query.length > SEMANTIC_SEARCH_MAX_QUERY_LENGTH) {
+    return validationError(`Search query is too long (max ${SEMANTIC_SEARCH_MAX_QUERY_LENGTH} characters)`)
+  }
+
+  const { semanticWeight, rrfK, candidates, limit } = body
+  const options: HybridSearchOptions = {}
+
+  if (semanticWeight !== undefined) {
+    if (typeof semanticWeight !== 'number' || semanticWeight < 0 || semanticWeight > 1) {
+      return validationError('semanticWeight must be between 0 and 1')
+    }
+    options.semanticWeight = semanticWeight
+  }
+
+  if (rrfK !== undefined) {
+    if (!isPositiveInteger(rrfK) || rrfK > 1000) {
+      return validationError('rrfK must be an integer between 1 and 1000')
+    }
+    options.rrfK = rrfK
+  }
+
+  if (candidates !== undefined) {
+    if (!isPositiveInteger(candidates) || candidates > HYBRID_SEARCH_MAX_CANDIDATES) {
+      return validationError(`candidates must be between 1 and ${HYBRID_SEARCH_MAX_CANDIDATES}`)
+    }
+    options.candidates = candidates
+  }
+
+  if (limit !== undefined) {
+    if (!isPositiveInteger(limit) || limit > HYBRID_SEARCH_MAX_RESULTS) {
+      return validationError(`limit must be between 1 and ${HYBRID_SEARCH_MAX_RESULTS}`)
+    }
+    options.limit = limit
+  }
+
+  try {
+    const response = await hybridSearch(authResult.supabase, authResult.userId, query, options)
+    return apiSuccess(response)
+  } catch (error) {
+    if (error instanceof KeywordQueryError) {
+      return validationError(`Invalid search query: ${error.message}`)
+    }
+    return handleApiError(error, 'Hybrid search failed')
+  }
+}
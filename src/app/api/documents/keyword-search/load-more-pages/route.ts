@@ -10,6 +10,8 @@
  * - Re-runs search filtered to single document
  * - Returns next batch of matching pages
  * - Maintains consistent ranking with original search
+ * - Fuzzy and pattern searches page through search_document_keywords_fuzzy/_regex for the document
+ * - Applies the original search's filters (page range limits the pages returned)
  *
  * Security:
  * - Requires authentication
@@ -19,11 +21,24 @@
 
 import { createClient } from '@/lib/supabase/server'
 import { logger } from '@/lib/logger'
+import { ERROR_CODES } from '@/lib/constants'
+import { compileKeywordQuery, KeywordQueryError } from '@/lib/search/keyword-query'
+import {
+  compileSearchPattern,
+  describeRegexSearchError,
+  PATTERN_SEARCH_MODES,
+  REGEX_SEARCH_TIMEOUT_MS,
+  RegexPatternError
+} from '@/lib/search/regex-search'
+import { parseKeywordSearchFilters, toKeywordFilterParam } from '@/lib/search/keyword-filters'
+import { loadSynonymGroups } from '@/lib/search/synonyms'
 import { NextRequest, NextResponse } from 'next/server'
 import type {
+  KeywordQueryErrorResponse,
   LoadMorePagesRequest,
   LoadMorePagesResponse,
-  KeywordMatch
+  KeywordMatch,
+  KeywordSearchDBRow
 } from '@/types/search'
 
 /**
@@ -70,7 +85,10 @@ export async function POST(request: NextRequest) {
       documentId,
       query,
       skipPages = 3,
-      fetchPages = 5
+      fetchPages = 5,
+      fuzzy = false,
+      patternMode,
+      caseSensitive = true
     } = body
 
     // Validate documentId
@@ -89,8 +107,70 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    if (typeof fuzzy !== 'boolean') {
+      return NextResponse.json(
+        { error: 'fuzzy must be a boolean' },
+        { status: 400 }
+      )
+    }
+
+    if (patternMode !== undefined && !PATTERN_SEARCH_MODES.includes(patternMode)) {
+      return NextResponse.json(
+        { error: `patternMode must be one of: ${PATTERN_SEARCH_MODES.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    if (patternMode && fuzzy) {
+      return NextResponse.json(
+        { error: 'fuzzy cannot be combined with patternMode' },
+        { status: 400 }
+      )
+    }
+
+    if (typeof caseSensitive !== 'boolean') {
+      return NextResponse.json(
+        { error: 'caseSensitive must be a boolean' },
+        { status: 400 }
+      )
+    }
+
+    const filters = parseKeywordSearchFilters(body.filters)
+    if (typeof filters === 'string') {
+      return NextResponse.json(
+        { error: filters },
+        { status: 400 }
+      )
+    }
+    const filterParam = toKeywordFilterParam(filters)
+
     const trimmedQuery = query.trim()
 
+    // Compile the same way as the original search so page ranking stays consistent
+    let tsquery: string | null = null
+    let pattern: string | null = null
+    try {
+      if (patternMode) {
+        pattern = compileSearchPattern(trimmedQuery, patternMode)
+      } else if (!fuzzy) {
+        tsquery = compileKeywordQuery(trimmedQuery, await loadSynonymGroups())
+      }
+    } catch (parseError) {
+      if (parseError instanceof KeywordQueryError || parseError instanceof RegexPatternError) {
+        const response: KeywordQueryErrorResponse = {
+          error: `Invalid ${patternMode ? 'pattern' : 'search query'}: ${parseError.message}`,
+          code: ERROR_CODES.VALIDATION_ERROR,
+          queryError: {
+            message: parseError.message,
+            position: parseError.position,
+            length: parseError.length
+          }
+        }
+        return NextResponse.json(response, { status: 400 })
+      }
+      throw parseError
+    }
+
     // Validate pagination params
     if (
       typeof skipPages !== 'number' ||
@@ -149,12 +229,30 @@ export async function POST(request: NextRequest) {
     // 4. LOAD ADDITIONAL PAGES
     // ========================================================================
 
+    if (pattern !== null) {
+      return loadMorePagesBySearch(supabase, user.id, documentId, 'search_document_keywords_regex', {
+        p_pattern: pattern,
+        p_case_sensitive: caseSensitive,
+        p_filters: filterParam,
+        p_timeout_ms: REGEX_SEARCH_TIMEOUT_MS
+      }, skipPages, fetchPages)
+    }
+
+    if (fuzzy) {
+      return loadMorePagesBySearch(supabase, user.id, documentId, 'search_document_keywords_fuzzy', {
+        p_search_query: trimmedQuery,
+        p_filters: filterParam
+      }, skipPages, fetchPages)
+    }
+
     const { data, error } = await supabase.rpc('get_additional_keyword_pages', {
       p_user_id: user.id,
       p_document_id: documentId,
       p_search_query: trimmedQuery,
       p_skip_pages: skipPages,
-      p_fetch_pages: fetchPages
+      p_fetch_pages: fetchPages,
+      p_tsquery: tsquery,
+      p_filters: filterParam
     })
 
     if (error) {
@@ -221,6 +319,71 @@ export async function POST(request: NextRequest) {
   }
 }
 
+/**
+ * Fuzzy and pattern modes have no per-page function; the document is re-searched with a
+ * larger page cap and the pages already shown are skipped
+ */
+async function loadMorePagesBySearch(
+  supabase: Awaited<ReturnType<typeof createClient>>,
+  userId: string,
+  documentId: string,
+  searchFunction: 'search_document_keywords_fuzzy' | 'search_document_keywords_regex',
+  searchParams: Record<string, unknown>,
+  skipPages: number,
+  fetchPages: number
+) {
+  const { data, error } = await supabase.rpc(searchFunction, {
+    ...searchParams,
+    p_user_id: userId,
+    p_max_pages_per_doc: skipPages + fetchPages,
+    p_page_size: 1,
+    p_page_offset: 0,
+    p_document_id: documentId
+  })
+
+  if (error) {
+    const patternError = searchFunction === 'search_document_keywords_regex'
+      ? describeRegexSearchError(error)
+      : null
+    if (patternError) {
+      return NextResponse.json(
+        { error: patternError.error },
+        { status: patternError.status }
+      )
+    }
+
+    logger.error('Load more pages database error', new Error(error.message), {
+      search_function: searchFunction,
+      code: error.code,
+      details: error.details,
+      document_id: documentId,
+      user_id: userId
+    })
+
+    return NextResponse.json(
+      { error: 'Failed to load more pages. Please try again.' },
+      { status: 500 }
+    )
+  }
+
+  const row = ((data || []) as KeywordSearchDBRow[])[0]
+  const pages = row ? (row.matches || []).slice(skipPages) : []
+
+  const response: LoadMorePagesResponse = {
+    documentId,
+    pages,
+    hasMore: row ? Number(row.total_matches) > skipPages + pages.length : false
+  }
+
+  return NextResponse.json(response, {
+    status: 200,
+    headers: {
+      'Content-Type': 'application/json',
+      'Cache-Control': 'private, max-age=300'
+    }
+  })
+}
+
 /**
  * OPTIONS handler for CORS preflight
  */
@@ -8,6 +8,11 @@
  *
  * Features:
  * - Full-text search using PostgreSQL GIN indexes
+ * - Query language: "phrases", AND/OR/NOT, prefix*, NEAR/n (see lib/search/keyword-query)
+ * - Synonym expansion from the admin-managed dictionary (LPA ↔ Limited Partnership Agreement)
+ * - Fuzzy mode: pg_trgm matching for OCR typos, exact matches ranked first
+ * - Pattern mode: regex or exact-string matching with complexity and time limits
+ * - Filters: metadata, template, upload date range and page range
  * - User-scoped results (only searches user's own documents)
  * - Configurable result limits (pages per document, total documents)
  * - Relevance-ranked results
@@ -21,8 +26,20 @@
 
 import { createClient } from '@/lib/supabase/server'
 import { logger } from '@/lib/logger'
+import { ERROR_CODES } from '@/lib/constants'
+import { compileKeywordQuery, KeywordQueryError } from '@/lib/search/keyword-query'
+import {
+  compileSearchPattern,
+  describeRegexSearchError,
+  PATTERN_SEARCH_MODES,
+  REGEX_SEARCH_TIMEOUT_MS,
+  RegexPatternError
+} from '@/lib/search/regex-search'
+import { parseKeywordSearchFilters, toKeywordFilterParam } from '@/lib/search/keyword-filters'
+import { loadSynonymGroups } from '@/lib/search/synonyms'
 import { NextRequest, NextResponse } from 'next/server'
 import type {
+  KeywordQueryErrorResponse,
   KeywordSearchRequest,
   KeywordSearchResponse,
   KeywordSearchDBRow
@@ -68,7 +85,16 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    const { query, maxPagesPerDoc = 3, pageSize = 20, pageOffset = 0 } = body
+    const {
+      query,
+      maxPagesPerDoc = 3,
+      pageSize = 20,
+      pageOffset = 0,
+      fuzzy = false,
+      patternMode,
+      caseSensitive = true
+    } = body
+    const filters = parseKeywordSearchFilters(body.filters)
 
     // Validate query
     if (!query || typeof query !== 'string') {
@@ -127,25 +153,128 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    if (typeof fuzzy !== 'boolean') {
+      return NextResponse.json(
+        { error: 'fuzzy must be a boolean' },
+        { status: 400 }
+      )
+    }
+
+    if (patternMode !== undefined && !PATTERN_SEARCH_MODES.includes(patternMode)) {
+      return NextResponse.json(
+        { error: `patternMode must be one of: ${PATTERN_SEARCH_MODES.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    if (patternMode && fuzzy) {
+      return NextResponse.json(
+        { error: 'fuzzy cannot be combined with patternMode' },
+        { status: 400 }
+      )
+    }
+
+    if (typeof caseSensitive !== 'boolean') {
+      return NextResponse.json(
+        { error: 'caseSensitive must be a boolean' },
+        { status: 400 }
+      )
+    }
+
+    if (typeof filters === 'string') {
+      return NextResponse.json(
+        { error: filters },
+        { status: 400 }
+      )
+    }
+    const filterParam = toKeywordFilterParam(filters)
+
+    // Fuzzy and pattern modes match raw text, so the query language does not apply
+    let tsquery: string | null = null
+    let pattern: string | null = null
+    try {
+      if (patternMode) {
+        pattern = compileSearchPattern(trimmedQuery, patternMode)
+      } else if (!fuzzy) {
+        tsquery = compileKeywordQuery(trimmedQuery, await loadSynonymGroups())
+      }
+    } catch (parseError) {
+      if (parseError instanceof KeywordQueryError || parseError instanceof RegexPatternError) {
+        const response: KeywordQueryErrorResponse = {
+          error: `Invalid ${patternMode ? 'pattern' : 'search query'}: ${parseError.message}`,
+          code: ERROR_CODES.VALIDATION_ERROR,
+          queryError: {
+            message: parseError.message,
+            position: parseError.position,
+            length: parseError.length
+          }
+        }
+        return NextResponse.json(response, { status: 400 })
+      }
+      throw parseError
+    }
+
     // ========================================================================
     // 3. EXECUTE SEARCH
     // ========================================================================
 
-    const { data, error } = await supabase.rpc('search_document_keywords_paginated', {
-      p_user_id: user.id,
-      p_search_query: trimmedQuery,
-      p_max_pages_per_doc: maxPagesPerDoc,
-      p_page_size: pageSize,
-      p_page_offset: pageOffset
-    })
+    const searchFunction = pattern !== null
+      ? 'search_document_keywords_regex'
+      : fuzzy ? 'search_document_keywords_fuzzy' : 'search_document_keywords_paginated'
+    const { data, error } = pattern !== null
+      ? await supabase.rpc(searchFunction, {
+        p_user_id: user.id,
+        p_pattern: pattern,
+        p_case_sensitive: caseSensitive,
+        p_max_pages_per_doc: maxPagesPerDoc,
+        p_page_size: pageSize,
+        p_page_offset: pageOffset,
+        p_filters: filterParam,
+        p_timeout_ms: REGEX_SEARCH_TIMEOUT_MS
+      })
+      : fuzzy
+        ? await supabase.rpc(searchFunction, {
+          p_user_id: user.id,
+          p_search_query: trimmedQuery,
+          p_max_pages_per_doc: maxPagesPerDoc,
+          p_page_size: pageSize,
+          p_page_offset: pageOffset,
+          p_filters: filterParam
+        })
+        : await supabase.rpc(searchFunction, {
+          p_user_id: user.id,
+          p_search_query: trimmedQuery,
+          p_max_pages_per_doc: maxPagesPerDoc,
+          p_page_size: pageSize,
+          p_page_offset: pageOffset,
+          p_tsquery: tsquery,
+          p_filters: filterParam
+        })
 
     if (error) {
+      // Bad patterns and timeouts are the user's to fix, not server failures
+      const patternError = pattern !== null ? describeRegexSearchError(error) : null
+      if (patternError) {
+        logger.warn('Pattern search rejected by database', {
+          code: error.code,
+          message: error.message,
+          user_id: user.id,
+          query: trimmedQuery
+        })
+        return NextResponse.json(
+          { error: patternError.error },
+          { status: patternError.status }
+        )
+      }
+
       logger.error('Keyword search database error', new Error(error.message), {
         code: error.code,
         details: error.details,
         hint: error.hint,
         user_id: user.id,
-        query: trimmedQuery
+        query: trimmedQuery,
+        fuzzy,
+        patternMode
       })
 
       // Check if function doesn't exist (migration not run)
@@ -153,7 +282,7 @@ export async function POST(request: NextRequest) {
         return NextResponse.json(
           {
             error: 'Keyword search is not available. Please run database migration.',
-            details: 'The search_document_keywords_paginated() function is missing. Apply MASTER-DATABASE-SETUP.sql to your database.'
+            details: `The ${searchFunction}() function is missing. Apply MASTER-DATABASE-SETUP.sql to your database.`
           },
           { status: 503 }
         )
@@ -193,7 +322,11 @@ export async function POST(request: NextRequest) {
       totalDocuments: Number(totalDocuments),
       hasMore,
       pageSize,
-      pageOffset
+      pageOffset,
+      fuzzy,
+      patternMode,
+      caseSensitive,
+      filters
     }
 
     // ========================================================================
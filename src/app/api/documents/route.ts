@@ -63,6 +63,12 @@ export async function GET(request: NextRequest) {
       extracted_fields,
       metadata,
       page_count,
+      duplicate_of,
+      duplicate_type,
+      family_id,
+      family_version,
+      is_latest_version,
+      template_cluster_id,
       created_at,
       updated_at,
       document_content(extracted_text)
@@ -0,0 +1,136 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateRequest } from '@/lib/api-auth'
+import {
+  SEMANTIC_METADATA_FILTER_KEYS,
+  SEMANTIC_SEARCH_MAX_PASSAGES,
+  SEMANTIC_SEARCH_MAX_QUERY_LENGTH,
+  searchPassages,
+  type SemanticSearchFilters,
+  type SemanticSearchOptions
+} from '@/lib/search/semantic-search'
+import { apiSuccess, handleApiError, validationError } from '@/lib/utils/api-response'
+
+interface SemanticSearchRequestBody {
+  query?: unknown
+  limit?: unknown
+  minScore?: unknown
+  maxPassagesPerDoc?: unknown
+  filters?: {
+    documentIds?: unknown
+    pageRange?: { start_page?: unknown; end_page?: unknown }
+    metadata?: Record<string, unknown>
+  }
+}
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string')
+
+const isPositiveInteger = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value > 0
+
+function parseFilters(raw: SemanticSearchRequestBody['filters']): SemanticSearchFilters | string {
+  const filters: SemanticSearchFilters = {}
+  if (!raw) {
+    return filters
+  }
+
+  if (raw.documentIds !== undefined) {
+    if (!isStringArray(raw.documentIds) || raw.documentIds.length === 0) {
+      return 'filters.documentIds must be a non-empty array of document IDs'
+    }
+    filters.documentIds = raw.documentIds
+  }
+
+  if (raw.pageRange !== undefined) {
+    const { start_page: startPage, end_page: endPage } = raw.pageRange ?? {}
+    if (!isPositiveInteger(startPage) || !isPositiveInteger(endPage) || startPage > endPage) {
+      return 'filters.pageRange needs positive start_page <= end_page'
+    }
+    filters.pageRange = { start_page: startPage, end_page: endPage }
+  }
+
+  if (raw.metadata !== undefined) {
+    filters.metadata = {}
+    for (const key of SEMANTIC_METADATA_FILTER_KEYS) {
+      const values = raw.metadata?.[key]
+      if (values === undefined) continue
+      if (!isStringArray(values)) {
+        return `filters.metadata.${key} must be an array of strings`
+      }
+      filters.metadata[key] = values
+    }
+  }
+
+  return filters
+}
+
+/**
+ * POST /api/documents/semantic-search
+ *
+ * Passages that match a free-text query by meaning, grouped by document
+ *
+ * Body:
+ * - query: string (required, max 2000 characters)
+ * - limit: number (passages to retrieve, default 60, max 200)
+ * - minScore: number (cosine floor, default 0.55)
+ * - maxPassagesPerDoc: number (default 3)
+ * - filters: { documentIds?, pageRange?: { start_page, end_page }, metadata?: { law_firm?, fund_manager?, fund_admin?, jurisdiction? } }
+ *   Metadata values are OR-ed per field; '(blank)' matches documents without a value.
+ */
+export async function POST(request: NextRequest) {
+  const authResult = await authenticateRequest(request)
+  if (authResult instanceof NextResponse) {
+    return authResult
+  }
+
+  let body: SemanticSearchRequestBody
+  try {
+    body = await request.json()
+  } catch {
+    return validationError('Invalid JSON in request body')
+  }
+
+  const query = typeof body.query === 'string' ? body.query.trim() : ''
+  if (!query) {
+    return validationError('Search query is required')
+  }
+  if (query.length > SEMANTIC_SEARCH_MAX_QUERY_LENGTH) {
+    return validationError(`Search query is too long (max ${SEMANTIC_SEARCH_MAX_QUERY_LENGTH} characters)`)
+  }
+
+  const options: SemanticSearchOptions = {}
+
+  if (body.limit !== undefined) {
+    if (!isPositiveInteger(body.limit) || body.limit > SEMANTIC_SEARCH_MAX_PASSAGES) {
+      return validationError(`limit must be between 1 and ${SEMANTIC_SEARCH_MAX_PASSAGES}`)
+    }
+    options.limit = body.limit
+  }
+
+  if (body.minScore !== undefined) {
+    if (typeof body.minScore !== 'number' || body.minScore < 0 || body.minScore > 1) {
+      return validationError('minScore must be between 0 and 1')
+    }
+    options.minScore = body.minScore
+  }
+
+  if (body.maxPassagesPerDoc !== undefined) {
+    if (!isPositiveInteger(body.maxPassagesPerDoc) || body.maxPassagesPerDoc > 20) {
+      return validationError('maxPassagesPerDoc must be between 1 and 20')
+    }
+    options.maxPassagesPerDocument = body.maxPassagesPerDoc
+  }
+
+  const filters = parseFilters(body.filters)
+  if (typeof filters === 'string') {
+    return validationError(filters)
+  }
+  options.filters = filters
+
+  try {
+    const response = await searchPassages(authResult.supabase, query, options)
+    return apiSuccess(response)
+  } catch (error) {
+    return handleApiError(error, 'Semantic search failed')
+  }
+}
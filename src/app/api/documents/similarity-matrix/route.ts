@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateRequest } from '@/lib/api-auth'
+import { computeSimilarityMatrix, MAX_MATRIX_DOCUMENTS } from '@/lib/similarity/similarity-matrix'
+import { apiSuccess, handleApiError, notFoundError, validationError } from '@/lib/utils/api-response'
+
+/**
+ * POST /api/documents/similarity-matrix
+ *
+ * Directional coverage for every pair in a set of documents, plus an
+ * average-linkage clustering of the set
+ *
+ * Body:
+ * - documentIds: string[] (2 to 15 completed documents)
+ * - threshold: number (optional, default 0.90, min 0.5)
+ */
+export async function POST(request: NextRequest) {
+  const authResult = await authenticateRequest(request)
+  if (authResult instanceof NextResponse) {
+    return authResult
+  }
+
+  try {
+    const body = await request.json().catch(() => null) as {
+      documentIds?: unknown
+      threshold?: unknown
+    } | null
+
+    const rawIds = Array.isArray(body?.documentIds) ? body.documentIds : null
+    if (!rawIds || !rawIds.every(id => typeof id === 'string' && id.length > 0)) {
+      return validationError('documentIds must be an array of document IDs')
+    }
+
+    const documentIds = Array.from(new Set(rawIds as string[]))
+    if (documentIds.length < 2) {
+      return validationError('Select at least two documents')
+    }
+    if (documentIds.length > MAX_MATRIX_DOCUMENTS) {
+      return validationError(`Select at most ${MAX_MATRIX_DOCUMENTS} documents`)
+    }
+
+    let threshold: number | undefined
+    if (body?.threshold !== undefined) {
+      if (typeof body.threshold !== 'number' || body.threshold < 0.5 || body.threshold > 1) {
+        return validationError('threshold must be a number between 0.5 and 1')
+      }
+      threshold = body.threshold
+    }
+
+    // RLS decides visibility; the matrix itself is computed with the service client
+    const { data: documents, error } = await authResult.supabase
+      .from('documents')
+      .select('id, status')
+      .in('id', documentIds)
+
+    if (error) {
+      throw new Error(`Failed to load documents: ${error.message}`)
+    }
+
+    const visible = new Map((documents ?? []).map(doc => [doc.id as string, doc.status as string]))
+    const missing = documentIds.filter(id => !visible.has(id))
+    if (missing.length > 0) {
+      return notFoundError('Documents not found', missing.join(', '))
+    }
+
+    const notReady = documentIds.filter(id => visible.get(id) !== 'completed')
+    if (notReady.length > 0) {
+      return validationError('All documents must finish processing first', notReady.join(', '))
+    }
+
+    const matrix = await computeSimilarityMatrix(documentIds, threshold !== undefined ? { threshold } : {})
+
+    return apiSuccess(matrix)
+  } catch (error) {
+    return handleApiError(error, 'Failed to compute similarity matrix')
+  }
+}
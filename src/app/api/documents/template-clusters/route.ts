@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateRequest } from '@/lib/api-auth'
+import { listTemplateClusters } from '@/lib/similarity/template-clusters'
+import { apiSuccess, handleApiError } from '@/lib/utils/api-response'
+
+/**
+ * GET /api/documents/template-clusters
+ *
+ * Template families found by the last clustering run, ordered by label
+ */
+export async function GET(request: NextRequest) {
+  const authResult = await authenticateRequest(request)
+  if (authResult instanceof NextResponse) {
+    return authResult
+  }
+
+  try {
+    return apiSuccess({ clusters: await listTemplateClusters() })
+  } catch (error) {
+    return handleApiError(error, 'Failed to load template clusters')
+  }
+}
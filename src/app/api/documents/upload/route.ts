@@ -5,6 +5,9 @@ import { throttling } from '@/lib/concurrency-limiter'
 import { validateFileFromFormData } from '@/lib/utils/validation-helpers'
 import { validationError, databaseError, handleApiError } from '@/lib/utils/api-response'
 import { logger } from '@/lib/logger'
+import { resolveActiveEmbeddingModel } from '@/lib/embedding-migration'
+import { computeFileHash, findExactDuplicates } from '@/lib/duplicate-detection'
+import { ERROR_CODES, HTTP_STATUS } from '@/lib/constants'
 
 export async function POST(request: NextRequest) {
   try {
@@ -45,6 +48,29 @@ export async function POST(request: NextRequest) {
         }
       }
 
+      // Resolve before touching storage so a misconfigured EMBEDDING_MODEL fails cleanly.
+      // After a migration is activated, uploads follow its model rather than the env var
+      const embeddingModel = await resolveActiveEmbeddingModel()
+
+      // Same bytes already in the corpus: refuse unless the client explicitly overrides
+      const allowDuplicate = formData.get('allowDuplicate') === 'true'
+      const fileHash = computeFileHash(await file.arrayBuffer())
+      const exactDuplicates = await findExactDuplicates(supabase, fileHash)
+
+      if (exactDuplicates.length > 0 && !allowDuplicate) {
+        logger.info('Duplicate upload rejected', {
+          filename: file.name,
+          userId,
+          duplicateOf: exactDuplicates[0]?.id
+        })
+        return NextResponse.json({
+          error: 'This file has already been uploaded',
+          code: ERROR_CODES.DUPLICATE_DOCUMENT,
+          duplicates: exactDuplicates,
+          timestamp: new Date().toISOString()
+        }, { status: HTTP_STATUS.CONFLICT })
+      }
+
       // Generate unique filename
       const fileExt = file.name.split('.').pop()
       const fileName = `${Date.now()}-${Math.random().toString(36).substr(2, 9)}.${fileExt}`
@@ -78,6 +104,10 @@ export async function POST(request: NextRequest) {
           content_type: 'application/pdf',
           status: 'uploading',
           metadata: metadata,
+          embedding_model: embeddingModel,
+          file_hash: fileHash,
+          duplicate_of: exactDuplicates[0]?.id ?? null,
+          duplicate_type: exactDuplicates.length > 0 ? 'exact' : null,
         })
         .select()
         .single()
@@ -139,6 +169,7 @@ export async function POST(request: NextRequest) {
         id: documentId,
         title: document.title,
         jobId,
+        duplicateOf: exactDuplicates[0]?.id ?? null,
         message: isQueued
           ? 'Document uploaded successfully and queued for processing'
           : 'Document uploaded successfully; processing started immediately',
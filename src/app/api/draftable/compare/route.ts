@@ -1,199 +1,7 @@
 /**
- * Draftable Comparison API Route
- * Creates document comparisons and returns viewer URLs
+ * Draftable Comparison API Route (legacy path)
+ * Kept for existing callers; handled by /api/compare, which also accepts an optional
+ * provider and falls back to the native redline viewer when Draftable is not configured.
  */
 
-import { NextRequest, NextResponse } from 'next/server'
-import { authenticateRequest } from '@/lib/api-auth'
-import { draftableClient } from '@/lib/draftable'
-import { logger } from '@/lib/logger'
-
-export async function POST(request: NextRequest) {
-  try {
-    // Authenticate request using centralized helper
-    // Supports: JWT tokens, service role (test-only), and cookie-based sessions
-    const authResult = await authenticateRequest(request)
-    if (authResult instanceof NextResponse) {
-      return authResult // Return error response
-    }
-
-    const { userId, supabase } = authResult
-
-    // Parse request body
-    const body = await request.json()
-    const { sourceDocId, targetDocId } = body
-
-    if (!sourceDocId || !targetDocId) {
-      return NextResponse.json({
-        error: 'Missing required parameters: sourceDocId and targetDocId'
-      }, { status: 400 })
-    }
-
-    logger.info('Creating Draftable comparison', {
-      userId,
-      sourceDocId,
-      targetDocId
-    })
-
-    // Fetch source document metadata
-    const { data: sourceDoc, error: sourceError} = await supabase
-      .from('documents')
-      .select('file_path, title, content_type')
-      .eq('id', sourceDocId)
-      .single()
-
-    if (sourceError || !sourceDoc) {
-      logger.error('Source document not found', sourceError as Error, {
-        sourceDocId,
-        userId
-      })
-      return NextResponse.json({ error: 'Source document not found' }, { status: 404 })
-    }
-
-    // Fetch target document metadata
-    const { data: targetDoc, error: targetError } = await supabase
-      .from('documents')
-      .select('file_path, title, content_type')
-      .eq('id', targetDocId)
-      .single()
-
-    if (targetError || !targetDoc) {
-      logger.error('Target document not found', targetError as Error, {
-        targetDocId,
-        userId
-      })
-      return NextResponse.json({ error: 'Target document not found' }, { status: 404 })
-    }
-
-    // Generate signed URLs for both documents (1 hour expiry)
-    // SUPABASE_PUBLIC_URL is only used in local development with ngrok/localtunnel
-    // In production, leave it unset - production Supabase URLs work directly with Draftable
-    const supabasePublicUrl = process.env.SUPABASE_PUBLIC_URL
-
-    const { data: sourceUrl, error: sourceUrlError } = await supabase.storage
-      .from('documents')
-      .createSignedUrl(sourceDoc.file_path, 3600)
-
-    if (sourceUrlError || !sourceUrl?.signedUrl) {
-      logger.error('Failed to generate source document URL', sourceUrlError as Error, {
-        sourceDocId
-      })
-      return NextResponse.json({
-        error: 'Failed to generate source document URL'
-      }, { status: 500 })
-    }
-
-    const { data: targetUrl, error: targetUrlError } = await supabase.storage
-      .from('documents')
-      .createSignedUrl(targetDoc.file_path, 3600)
-
-    if (targetUrlError || !targetUrl?.signedUrl) {
-      logger.error('Failed to generate target document URL', targetUrlError as Error, {
-        targetDocId
-      })
-      return NextResponse.json({
-        error: 'Failed to generate target document URL'
-      }, { status: 500 })
-    }
-
-    // Replace localhost URL with ngrok URL if configured
-    let sourceUrlForDraftable = sourceUrl.signedUrl
-    let targetUrlForDraftable = targetUrl.signedUrl
-
-    if (supabasePublicUrl) {
-      sourceUrlForDraftable = sourceUrl.signedUrl.replace('http://127.0.0.1:54321', supabasePublicUrl)
-      targetUrlForDraftable = targetUrl.signedUrl.replace('http://127.0.0.1:54321', supabasePublicUrl)
-
-      logger.debug('Using public URL for Draftable access', {
-        publicUrl: supabasePublicUrl
-      })
-    }
-
-    // Determine file type from content_type
-    type DraftableFileType = 'pdf' | 'docx' | 'docm' | 'doc' | 'rtf' | 'pptx' | 'pptm' | 'ppt' | 'txt'
-    const getFileType = (contentType: string): DraftableFileType => {
-      if (contentType.includes('pdf')) return 'pdf'
-      if (contentType.includes('docx')) return 'docx'
-      if (contentType.includes('doc')) return 'doc'
-      if (contentType.includes('rtf')) return 'rtf'
-      if (contentType.includes('pptx')) return 'pptx'
-      if (contentType.includes('ppt')) return 'ppt'
-      if (contentType.includes('txt')) return 'txt'
-      return 'pdf' // Default fallback
-    }
-
-    // Create comparison via Draftable API
-    logger.debug('Creating Draftable comparison', {
-      sourceTitle: sourceDoc.title,
-      targetTitle: targetDoc.title,
-      sourceFileType: getFileType(sourceDoc.content_type),
-      targetFileType: getFileType(targetDoc.content_type),
-      // Only log full URLs in development (they contain signed tokens)
-      ...(process.env.NODE_ENV === 'development' && {
-        sourceUrl: sourceUrlForDraftable,
-        targetUrl: targetUrlForDraftable
-      })
-    })
-
-    // Create comparison with timeout (30 seconds)
-    const comparisonPromise = draftableClient.comparisons.create({
-      left: {
-        source: sourceUrlForDraftable,
-        fileType: getFileType(sourceDoc.content_type),
-        displayName: sourceDoc.title
-      },
-      right: {
-        source: targetUrlForDraftable,
-        fileType: getFileType(targetDoc.content_type),
-        displayName: targetDoc.title
-      },
-      // Set comparison to expire in 2 hours
-      expires: new Date(Date.now() + 1000 * 60 * 120)
-    })
-
-    const timeoutPromise = new Promise((_, reject) =>
-      setTimeout(() => reject(new Error('Draftable API request timed out after 30 seconds')), 30000)
-    )
-
-    const comparison = await Promise.race([comparisonPromise, timeoutPromise]) as Awaited<typeof comparisonPromise>
-
-    logger.info('Draftable comparison created successfully', {
-      identifier: comparison.identifier,
-      sourceDocId,
-      targetDocId,
-      userId
-    })
-
-    // Generate signed viewer URL (valid for 1 hour)
-    const validUntil = Date.now() + 1000 * 60 * 60 // 1 hour validity (timestamp in milliseconds)
-    const viewerUrl = draftableClient.comparisons.signedViewerURL(
-      comparison.identifier,
-      validUntil,
-      true // wait=true (wait for comparison to be ready before redirecting)
-    )
-
-    logger.debug('Generated Draftable viewer URL', {
-      identifier: comparison.identifier,
-      validUntil,
-      validUntilSeconds: Math.floor(validUntil / 1000),
-      // Only log full viewer URL in development (contains signature)
-      ...(process.env.NODE_ENV === 'development' && { viewerUrl })
-    })
-
-    return NextResponse.json({
-      success: true,
-      viewerUrl,
-      identifier: comparison.identifier,
-      ready: comparison.ready
-    })
-
-  } catch (error) {
-    logger.error('Draftable comparison error', error as Error)
-    return NextResponse.json({
-      error: 'Failed to create comparison',
-      ...(process.env.NODE_ENV === 'development' && {
-        details: error instanceof Error ? error.message : 'Unknown error'
-      })
-    }, { status: 500 })
-  }
-}
+export { POST } from '@/app/api/compare/route'
@@ -0,0 +1,89 @@
+import { redirect } from 'next/navigation'
+import Link from 'next/link'
+import { createClient } from '@/lib/supabase/server'
+import { DashboardLayout } from '@/components/dashboard/layout'
+import { RedlineViewer } from '@/components/comparison/redline-viewer'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent } from '@/components/ui/card'
+import { ArrowLeft, GitCompare } from 'lucide-react'
+import { computeRedline, type RedlineComparison } from '@/lib/comparison/redline'
+import { logger } from '@/lib/logger'
+import type { Metadata } from 'next'
+
+export const metadata: Metadata = {
+  title: 'Compare Documents | PDF Search',
+}
+
+interface PageProps {
+  params: Promise<{ id: string; targetId: string }>
+}
+
+export default async function CompareDocumentsPage({ params }: PageProps) {
+  const { id, targetId } = await params
+  const supabase = await createClient()
+
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) {
+    redirect('/login')
+  }
+
+  // RLS policies handle access control - both documents must be visible to the user
+  const { data: documents, error } = await supabase
+    .from('documents')
+    .select('id, title')
+    .in('id', [id, targetId])
+
+  const sourceDocument = documents?.find(doc => doc.id === id)
+  const targetDocument = documents?.find(doc => doc.id === targetId)
+
+  if (error || !sourceDocument || !targetDocument) {
+    redirect('/dashboard')
+  }
+
+  let comparison: RedlineComparison | null = null
+  let comparisonError: string | null = null
+  try {
+    comparison = await computeRedline(id, targetId)
+  } catch (compareError) {
+    logger.error('Failed to compute redline comparison', compareError as Error, {
+      sourceDocumentId: id,
+      targetDocumentId: targetId
+    })
+    comparisonError = compareError instanceof Error ? compareError.message : 'Failed to compare documents'
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex items-center space-x-4">
+          <Link href={`/documents/${id}/similar`}>
+            <Button variant="ghost" size="sm">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to Search
+            </Button>
+          </Link>
+          <div className="h-6 border-l border-gray-300" />
+          <h1 className="text-2xl font-bold text-gray-900 flex items-center gap-2">
+            <GitCompare className="h-6 w-6 text-blue-500" />
+            Compare Documents
+          </h1>
+        </div>
+
+        {comparison ? (
+          <RedlineViewer
+            comparison={comparison}
+            sourceTitle={String(sourceDocument.title)}
+            targetTitle={String(targetDocument.title)}
+          />
+        ) : (
+          <Card className="card-enhanced">
+            <CardContent className="p-8 text-center text-sm text-red-600">
+              {comparisonError}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </DashboardLayout>
+  )
+}
@@ -0,0 +1,147 @@
+import { redirect, notFound } from 'next/navigation'
+import Link from 'next/link'
+import type { ComponentProps } from 'react'
+import { createClient } from '@/lib/supabase/server'
+import { DashboardLayout } from '@/components/dashboard/layout'
+import { SimilarityResultsV2 } from '@/components/similarity/similarity-results-v2'
+import { CopyPermalinkButton } from '@/components/similarity/copy-permalink-button'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import type { DatabaseDocument as AppDocument } from '@/types/external-apis'
+import { ArrowLeft, History, Target } from 'lucide-react'
+import { formatUploadDate } from '@/lib/date-utils'
+import { getSimilaritySearch } from '@/lib/similarity/saved-searches'
+import type { Metadata } from 'next'
+
+export const metadata: Metadata = {
+  title: 'Saved Search | PDF Search',
+}
+
+interface PageProps {
+  params: Promise<{ id: string; searchId: string }>
+}
+
+type SavedResults = ComponentProps<typeof SimilarityResultsV2>['results']
+
+const formatPercent = (value: unknown): string =>
+  typeof value === 'number' || typeof value === 'string'
+    ? `${Math.round(Number(value) * 100)}%`
+    : '-'
+
+const formatFilterValue = (value: unknown): string =>
+  Array.isArray(value) ? value.join(', ') : String(value)
+
+export default async function SavedSimilaritySearchPage({ params }: PageProps) {
+  const { id, searchId } = await params
+  const supabase = await createClient()
+
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) {
+    redirect('/login')
+  }
+
+  // RLS policies handle access control - saved searches are shared like documents
+  const { data: document, error } = await supabase
+    .from('documents')
+    .select('*')
+    .eq('id', id)
+    .single<AppDocument>()
+
+  if (error || !document) {
+    redirect('/dashboard')
+  }
+
+  const search = await getSimilaritySearch(supabase, id, searchId)
+  if (!search) {
+    notFound()
+  }
+
+  const metadataFilters = Object.entries(search.filters ?? {}).filter(
+    ([key]) => !['page_range', 'topK', 'min_score', 'threshold'].includes(key)
+  )
+  const totalSeconds = typeof search.timing?.['total_ms'] === 'number'
+    ? (search.timing['total_ms'] / 1000).toFixed(1)
+    : null
+  const permalink = `/documents/${id}/similar/${searchId}`
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-4">
+            <Link href={`/documents/${id}/similar`}>
+              <Button variant="ghost" size="sm">
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Back to Search
+              </Button>
+            </Link>
+            <div className="h-6 border-l border-gray-300" />
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900 flex items-center gap-2">
+                <History className="h-6 w-6 text-blue-500" />
+                Saved Search
+              </h1>
+            </div>
+          </div>
+          <CopyPermalinkButton path={permalink} />
+        </div>
+
+        {/* Search Summary */}
+        <Card className="border-blue-200 bg-blue-50/50">
+          <CardHeader className="pb-3">
+            <CardTitle className="flex items-center gap-2 text-blue-900">
+              <Target className="h-5 w-5" />
+              {document.title}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3 text-sm">
+            <div className="flex flex-wrap items-center gap-4 text-xs text-gray-600">
+              <span>Run {formatUploadDate(search.created_at)}</span>
+              {search.created_by_email && <span>by {search.created_by_email}</span>}
+              <span>
+                {search.page_range
+                  ? `Pages ${search.page_range.start_page}-${search.page_range.end_page}`
+                  : 'Entire document'}
+              </span>
+              {totalSeconds && <span>{totalSeconds}s</span>}
+              {typeof search.stages?.['stage0_candidates'] === 'number' && (
+                <span>
+                  {search.stages['stage0_candidates']} → {search.stages['stage1_candidates'] ?? '-'} → {search.stages['final_results'] ?? '-'} candidates
+                </span>
+              )}
+            </div>
+            <div className="flex flex-wrap items-center gap-2">
+              <Badge variant="outline" className="text-xs">
+                Source ≥ {formatPercent(search.source_min_score)}
+              </Badge>
+              <Badge variant="outline" className="text-xs">
+                Target ≥ {formatPercent(search.target_min_score)}
+              </Badge>
+              {search.config?.['exclude_older_versions'] === true && (
+                <Badge variant="outline" className="text-xs">Latest versions only</Badge>
+              )}
+              {search.config?.['boilerplate_weighting'] === true && (
+                <Badge variant="outline" className="text-xs">Boilerplate down-weighted</Badge>
+              )}
+              {metadataFilters.map(([key, value]) => (
+                <Badge key={key} variant="secondary" className="text-xs">
+                  {key.replace(/_/g, ' ')}: {formatFilterValue(value)}
+                </Badge>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+
+        <SimilarityResultsV2
+          results={search.results as unknown as SavedResults}
+          sourceDocument={document}
+          isLoading={false}
+          sourcePageRange={search.page_range}
+          savedSearchId={searchId}
+        />
+      </div>
+    </DashboardLayout>
+  )
+}
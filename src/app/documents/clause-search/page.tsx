@@ -0,0 +1,44 @@
+import { redirect } from 'next/navigation'
+import Link from 'next/link'
+import { createClient } from '@/lib/supabase/server'
+import { DashboardLayout } from '@/components/dashboard/layout'
+import { ClauseSearchInterface } from '@/components/similarity/clause-search-interface'
+import { Button } from '@/components/ui/button'
+import { ArrowLeft, FileSearch } from 'lucide-react'
+import type { Metadata } from 'next'
+
+export const metadata: Metadata = {
+  title: 'Clause Search | PDF Search',
+}
+
+export default async function ClauseSearchPage() {
+  const supabase = await createClient()
+
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) {
+    redirect('/login')
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex items-center space-x-4">
+          <Link href="/dashboard">
+            <Button variant="ghost" size="sm">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to Dashboard
+            </Button>
+          </Link>
+          <div className="h-6 border-l border-gray-300" />
+          <h1 className="text-2xl font-bold text-gray-900 flex items-center gap-2">
+            <FileSearch className="h-6 w-6 text-emerald-500" />
+            Clause Search
+          </h1>
+        </div>
+
+        <ClauseSearchInterface />
+      </div>
+    </DashboardLayout>
+  )
+}
@@ -5,6 +5,7 @@ import { createClient } from '@/lib/supabase/server'
 import type { DatabaseDocument as AppDocument } from '@/types/external-apis'
 import { DashboardLayout } from '@/components/dashboard/layout'
 import { SelectedSearchInterface } from '@/components/similarity/selected-search-interface'
+import { SimilarityMatrixView } from '@/components/similarity/similarity-matrix-view'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import {
@@ -14,9 +15,11 @@ import {
   Scale,
   UserCircle,
   ClipboardList,
-  Globe
+  Globe,
+  Grid3x3
 } from 'lucide-react'
 import { formatUploadDate } from '@/lib/date-utils'
+import { MAX_MATRIX_DOCUMENTS } from '@/lib/similarity/similarity-matrix'
 import { getAllApprovedMetadataOptions } from '@/lib/metadata-options-server'
 import type { MetadataOption } from '@/lib/metadata-options-server'
 import { SourceDocumentActions } from '@/components/similarity/source-document-actions'
@@ -48,13 +51,15 @@ const formatFileSize = (bytes?: number | null) => {
 export default async function SelectedSearchPage({ searchParams }: PageProps) {
   const params = await searchParams
   const idsParam = typeof params['ids'] === 'string' ? params['ids'] : undefined
+  const isMatrixMode = params['mode'] === 'matrix'
 
   // New logic: derive source and targets from a single 'ids' parameter
   let sourceId: string | undefined = undefined
   let targetIds: string[] = []
+  let allIds: string[] = []
 
   if (idsParam) {
-    const allIds = idsParam.split(',')
+    allIds = idsParam.split(',').filter(Boolean)
     if (allIds.length > 0) {
       sourceId = allIds[0] // First document is the source
     }
@@ -92,6 +97,12 @@ export default async function SelectedSearchPage({ searchParams }: PageProps) {
   // Otherwise, show the selection interface
   const shouldAutoSearch = sourceDocument && targetIds.length > 0
 
+  // Matrix mode compares every selected document against every other
+  const canShowMatrix = allIds.length >= 2 && allIds.length <= MAX_MATRIX_DOCUMENTS
+  const oneToManyHref = `/documents/selected-search?ids=${allIds.join(',')}`
+  const matrixHref = `${oneToManyHref}&mode=matrix`
+  const showMatrix = isMatrixMode && canShowMatrix
+
   return (
     <DashboardLayout>
       <div className="space-y-6">
@@ -112,10 +123,30 @@ export default async function SelectedSearchPage({ searchParams }: PageProps) {
               </h1>
             </div>
           </div>
+          {canShowMatrix && (
+            <div className="flex items-center gap-2">
+              <Link href={oneToManyHref}>
+                <Button variant={showMatrix ? 'outline' : 'default'} size="sm">
+                  <Target className="h-4 w-4 mr-2" />
+                  Source vs. targets
+                </Button>
+              </Link>
+              <Link href={matrixHref}>
+                <Button variant={showMatrix ? 'default' : 'outline'} size="sm">
+                  <Grid3x3 className="h-4 w-4 mr-2" />
+                  All pairs
+                </Button>
+              </Link>
+            </div>
+          )}
         </div>
 
+        {showMatrix && (
+          <SimilarityMatrixView documentIds={allIds} />
+        )}
+
         {/* Source Document Card */}
-        {sourceDocument && (
+        {!showMatrix && sourceDocument && (
           <Card className="border-emerald-200 bg-emerald-50/50">
             <CardHeader className="pb-3">
               <CardTitle className="flex items-center gap-2 text-emerald-900">
@@ -182,10 +213,12 @@ export default async function SelectedSearchPage({ searchParams }: PageProps) {
         )}
 
         {/* Search Interface and Results */}
-        <SelectedSearchInterface 
-          sourceDocument={sourceDocument} 
-          autoSearchTargets={shouldAutoSearch ? targetIds : []}
-        />
+        {!showMatrix && (
+          <SelectedSearchInterface
+            sourceDocument={sourceDocument}
+            autoSearchTargets={shouldAutoSearch ? targetIds : []}
+          />
+        )}
       </div>
     </DashboardLayout>
   )
@@ -0,0 +1,162 @@
+'use client'
+
+import { useState } from 'react'
+import { Card, CardContent } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Label } from '@/components/ui/label'
+import type {
+  PageSpan,
+  RedlineComparison,
+  RedlineOperation,
+  RedlineSegment
+} from '@/lib/comparison/redline'
+
+// Unchanged passages longer than this are collapsed in "changes only" mode
+const COLLAPSE_MIN_WORDS = 40
+const COLLAPSE_CONTEXT_WORDS = 12
+
+interface RedlineViewerProps {
+  comparison: RedlineComparison
+  sourceTitle: string
+  targetTitle: string
+}
+
+const formatSpan = (span: PageSpan | null): string => {
+  if (!span) return 'No pages'
+  return span.start === span.end ? `Page ${span.start}` : `Pages ${span.start}-${span.end}`
+}
+
+function OperationText({ operation, side, collapse }: {
+  operation: RedlineOperation
+  side: 'source' | 'target'
+  collapse: boolean
+}) {
+  switch (operation.type) {
+    case 'delete':
+      return <span className="bg-red-100 text-red-800 line-through decoration-red-500">{operation.text} </span>
+    case 'insert':
+      return <span className="bg-green-100 text-green-800 underline decoration-green-600">{operation.text} </span>
+    case 'move_from':
+    case 'move_to': {
+      const counterpart = side === 'source' ? 'to' : 'from'
+      return (
+        <a
+          id={`move-${side === 'source' ? 'from' : 'to'}-${operation.moveId}`}
+          href={`#move-${counterpart}-${operation.moveId}`}
+          className="bg-purple-100 text-purple-800 decoration-purple-500 decoration-dotted underline"
+          title={side === 'source' ? 'Moved - click to see where it went' : 'Moved - click to see where it came from'}
+        >
+          {operation.text}{' '}
+        </a>
+      )
+    }
+    default: {
+      if (!collapse) {
+        return <span>{operation.text} </span>
+      }
+      const words = operation.text.split(' ')
+      if (words.length < COLLAPSE_MIN_WORDS) {
+        return <span>{operation.text} </span>
+      }
+      return (
+        <span>
+          {words.slice(0, COLLAPSE_CONTEXT_WORDS).join(' ')}{' '}
+          <span className="text-gray-400 italic">
+            … {words.length - COLLAPSE_CONTEXT_WORDS * 2} unchanged words …
+          </span>{' '}
+          {words.slice(-COLLAPSE_CONTEXT_WORDS).join(' ')}{' '}
+        </span>
+      )
+    }
+  }
+}
+
+function SegmentColumn({ segment, side, collapse }: {
+  segment: RedlineSegment
+  side: 'source' | 'target'
+  collapse: boolean
+}) {
+  const hidden = side === 'source' ? ['insert', 'move_to'] : ['delete', 'move_from']
+  const operations = segment.operations.filter(operation => !hidden.includes(operation.type))
+
+  return (
+    <div className="min-w-0">
+      <div className="mb-1 text-xs font-medium text-gray-500">
+        {formatSpan(side === 'source' ? segment.sourcePages : segment.targetPages)}
+      </div>
+      <p className="whitespace-pre-wrap break-words text-sm leading-relaxed text-gray-800">
+        {operations.length === 0
+          ? <span className="text-gray-400 italic">Nothing on this side</span>
+          : operations.map((operation, index) => (
+              <OperationText key={index} operation={operation} side={side} collapse={collapse} />
+            ))}
+      </p>
+    </div>
+  )
+}
+
+export function RedlineViewer({ comparison, sourceTitle, targetTitle }: RedlineViewerProps) {
+  const [changesOnly, setChangesOnly] = useState(true)
+  const { stats } = comparison
+
+  const segments = changesOnly
+    ? comparison.segments.filter(segment => segment.operations.some(operation => operation.type !== 'equal'))
+    : comparison.segments
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex flex-wrap items-center gap-2 text-xs">
+          <Badge className="bg-green-100 text-green-800">{stats.insertedWords} words inserted</Badge>
+          <Badge className="bg-red-100 text-red-800">{stats.deletedWords} words deleted</Badge>
+          <Badge className="bg-purple-100 text-purple-800">{stats.movedWords} words moved</Badge>
+          <Badge variant="outline">{stats.unchangedWords} words unchanged</Badge>
+          <Badge variant="outline">{comparison.anchorCount} aligned sections</Badge>
+        </div>
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id="redline-changes-only"
+            checked={changesOnly}
+            onCheckedChange={checked => setChangesOnly(checked === true)}
+          />
+          <Label htmlFor="redline-changes-only" className="text-xs">
+            Changes only
+          </Label>
+        </div>
+      </div>
+
+      <div className="sticky top-0 z-10 grid grid-cols-2 gap-4 rounded-lg border bg-white px-4 py-2 text-sm font-semibold text-gray-900">
+        <div className="truncate">{sourceTitle} ({comparison.sourcePageCount} pages)</div>
+        <div className="truncate">{targetTitle} ({comparison.targetPageCount} pages)</div>
+      </div>
+
+      {segments.length === 0 ? (
+        <Card className="card-enhanced">
+          <CardContent className="p-8 text-center text-sm text-gray-600">
+            No differences found in the extracted text.
+          </CardContent>
+        </Card>
+      ) : (
+        segments.map((segment, index) => (
+          <Card key={index} className="card-enhanced">
+            <CardContent className="space-y-2 p-4">
+              {(!segment.anchored || segment.diffLimitExceeded) && (
+                <div className="flex flex-wrap gap-2 text-xs">
+                  {!segment.anchored && <Badge variant="outline">Between aligned sections</Badge>}
+                  {segment.diffLimitExceeded && (
+                    <Badge className="bg-orange-100 text-orange-800">Too different to diff word by word</Badge>
+                  )}
+                </div>
+              )}
+              <div className="grid grid-cols-2 gap-4">
+                <SegmentColumn segment={segment} side="source" collapse={changesOnly} />
+                <SegmentColumn segment={segment} side="target" collapse={changesOnly} />
+              </div>
+            </CardContent>
+          </Card>
+        ))
+      )}
+    </div>
+  )
+}
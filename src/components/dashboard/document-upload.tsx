@@ -27,12 +27,20 @@ interface TouchedFields {
   jurisdiction: boolean
 }
 
+interface DuplicateDocument {
+  id: string
+  title: string
+  filename: string
+  created_at: string
+}
+
 interface UploadFile {
   file: File
   id: string
   progress: number
-  status: 'pending' | 'uploading' | 'processing' | 'completed' | 'error' | 'validating'
+  status: 'pending' | 'uploading' | 'processing' | 'completed' | 'error' | 'validating' | 'duplicate'
   error?: string
+  duplicates?: DuplicateDocument[]
   metadata: DocumentMetadata
   touchedFields: TouchedFields
   validation?: {
@@ -250,18 +258,21 @@ export function DocumentUpload({ onUploadComplete }: DocumentUploadProps) {
     }
   }
 
-  const uploadSingleFile = async (uploadFile: UploadFile): Promise<void> => {
+  const uploadSingleFile = async (uploadFile: UploadFile, allowDuplicate = false): Promise<void> => {
     try {
       // Update status to uploading
       setFiles(prev => prev.map(f => 
         f.id === uploadFile.id 
-          ? { ...f, status: 'uploading' as const, progress: 10 } 
+          ? { ...f, status: 'uploading' as const, progress: 10, error: undefined, duplicates: undefined } 
           : f
       ))
 
       const formData = new FormData()
       formData.append('file', uploadFile.file)
       formData.append('metadata', JSON.stringify(uploadFile.metadata))
+      if (allowDuplicate) {
+        formData.append('allowDuplicate', 'true')
+      }
 
       // Simulate progress during upload
       const progressInterval = setInterval(() => {
@@ -279,6 +290,19 @@ export function DocumentUpload({ onUploadComplete }: DocumentUploadProps) {
 
       clearInterval(progressInterval)
 
+      if (response.status === 409) {
+        const conflict = await response.json().catch(() => null)
+        if (conflict?.code === 'DUPLICATE_DOCUMENT') {
+          setFiles(prev => prev.map(f =>
+            f.id === uploadFile.id
+              ? { ...f, status: 'duplicate' as const, progress: 0, error: conflict.error, duplicates: conflict.duplicates ?? [] }
+              : f
+          ))
+          setStatusMessage(`${uploadFile.file.name} is already in the library`)
+          return
+        }
+      }
+
       if (!response.ok) {
         const errorData = await response.json().catch(() => ({ error: 'Upload failed' }))
         throw new Error(errorData.error || 'Upload failed')
@@ -358,6 +382,8 @@ const canUpload = () => {
         return <CheckCircle className="h-4 w-4 text-green-500" />
       case 'error':
         return <AlertTriangle className="h-4 w-4 text-red-500" />
+      case 'duplicate':
+        return <AlertTriangle className="h-4 w-4 text-amber-500" />
       default:
         return <Image src="/logo/pdf.svg" alt="PDF" width={16} height={16} />
     }
@@ -491,6 +517,28 @@ const canUpload = () => {
                     </Button>
                   </div>
 
+                  {/* Duplicate of an existing document */}
+                  {uploadFile.status === 'duplicate' && (
+                    <Alert className="border-amber-200 bg-amber-50">
+                      <Info className="h-4 w-4 text-amber-600" />
+                      <AlertDescription className="text-sm text-amber-800">
+                        <div className="space-y-2">
+                          <div>
+                            Already uploaded as{' '}
+                            {(uploadFile.duplicates ?? []).map(duplicate => duplicate.title || duplicate.filename).join(', ')}
+                          </div>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => uploadSingleFile(uploadFile, true)}
+                          >
+                            Upload anyway
+                          </Button>
+                        </div>
+                      </AlertDescription>
+                    </Alert>
+                  )}
+
                   {/* Validation Issues and Warnings */}
                   {uploadFile.validation && (uploadFile.validation.issues.length > 0 || uploadFile.validation.warnings.length > 0) && (
                     <div className="space-y-1.5">
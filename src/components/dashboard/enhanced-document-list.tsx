@@ -15,11 +15,15 @@ import { AlertDialog, AlertDialogCancel, AlertDialogContent, AlertDialogDescript
 import { SearchableMultiSelect } from '@/components/ui/searchable-multi-select'
 import { SearchModeModal } from '@/components/similarity/search-mode-modal'
 import { EditDocumentMetadataModal } from './edit-document-metadata-modal'
+import { LinkDocumentVersionModal } from './link-document-version-modal'
 import { KeywordResults } from '@/components/search/keyword-results'
+import { SemanticResults } from '@/components/search/semantic-results'
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
 import { Checkbox } from '@/components/ui/checkbox'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group'
-import type { KeywordSearchResponse } from '@/types/search'
+import type { KeywordSearchFilters, KeywordSearchResponse, PatternSearchMode } from '@/types/search'
+import type { SemanticSearchResponse } from '@/lib/search/semantic-search'
 import {
   Target,
   Search,
@@ -37,6 +41,10 @@ import {
   UserCircle,
   ClipboardList,
   Globe,
+  Layers,
+  FileSearch,
+  CalendarDays,
+  BookOpen,
   ArrowUp,
   ArrowDown,
   FilterX,
@@ -47,9 +55,12 @@ import {
   ChevronsRight,
   Loader2,
   RotateCcw,
-  ArrowUpDown
+  ArrowUpDown,
+  GitBranch,
+  Unlink
 } from 'lucide-react'
 import { useMetadataOptions } from '@/hooks/use-metadata-options'
+import { useTemplateClusters } from '@/hooks/use-template-clusters'
 import { format } from 'date-fns'
 import { createClient as createSupabaseClient } from '@/lib/supabase/client'
 import { clientLogger } from '@/lib/client-logger'
@@ -93,14 +104,36 @@ interface SearchModeState {
   isOpen: boolean
 }
 
+function isCurrentVersion(doc: Document): boolean {
+  return !doc.family_id || doc.is_latest_version !== false
+}
+
+type SearchModeOption = 'name' | 'content' | 'semantic'
+type ContentMatchMode = 'keywords' | 'fuzzy' | PatternSearchMode
+
+const CONTENT_MATCH_PLACEHOLDERS: Record<ContentMatchMode, string> = {
+  keywords: 'Search content: "exact phrase", AND / OR / NOT, indemnif*, key NEAR/5 person...',
+  fuzzy: 'Search content, tolerating typos and OCR errors...',
+  regex: 'Regular expression, e.g. \\d{2}-\\d{7} for EINs...',
+  exact: 'Exact text, e.g. [●]...'
+}
+
+// Meaning-based queries are embedded on every run, so wait for a longer pause
+const SEMANTIC_SEARCH_DEBOUNCE_MS = 800
+const SEMANTIC_SEARCH_MIN_QUERY_LENGTH = 3
+
 export function EnhancedDocumentList({ refreshTrigger = 0 }: DocumentListProps) {
   const supabase = useMemo(() => createSupabaseClient(), [])
   const [documents, setDocuments] = useState<Document[]>([])
   const [filteredDocuments, setFilteredDocuments] = useState<Document[]>([])
   const [searchQuery, setSearchQuery] = useState('')
-  const [searchMode, setSearchMode] = useState<'name' | 'content'>('name')
+  const [searchMode, setSearchMode] = useState<SearchModeOption>('name')
   const [keywordResults, setKeywordResults] = useState<KeywordSearchResponse | null>(null)
   const [isKeywordSearching, setIsKeywordSearching] = useState(false)
+  const [contentMatchMode, setContentMatchMode] = useState<ContentMatchMode>('keywords')
+  const [matchCase, setMatchCase] = useState(true)
+  const [semanticResults, setSemanticResults] = useState<SemanticSearchResponse | null>(null)
+  const [isSemanticSearching, setIsSemanticSearching] = useState(false)
   const [isLoadingMoreKeywordDocs, setIsLoadingMoreKeywordDocs] = useState(false)
   const [statusFilter, setStatusFilter] = useState<string>('all')
   const [sortBy, setSortBy] = useState<string>('updated_at')
@@ -113,6 +146,7 @@ export function EnhancedDocumentList({ refreshTrigger = 0 }: DocumentListProps)
   const { options: fundManagerOptions } = useMetadataOptions('fund_manager')
   const { options: fundAdminOptions } = useMetadataOptions('fund_admin')
   const { options: jurisdictionOptions } = useMetadataOptions('jurisdiction')
+  const { clusters: templateClusters } = useTemplateClusters()
 
   // Metadata filters
   const [showFilters, setShowFilters] = useState(false)
@@ -120,10 +154,18 @@ export function EnhancedDocumentList({ refreshTrigger = 0 }: DocumentListProps)
   const [fundManagerFilter, setFundManagerFilter] = useState<string[]>([])
   const [fundAdminFilter, setFundAdminFilter] = useState<string[]>([])
   const [jurisdictionFilter, setJurisdictionFilter] = useState<string[]>([])
+  const [templateClusterFilter, setTemplateClusterFilter] = useState<string[]>([])
+  // Content search only: these are applied by the keyword search SQL, not to the document list
+  const [uploadedFromFilter, setUploadedFromFilter] = useState('')
+  const [uploadedToFilter, setUploadedToFilter] = useState('')
+  const [startPageFilter, setStartPageFilter] = useState('')
+  const [endPageFilter, setEndPageFilter] = useState('')
   const [isLoading, setIsLoading] = useState(true)
   const [error, setError] = useState('')
   const [selectedDocuments, setSelectedDocuments] = useState<Set<string>>(new Set())
   const [editingDocument, setEditingDocument] = useState<Document | null>(null)
+  const [linkingVersionDocument, setLinkingVersionDocument] = useState<Document | null>(null)
+  const [showOlderVersions, setShowOlderVersions] = useState(false)
   const [renameDialog, setRenameDialog] = useState<RenameDocumentDialogState>({
     document: null,
     isOpen: false,
@@ -194,6 +236,7 @@ export function EnhancedDocumentList({ refreshTrigger = 0 }: DocumentListProps)
     fundManagerFilter,
     fundAdminFilter,
     jurisdictionFilter,
+    templateClusterFilter,
     sortBy,
     sortOrder
   })
@@ -235,6 +278,38 @@ export function EnhancedDocumentList({ refreshTrigger = 0 }: DocumentListProps)
     setEditingDocument(null)
   }
 
+  const isUploadDateRangeInvalid = uploadedFromFilter !== '' && uploadedToFilter !== '' &&
+    uploadedFromFilter > uploadedToFilter
+  const startPage = Number.parseInt(startPageFilter, 10)
+  const endPage = Number.parseInt(endPageFilter, 10)
+  const isPageRangeSet = startPageFilter !== '' && endPageFilter !== ''
+  const isPageRangeInvalid = isPageRangeSet && !(startPage >= 1 && endPage >= startPage)
+
+  /**
+   * Filters sent with content search, built from the filter panel
+   * Invalid ranges are left out rather than failing the search.
+   */
+  const keywordSearchFilters = useMemo<KeywordSearchFilters>(() => {
+    const metadata = {
+      law_firm: lawFirmFilter,
+      fund_manager: fundManagerFilter,
+      fund_admin: fundAdminFilter,
+      jurisdiction: jurisdictionFilter
+    }
+
+    return {
+      metadata: Object.fromEntries(Object.entries(metadata).filter(([, values]) => values.length > 0)),
+      ...(templateClusterFilter.length > 0 && { templateClusterIds: templateClusterFilter }),
+      ...(!isUploadDateRangeInvalid && uploadedFromFilter && { uploadedFrom: uploadedFromFilter }),
+      ...(!isUploadDateRangeInvalid && uploadedToFilter && { uploadedTo: uploadedToFilter }),
+      ...(isPageRangeSet && !isPageRangeInvalid && { pageRange: { start_page: startPage, end_page: endPage } })
+    }
+  }, [
+    lawFirmFilter, fundManagerFilter, fundAdminFilter, jurisdictionFilter, templateClusterFilter,
+    uploadedFromFilter, uploadedToFilter, isUploadDateRangeInvalid,
+    isPageRangeSet, isPageRangeInvalid, startPage, endPage
+  ])
+
   /**
    * Perform keyword search on document content
    * @param query Search query string
@@ -265,7 +340,13 @@ export function EnhancedDocumentList({ refreshTrigger = 0 }: DocumentListProps)
           query: query.trim(),
           maxPagesPerDoc: 3,
           pageSize: 20,
-          pageOffset: offset
+          pageOffset: offset,
+          fuzzy: contentMatchMode === 'fuzzy',
+          ...((contentMatchMode === 'regex' || contentMatchMode === 'exact') && {
+            patternMode: contentMatchMode,
+            caseSensitive: matchCase
+          }),
+          filters: keywordSearchFilters
         })
       })
 
@@ -302,7 +383,57 @@ export function EnhancedDocumentList({ refreshTrigger = 0 }: DocumentListProps)
       setIsKeywordSearching(false)
       setIsLoadingMoreKeywordDocs(false)
     }
-  }, [])
+  }, [contentMatchMode, matchCase, keywordSearchFilters])
+
+  /**
+   * Perform semantic passage search, scoped by the metadata filters and the
+   * current selection when one is active
+   */
+  const performSemanticSearch = useCallback(async (query: string) => {
+    if (query.trim().length < SEMANTIC_SEARCH_MIN_QUERY_LENGTH) {
+      setSemanticResults(null)
+      return
+    }
+
+    try {
+      setIsSemanticSearching(true)
+      setError('')
+
+      const metadata = {
+        law_firm: lawFirmFilter,
+        fund_manager: fundManagerFilter,
+        fund_admin: fundAdminFilter,
+        jurisdiction: jurisdictionFilter
+      }
+
+      const response = await fetch('/api/documents/semantic-search', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          query: query.trim(),
+          maxPassagesPerDoc: 3,
+          filters: {
+            ...(selectedDocuments.size > 0 && { documentIds: Array.from(selectedDocuments) }),
+            metadata: Object.fromEntries(Object.entries(metadata).filter(([, values]) => values.length > 0))
+          }
+        })
+      })
+
+      const body = await response.json().catch(() => ({}))
+      if (!response.ok || !body.success) {
+        throw new Error(body.error || `Search failed: ${response.status}`)
+      }
+
+      setSemanticResults(body.data as SemanticSearchResponse)
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to search documents'
+      setError(errorMessage)
+      clientLogger.error('Semantic search error:', err)
+      setSemanticResults(null)
+    } finally {
+      setIsSemanticSearching(false)
+    }
+  }, [lawFirmFilter, fundManagerFilter, fundAdminFilter, jurisdictionFilter, selectedDocuments])
 
   /**
    * Load more keyword search documents (pagination)
@@ -313,12 +444,57 @@ export function EnhancedDocumentList({ refreshTrigger = 0 }: DocumentListProps)
     }
   }, [searchQuery, isLoadingMoreKeywordDocs, isKeywordSearching, performKeywordSearch])
 
+  // Template clusters are not part of the vector payload, so that filter is applied here
+  const visibleSemanticResults = useMemo(() => {
+    const results = semanticResults?.results ?? []
+    if (templateClusterFilter.length === 0) return results
+
+    const clusterByDocument = new Map(documents.map(doc => [doc.id, doc.template_cluster_id]))
+    return results.filter(result => {
+      const clusterId = clusterByDocument.get(result.documentId)
+      return (templateClusterFilter.includes('(blank)') && !clusterId) ||
+        (!!clusterId && templateClusterFilter.includes(clusterId))
+    })
+  }, [semanticResults, templateClusterFilter, documents])
+
+  /**
+   * Open a document's PDF in a new tab, jumping to the given page
+   */
+  const handleViewDocumentPage = useCallback(async (documentId: string, pageNumber?: number) => {
+    const doc = documents.find(d => d.id === documentId)
+    if (!doc) return
+
+    try {
+      const response = await fetch(`/api/documents/${doc.id}/download`)
+      if (!response.ok) throw new Error('Failed to retrieve document')
+
+      const blob = await response.blob()
+      const url = window.URL.createObjectURL(blob)
+
+      // Add page number using PDF fragment identifier
+      const urlWithPage = pageNumber ? `${url}#page=${pageNumber}` : url
+
+      window.open(urlWithPage, '_blank', 'noopener,noreferrer')
+
+      setTimeout(() => window.URL.revokeObjectURL(url), 1000)
+    } catch (error) {
+      clientLogger.error('Failed to open document', {
+        error,
+        documentId: doc.id,
+        filename: doc.filename,
+        pageNumber
+      })
+      alert(`Failed to open "${doc.title}". Please try again.`)
+    }
+  }, [documents])
+
   /**
    * Handle search mode changes
    */
-  const handleSearchModeChange = (mode: 'name' | 'content') => {
+  const handleSearchModeChange = (mode: SearchModeOption) => {
     setSearchMode(mode)
     setKeywordResults(null)
+    setSemanticResults(null)
     keywordPageOffsetRef.current = 0
     setError('')
 
@@ -354,6 +530,24 @@ export function EnhancedDocumentList({ refreshTrigger = 0 }: DocumentListProps)
     }
   }, [searchQuery, searchMode, performKeywordSearch])
 
+  /**
+   * Debounced semantic search effect (also re-runs when filters or selection change)
+   */
+  useEffect(() => {
+    if (searchMode !== 'semantic') return undefined
+
+    if (searchQuery.trim().length >= SEMANTIC_SEARCH_MIN_QUERY_LENGTH) {
+      const timeoutId = setTimeout(() => {
+        performSemanticSearch(searchQuery)
+      }, SEMANTIC_SEARCH_DEBOUNCE_MS)
+
+      return () => clearTimeout(timeoutId)
+    } else {
+      setSemanticResults(null)
+      return undefined
+    }
+  }, [searchQuery, searchMode, performSemanticSearch])
+
   // Sync documents to ref for polling (prevents infinite effect restarts)
   useEffect(() => {
     documentsRef.current = documents
@@ -880,6 +1074,11 @@ export function EnhancedDocumentList({ refreshTrigger = 0 }: DocumentListProps)
     setFundManagerFilter([])
     setFundAdminFilter([])
     setJurisdictionFilter([])
+    setTemplateClusterFilter([])
+    setUploadedFromFilter('')
+    setUploadedToFilter('')
+    setStartPageFilter('')
+    setEndPageFilter('')
     setShowFilters(false)
   }
 
@@ -887,11 +1086,15 @@ export function EnhancedDocumentList({ refreshTrigger = 0 }: DocumentListProps)
     setShowFilters(!showFilters)
   }
 
+  const contentOnlyFilterCount = (uploadedFromFilter || uploadedToFilter ? 1 : 0) + (isPageRangeSet ? 1 : 0)
+
   const hasActiveFilters = () => {
     return lawFirmFilter.length > 0 ||
            fundManagerFilter.length > 0 ||
            fundAdminFilter.length > 0 ||
-           jurisdictionFilter.length > 0
+           jurisdictionFilter.length > 0 ||
+           templateClusterFilter.length > 0 ||
+           (searchMode === 'content' && contentOnlyFilterCount > 0)
   }
 
   // Multi-select helper functions
@@ -1044,6 +1247,7 @@ export function EnhancedDocumentList({ refreshTrigger = 0 }: DocumentListProps)
       JSON.stringify(prevFiltersRef.current.fundManagerFilter) !== JSON.stringify(fundManagerFilter) ||
       JSON.stringify(prevFiltersRef.current.fundAdminFilter) !== JSON.stringify(fundAdminFilter) ||
       JSON.stringify(prevFiltersRef.current.jurisdictionFilter) !== JSON.stringify(jurisdictionFilter) ||
+      JSON.stringify(prevFiltersRef.current.templateClusterFilter) !== JSON.stringify(templateClusterFilter) ||
       prevFiltersRef.current.sortBy !== sortBy ||
       prevFiltersRef.current.sortOrder !== sortOrder
 
@@ -1055,6 +1259,7 @@ export function EnhancedDocumentList({ refreshTrigger = 0 }: DocumentListProps)
       fundManagerFilter,
       fundAdminFilter,
       jurisdictionFilter,
+      templateClusterFilter,
       sortBy,
       sortOrder
     }
@@ -1084,8 +1289,15 @@ export function EnhancedDocumentList({ refreshTrigger = 0 }: DocumentListProps)
         (jurisdictionFilter.includes('(blank)') && !doc.metadata?.jurisdiction) ||
         (doc.metadata?.jurisdiction && jurisdictionFilter.includes(doc.metadata.jurisdiction))
 
+      const matchesTemplateCluster = templateClusterFilter.length === 0 ||
+        (templateClusterFilter.includes('(blank)') && !doc.template_cluster_id) ||
+        (doc.template_cluster_id && templateClusterFilter.includes(doc.template_cluster_id))
+
+      // Families collapse to their newest draft unless older versions are requested
+      const matchesVersion = showOlderVersions || isCurrentVersion(doc)
+
       return matchesSearch && matchesStatus && matchesLawFirm &&
-             matchesFundManager && matchesFundAdmin && matchesJurisdiction
+             matchesFundManager && matchesFundAdmin && matchesJurisdiction && matchesTemplateCluster && matchesVersion
     })
 
     filtered = filtered.sort((a, b) => {
@@ -1127,7 +1339,7 @@ export function EnhancedDocumentList({ refreshTrigger = 0 }: DocumentListProps)
       setCurrentPage(newTotalPages)
     }
     // Otherwise: preserve currentPage (background updates don't reset pagination)
-  }, [documents, searchQuery, statusFilter, lawFirmFilter, fundManagerFilter, fundAdminFilter, jurisdictionFilter, sortBy, sortOrder, currentPage, documentsPerPage])
+  }, [documents, searchQuery, statusFilter, lawFirmFilter, fundManagerFilter, fundAdminFilter, jurisdictionFilter, templateClusterFilter, showOlderVersions, sortBy, sortOrder, currentPage, documentsPerPage])
 
   // Calculate pagination
   const totalPages = Math.ceil(filteredDocuments.length / documentsPerPage)
@@ -1208,7 +1420,12 @@ export function EnhancedDocumentList({ refreshTrigger = 0 }: DocumentListProps)
         (jurisdictionFilter.includes('(blank)') && !doc.metadata?.jurisdiction) ||
         (doc.metadata?.jurisdiction && jurisdictionFilter.includes(doc.metadata.jurisdiction))
 
-      return matchesSearch && matchesLawFirm && matchesFundManager && matchesFundAdmin && matchesJurisdiction
+      const matchesTemplateCluster = templateClusterFilter.length === 0 ||
+        (templateClusterFilter.includes('(blank)') && !doc.template_cluster_id) ||
+        (doc.template_cluster_id && templateClusterFilter.includes(doc.template_cluster_id))
+
+      return matchesSearch && matchesLawFirm && matchesFundManager && matchesFundAdmin && matchesJurisdiction &&
+        matchesTemplateCluster && (showOlderVersions || isCurrentVersion(doc))
     })
 
     return {
@@ -1217,7 +1434,36 @@ export function EnhancedDocumentList({ refreshTrigger = 0 }: DocumentListProps)
       processing: filteredByMetadata.filter(d => ['uploading', 'queued', 'processing'].includes(d.status)).length,
       error: filteredByMetadata.filter(d => d.status === 'error').length,
     }
-  }, [documents, searchQuery, lawFirmFilter, fundManagerFilter, fundAdminFilter, jurisdictionFilter])
+  }, [documents, searchQuery, lawFirmFilter, fundManagerFilter, fundAdminFilter, jurisdictionFilter, templateClusterFilter, showOlderVersions])
+
+  const templateClusterOptions = useMemo(() => templateClusters.map(cluster => ({
+    value: cluster.id,
+    label: `${cluster.label} (${cluster.member_count})`
+  })), [templateClusters])
+
+  const familySizes = useMemo(() => {
+    const sizes = new Map<string, number>()
+    for (const doc of documents) {
+      if (doc.family_id) {
+        sizes.set(doc.family_id, (sizes.get(doc.family_id) ?? 0) + 1)
+      }
+    }
+    return sizes
+  }, [documents])
+
+  const handleUnlinkVersion = async (document: Document) => {
+    try {
+      const response = await fetch(`/api/documents/${document.id}/versions`, { method: 'DELETE' })
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.error || 'Failed to unlink document version')
+      }
+      await fetchDocuments(false)
+    } catch (err) {
+      clientLogger.error('Error unlinking document version:', err)
+      setError(err instanceof Error ? err.message : 'Failed to unlink document version')
+    }
+  }
 
   if (isLoading) {
     return (
@@ -1325,7 +1571,7 @@ export function EnhancedDocumentList({ refreshTrigger = 0 }: DocumentListProps)
           {/* Search Mode Toggle */}
           <RadioGroup
             value={searchMode}
-            onValueChange={(value) => handleSearchModeChange(value as 'name' | 'content')}
+            onValueChange={(value) => handleSearchModeChange(value as SearchModeOption)}
             className="flex items-center gap-6"
           >
             <div className="flex items-center space-x-2">
@@ -1346,6 +1592,15 @@ export function EnhancedDocumentList({ refreshTrigger = 0 }: DocumentListProps)
                 Search by Content
               </Label>
             </div>
+            <div className="flex items-center space-x-2">
+              <RadioGroupItem value="semantic" id="search-semantic" />
+              <Label
+                htmlFor="search-semantic"
+                className="text-sm font-normal cursor-pointer"
+              >
+                Search by Meaning
+              </Label>
+            </div>
           </RadioGroup>
 
           {/* Search Input and Filters Button */}
@@ -1356,7 +1611,9 @@ export function EnhancedDocumentList({ refreshTrigger = 0 }: DocumentListProps)
                 placeholder={
                   searchMode === 'name'
                     ? 'Search documents by name...'
-                    : 'Search document content by keywords...'
+                    : searchMode === 'semantic'
+                      ? 'Describe what you are looking for, e.g. key person clause...'
+                      : CONTENT_MATCH_PLACEHOLDERS[contentMatchMode]
                 }
                 value={searchQuery}
                 onChange={(e) => handleSearchQueryChange(e.target.value)}
@@ -1364,31 +1621,71 @@ export function EnhancedDocumentList({ refreshTrigger = 0 }: DocumentListProps)
                 aria-label={
                   searchMode === 'name'
                     ? 'Search documents by title'
-                    : 'Search documents by content keywords'
+                    : searchMode === 'semantic'
+                      ? 'Search document passages by meaning'
+                      : 'Search documents by content keywords'
                 }
               />
-              {isKeywordSearching && (
+              {(isKeywordSearching || isSemanticSearching) && (
                 <div className="absolute right-3 top-1/2 transform -translate-y-1/2">
                   <Loader2 className="h-4 w-4 animate-spin text-blue-600" />
                 </div>
               )}
             </div>
-            {searchMode === 'name' && (
-              <Button
-                variant="outline"
-                size="sm"
-                onClick={toggleFilters}
-                className="flex items-center gap-2 button-brighter"
-              >
-                <Filter className="h-4 w-4" />
-                Filters
-                {hasActiveFilters() && (
-                  <Badge variant="secondary" className="ml-1 text-xs">
-                    {lawFirmFilter.length + fundManagerFilter.length + fundAdminFilter.length + jurisdictionFilter.length}
-                  </Badge>
+            {searchMode === 'content' && (
+              <div className="flex items-center gap-2">
+                <Select
+                  value={contentMatchMode}
+                  onValueChange={value => setContentMatchMode(value as ContentMatchMode)}
+                >
+                  <SelectTrigger className="h-9 w-[150px] text-xs" aria-label="Content match mode">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="keywords">Keywords</SelectItem>
+                    <SelectItem value="fuzzy">Typo-tolerant</SelectItem>
+                    <SelectItem value="regex">Regex</SelectItem>
+                    <SelectItem value="exact">Exact text</SelectItem>
+                  </SelectContent>
+                </Select>
+                {(contentMatchMode === 'regex' || contentMatchMode === 'exact') && (
+                  <>
+                    <Checkbox
+                      id="keyword-match-case"
+                      checked={matchCase}
+                      onCheckedChange={checked => setMatchCase(checked === true)}
+                    />
+                    <Label htmlFor="keyword-match-case" className="text-xs font-medium whitespace-nowrap">
+                      Match case
+                    </Label>
+                  </>
                 )}
-              </Button>
+              </div>
             )}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={toggleFilters}
+              className="flex items-center gap-2 button-brighter"
+            >
+              <Filter className="h-4 w-4" />
+              Filters
+              {hasActiveFilters() && (
+                <Badge variant="secondary" className="ml-1 text-xs">
+                  {lawFirmFilter.length + fundManagerFilter.length + fundAdminFilter.length + jurisdictionFilter.length + templateClusterFilter.length +
+                    (searchMode === 'content' ? contentOnlyFilterCount : 0)}
+                </Badge>
+              )}
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => router.push('/documents/clause-search')}
+              className="flex items-center gap-2 button-brighter"
+            >
+              <FileSearch className="h-4 w-4" />
+              Paste a Clause
+            </Button>
           </div>
         </div>
 
@@ -1409,7 +1706,7 @@ export function EnhancedDocumentList({ refreshTrigger = 0 }: DocumentListProps)
               </div>
             )}
 
-            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3">
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-3">
               {/* Law Firm Filter */}
               <div className="space-y-2">
                 <Label className="flex items-center gap-2 text-xs font-medium">
@@ -1469,6 +1766,96 @@ export function EnhancedDocumentList({ refreshTrigger = 0 }: DocumentListProps)
                   searchPlaceholder="Search jurisdictions..."
                 />
               </div>
+
+              {/* Template Cluster Filter */}
+              <div className="space-y-2">
+                <Label className="flex items-center gap-2 text-xs font-medium">
+                  <Layers className="h-3 w-3" />
+                  Template
+                </Label>
+                <SearchableMultiSelect
+                  options={[...templateClusterOptions, { value: '(blank)', label: '(unclustered)' }]}
+                  values={templateClusterFilter}
+                  onValuesChange={setTemplateClusterFilter}
+                  placeholder="Select templates..."
+                  searchPlaceholder="Search templates..."
+                />
+              </div>
+            </div>
+
+            {searchMode === 'content' && (
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                {/* Upload Date Filter */}
+                <div className="space-y-2">
+                  <Label className="flex items-center gap-2 text-xs font-medium">
+                    <CalendarDays className="h-3 w-3" />
+                    Uploaded
+                  </Label>
+                  <div className="flex items-center gap-2">
+                    <Input
+                      type="date"
+                      aria-label="Uploaded from"
+                      value={uploadedFromFilter}
+                      max={uploadedToFilter || undefined}
+                      onChange={(e) => setUploadedFromFilter(e.target.value)}
+                      aria-invalid={isUploadDateRangeInvalid}
+                      className={`h-8 ${isUploadDateRangeInvalid ? 'border-destructive' : ''}`}
+                    />
+                    <span className="text-xs text-gray-500">to</span>
+                    <Input
+                      type="date"
+                      aria-label="Uploaded to"
+                      value={uploadedToFilter}
+                      min={uploadedFromFilter || undefined}
+                      onChange={(e) => setUploadedToFilter(e.target.value)}
+                      aria-invalid={isUploadDateRangeInvalid}
+                      className={`h-8 ${isUploadDateRangeInvalid ? 'border-destructive' : ''}`}
+                    />
+                  </div>
+                </div>
+
+                {/* Page Range Filter */}
+                <div className="space-y-2">
+                  <Label className="flex items-center gap-2 text-xs font-medium">
+                    <BookOpen className="h-3 w-3" />
+                    Pages
+                  </Label>
+                  <div className="flex items-center gap-2">
+                    <Input
+                      type="number"
+                      min="1"
+                      placeholder="From"
+                      aria-label="Pages from"
+                      value={startPageFilter}
+                      onChange={(e) => setStartPageFilter(e.target.value)}
+                      aria-invalid={isPageRangeInvalid}
+                      className={`h-8 w-24 ${isPageRangeInvalid ? 'border-destructive' : ''}`}
+                    />
+                    <span className="text-xs text-gray-500">to</span>
+                    <Input
+                      type="number"
+                      min="1"
+                      placeholder="To"
+                      aria-label="Pages to"
+                      value={endPageFilter}
+                      onChange={(e) => setEndPageFilter(e.target.value)}
+                      aria-invalid={isPageRangeInvalid}
+                      className={`h-8 w-24 ${isPageRangeInvalid ? 'border-destructive' : ''}`}
+                    />
+                  </div>
+                </div>
+              </div>
+            )}
+
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="show-older-versions"
+                checked={showOlderVersions}
+                onCheckedChange={checked => setShowOlderVersions(checked === true)}
+              />
+              <Label htmlFor="show-older-versions" className="text-xs font-medium">
+                Show older versions
+              </Label>
             </div>
           </div>
         )}
@@ -1485,40 +1872,33 @@ export function EnhancedDocumentList({ refreshTrigger = 0 }: DocumentListProps)
             </Card>
           )}
 
-          {/* Keyword Search Results (Content Mode) */}
-          {searchMode === 'content' ? (
+          {/* Semantic Search Results (Meaning Mode) */}
+          {searchMode === 'semantic' ? (
+            searchQuery.trim().length >= SEMANTIC_SEARCH_MIN_QUERY_LENGTH ? (
+              <SemanticResults
+                results={visibleSemanticResults}
+                query={searchQuery.trim()}
+                isLoading={isSemanticSearching}
+                onViewDocument={handleViewDocumentPage}
+              />
+            ) : (
+              <Card>
+                <CardContent className="p-8 text-center text-gray-600">
+                  Type at least {SEMANTIC_SEARCH_MIN_QUERY_LENGTH} characters to find passages by meaning
+                </CardContent>
+              </Card>
+            )
+          ) : searchMode === 'content' ? (
             <>
               <KeywordResults
                 results={keywordResults?.results || []}
                 query={searchQuery}
                 isLoading={isKeywordSearching}
-                onViewDocument={async (documentId, pageNumber) => {
-                  const doc = documents.find(d => d.id === documentId)
-                  if (!doc) return
-
-                  try {
-                    const response = await fetch(`/api/documents/${doc.id}/download`)
-                    if (!response.ok) throw new Error('Failed to retrieve document')
-
-                    const blob = await response.blob()
-                    const url = window.URL.createObjectURL(blob)
-
-                    // Add page number using PDF fragment identifier
-                    const urlWithPage = pageNumber ? `${url}#page=${pageNumber}` : url
-
-                    window.open(urlWithPage, '_blank', 'noopener,noreferrer')
-
-                    setTimeout(() => window.URL.revokeObjectURL(url), 1000)
-                  } catch (error) {
-                    clientLogger.error('Failed to open document', {
-                      error,
-                      documentId: doc.id,
-                      filename: doc.filename,
-                      pageNumber
-                    })
-                    alert(`Failed to open "${doc.title}". Please try again.`)
-                  }
-                }}
+                fuzzy={keywordResults?.fuzzy ?? false}
+                patternMode={keywordResults?.patternMode}
+                caseSensitive={keywordResults?.caseSensitive}
+                filters={keywordResults?.filters}
+                onViewDocument={handleViewDocumentPage}
               />
 
               {/* Load More Documents Button */}
@@ -1711,6 +2091,16 @@ export function EnhancedDocumentList({ refreshTrigger = 0 }: DocumentListProps)
                                       Source
                                     </Badge>
                                   )}
+                                  {document.family_id && document.family_version && (
+                                    <Badge
+                                      variant="outline"
+                                      className={document.is_latest_version === false ? 'text-gray-500' : 'text-blue-700 border-blue-200 bg-blue-50'}
+                                      title={document.is_latest_version === false ? 'A newer version of this document exists' : 'Latest version'}
+                                    >
+                                      <GitBranch className="h-3 w-3 mr-1" />
+                                      v{document.family_version} of {familySizes.get(document.family_id) ?? document.family_version}
+                                    </Badge>
+                                  )}
                                 </div>
                                 <div className="flex items-center gap-2 mt-1">
                                   <Badge className={`${statusConfig.color} flex items-center gap-1`}>
@@ -1907,6 +2297,24 @@ export function EnhancedDocumentList({ refreshTrigger = 0 }: DocumentListProps)
                                     <Edit2 className="h-4 w-4 mr-2" />
                                     Rename Document
                                   </DropdownMenuItem>
+                                  {document.status === 'completed' && (
+                                    <DropdownMenuItem
+                                      onClick={() => setLinkingVersionDocument(document)}
+                                      className="flex items-center"
+                                    >
+                                      <GitBranch className="h-4 w-4 mr-2" />
+                                      Link as Newer Version...
+                                    </DropdownMenuItem>
+                                  )}
+                                  {document.family_id && (
+                                    <DropdownMenuItem
+                                      onClick={() => handleUnlinkVersion(document)}
+                                      className="flex items-center"
+                                    >
+                                      <Unlink className="h-4 w-4 mr-2" />
+                                      Remove from Versions
+                                    </DropdownMenuItem>
+                                  )}
 
                                   {/* Cancel Processing Option */}
                                   {['uploading', 'queued', 'processing'].includes(document.status) && (() => {
@@ -2092,6 +2500,14 @@ export function EnhancedDocumentList({ refreshTrigger = 0 }: DocumentListProps)
         onSuccess={handleDocumentUpdate}
       />
 
+      <LinkDocumentVersionModal
+        document={linkingVersionDocument}
+        documents={documents}
+        isOpen={!!linkingVersionDocument}
+        onClose={() => setLinkingVersionDocument(null)}
+        onSuccess={() => fetchDocuments(false)}
+      />
+
       {/* Search Mode Modal */}
       <SearchModeModal
         isOpen={searchModeModal.isOpen}
@@ -0,0 +1,154 @@
+'use client'
+
+import { useState, useEffect, useMemo } from 'react'
+import { DatabaseDocument as Document } from '@/types/external-apis'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { SearchableSelect } from '@/components/ui/searchable-select'
+import { GitBranch, Loader2 } from 'lucide-react'
+import { clientLogger } from '@/lib/client-logger'
+
+interface LinkDocumentVersionModalProps {
+  document: Document | null
+  documents: Document[]
+  isOpen: boolean
+  onClose: () => void
+  onSuccess: () => void
+}
+
+export function LinkDocumentVersionModal({
+  document: currentDocument,
+  documents,
+  isOpen,
+  onClose,
+  onSuccess
+}: LinkDocumentVersionModalProps) {
+  const [previousDocumentId, setPreviousDocumentId] = useState('')
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    if (isOpen) {
+      setPreviousDocumentId('')
+      setError('')
+    }
+  }, [currentDocument, isOpen])
+
+  const options = useMemo(() => {
+    if (!currentDocument) return []
+    return documents
+      .filter(doc => doc.id !== currentDocument.id && doc.status === 'completed')
+      .map(doc => ({
+        value: doc.id,
+        label: doc.family_version ? `${doc.title} (v${doc.family_version})` : doc.title
+      }))
+  }, [currentDocument, documents])
+
+  const handleOpenChange = (open: boolean) => {
+    if (!open) {
+      onClose()
+      setError('')
+      setIsLoading(false)
+    }
+  }
+
+  const handleSave = async () => {
+    if (!currentDocument || !previousDocumentId) return
+
+    setIsLoading(true)
+    setError('')
+
+    try {
+      const response = await fetch(`/api/documents/${currentDocument.id}/versions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ previousDocumentId }),
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.error || 'Failed to link document version')
+      }
+
+      onSuccess()
+      onClose()
+    } catch (error) {
+      clientLogger.error(
+        'Error linking document version',
+        error instanceof Error ? error : new Error(String(error))
+      )
+      setError(error instanceof Error ? error.message : 'Failed to link document version')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  if (!currentDocument) return null
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Link as Newer Version</DialogTitle>
+          <DialogDescription>
+            Choose the earlier draft that &quot;{currentDocument.title}&quot; replaces
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label className="flex items-center gap-2">
+              <GitBranch className="h-4 w-4" />
+              Previous Version
+            </Label>
+            <SearchableSelect
+              options={options}
+              value={previousDocumentId}
+              onValueChange={setPreviousDocumentId}
+              placeholder="Select a document"
+              searchPlaceholder="Search documents..."
+              emptyMessage="No documents found"
+              disablePortal
+            />
+          </div>
+
+          {error && (
+            <div className="text-sm text-red-600 bg-red-50 p-3 rounded">
+              {error}
+            </div>
+          )}
+
+          <DialogFooter className="flex flex-col gap-3 pt-4 sm:flex-row sm:justify-end">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={onClose}
+              disabled={isLoading}
+              className="flex-1 sm:flex-none"
+            >
+              Cancel
+            </Button>
+            <Button
+              type="button"
+              onClick={handleSave}
+              disabled={isLoading || !previousDocumentId}
+              className="flex-1 sm:flex-none"
+            >
+              {isLoading ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Linking...
+                </>
+              ) : (
+                'Link Version'
+              )}
+            </Button>
+          </DialogFooter>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -10,7 +10,7 @@
 import { useState } from 'react'
 import { useRouter } from 'next/navigation'
 import Image from 'next/image'
-import type { KeywordSearchResult, KeywordMatch } from '@/types/search'
+import type { KeywordSearchResult, KeywordMatch, KeywordSearchFilters, PatternSearchMode } from '@/types/search'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
@@ -20,6 +20,13 @@ interface KeywordResultsProps {
   results: KeywordSearchResult[]
   query: string
   isLoading?: boolean
+  // Results came from typo-tolerant search; load-more must use the same mode
+  fuzzy?: boolean
+  // Results came from a regex/exact-string search; load-more repeats it with the same case sensitivity
+  patternMode?: PatternSearchMode
+  caseSensitive?: boolean
+  // Filters of the original search; load-more applies the same page range
+  filters?: KeywordSearchFilters
   onViewDocument?: (documentId: string, pageNumber?: number) => void
 }
 
@@ -27,6 +34,10 @@ export function KeywordResults({
   results,
   query,
   isLoading = false,
+  fuzzy = false,
+  patternMode,
+  caseSensitive,
+  filters,
   onViewDocument
 }: KeywordResultsProps) {
   const router = useRouter()
@@ -81,7 +92,11 @@ export function KeywordResults({
           documentId,
           query,
           skipPages: currentMatches,
-          fetchPages: 5
+          fetchPages: 5,
+          fuzzy,
+          patternMode,
+          caseSensitive,
+          filters
         })
       })
 
@@ -245,8 +260,15 @@ export function KeywordResults({
                           <Badge variant="outline" className="text-xs py-0">
                             Page {match.pageNumber}
                           </Badge>
+                          {match.fuzzy && (
+                            <Badge variant="outline" className="text-xs py-0 border-amber-300 text-amber-700">
+                              Fuzzy match
+                            </Badge>
+                          )}
                           <span className="text-xs text-gray-500">
-                            Relevance: {(match.score * 100).toFixed(1)}%
+                            {match.occurrences !== undefined
+                              ? `${match.occurrences} ${match.occurrences === 1 ? 'match' : 'matches'}`
+                              : `${match.fuzzy ? 'Similarity' : 'Relevance'}: ${(match.score * 100).toFixed(1)}%`}
                           </span>
                         </div>
                         <div
@@ -0,0 +1,148 @@
+/**
+ * Semantic Search Results Component
+ *
+ * Displays passages that match a free-text query by meaning, grouped by
+ * document with page numbers and similarity scores.
+ */
+
+'use client'
+
+import { useRouter } from 'next/navigation'
+import Image from 'next/image'
+import type { SemanticPassage, SemanticSearchResult } from '@/lib/search/semantic-search'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Eye } from 'lucide-react'
+
+interface SemanticResultsProps {
+  results: SemanticSearchResult[]
+  query: string
+  isLoading?: boolean
+  onViewDocument?: (documentId: string, pageNumber?: number) => void
+}
+
+function formatPassagePages(passage: SemanticPassage): string | null {
+  const start = passage.startPageNumber ?? passage.pageNumber
+  const end = passage.endPageNumber ?? start
+  if (start === null) return null
+  return end !== null && end !== start ? `Pages ${start}-${end}` : `Page ${start}`
+}
+
+export function SemanticResults({
+  results,
+  query,
+  isLoading = false,
+  onViewDocument
+}: SemanticResultsProps) {
+  const router = useRouter()
+
+  const handleViewPage = (documentId: string, pageNumber: number | null) => {
+    if (onViewDocument) {
+      onViewDocument(documentId, pageNumber ?? undefined)
+    } else {
+      router.push(pageNumber ? `/documents/${documentId}?page=${pageNumber}` : `/documents/${documentId}`)
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <Card>
+        <CardContent className="p-8 text-center">
+          <div className="animate-spin h-8 w-8 border-4 border-blue-600 border-t-transparent rounded-full mx-auto mb-4" />
+          <p className="text-gray-600">Finding passages about &quot;{query}&quot;...</p>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  if (results.length === 0) {
+    return (
+      <Card>
+        <CardContent className="p-8 text-center">
+          <Image src="/logo/pdf.svg" alt="PDF" width={48} height={48} className="opacity-40 mx-auto mb-4" />
+          <h3 className="text-lg font-medium text-gray-900 mb-2">No passages found</h3>
+          <p className="text-gray-600">
+            No passages are close in meaning to &quot;{query}&quot;
+          </p>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <div className="space-y-3">
+      {/* Results Summary */}
+      <div className="text-sm text-gray-600">
+        Found {results.length} document{results.length !== 1 ? 's' : ''} with passages related to &quot;{query}&quot;
+      </div>
+
+      {/* Results List */}
+      {results.map((doc) => (
+        <Card key={doc.documentId} className="overflow-hidden">
+          <CardHeader className="pb-2">
+            <div className="flex items-start justify-between gap-4">
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2">
+                  <Image src="/logo/pdf.svg" alt="PDF" width={16} height={16} className="flex-shrink-0" />
+                  <CardTitle className="text-base truncate">
+                    {doc.title}
+                  </CardTitle>
+                </div>
+              </div>
+              <Badge variant="secondary" className="flex-shrink-0 text-xs">
+                {doc.totalPassages} passage{doc.totalPassages !== 1 ? 's' : ''}
+                {doc.passages.length < doc.totalPassages && (
+                  <span className="ml-1 text-xs opacity-70">
+                    (showing {doc.passages.length})
+                  </span>
+                )}
+              </Badge>
+            </div>
+          </CardHeader>
+
+          <CardContent className="pt-0">
+            <div className="space-y-2">
+              {doc.passages.map((passage, idx) => {
+                const pages = formatPassagePages(passage)
+                return (
+                  <div
+                    key={passage.chunkIndex ?? idx}
+                    className="p-2 bg-gray-50 rounded border border-gray-200 hover:border-blue-300 transition-colors"
+                  >
+                    <div className="flex items-start justify-between gap-3">
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center gap-2 mb-1">
+                          {pages && (
+                            <Badge variant="outline" className="text-xs py-0">
+                              {pages}
+                            </Badge>
+                          )}
+                          <span className="text-xs text-gray-500">
+                            Similarity: {(passage.score * 100).toFixed(1)}%
+                          </span>
+                        </div>
+                        <p className="text-sm text-gray-700 leading-snug line-clamp-4 whitespace-pre-line">
+                          {passage.text}
+                        </p>
+                      </div>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => handleViewPage(doc.documentId, passage.startPageNumber ?? passage.pageNumber)}
+                        className="flex-shrink-0 h-7 w-7 p-0"
+                        aria-label="View page"
+                      >
+                        <Eye className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                )
+              })}
+            </div>
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  )
+}
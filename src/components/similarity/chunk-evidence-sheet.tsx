@@ -0,0 +1,263 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { FileDown, Loader2 } from 'lucide-react'
+import { clientLogger } from '@/lib/client-logger'
+
+interface EvidenceChunk {
+  chunkIndex: number
+  pageNumber: number
+  characterCount: number
+  text: string
+  boilerplateWeight?: number
+}
+
+interface ChunkPairEvidence {
+  source: EvidenceChunk
+  target: EvidenceChunk
+  cosineScore: number
+  jaccardScore: number
+}
+
+interface SimilarityEvidence {
+  threshold: number
+  sufficientEvidence: boolean
+  scores: {
+    sourceScore: number
+    targetScore: number
+  } | null
+  pairs: ChunkPairEvidence[]
+}
+
+interface ChunkEvidenceSheetProps {
+  sourceDocumentId: string
+  targetDocumentId: string | null
+  targetTitle?: string
+  sourcePageRange?: { start_page: number; end_page: number } | null
+  boilerplateWeighting?: boolean
+  onClose: () => void
+}
+
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`
+
+type PdfSide = 'source' | 'target'
+
+function buildEvidenceParams(
+  targetDocumentId: string,
+  startPage: number | undefined,
+  endPage: number | undefined,
+  boilerplateWeighting: boolean
+): URLSearchParams {
+  const params = new URLSearchParams({ targetId: targetDocumentId })
+  if (startPage !== undefined && endPage !== undefined) {
+    params.set('start_page', String(startPage))
+    params.set('end_page', String(endPage))
+  }
+  if (boilerplateWeighting) {
+    params.set('boilerplate_weighting', 'true')
+  }
+  return params
+}
+
+export function ChunkEvidenceSheet({
+  sourceDocumentId,
+  targetDocumentId,
+  targetTitle,
+  sourcePageRange,
+  boilerplateWeighting = false,
+  onClose
+}: ChunkEvidenceSheetProps) {
+  const [evidence, setEvidence] = useState<SimilarityEvidence | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState('')
+  const [exportingSide, setExportingSide] = useState<PdfSide | null>(null)
+
+  const startPage = sourcePageRange?.start_page
+  const endPage = sourcePageRange?.end_page
+
+  useEffect(() => {
+    if (!targetDocumentId) {
+      setEvidence(null)
+      setError('')
+      return
+    }
+
+    const controller = new AbortController()
+    const params = buildEvidenceParams(targetDocumentId, startPage, endPage, boilerplateWeighting)
+
+    setIsLoading(true)
+    setError('')
+    setEvidence(null)
+
+    fetch(`/api/documents/${sourceDocumentId}/similar-v2/evidence?${params.toString()}`, {
+      signal: controller.signal
+    })
+      .then(async response => {
+        const body = await response.json().catch(() => ({}))
+        if (!response.ok || !body.success) {
+          throw new Error(body.error || 'Failed to load evidence')
+        }
+        setEvidence(body.data as SimilarityEvidence)
+      })
+      .catch(fetchError => {
+        if (controller.signal.aborted) return
+        clientLogger.error('Error loading similarity evidence', {
+          error: fetchError,
+          sourceDocumentId,
+          targetDocumentId
+        })
+        setError(fetchError instanceof Error ? fetchError.message : 'Failed to load evidence')
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) {
+          setIsLoading(false)
+        }
+      })
+
+    return () => controller.abort()
+  }, [sourceDocumentId, targetDocumentId, startPage, endPage, boilerplateWeighting])
+
+  const downloadAnnotatedPdf = async (side: PdfSide) => {
+    if (!targetDocumentId) return
+
+    const params = buildEvidenceParams(targetDocumentId, startPage, endPage, boilerplateWeighting)
+    params.set('side', side)
+    setExportingSide(side)
+
+    try {
+      const response = await fetch(`/api/documents/${sourceDocumentId}/similar-v2/evidence/pdf?${params.toString()}`)
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}))
+        throw new Error(body.error || 'Failed to generate annotated PDF')
+      }
+
+      const disposition = response.headers.get('Content-Disposition') ?? ''
+      const filename = /filename="([^"]+)"/.exec(disposition)?.[1] ?? `${side}-annotated.pdf`
+      const blob = await response.blob()
+      const url = window.URL.createObjectURL(blob)
+      const link = window.document.createElement('a')
+      link.href = url
+      link.download = filename
+      window.document.body.appendChild(link)
+      link.click()
+      window.document.body.removeChild(link)
+      window.URL.revokeObjectURL(url)
+    } catch (exportError) {
+      clientLogger.error('Error exporting annotated PDF', {
+        error: exportError,
+        sourceDocumentId,
+        targetDocumentId,
+        side
+      })
+      alert(exportError instanceof Error ? exportError.message : 'Failed to generate annotated PDF')
+    } finally {
+      setExportingSide(null)
+    }
+  }
+
+  return (
+    <Sheet open={targetDocumentId !== null} onOpenChange={open => { if (!open) onClose() }}>
+      <SheetContent side="right" className="w-full sm:max-w-4xl overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>Match Evidence</SheetTitle>
+          <SheetDescription>
+            Matched passages between the source document and {targetTitle ? `"${targetTitle}"` : 'the selected result'}
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="mt-4 space-y-4">
+          {isLoading && (
+            <div className="flex items-center gap-2 text-sm text-gray-600">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Loading matched chunks...
+            </div>
+          )}
+
+          {error && (
+            <div className="text-sm text-red-600 bg-red-50 p-3 rounded">
+              {error}
+            </div>
+          )}
+
+          {evidence && (
+            <>
+              <div className="flex flex-wrap items-center gap-2 text-xs">
+                <Badge variant="outline">{evidence.pairs.length} matched pairs</Badge>
+                {evidence.scores && (
+                  <>
+                    <Badge variant="outline">Source: {formatPercent(evidence.scores.sourceScore)}</Badge>
+                    <Badge variant="outline">Target: {formatPercent(evidence.scores.targetScore)}</Badge>
+                  </>
+                )}
+                <Badge variant="outline">Cosine ≥ {evidence.threshold.toFixed(2)}</Badge>
+                {!evidence.sufficientEvidence && (
+                  <Badge className="bg-orange-100 text-orange-800">Below minimum evidence</Badge>
+                )}
+              </div>
+
+              {evidence.pairs.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  {(['source', 'target'] as const).map(side => (
+                    <Button
+                      key={side}
+                      variant="outline"
+                      size="sm"
+                      onClick={() => downloadAnnotatedPdf(side)}
+                      disabled={exportingSide !== null}
+                    >
+                      {exportingSide === side
+                        ? <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                        : <FileDown className="h-4 w-4 mr-1" />}
+                      Annotated {side} PDF
+                    </Button>
+                  ))}
+                </div>
+              )}
+
+              {evidence.pairs.length === 0 ? (
+                <p className="text-sm text-gray-600">No chunk pairs matched above the threshold.</p>
+              ) : (
+                <ul className="space-y-3">
+                  {evidence.pairs.map(pair => (
+                    <li
+                      key={`${pair.source.chunkIndex}-${pair.target.chunkIndex}`}
+                      className="rounded-lg border border-gray-200 p-3"
+                    >
+                      <div className="mb-2 flex flex-wrap items-center gap-2 text-xs">
+                        <Badge className="bg-blue-100 text-blue-800">Cosine {pair.cosineScore.toFixed(3)}</Badge>
+                        <Badge variant="outline">Jaccard {pair.jaccardScore.toFixed(3)}</Badge>
+                        {typeof pair.source.boilerplateWeight === 'number' && pair.source.boilerplateWeight < 1 && (
+                          <Badge variant="outline" title="Weight applied to text common across the corpus">
+                            Boilerplate weight {pair.source.boilerplateWeight.toFixed(2)}
+                          </Badge>
+                        )}
+                      </div>
+                      <div className="grid gap-3 md:grid-cols-2">
+                        {[
+                          { label: 'Source', chunk: pair.source },
+                          { label: 'Target', chunk: pair.target }
+                        ].map(({ label, chunk }) => (
+                          <div key={label} className="min-w-0">
+                            <div className="mb-1 text-xs font-medium text-gray-500">
+                              {label} · page {chunk.pageNumber} · chunk {chunk.chunkIndex}
+                            </div>
+                            <p className="whitespace-pre-wrap break-words rounded bg-gray-50 p-2 text-xs text-gray-800">
+                              {chunk.text}
+                            </p>
+                          </div>
+                        ))}
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </>
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  )
+}
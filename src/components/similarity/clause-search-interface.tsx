@@ -0,0 +1,179 @@
+'use client'
+
+import { useState } from 'react'
+import Image from 'next/image'
+import type { ClauseSearchResponse } from '@/lib/similarity/clause-search'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Label } from '@/components/ui/label'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Loader2, Search, Eye } from 'lucide-react'
+import { clientLogger } from '@/lib/client-logger'
+
+const MIN_CHARACTERS = 20
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`
+
+export function ClauseSearchInterface() {
+  const [text, setText] = useState('')
+  const [isSearching, setIsSearching] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [response, setResponse] = useState<ClauseSearchResponse | null>(null)
+
+  const trimmedLength = text.trim().length
+
+  const handleSearch = async () => {
+    setIsSearching(true)
+    setError(null)
+    try {
+      const result = await fetch('/api/documents/clause-search', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ text })
+      })
+      const body = await result.json().catch(() => ({}))
+      if (!result.ok || !body.success) {
+        throw new Error(body.error || 'Clause search failed')
+      }
+      setResponse(body.data as ClauseSearchResponse)
+    } catch (searchError) {
+      clientLogger.error('Clause search failed', { error: searchError, textLength: trimmedLength })
+      setError(searchError instanceof Error ? searchError.message : 'Clause search failed')
+      setResponse(null)
+    } finally {
+      setIsSearching(false)
+    }
+  }
+
+  const handleViewPage = async (documentId: string, title: string, pageNumber?: number) => {
+    try {
+      const result = await fetch(`/api/documents/${documentId}/download`)
+      if (!result.ok) throw new Error('Failed to retrieve document')
+
+      const blob = await result.blob()
+      const url = window.URL.createObjectURL(blob)
+      window.open(pageNumber ? `${url}#page=${pageNumber}` : url, '_blank', 'noopener,noreferrer')
+      setTimeout(() => window.URL.revokeObjectURL(url), 1000)
+    } catch (viewError) {
+      clientLogger.error('Failed to open document', { error: viewError, documentId, pageNumber })
+      alert(`Failed to open "${title}". Please try again.`)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card className="card-enhanced">
+        <CardContent className="pt-6 space-y-3">
+          <Label htmlFor="clause-text" className="text-sm font-medium">
+            Paste a clause
+          </Label>
+          <textarea
+            id="clause-text"
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            rows={8}
+            placeholder="Paste the clause you want to find. Separate paragraphs with a blank line."
+            className="flex w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 input-brighter"
+          />
+          <div className="flex items-center justify-between">
+            <span className="text-xs text-gray-500">
+              The text is only used for this search and is not uploaded or stored.
+            </span>
+            <Button
+              onClick={handleSearch}
+              disabled={isSearching || trimmedLength < MIN_CHARACTERS}
+            >
+              {isSearching ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Searching...
+                </>
+              ) : (
+                <>
+                  <Search className="h-4 w-4 mr-2" />
+                  Find Documents
+                </>
+              )}
+            </Button>
+          </div>
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </CardContent>
+      </Card>
+
+      {response && (
+        response.results.length === 0 ? (
+          <Card>
+            <CardContent className="p-8 text-center">
+              <Image src="/logo/pdf.svg" alt="PDF" width={48} height={48} className="opacity-40 mx-auto mb-4" />
+              <h3 className="text-lg font-medium text-gray-900 mb-2">No documents found</h3>
+              <p className="text-gray-600">
+                No document contains this clause or a close variant (cosine ≥ {response.threshold.toFixed(2)})
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-3">
+            <div className="text-sm text-gray-600">
+              Found {response.results.length} document{response.results.length !== 1 ? 's' : ''} containing the
+              clause ({response.clauseChunks} chunk{response.clauseChunks !== 1 ? 's' : ''} searched)
+            </div>
+
+            {response.results.map(result => (
+              <Card key={result.documentId} className="overflow-hidden">
+                <CardHeader className="pb-2">
+                  <div className="flex items-start justify-between gap-4">
+                    <div className="flex items-center gap-2 min-w-0">
+                      <Image src="/logo/pdf.svg" alt="PDF" width={16} height={16} className="flex-shrink-0" />
+                      <CardTitle className="text-base truncate">{result.title}</CardTitle>
+                    </div>
+                    <Badge variant="secondary" className="flex-shrink-0 text-xs">
+                      {formatPercent(result.clauseCoverage)} of clause
+                    </Badge>
+                  </div>
+                  <p className="text-xs text-gray-500">
+                    Page{result.pages.length !== 1 ? 's' : ''} {result.pages.join(', ')}
+                  </p>
+                </CardHeader>
+                <CardContent className="pt-0">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Page</TableHead>
+                        <TableHead>Clause chunk</TableHead>
+                        <TableHead className="text-right">Cosine</TableHead>
+                        <TableHead className="text-right">Jaccard</TableHead>
+                        <TableHead className="w-10" />
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {result.hits.map(hit => (
+                        <TableRow key={`${hit.clauseChunkIndex}-${hit.targetChunkIndex}`}>
+                          <TableCell>{hit.pageNumber}</TableCell>
+                          <TableCell>{hit.clauseChunkIndex + 1}</TableCell>
+                          <TableCell className="text-right">{hit.cosineScore.toFixed(3)}</TableCell>
+                          <TableCell className="text-right">{hit.jaccardScore.toFixed(3)}</TableCell>
+                          <TableCell>
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              onClick={() => handleViewPage(result.documentId, result.title, hit.pageNumber)}
+                              className="h-7 w-7 p-0"
+                              aria-label="View page"
+                            >
+                              <Eye className="h-4 w-4" />
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,31 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Check, Link2 } from 'lucide-react'
+import { clientLogger } from '@/lib/client-logger'
+
+interface CopyPermalinkButtonProps {
+  path: string
+}
+
+export function CopyPermalinkButton({ path }: CopyPermalinkButtonProps) {
+  const [copied, setCopied] = useState(false)
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(new URL(path, window.location.origin).toString())
+      setCopied(true)
+      setTimeout(() => setCopied(false), 2000)
+    } catch (error) {
+      clientLogger.error('Failed to copy permalink', error)
+    }
+  }
+
+  return (
+    <Button variant="outline" size="sm" onClick={handleCopy}>
+      {copied ? <Check className="h-4 w-4 mr-2" /> : <Link2 className="h-4 w-4 mr-2" />}
+      {copied ? 'Link copied' : 'Copy link'}
+    </Button>
+  )
+}
@@ -0,0 +1,108 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { History, Loader2 } from 'lucide-react'
+import { formatUploadDate } from '@/lib/date-utils'
+import { clientLogger } from '@/lib/client-logger'
+import type { SavedSimilaritySearchSummary } from '@/lib/similarity/saved-searches'
+
+interface SavedSimilaritySearchesProps {
+  documentId: string
+  // Bump to reload after a new search has been saved
+  refreshKey?: number
+}
+
+function describeScope(search: SavedSimilaritySearchSummary): string {
+  return search.page_range
+    ? `Pages ${search.page_range.start_page}-${search.page_range.end_page}`
+    : 'Entire document'
+}
+
+export function SavedSimilaritySearches({ documentId, refreshKey = 0 }: SavedSimilaritySearchesProps) {
+  const [searches, setSearches] = useState<SavedSimilaritySearchSummary[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+
+  useEffect(() => {
+    let cancelled = false
+
+    const loadSearches = async () => {
+      setIsLoading(true)
+      try {
+        const response = await fetch(`/api/documents/${documentId}/similar-v2/searches?limit=10`)
+        if (!response.ok) {
+          throw new Error('Failed to load saved searches')
+        }
+        const body = await response.json()
+        if (!cancelled) {
+          setSearches(Array.isArray(body?.data?.searches) ? body.data.searches : [])
+        }
+      } catch (error) {
+        clientLogger.error('Error loading saved similarity searches', error)
+      } finally {
+        if (!cancelled) {
+          setIsLoading(false)
+        }
+      }
+    }
+
+    loadSearches()
+    return () => {
+      cancelled = true
+    }
+  }, [documentId, refreshKey])
+
+  if (!isLoading && searches.length === 0) {
+    return null
+  }
+
+  return (
+    <Card className="card-enhanced">
+      <CardHeader className="p-4 pb-2">
+        <CardTitle className="flex items-center gap-2 text-base">
+          <History className="h-4 w-4" />
+          Past Searches
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="p-4 pt-0">
+        {isLoading ? (
+          <div className="flex items-center gap-2 text-sm text-gray-500">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading...
+          </div>
+        ) : (
+          <ul className="divide-y divide-gray-100">
+            {searches.map(search => (
+              <li key={search.id} className="flex flex-wrap items-center justify-between gap-2 py-2 text-sm">
+                <div className="flex flex-wrap items-center gap-3">
+                  <Link
+                    href={`/documents/${documentId}/similar/${search.id}`}
+                    className="font-medium text-blue-600 hover:underline"
+                  >
+                    {formatUploadDate(search.created_at)}
+                  </Link>
+                  {search.created_by_email && (
+                    <span className="text-xs text-gray-500">{search.created_by_email}</span>
+                  )}
+                  <span className="text-xs text-gray-500">{describeScope(search)}</span>
+                </div>
+                <div className="flex items-center gap-2">
+                  {search.source_min_score !== null && search.target_min_score !== null && (
+                    <Badge variant="outline" className="text-xs">
+                      Min {Math.round(Number(search.source_min_score) * 100)}% / {Math.round(Number(search.target_min_score) * 100)}%
+                    </Badge>
+                  )}
+                  <Badge variant="secondary" className="text-xs">
+                    {search.result_count} result{search.result_count !== 1 ? 's' : ''}
+                  </Badge>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -16,11 +16,15 @@ import {
   Globe,
   ArrowUp,
   ArrowDown,
-  ArrowUpDown
+  ArrowUpDown,
+  ListTree,
+  FileText,
+  FileSpreadsheet
 } from 'lucide-react'
 import { useMetadataOptions } from '@/hooks/use-metadata-options'
 import { clientLogger } from '@/lib/client-logger'
 import { useResizableColumns } from '@/hooks/useResizableColumns'
+import { ChunkEvidenceSheet } from './chunk-evidence-sheet'
 
 interface SimilarityScores {
   sourceScore: number
@@ -29,6 +33,8 @@ interface SimilarityScores {
   matchedTargetCharacters: number
   explanation: string
   lengthRatio?: number | null
+  adjustedSourceScore?: number
+  adjustedTargetScore?: number
 }
 
 interface SectionMatch {
@@ -49,6 +55,8 @@ interface SimilarityResultV2 {
 interface SearchResultsTableProps {
   results: SimilarityResultV2[]
   sourceDocument: Document
+  sourcePageRange?: { start_page: number; end_page: number } | null
+  savedSearchId?: string | null
   theme?: 'blue' | 'emerald'
   isLoading?: boolean
 }
@@ -61,12 +69,16 @@ type MetadataOption = {
 export function SearchResultsTable({
   results,
   sourceDocument,
+  sourcePageRange = null,
+  savedSearchId = null,
   theme = 'blue',
   isLoading = false
 }: SearchResultsTableProps) {
   const [sortBy, setSortBy] = useState<string>('source_score')
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc')
   const [comparingDocs, setComparingDocs] = useState<Set<string>>(new Set())
+  const [evidenceResult, setEvidenceResult] = useState<SimilarityResultV2 | null>(null)
+  const [exportingFormat, setExportingFormat] = useState<'pdf' | 'csv' | null>(null)
 
   // Resizable columns
   const { columnWidths, handleMouseDown } = useResizableColumns({
@@ -74,7 +86,7 @@ export function SearchResultsTable({
     metadata: 150,
     pages: 70,
     results: 140,
-    actions: 210
+    actions: 250
   })
 
   // Fetch metadata options from API
@@ -101,10 +113,10 @@ export function SearchResultsTable({
     }
   }, [theme])
 
-  const handleDraftableCompare = async (targetDocId: string) => {
+  const handleCompare = async (targetDocId: string) => {
     setComparingDocs(prev => new Set(prev).add(targetDocId))
     try {
-      const response = await fetch('/api/draftable/compare', {
+      const response = await fetch('/api/compare', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
@@ -121,7 +133,7 @@ export function SearchResultsTable({
         alert(`Failed to create comparison: ${data.error || 'Unknown error'}`)
       }
     } catch (error) {
-      clientLogger.error('Draftable comparison error', { error, sourceDocId: sourceDocument.id, targetDocId })
+      clientLogger.error('Document comparison error', { error, sourceDocId: sourceDocument.id, targetDocId })
       alert('Failed to create comparison. Please try again.')
     } finally {
       setComparingDocs(prev => {
@@ -155,6 +167,38 @@ export function SearchResultsTable({
     }
   }
 
+  const downloadReport = async (format: 'pdf' | 'csv') => {
+    if (!savedSearchId) return
+
+    setExportingFormat(format)
+    try {
+      const response = await fetch(
+        `/api/documents/${sourceDocument.id}/similar-v2/searches/${savedSearchId}/report?format=${format}`
+      )
+
+      if (!response.ok) {
+        throw new Error('Failed to generate report')
+      }
+
+      const disposition = response.headers.get('Content-Disposition') ?? ''
+      const filename = /filename="([^"]+)"/.exec(disposition)?.[1] ?? `similarity-report.${format}`
+      const blob = await response.blob()
+      const url = window.URL.createObjectURL(blob)
+      const link = window.document.createElement('a')
+      link.href = url
+      link.download = filename
+      window.document.body.appendChild(link)
+      link.click()
+      window.document.body.removeChild(link)
+      window.URL.revokeObjectURL(url)
+    } catch (error) {
+      clientLogger.error('Error exporting similarity report', { error, searchId: savedSearchId, format })
+      alert('Failed to generate report. Please try again.')
+    } finally {
+      setExportingFormat(null)
+    }
+  }
+
   const viewPdf = async (document: Document) => {
     try {
       const response = await fetch(`/api/documents/${document.id}/download`)
@@ -272,6 +316,31 @@ export function SearchResultsTable({
 
   return (
     <Card className="card-enhanced">
+        {savedSearchId && (
+          <div className="flex items-center justify-end gap-2 border-b px-3 py-2">
+            <span className="mr-auto text-xs text-gray-500">Export report</span>
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-8"
+              onClick={() => downloadReport('pdf')}
+              disabled={exportingFormat !== null}
+            >
+              <FileText className={`h-4 w-4 mr-1 ${themeColors.downloadIconColor}`} />
+              {exportingFormat === 'pdf' ? 'Generating...' : 'PDF'}
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-8"
+              onClick={() => downloadReport('csv')}
+              disabled={exportingFormat !== null}
+            >
+              <FileSpreadsheet className={`h-4 w-4 mr-1 ${themeColors.downloadIconColor}`} />
+              {exportingFormat === 'csv' ? 'Generating...' : 'CSV'}
+            </Button>
+          </div>
+        )}
         <Table style={{ tableLayout: 'fixed' }}>
           <colgroup>
             <col style={{ width: `${columnWidths.name}px` }} />
@@ -435,6 +504,15 @@ export function SearchResultsTable({
                     <Badge className={`${getScoreBadgeColor(result.scores.targetScore)} text-xs w-fit whitespace-nowrap`}>
                       Target: {Math.round(result.scores.targetScore * 100)}%
                     </Badge>
+                    {typeof result.scores.adjustedSourceScore === 'number' && typeof result.scores.adjustedTargetScore === 'number' && (
+                      <Badge
+                        variant="outline"
+                        className="text-xs w-fit whitespace-nowrap"
+                        title="Coverage with text common across the corpus down-weighted"
+                      >
+                        Excl. boilerplate: {Math.round(result.scores.adjustedSourceScore * 100)}% / {Math.round(result.scores.adjustedTargetScore * 100)}%
+                      </Badge>
+                    )}
                     {lengthRatio !== null && Number.isFinite(lengthRatio) && (
                       <Badge variant="outline" className="text-xs w-fit whitespace-nowrap">
                         Ratio: {(lengthRatio / 100).toFixed(2)}
@@ -455,14 +533,24 @@ export function SearchResultsTable({
                     >
                       <Download className={`h-4 w-4 ${themeColors.downloadIconColor}`} />
                     </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setEvidenceResult(result)}
+                      className="h-8 w-8 p-0"
+                      aria-label="Show matched chunks"
+                      title="Show matched chunks"
+                    >
+                      <ListTree className={`h-4 w-4 ${themeColors.downloadIconColor}`} />
+                    </Button>
                     <Button
                       size="sm"
                       className={`h-8 text-white ${themeColors.compareButton}`}
-                      onClick={() => handleDraftableCompare(result.document.id)}
+                      onClick={() => handleCompare(result.document.id)}
                       disabled={comparingDocs.has(result.document.id)}
                     >
                       <GitCompare className="h-4 w-4 mr-1 text-white" />
-                      {comparingDocs.has(result.document.id) ? 'Opening...' : 'Draftable'}
+                      {comparingDocs.has(result.document.id) ? 'Opening...' : 'Compare'}
                     </Button>
                   </div>
                 </TableCell>
@@ -471,6 +559,14 @@ export function SearchResultsTable({
           })}
         </TableBody>
         </Table>
+        <ChunkEvidenceSheet
+          sourceDocumentId={sourceDocument.id}
+          targetDocumentId={evidenceResult?.document.id ?? null}
+          targetTitle={evidenceResult?.document.title}
+          sourcePageRange={sourcePageRange}
+          boilerplateWeighting={typeof evidenceResult?.scores.adjustedSourceScore === 'number'}
+          onClose={() => setEvidenceResult(null)}
+        />
     </Card>
   )
 }
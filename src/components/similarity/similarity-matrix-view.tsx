@@ -0,0 +1,272 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import Link from 'next/link'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Grid3x3, Loader2 } from 'lucide-react'
+import { clientLogger } from '@/lib/client-logger'
+
+interface MatrixDocument {
+  id: string
+  title: string
+  filename: string
+  page_count: number | null
+  total_characters: number
+}
+
+interface MatrixCell {
+  coverage: number
+  matchedCharacters: number
+  matchedChunks: number
+}
+
+interface ClusterMerge {
+  left: number
+  right: number
+  distance: number
+  size: number
+}
+
+interface SimilarityMatrix {
+  documents: MatrixDocument[]
+  cells: (MatrixCell | null)[][]
+  unscored_pairs: number
+  clustering: {
+    merges: ClusterMerge[]
+    order: number[]
+    clusters: number[]
+    clusterSimilarity: number
+  }
+  timing: {
+    total_ms: number
+  }
+}
+
+interface SimilarityMatrixViewProps {
+  documentIds: string[]
+}
+
+const ROW_HEIGHT = 32
+const DENDROGRAM_WIDTH = 120
+const CLUSTER_COLORS = ['#10b981', '#3b82f6', '#f59e0b', '#8b5cf6', '#ef4444', '#14b8a6', '#ec4899', '#6366f1']
+
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`
+
+const clusterColor = (cluster: number) => CLUSTER_COLORS[cluster % CLUSTER_COLORS.length]!
+
+function cellBackground(coverage: number): string {
+  // Emerald ramp; keep faint matches visible against the white background
+  const alpha = coverage <= 0 ? 0 : 0.08 + coverage * 0.92
+  return `rgba(16, 185, 129, ${alpha.toFixed(3)})`
+}
+
+/**
+ * Dendrogram segments for the given leaf order, drawn right-to-left so leaves touch the grid
+ */
+function buildDendrogramPaths(merges: ClusterMerge[], order: number[], leafCount: number): string[] {
+  const maxDistance = Math.max(1e-6, ...merges.map(merge => merge.distance))
+  const position = new Map<number, { y: number; x: number }>()
+  const toX = (distance: number) => DENDROGRAM_WIDTH - (distance / maxDistance) * (DENDROGRAM_WIDTH - 8)
+
+  order.forEach((leaf, rowIndex) => {
+    position.set(leaf, { y: rowIndex * ROW_HEIGHT + ROW_HEIGHT / 2, x: DENDROGRAM_WIDTH })
+  })
+
+  const paths: string[] = []
+  merges.forEach((merge, index) => {
+    const left = position.get(merge.left)
+    const right = position.get(merge.right)
+    if (!left || !right) return
+
+    const x = toX(merge.distance)
+    paths.push(`M ${left.x} ${left.y} H ${x} V ${right.y} H ${right.x}`)
+    position.set(leafCount + index, { y: (left.y + right.y) / 2, x })
+  })
+
+  return paths
+}
+
+export function SimilarityMatrixView({ documentIds }: SimilarityMatrixViewProps) {
+  const [matrix, setMatrix] = useState<SimilarityMatrix | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState('')
+
+  const idsKey = documentIds.join(',')
+
+  useEffect(() => {
+    const ids = idsKey ? idsKey.split(',') : []
+    if (ids.length < 2) {
+      setMatrix(null)
+      return
+    }
+
+    const controller = new AbortController()
+    setIsLoading(true)
+    setError('')
+
+    fetch('/api/documents/similarity-matrix', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ documentIds: ids }),
+      signal: controller.signal
+    })
+      .then(async response => {
+        const body = await response.json().catch(() => ({}))
+        if (!response.ok || !body.success) {
+          throw new Error(body.error || 'Failed to compute similarity matrix')
+        }
+        setMatrix(body.data as SimilarityMatrix)
+      })
+      .catch(fetchError => {
+        if (controller.signal.aborted) return
+        clientLogger.error('Error loading similarity matrix', {
+          error: fetchError,
+          documentCount: ids.length
+        })
+        setError(fetchError instanceof Error ? fetchError.message : 'Failed to compute similarity matrix')
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) {
+          setIsLoading(false)
+        }
+      })
+
+    return () => controller.abort()
+  }, [idsKey])
+
+  const dendrogramPaths = useMemo(() => {
+    if (!matrix) return []
+    return buildDendrogramPaths(matrix.clustering.merges, matrix.clustering.order, matrix.documents.length)
+  }, [matrix])
+
+  const clusterCount = matrix ? new Set(matrix.clustering.clusters).size : 0
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Grid3x3 className="h-5 w-5 text-emerald-500" />
+          Similarity Matrix
+        </CardTitle>
+        <CardDescription>
+          Each cell shows how much of the row document is covered by the column document.
+          Rows and columns are ordered by clustering so related documents sit together.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading && (
+          <div className="flex items-center gap-2 py-12 justify-center text-sm text-gray-500">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Comparing {documentIds.length} documents ({(documentIds.length * (documentIds.length - 1)) / 2} pairs)...
+          </div>
+        )}
+
+        {error && !isLoading && (
+          <p className="text-sm text-red-600 py-4">{error}</p>
+        )}
+
+        {matrix && !isLoading && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap items-center gap-3 text-xs text-gray-500">
+              <Badge variant="secondary">
+                {clusterCount === 1 ? '1 cluster' : `${clusterCount} clusters`} at ≥{formatPercent(matrix.clustering.clusterSimilarity)} mutual coverage
+              </Badge>
+              <span>Computed in {(matrix.timing.total_ms / 1000).toFixed(1)}s</span>
+              {matrix.unscored_pairs > 0 && (
+                <span className="text-amber-600">
+                  {matrix.unscored_pairs} pairs were not compared in time; select fewer documents for a full matrix
+                </span>
+              )}
+            </div>
+
+            <div className="overflow-x-auto">
+              <div className="inline-flex items-start">
+                <svg
+                  width={DENDROGRAM_WIDTH}
+                  height={matrix.documents.length * ROW_HEIGHT}
+                  className="shrink-0 mt-[120px]"
+                  aria-hidden="true"
+                >
+                  {dendrogramPaths.map((path, index) => (
+                    <path key={index} d={path} fill="none" stroke="#9ca3af" strokeWidth={1} />
+                  ))}
+                </svg>
+
+                <table className="border-collapse text-xs">
+                  <thead>
+                    <tr className="h-[120px]">
+                      <th />
+                      {matrix.clustering.order.map(columnIndex => {
+                        const column = matrix.documents[columnIndex]!
+                        return (
+                          <th key={column.id} className="align-bottom p-0" style={{ width: ROW_HEIGHT }}>
+                            <div
+                              className="w-[32px] truncate text-left font-normal text-gray-600 [writing-mode:vertical-rl] rotate-180 max-h-[116px]"
+                              title={column.title}
+                            >
+                              {column.title}
+                            </div>
+                          </th>
+                        )
+                      })}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {matrix.clustering.order.map(rowIndex => {
+                      const row = matrix.documents[rowIndex]!
+                      return (
+                        <tr key={row.id} style={{ height: ROW_HEIGHT }}>
+                          <th className="pr-3 text-left font-normal whitespace-nowrap">
+                            <span className="inline-flex items-center gap-2 max-w-[260px]">
+                              <span
+                                className="h-2.5 w-2.5 rounded-full shrink-0"
+                                style={{ backgroundColor: clusterColor(matrix.clustering.clusters[rowIndex] ?? 0) }}
+                              />
+                              <Link
+                                href={`/documents/${row.id}`}
+                                className="truncate text-gray-700 hover:text-emerald-700 hover:underline"
+                                title={row.title}
+                              >
+                                {row.title}
+                              </Link>
+                            </span>
+                          </th>
+                          {matrix.clustering.order.map(columnIndex => {
+                            const column = matrix.documents[columnIndex]!
+                            const cell = matrix.cells[rowIndex]?.[columnIndex] ?? null
+
+                            if (!cell) {
+                              return (
+                                <td key={column.id} className="border border-white bg-gray-200" style={{ width: ROW_HEIGHT }} />
+                              )
+                            }
+
+                            return (
+                              <td
+                                key={column.id}
+                                className="border border-white text-center tabular-nums"
+                                style={{
+                                  width: ROW_HEIGHT,
+                                  backgroundColor: cellBackground(cell.coverage),
+                                  color: cell.coverage >= 0.6 ? '#ffffff' : '#374151'
+                                }}
+                                title={`${formatPercent(cell.coverage)} of "${row.title}" is covered by "${column.title}" (${cell.matchedChunks} matched chunks)`}
+                              >
+                                {cell.coverage > 0 ? Math.round(cell.coverage * 100) : ''}
+                              </td>
+                            )
+                          })}
+                        </tr>
+                      )
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
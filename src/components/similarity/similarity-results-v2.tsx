@@ -3,9 +3,11 @@
 import { DatabaseDocument as Document } from '@/types/external-apis'
 import { Card, CardHeader, CardTitle, CardDescription } from '@/components/ui/card'
 import {
+  Loader2,
   Sparkles
 } from 'lucide-react'
 import { SearchResultsTable } from './search-results-table'
+import { CopyPermalinkButton } from './copy-permalink-button'
 
 interface SimilarityScores {
   sourceScore: number
@@ -14,6 +16,8 @@ interface SimilarityScores {
   matchedTargetCharacters: number
   explanation: string
   lengthRatio?: number | null
+  adjustedSourceScore?: number
+  adjustedTargetScore?: number
 }
 
 interface SectionMatch {
@@ -31,14 +35,29 @@ interface SimilarityResultV2 {
   sections: SectionMatch[]
 }
 
+export interface SimilaritySearchProgress {
+  stage: 'stage0' | 'stage1' | 'stage2' | null
+  progress: number
+}
+
+const STAGE_LABELS: Record<NonNullable<SimilaritySearchProgress['stage']>, string> = {
+  stage0: 'Candidate retrieval complete',
+  stage1: 'Chunk pre-filter complete',
+  stage2: 'Scoring candidates'
+}
+
 interface SimilarityResultsV2Props {
   results: SimilarityResultV2[]
   sourceDocument: Document
   isLoading: boolean
   maxResults?: number
+  progress?: SimilaritySearchProgress | null
+  permalink?: string | null
+  savedSearchId?: string | null
+  sourcePageRange?: { start_page: number; end_page: number } | null
 }
 
-export function SimilarityResultsV2({ results, sourceDocument, isLoading, maxResults }: SimilarityResultsV2Props) {
+export function SimilarityResultsV2({ results, sourceDocument, isLoading, maxResults, progress, permalink, savedSearchId, sourcePageRange }: SimilarityResultsV2Props) {
   // Apply max results limit if specified
   const limitedResults = maxResults && maxResults > 0
     ? results.slice(0, maxResults)
@@ -59,7 +78,24 @@ export function SimilarityResultsV2({ results, sourceDocument, isLoading, maxRes
                   Showing {limitedResults.length} of {results.length} similar document{results.length !== 1 ? 's' : ''} to &quot;{sourceDocument.title}&quot;
                 </CardDescription>
               </div>
+              {!isLoading && permalink && <CopyPermalinkButton path={permalink} />}
+              {isLoading && progress && (
+                <div className="flex items-center gap-2 text-xs text-gray-600">
+                  <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                  <span>
+                    {progress.stage ? STAGE_LABELS[progress.stage] : 'Starting search'} · {progress.progress}%
+                  </span>
+                </div>
+              )}
             </div>
+            {isLoading && progress && (
+              <div className="mt-3 h-1.5 w-full rounded-full bg-blue-100">
+                <div
+                  className="h-full rounded-full bg-blue-500 transition-all duration-500"
+                  style={{ width: `${progress.progress}%` }}
+                />
+              </div>
+            )}
           </CardHeader>
         </Card>
       </div>
@@ -67,8 +103,11 @@ export function SimilarityResultsV2({ results, sourceDocument, isLoading, maxRes
       <SearchResultsTable
         results={limitedResults}
         sourceDocument={sourceDocument}
+        sourcePageRange={sourcePageRange ?? null}
+        savedSearchId={isLoading ? null : savedSearchId ?? null}
         theme="blue"
-        isLoading={isLoading}
+        // Partial results are shown as soon as Stage 2 batches finish
+        isLoading={isLoading && results.length === 0}
       />
     </>
   )
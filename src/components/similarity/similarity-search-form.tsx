@@ -1,6 +1,6 @@
 'use client'
 
-import React, { useState, useRef } from 'react'
+import React, { useState, useRef, useEffect } from 'react'
 import { DatabaseDocument as Document } from '@/types/external-apis'
 import type { SearchFilters } from '@/types'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
@@ -10,8 +10,10 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { SearchableMultiSelect } from '@/components/ui/searchable-multi-select'
 import { Slider } from '@/components/ui/slider'
 import { Input } from '@/components/ui/input'
+import { Checkbox } from '@/components/ui/checkbox'
 import { Search, Loader2, RotateCcw, X, Scale, UserCircle, ClipboardList, Globe } from 'lucide-react'
-import { SimilarityResultsV2 } from './similarity-results-v2'
+import { SimilarityResultsV2, type SimilaritySearchProgress } from './similarity-results-v2'
+import { SavedSimilaritySearches } from './saved-similarity-searches'
 import { useMetadataOptions } from '@/hooks/use-metadata-options'
 import { clientLogger } from '@/lib/client-logger'
 import { cn } from '@/lib/utils'
@@ -34,9 +36,26 @@ export function SimilaritySearchForm({ documentId, sourceDocument }: SimilarityS
   const [sourceMinScore, setSourceMinScore] = useState(0.7)
   const [targetMinScore, setTargetMinScore] = useState(0.7)
   const [topK, setTopK] = useState(10)
+  const [excludeOlderVersions, setExcludeOlderVersions] = useState(false)
+  const [boilerplateWeighting, setBoilerplateWeighting] = useState(false)
+  const [searchProgress, setSearchProgress] = useState<SimilaritySearchProgress | null>(null)
+  const [savedSearchId, setSavedSearchId] = useState<string | null>(null)
+  const [savedSearchesVersion, setSavedSearchesVersion] = useState(0)
+  const [searchedPageRange, setSearchedPageRange] = useState<{ start_page: number; end_page: number } | null>(null)
   const abortControllerRef = useRef<AbortController | null>(null)
+  const eventSourceRef = useRef<EventSource | null>(null)
   const requestIdRef = useRef(0)
 
+  const closeEventStream = () => {
+    if (eventSourceRef.current) {
+      eventSourceRef.current.close()
+      eventSourceRef.current = null
+    }
+  }
+
+  // Stop listening when the page is left mid-search (the job itself keeps running)
+  useEffect(() => closeEventStream, [])
+
   // Fetch metadata options from API
   const { options: lawFirmOptions } = useMetadataOptions('law_firm')
   const { options: fundManagerOptions } = useMetadataOptions('fund_manager')
@@ -75,19 +94,28 @@ export function SimilaritySearchForm({ documentId, sourceDocument }: SimilarityS
 
     setIsSearching(true)
     setHasSearched(true)
+    setResults([])
+    setSavedSearchId(null)
+    setSearchProgress({ stage: null, progress: 0 })
+    setSearchedPageRange(isPageRangeValid && startPage !== undefined && endPage !== undefined
+      ? { start_page: startPage, end_page: endPage }
+      : null)
     // Cancel any in-flight request before starting a new one
     if (abortControllerRef.current) {
       abortControllerRef.current.abort()
     }
+    closeEventStream()
 
     // Track the lifetime of this request to avoid stale updates from previous responses
     const nextRequestId = requestIdRef.current + 1
     requestIdRef.current = nextRequestId
     const controller = new AbortController()
     abortControllerRef.current = controller
+    const isCurrentRequest = () => requestIdRef.current === nextRequestId
 
     try {
-      const response = await fetch(`/api/documents/${documentId}/similar-v2`, {
+      // The search runs as a background job; progress and partial results stream over SSE
+      const response = await fetch(`/api/documents/${documentId}/similar-v2/jobs`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -101,6 +129,8 @@ export function SimilaritySearchForm({ documentId, sourceDocument }: SimilarityS
           stage1_topK: 250, // Stage 1: Preserve broad candidate set for Stage 2
           source_min_score: sourceMinScore,
           target_min_score: targetMinScore,
+          exclude_older_versions: excludeOlderVersions,
+          boilerplate_weighting: boilerplateWeighting,
         }),
         signal: controller.signal,
       })
@@ -109,23 +139,67 @@ export function SimilaritySearchForm({ documentId, sourceDocument }: SimilarityS
         throw new Error('Failed to search for similar documents')
       }
 
-      const data = await response.json()
-      if (requestIdRef.current === nextRequestId) {
-        setResults(Array.isArray(data.results) ? data.results : [])
+      const job = await response.json()
+      if (!isCurrentRequest() || typeof job.events_url !== 'string') {
+        return
       }
+
+      const eventSource = new EventSource(job.events_url)
+      eventSourceRef.current = eventSource
+
+      await new Promise<void>((resolve, reject) => {
+        eventSource.addEventListener('progress', event => {
+          if (!isCurrentRequest()) return
+          const data = JSON.parse((event as MessageEvent<string>).data)
+          setSearchProgress({ stage: data.stage ?? null, progress: data.progress ?? 0 })
+          if (Array.isArray(data.partial_results)) {
+            setResults(data.partial_results)
+          }
+        })
+
+        eventSource.addEventListener('complete', event => {
+          if (isCurrentRequest()) {
+            const data = JSON.parse((event as MessageEvent<string>).data)
+            setResults(Array.isArray(data?.results) ? data.results : [])
+            if (typeof data?.search_id === 'string') {
+              setSavedSearchId(data.search_id)
+              setSavedSearchesVersion(version => version + 1)
+            }
+          }
+          resolve()
+        })
+
+        eventSource.addEventListener('failed', event => {
+          const data = JSON.parse((event as MessageEvent<string>).data)
+          reject(new Error(data?.error || 'Similarity search failed'))
+        })
+
+        // Transient drops reconnect automatically; only a closed stream is fatal
+        eventSource.onerror = () => {
+          if (eventSource.readyState === EventSource.CLOSED) {
+            reject(new Error('Lost connection to similarity search'))
+          }
+        }
+
+        controller.signal.addEventListener('abort', () => {
+          reject(new DOMException('Search cancelled', 'AbortError'))
+        })
+      })
     } catch (error) {
       if (error instanceof Error && error.name === 'AbortError') {
-        if (requestIdRef.current === nextRequestId) {
+        if (isCurrentRequest()) {
+          // Partial results stay on screen
           clientLogger.warn('Search cancelled by user')
-          setResults([])
         }
       } else {
         clientLogger.error('Similarity search error', error)
         alert('Failed to search for similar documents. Please try again.')
       }
     } finally {
-      if (requestIdRef.current === nextRequestId) {
+      if (isCurrentRequest()) {
+        closeEventStream()
         setIsSearching(false)
+        setSearchProgress(null)
         abortControllerRef.current = null
       }
     }
@@ -134,13 +208,16 @@ export function SimilaritySearchForm({ documentId, sourceDocument }: SimilarityS
   const handleStopSearch = () => {
     if (abortControllerRef.current) {
       abortControllerRef.current.abort()
+      closeEventStream()
       setIsSearching(false)
+      setSearchProgress(null)
       abortControllerRef.current = null
     }
   }
 
   const resetSearch = () => {
     setResults([])
+    setSavedSearchId(null)
     setHasSearched(false)
     setFilters({ 
         page_range: {
@@ -148,6 +225,8 @@ export function SimilaritySearchForm({ documentId, sourceDocument }: SimilarityS
       }
     })
     setTopK(15)
+    setExcludeOlderVersions(false)
+    setBoilerplateWeighting(false)
   }
 
   return (
@@ -430,6 +509,28 @@ export function SimilaritySearchForm({ documentId, sourceDocument }: SimilarityS
             </div>
 
           </div>
+
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="exclude-older-versions"
+              checked={excludeOlderVersions}
+              onCheckedChange={checked => setExcludeOlderVersions(checked === true)}
+            />
+            <Label htmlFor="exclude-older-versions" className="text-xs">
+              Only compare against the latest version of each document
+            </Label>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="boilerplate-weighting"
+              checked={boilerplateWeighting}
+              onCheckedChange={checked => setBoilerplateWeighting(checked === true)}
+            />
+            <Label htmlFor="boilerplate-weighting" className="text-xs">
+              Down-weight boilerplate common across the corpus (W-9, FATCA, standard representations)
+            </Label>
+          </div>
         </CardContent>
       </Card>
 
@@ -439,9 +540,15 @@ export function SimilaritySearchForm({ documentId, sourceDocument }: SimilarityS
           results={results}
           sourceDocument={sourceDocument}
           isLoading={isSearching}
+          progress={searchProgress}
+          permalink={savedSearchId ? `/documents/${documentId}/similar/${savedSearchId}` : null}
+          savedSearchId={savedSearchId}
+          sourcePageRange={searchedPageRange}
           maxResults={topK}
         />
       )}
+
+      <SavedSimilaritySearches documentId={documentId} refreshKey={savedSearchesVersion} />
     </div>
   )
 }
@@ -0,0 +1,62 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+
+export interface TemplateClusterOption {
+  id: string
+  label: string
+  member_count: number
+}
+
+export interface UseTemplateClustersResult {
+  clusters: TemplateClusterOption[]
+  loading: boolean
+  error: Error | null
+}
+
+/**
+ * Client-side hook to fetch the template families found by the last clustering run
+ *
+ * @example
+ * const { clusters } = useTemplateClusters()
+ */
+export function useTemplateClusters(): UseTemplateClustersResult {
+  const [clusters, setClusters] = useState<TemplateClusterOption[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<Error | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+
+    const fetchClusters = async () => {
+      try {
+        const response = await fetch('/api/documents/template-clusters', { cache: 'no-store' })
+        if (!response.ok) {
+          throw new Error(`Failed to fetch template clusters: ${response.statusText}`)
+        }
+
+        const body = await response.json()
+        if (!cancelled) {
+          setClusters(body.data?.clusters || [])
+        }
+      } catch (err) {
+        if (!cancelled) {
+          setError(err instanceof Error ? err : new Error('Failed to fetch template clusters'))
+          setClusters([])
+        }
+      } finally {
+        if (!cancelled) {
+          setLoading(false)
+        }
+      }
+    }
+
+    fetchClusters()
+
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  return { clusters, loading, error }
+}
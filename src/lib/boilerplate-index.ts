@@ -0,0 +1,116 @@
+/**
+ * Corpus boilerplate frequency index
+ * Tracks how many documents contain each chunk cluster (chunk text with case, digits
+ * and punctuation stripped) so similarity scoring can discount shared boilerplate.
+ * Clusters are computed by a generated column on document_embeddings; this module
+ * keeps chunk_cluster_frequency in step with it.
+ */
+
+import { createServiceClient, releaseServiceClient } from '@/lib/supabase/server'
+import { logger } from '@/lib/logger'
+
+const FREQUENCY_PAGE_SIZE = 1000
+
+/**
+ * Recount the clusters of one document after its chunks were written or replaced
+ */
+export async function refreshBoilerplateIndex(documentId: string): Promise<number> {
+  const supabase = await createServiceClient()
+  try {
+    const { data, error } = await supabase.rpc('refresh_chunk_cluster_frequency', {
+      p_document_id: documentId
+    })
+
+    if (error) {
+      throw new Error(`Failed to refresh boilerplate index: ${error.message}`)
+    }
+
+    const sharedClusters = typeof data === 'number' ? data : 0
+    logger.debug('Boilerplate index refreshed for document', {
+      documentId,
+      sharedClusters,
+      component: 'boilerplate-index'
+    })
+    return sharedClusters
+  } finally {
+    releaseServiceClient(supabase)
+  }
+}
+
+/**
+ * Recount every cluster in the corpus
+ * Deleting documents does not decrement counts, so run this after bulk cleanups
+ */
+export async function rebuildBoilerplateIndex(): Promise<number> {
+  const supabase = await createServiceClient()
+  try {
+    const { data, error } = await supabase.rpc('rebuild_chunk_cluster_frequency')
+
+    if (error) {
+      throw new Error(`Failed to rebuild boilerplate index: ${error.message}`)
+    }
+
+    const sharedClusters = typeof data === 'number' ? data : 0
+    logger.info('Boilerplate index rebuilt', { sharedClusters, component: 'boilerplate-index' })
+    return sharedClusters
+  } finally {
+    releaseServiceClient(supabase)
+  }
+}
+
+/**
+ * Number of completed documents, the N in the IDF weight
+ */
+export async function getCorpusDocumentCount(): Promise<number> {
+  const supabase = await createServiceClient()
+  try {
+    const { count, error } = await supabase
+      .from('documents')
+      .select('id', { count: 'exact', head: true })
+      .eq('status', 'completed')
+
+    if (error) {
+      throw new Error(`Failed to count corpus documents: ${error.message}`)
+    }
+
+    return count ?? 0
+  } finally {
+    releaseServiceClient(supabase)
+  }
+}
+
+/**
+ * Map of chunk_index → number of documents sharing that chunk's cluster
+ */
+export async function fetchChunkDocumentFrequencies(documentId: string): Promise<Map<number, number>> {
+  const supabase = await createServiceClient()
+  try {
+    const frequencies = new Map<number, number>()
+    let start = 0
+
+    while (true) {
+      const { data, error } = await supabase
+        .rpc('get_chunk_cluster_frequencies', { p_document_id: documentId })
+        .order('chunk_index', { ascending: true })
+        .range(start, start + FREQUENCY_PAGE_SIZE - 1)
+
+      if (error) {
+        throw new Error(`Failed to load chunk frequencies: ${error.message}`)
+      }
+
+      const rows = (data ?? []) as Array<{ chunk_index: number; document_count: number }>
+      for (const row of rows) {
+        frequencies.set(row.chunk_index, row.document_count)
+      }
+
+      if (rows.length < FREQUENCY_PAGE_SIZE) {
+        break
+      }
+      start += rows.length
+    }
+
+    return frequencies
+  } finally {
+    releaseServiceClient(supabase)
+  }
+}
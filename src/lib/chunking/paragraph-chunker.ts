@@ -12,12 +12,21 @@
 
 import { splitIntoSentences } from './sentence-chunker'
 
+// Page-relative coordinates (0-1) measured from the top-left corner
+export interface ParagraphBoundingBox {
+  left: number
+  top: number
+  right: number
+  bottom: number
+}
+
 export interface Paragraph {
   text: string
   pageNumber: number
   index: number
   startPageNumber?: number  // Track page range for merged paragraphs
   endPageNumber?: number    // Track page range for merged paragraphs
+  boundingBox?: ParagraphBoundingBox  // Only Document AI output carries layout
 }
 
 export interface Chunk {
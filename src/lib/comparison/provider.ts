@@ -0,0 +1,27 @@
+/**
+ * Comparison provider selection
+ * COMPARISON_PROVIDER picks the default; without it Draftable is used only when its
+ * credentials are configured, so existing deployments keep their viewer.
+ */
+
+import { isDraftableConfigured } from '@/lib/draftable'
+
+export const COMPARISON_PROVIDERS = ['native', 'draftable'] as const
+
+export type ComparisonProvider = typeof COMPARISON_PROVIDERS[number]
+
+export function isComparisonProvider(value: unknown): value is ComparisonProvider {
+  return typeof value === 'string' && (COMPARISON_PROVIDERS as readonly string[]).includes(value)
+}
+
+export function getDefaultComparisonProvider(): ComparisonProvider {
+  const configured = process.env['COMPARISON_PROVIDER']
+  if (isComparisonProvider(configured)) {
+    return configured
+  }
+  return isDraftableConfigured() ? 'draftable' : 'native'
+}
+
+export function getNativeComparisonPath(sourceDocumentId: string, targetDocumentId: string): string {
+  return `/documents/${sourceDocumentId}/compare/${targetDocumentId}`
+}
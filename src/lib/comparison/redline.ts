@@ -0,0 +1,430 @@
+/**
+ * Native redline comparison
+ * Diffs the stored extracted text of two documents page by page. Sections found by
+ * similarity matching anchor the alignment, so each diff only runs over pages that
+ * correspond, and identical passages that changed position are reported as moves.
+ */
+
+import { createServiceClient, releaseServiceClient } from '@/lib/supabase/server'
+import { logger } from '@/lib/logger'
+import { findBidirectionalMatches } from '@/lib/similarity/core/chunk-matching'
+import { groupMatchesIntoSections, parseSectionPageRange } from '@/lib/similarity/core/section-detection'
+import { fetchDocumentChunks } from '@/lib/similarity/stages/stage2-final-scoring'
+import type { SectionMatch } from '@/lib/similarity/types'
+import { diffWords, tokenizeWords, type WordDiffEntry } from './word-diff'
+
+// Segments needing more edits than this are shown as a full replacement
+const MAX_SEGMENT_EDIT_DISTANCE = 2000
+// Shorter identical runs are too likely to be coincidental to call a move
+const MIN_MOVE_WORDS = 8
+// Looser than search so lightly edited sections still anchor the alignment
+const ANCHOR_MATCH_THRESHOLD = 0.85
+
+export type RedlineOperationType = 'equal' | 'insert' | 'delete' | 'move_from' | 'move_to'
+
+export interface RedlineOperation {
+  type: RedlineOperationType
+  text: string
+  sourcePage: number | null
+  targetPage: number | null
+  moveId?: number  // Pairs a move_from with its move_to
+}
+
+export interface PageSpan {
+  start: number
+  end: number
+}
+
+export interface RedlineSegment {
+  sourcePages: PageSpan | null
+  targetPages: PageSpan | null
+  anchored: boolean           // Aligned by a matched section rather than the gap between sections
+  diffLimitExceeded: boolean  // Too different to diff word by word; shown as delete + insert
+  operations: RedlineOperation[]
+}
+
+export interface RedlineStats {
+  unchangedWords: number
+  insertedWords: number
+  deletedWords: number
+  movedWords: number
+}
+
+export interface RedlineComparison {
+  sourceDocumentId: string
+  targetDocumentId: string
+  sourcePageCount: number
+  targetPageCount: number
+  anchorCount: number
+  segments: RedlineSegment[]
+  stats: RedlineStats
+}
+
+interface PageText {
+  text: string
+  pageNumber: number
+}
+
+interface PageToken {
+  word: string
+  page: number
+}
+
+interface Anchor {
+  source: PageSpan
+  target: PageSpan
+  weight: number
+}
+
+interface DiffRun {
+  type: RedlineOperationType
+  sourceTokens: PageToken[]
+  targetTokens: PageToken[]
+  moveId?: number
+}
+
+interface SegmentDraft {
+  sourcePages: PageSpan | null
+  targetPages: PageSpan | null
+  anchored: boolean
+  diffLimitExceeded: boolean
+  runs: DiffRun[]
+}
+
+async function fetchPageTexts(documentId: string): Promise<PageText[]> {
+  const supabase = await createServiceClient()
+  try {
+    const { data, error } = await supabase
+      .from('document_content')
+      .select('extracted_text, pages_text')
+      .eq('document_id', documentId)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to load extracted text: ${error.message}`)
+    }
+
+    const pages = Array.isArray(data?.pages_text) ? data.pages_text as PageText[] : []
+    if (pages.length > 0) {
+      return [...pages].sort((a, b) => a.pageNumber - b.pageNumber)
+    }
+
+    // Documents processed before page text was persisted only have the flat text
+    const extractedText = typeof data?.extracted_text === 'string' ? data.extracted_text : ''
+    return extractedText.trim().length > 0 ? [{ text: extractedText, pageNumber: 1 }] : []
+  } finally {
+    releaseServiceClient(supabase)
+  }
+}
+
+/**
+ * Heaviest chain of sections that is increasing in both documents
+ * Sections that would cross an earlier one (reordered content) are left to move detection.
+ */
+function selectAnchors(sections: SectionMatch[]): Anchor[] {
+  const candidates: Anchor[] = []
+  for (const section of sections) {
+    const source = parseSectionPageRange(section.docA_pageRange)
+    const target = parseSectionPageRange(section.docB_pageRange)
+    if (source && target) {
+      candidates.push({ source, target, weight: section.chunkCount })
+    }
+  }
+  candidates.sort((a, b) => a.source.start - b.source.start || a.target.start - b.target.start)
+
+  const best = candidates.map(candidate => candidate.weight)
+  const previous = candidates.map(() => -1)
+
+  for (let i = 0; i < candidates.length; i++) {
+    for (let j = 0; j < i; j++) {
+      const fits = candidates[j]!.source.end < candidates[i]!.source.start &&
+        candidates[j]!.target.end < candidates[i]!.target.start
+      if (fits && best[j]! + candidates[i]!.weight > best[i]!) {
+        best[i] = best[j]! + candidates[i]!.weight
+        previous[i] = j
+      }
+    }
+  }
+
+  let index = best.reduce((bestIndex, value, i) => value > (best[bestIndex] ?? -1) ? i : bestIndex, -1)
+  const chain: Anchor[] = []
+  while (index >= 0) {
+    chain.push(candidates[index]!)
+    index = previous[index]!
+  }
+  return chain.reverse()
+}
+
+async function findAnchors(sourceDocumentId: string, targetDocumentId: string): Promise<Anchor[]> {
+  const [sourceChunks, targetChunks] = await Promise.all([
+    fetchDocumentChunks(sourceDocumentId),
+    fetchDocumentChunks(targetDocumentId)
+  ])
+
+  if (sourceChunks.length === 0 || targetChunks.length === 0) {
+    return []
+  }
+
+  const matches = await findBidirectionalMatches(sourceChunks, targetChunks, {
+    primaryThreshold: ANCHOR_MATCH_THRESHOLD,
+    requireMinimumEvidence: false
+  }) ?? []
+
+  return selectAnchors(groupMatchesIntoSections(matches))
+}
+
+function tokensForPages(pages: PageText[], span: PageSpan | null): PageToken[] {
+  if (!span) {
+    return []
+  }
+  const tokens: PageToken[] = []
+  for (const page of pages) {
+    if (page.pageNumber >= span.start && page.pageNumber <= span.end) {
+      for (const word of tokenizeWords(page.text)) {
+        tokens.push({ word, page: page.pageNumber })
+      }
+    }
+  }
+  return tokens
+}
+
+function spanOrNull(start: number, end: number): PageSpan | null {
+  return start <= end ? { start, end } : null
+}
+
+function buildRuns(sourceTokens: PageToken[], targetTokens: PageToken[], script: WordDiffEntry[]): DiffRun[] {
+  const runs: DiffRun[] = []
+  for (const entry of script) {
+    let current = runs[runs.length - 1]
+    if (!current || current.type !== entry.type) {
+      current = { type: entry.type, sourceTokens: [], targetTokens: [] }
+      runs.push(current)
+    }
+    if (entry.sourceIndex !== null) {
+      current.sourceTokens.push(sourceTokens[entry.sourceIndex]!)
+    }
+    if (entry.targetIndex !== null) {
+      current.targetTokens.push(targetTokens[entry.targetIndex]!)
+    }
+  }
+  return runs
+}
+
+function diffSegment(
+  sourcePages: PageText[],
+  targetPages: PageText[],
+  sourceSpan: PageSpan | null,
+  targetSpan: PageSpan | null,
+  anchored: boolean
+): SegmentDraft {
+  const sourceTokens = tokensForPages(sourcePages, sourceSpan)
+  const targetTokens = tokensForPages(targetPages, targetSpan)
+  const script = diffWords(
+    sourceTokens.map(token => token.word),
+    targetTokens.map(token => token.word),
+    MAX_SEGMENT_EDIT_DISTANCE
+  )
+
+  if (script) {
+    return {
+      sourcePages: sourceSpan,
+      targetPages: targetSpan,
+      anchored,
+      diffLimitExceeded: false,
+      runs: buildRuns(sourceTokens, targetTokens, script)
+    }
+  }
+
+  const runs: DiffRun[] = []
+  if (sourceTokens.length > 0) {
+    runs.push({ type: 'delete', sourceTokens, targetTokens: [] })
+  }
+  if (targetTokens.length > 0) {
+    runs.push({ type: 'insert', sourceTokens: [], targetTokens })
+  }
+  return { sourcePages: sourceSpan, targetPages: targetSpan, anchored, diffLimitExceeded: true, runs }
+}
+
+function moveKey(tokens: PageToken[]): string {
+  return tokens
+    .map(token => token.word.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ''))
+    .filter(word => word.length > 0)
+    .join(' ')
+}
+
+/**
+ * Re-label deleted runs that reappear verbatim as an insert elsewhere as a move
+ */
+function detectMoves(segments: SegmentDraft[]): void {
+  const deletedByKey = new Map<string, DiffRun[]>()
+  for (const segment of segments) {
+    for (const run of segment.runs) {
+      if (run.type === 'delete' && run.sourceTokens.length >= MIN_MOVE_WORDS) {
+        const key = moveKey(run.sourceTokens)
+        const list = deletedByKey.get(key) ?? []
+        list.push(run)
+        deletedByKey.set(key, list)
+      }
+    }
+  }
+
+  let nextMoveId = 1
+  for (const segment of segments) {
+    for (const run of segment.runs) {
+      if (run.type !== 'insert' || run.targetTokens.length < MIN_MOVE_WORDS) {
+        continue
+      }
+      const origin = deletedByKey.get(moveKey(run.targetTokens))?.shift()
+      if (!origin) {
+        continue
+      }
+      origin.type = 'move_from'
+      origin.moveId = nextMoveId
+      run.type = 'move_to'
+      run.moveId = nextMoveId
+      nextMoveId++
+    }
+  }
+}
+
+/**
+ * Flatten runs into operations, starting a new operation whenever either page changes
+ */
+function toOperations(runs: DiffRun[]): RedlineOperation[] {
+  const operations: RedlineOperation[] = []
+
+  for (const run of runs) {
+    const length = Math.max(run.sourceTokens.length, run.targetTokens.length)
+    let words: string[] = []
+    let sourcePage: number | null = null
+    let targetPage: number | null = null
+
+    const flush = () => {
+      if (words.length > 0) {
+        operations.push({
+          type: run.type,
+          text: words.join(' '),
+          sourcePage,
+          targetPage,
+          ...(run.moveId !== undefined ? { moveId: run.moveId } : {})
+        })
+      }
+      words = []
+    }
+
+    for (let i = 0; i < length; i++) {
+      const sourceToken = run.sourceTokens[i]
+      const targetToken = run.targetTokens[i]
+      const nextSourcePage = sourceToken?.page ?? null
+      const nextTargetPage = targetToken?.page ?? null
+
+      if (words.length > 0 && (nextSourcePage !== sourcePage || nextTargetPage !== targetPage)) {
+        flush()
+      }
+      sourcePage = nextSourcePage
+      targetPage = nextTargetPage
+      words.push((sourceToken ?? targetToken)!.word)
+    }
+    flush()
+  }
+
+  return operations
+}
+
+function computeStats(segments: SegmentDraft[]): RedlineStats {
+  const stats: RedlineStats = { unchangedWords: 0, insertedWords: 0, deletedWords: 0, movedWords: 0 }
+  for (const segment of segments) {
+    for (const run of segment.runs) {
+      switch (run.type) {
+        case 'equal':
+          stats.unchangedWords += run.sourceTokens.length
+          break
+        case 'insert':
+          stats.insertedWords += run.targetTokens.length
+          break
+        case 'delete':
+          stats.deletedWords += run.sourceTokens.length
+          break
+        case 'move_to':
+          stats.movedWords += run.targetTokens.length
+          break
+      }
+    }
+  }
+  return stats
+}
+
+/**
+ * Word-level redline of targetDocumentId against sourceDocumentId
+ * Throws when either document has no stored extracted text.
+ */
+export async function computeRedline(
+  sourceDocumentId: string,
+  targetDocumentId: string
+): Promise<RedlineComparison> {
+  const startTime = Date.now()
+
+  const [sourcePages, targetPages, anchors] = await Promise.all([
+    fetchPageTexts(sourceDocumentId),
+    fetchPageTexts(targetDocumentId),
+    findAnchors(sourceDocumentId, targetDocumentId)
+  ])
+
+  if (sourcePages.length === 0 || targetPages.length === 0) {
+    throw new Error('Both documents need extracted text to be compared')
+  }
+
+  const sourcePageCount = sourcePages[sourcePages.length - 1]!.pageNumber
+  const targetPageCount = targetPages[targetPages.length - 1]!.pageNumber
+
+  const segments: SegmentDraft[] = []
+  let nextSourcePage = 1
+  let nextTargetPage = 1
+
+  // Pages between consecutive anchors are diffed against each other as their own segment
+  for (const anchor of [...anchors, null]) {
+    const gapSource = spanOrNull(nextSourcePage, anchor ? anchor.source.start - 1 : sourcePageCount)
+    const gapTarget = spanOrNull(nextTargetPage, anchor ? anchor.target.start - 1 : targetPageCount)
+    if (gapSource || gapTarget) {
+      segments.push(diffSegment(sourcePages, targetPages, gapSource, gapTarget, false))
+    }
+
+    if (anchor) {
+      segments.push(diffSegment(sourcePages, targetPages, anchor.source, anchor.target, true))
+      nextSourcePage = anchor.source.end + 1
+      nextTargetPage = anchor.target.end + 1
+    }
+  }
+
+  detectMoves(segments)
+
+  const stats = computeStats(segments)
+
+  logger.info('Redline comparison computed', {
+    sourceDocumentId,
+    targetDocumentId,
+    anchors: anchors.length,
+    segments: segments.length,
+    ...stats,
+    timeMs: Date.now() - startTime,
+    component: 'redline'
+  })
+
+  return {
+    sourceDocumentId,
+    targetDocumentId,
+    sourcePageCount,
+    targetPageCount,
+    anchorCount: anchors.length,
+    segments: segments
+      .filter(segment => segment.runs.length > 0)
+      .map(segment => ({
+        sourcePages: segment.sourcePages,
+        targetPages: segment.targetPages,
+        anchored: segment.anchored,
+        diffLimitExceeded: segment.diffLimitExceeded,
+        operations: toOperations(segment.runs)
+      })),
+    stats
+  }
+}
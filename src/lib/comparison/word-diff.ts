@@ -0,0 +1,145 @@
+/**
+ * Word-level diff (Myers O(ND) algorithm)
+ * Common prefixes and suffixes are trimmed before the search, and the search gives up
+ * once the edit distance exceeds a limit so very different inputs cannot blow up memory.
+ */
+
+export type WordDiffType = 'equal' | 'insert' | 'delete'
+
+export interface WordDiffEntry {
+  type: WordDiffType
+  sourceIndex: number | null  // Token index in the source sequence (null for inserts)
+  targetIndex: number | null  // Token index in the target sequence (null for deletes)
+}
+
+export function tokenizeWords(text: string): string[] {
+  return text.split(/\s+/).filter(token => token.length > 0)
+}
+
+/**
+ * Shortest edit script turning source into target, in source/target order
+ * Returns null when more than maxEditDistance insertions and deletions would be needed.
+ */
+export function diffWords(
+  source: readonly string[],
+  target: readonly string[],
+  maxEditDistance: number
+): WordDiffEntry[] | null {
+  let prefix = 0
+  while (prefix < source.length && prefix < target.length && source[prefix] === target[prefix]) {
+    prefix++
+  }
+
+  let suffix = 0
+  while (
+    suffix < source.length - prefix &&
+    suffix < target.length - prefix &&
+    source[source.length - 1 - suffix] === target[target.length - 1 - suffix]
+  ) {
+    suffix++
+  }
+
+  const middle = myersDiff(
+    source.slice(prefix, source.length - suffix),
+    target.slice(prefix, target.length - suffix),
+    maxEditDistance
+  )
+  if (!middle) {
+    return null
+  }
+
+  const script: WordDiffEntry[] = []
+  for (let i = 0; i < prefix; i++) {
+    script.push({ type: 'equal', sourceIndex: i, targetIndex: i })
+  }
+  for (const entry of middle) {
+    script.push({
+      type: entry.type,
+      sourceIndex: entry.sourceIndex === null ? null : entry.sourceIndex + prefix,
+      targetIndex: entry.targetIndex === null ? null : entry.targetIndex + prefix
+    })
+  }
+  for (let i = suffix; i > 0; i--) {
+    script.push({
+      type: 'equal',
+      sourceIndex: source.length - i,
+      targetIndex: target.length - i
+    })
+  }
+
+  return script
+}
+
+function myersDiff(
+  source: readonly string[],
+  target: readonly string[],
+  maxEditDistance: number
+): WordDiffEntry[] | null {
+  const n = source.length
+  const m = target.length
+  const limit = Math.min(maxEditDistance, n + m)
+  const offset = limit + 1
+
+  // v[offset + k] = furthest source index reached on diagonal k; one snapshot per edit distance
+  const v = new Int32Array(2 * limit + 3)
+  const trace: Int32Array[] = []
+
+  for (let d = 0; d <= limit; d++) {
+    trace.push(v.slice())
+
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1]! < v[offset + k + 1]!)
+        ? v[offset + k + 1]!
+        : v[offset + k - 1]! + 1
+      let y = x - k
+
+      while (x < n && y < m && source[x] === target[y]) {
+        x++
+        y++
+      }
+
+      v[offset + k] = x
+
+      if (x >= n && y >= m) {
+        return backtrack(trace, n, m, offset)
+      }
+    }
+  }
+
+  return null
+}
+
+function backtrack(trace: Int32Array[], n: number, m: number, offset: number): WordDiffEntry[] {
+  const script: WordDiffEntry[] = []
+  let x = n
+  let y = m
+
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const v = trace[d]!
+    const k = x - y
+    const prevK = k === -d || (k !== d && v[offset + k - 1]! < v[offset + k + 1]!)
+      ? k + 1
+      : k - 1
+    const prevX = v[offset + prevK]!
+    const prevY = prevX - prevK
+
+    while (x > prevX && y > prevY) {
+      x--
+      y--
+      script.push({ type: 'equal', sourceIndex: x, targetIndex: y })
+    }
+
+    if (d > 0) {
+      if (x === prevX) {
+        script.push({ type: 'insert', sourceIndex: null, targetIndex: prevY })
+      } else {
+        script.push({ type: 'delete', sourceIndex: prevX, targetIndex: null })
+      }
+    }
+
+    x = prevX
+    y = prevY
+  }
+
+  return script.reverse()
+}
@@ -143,6 +143,7 @@ export const MAX_TITLE_LENGTH = 255
 export const HTTP_STATUS = {
   OK: 200,
   CREATED: 201,
+  ACCEPTED: 202,
   NO_CONTENT: 204,
   BAD_REQUEST: 400,
   UNAUTHORIZED: 401,
@@ -177,6 +178,8 @@ export const ERROR_CODES = {
   NOT_FOUND: 'NOT_FOUND',
   DOCUMENT_NOT_FOUND: 'DOCUMENT_NOT_FOUND',
   USER_NOT_FOUND: 'USER_NOT_FOUND',
+  CONFLICT: 'CONFLICT',
+  DUPLICATE_DOCUMENT: 'DUPLICATE_DOCUMENT',
 
   // Database
   DATABASE_ERROR: 'DATABASE_ERROR',
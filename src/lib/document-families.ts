@@ -0,0 +1,226 @@
+/**
+ * Document version families
+ * Revised drafts of the same document are grouped so lists can collapse them and
+ * similarity search can skip superseded drafts. Links are made automatically after
+ * processing when a near-complete bidirectional match with identical metadata exists,
+ * or manually from the document list.
+ */
+
+import { createServiceClient, releaseServiceClient } from '@/lib/supabase/server'
+import { executeSimilaritySearch } from '@/lib/similarity/orchestrator'
+import { logger } from '@/lib/logger'
+import type { BusinessMetadata } from '@/types/external-apis'
+
+// Both directions must cover at least this share of the other document
+export const VERSION_LINK_MIN_COVERAGE = 0.95
+
+const VERSION_LINK_METADATA_KEYS = ['law_firm', 'fund_manager', 'fund_admin', 'jurisdiction', 'document_type'] as const
+const AUTO_LINK_CANDIDATES = 50
+
+export type VersionLinkType = 'auto' | 'manual'
+
+export interface DocumentFamilyMember {
+  id: string
+  title: string
+  filename: string
+  status: string
+  family_version: number
+  is_latest_version: boolean
+  version_link_type: VersionLinkType | null
+  created_at: string
+}
+
+export interface DocumentFamily {
+  familyId: string
+  members: DocumentFamilyMember[]
+}
+
+function isAutoLinkEnabled(): boolean {
+  return process.env['DOCUMENT_VERSION_AUTO_LINK_ENABLED'] !== 'false'
+}
+
+function normalizeMetadataValue(value: unknown): string {
+  return typeof value === 'string' ? value.trim().toLowerCase() : ''
+}
+
+function metadataMatches(source: BusinessMetadata | null | undefined, target: unknown): boolean {
+  const targetMetadata = (target && typeof target === 'object' ? target : {}) as Record<string, unknown>
+  const sourceMetadata = (source ?? {}) as Record<string, unknown>
+
+  return VERSION_LINK_METADATA_KEYS.every(key =>
+    normalizeMetadataValue(sourceMetadata[key]) === normalizeMetadataValue(targetMetadata[key])
+  )
+}
+
+/**
+ * Make documentId the version directly after previousDocumentId
+ * Returns the family ID; the document leaves any family it was already in
+ */
+export async function linkDocumentVersion(
+  documentId: string,
+  previousDocumentId: string,
+  linkType: VersionLinkType = 'manual'
+): Promise<string> {
+  const supabase = await createServiceClient()
+  try {
+    const { data, error } = await supabase.rpc('link_document_version', {
+      p_document_id: documentId,
+      p_previous_document_id: previousDocumentId,
+      p_link_type: linkType
+    })
+
+    if (error) {
+      throw new Error(`Failed to link document version: ${error.message}`)
+    }
+
+    logger.info('Document version linked', {
+      documentId,
+      previousDocumentId,
+      familyId: data,
+      linkType,
+      component: 'document-families'
+    })
+
+    return data as string
+  } finally {
+    releaseServiceClient(supabase)
+  }
+}
+
+export async function unlinkDocumentVersion(documentId: string): Promise<void> {
+  const supabase = await createServiceClient()
+  try {
+    const { error } = await supabase.rpc('unlink_document_version', {
+      p_document_id: documentId
+    })
+
+    if (error) {
+      throw new Error(`Failed to unlink document version: ${error.message}`)
+    }
+
+    logger.info('Document version unlinked', { documentId, component: 'document-families' })
+  } finally {
+    releaseServiceClient(supabase)
+  }
+}
+
+/**
+ * All versions in the document's family, oldest first, or null when it has none
+ */
+export async function getDocumentFamily(documentId: string): Promise<DocumentFamily | null> {
+  const supabase = await createServiceClient()
+  try {
+    const { data: document, error: documentError } = await supabase
+      .from('documents')
+      .select('family_id')
+      .eq('id', documentId)
+      .maybeSingle()
+
+    if (documentError) {
+      throw new Error(`Failed to load document family: ${documentError.message}`)
+    }
+
+    const familyId = typeof document?.family_id === 'string' ? document.family_id : null
+    if (!familyId) {
+      return null
+    }
+
+    const { data: members, error: membersError } = await supabase
+      .from('documents')
+      .select('id, title, filename, status, family_version, is_latest_version, version_link_type, created_at')
+      .eq('family_id', familyId)
+      .order('family_version', { ascending: true })
+
+    if (membersError) {
+      throw new Error(`Failed to load document family members: ${membersError.message}`)
+    }
+
+    return {
+      familyId,
+      members: (members ?? []) as unknown as DocumentFamilyMember[]
+    }
+  } finally {
+    releaseServiceClient(supabase)
+  }
+}
+
+interface VersionLinkSource {
+  family_id: string | null
+  duplicate_type: string | null
+  metadata: BusinessMetadata | null
+  created_at: string
+}
+
+async function loadVersionLinkSource(documentId: string): Promise<VersionLinkSource | null> {
+  const supabase = await createServiceClient()
+  try {
+    const { data, error } = await supabase
+      .from('documents')
+      .select('family_id, duplicate_type, metadata, created_at')
+      .eq('id', documentId)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to load document for version linking: ${error.message}`)
+    }
+
+    return data as VersionLinkSource | null
+  } finally {
+    releaseServiceClient(supabase)
+  }
+}
+
+/**
+ * Link a freshly processed document to the draft it revises, if one is found
+ * Only the latest version of each family is considered, and only documents uploaded
+ * earlier, so the new upload always becomes the newest version.
+ * Returns the previous version's ID when a link was made.
+ */
+export async function autoLinkDocumentVersion(documentId: string): Promise<string | null> {
+  if (!isAutoLinkEnabled()) {
+    return null
+  }
+
+  const source = await loadVersionLinkSource(documentId)
+
+  // Manual links win, and byte-identical re-uploads are duplicates rather than revisions
+  if (!source || source.family_id || source.duplicate_type === 'exact') {
+    return null
+  }
+
+  const stage0Filters: Record<string, unknown> = {}
+  for (const key of VERSION_LINK_METADATA_KEYS) {
+    const value = source.metadata?.[key]
+    if (typeof value === 'string' && value.trim().length > 0) {
+      stage0Filters[key] = value
+    }
+  }
+
+  const searchResult = await executeSimilaritySearch(documentId, {
+    stage0_topK: AUTO_LINK_CANDIDATES,
+    stage0_filters: stage0Filters,
+    excludeOlderVersions: true
+  })
+
+  const sourceCreatedAt = new Date(source.created_at).getTime()
+  const sourceMetadata = source.metadata
+
+  const best = searchResult.results
+    .filter(result =>
+      result.scores.sourceScore >= VERSION_LINK_MIN_COVERAGE &&
+      result.scores.targetScore >= VERSION_LINK_MIN_COVERAGE &&
+      new Date(String(result.document['created_at'])).getTime() < sourceCreatedAt &&
+      metadataMatches(sourceMetadata, result.document['metadata'])
+    )
+    .sort((a, b) =>
+      Math.min(b.scores.sourceScore, b.scores.targetScore) -
+      Math.min(a.scores.sourceScore, a.scores.targetScore)
+    )[0]
+
+  if (!best) {
+    return null
+  }
+
+  await linkDocumentVersion(documentId, best.document.id, 'auto')
+  return best.document.id
+}
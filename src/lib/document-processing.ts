@@ -1,12 +1,10 @@
-import { DocumentProcessorServiceClient } from '@google-cloud/documentai'
 import { PDFDocument } from 'pdf-lib'
 import type { PostgrestError, SupabaseClient } from '@supabase/supabase-js'
 import { createServiceClient, releaseServiceClient } from '@/lib/supabase/server'
-import { generateEmbeddings } from '@/lib/embeddings-vertex'
+import { getEmbeddingProvider, DEFAULT_EMBEDDING_MODEL, EmbeddingRequestError, type EmbeddingProvider } from '@/lib/embeddings'
+import { embedBatchWithCache, type CachedEmbeddingBatch } from '@/lib/embeddings/cache'
 import { indexDocumentInQdrant, getVectorIdsForDocument } from '@/lib/qdrant'
 import { l2Normalize } from '@/lib/similarity/utils/vector-operations'
-import { detectOptimalProcessor, getProcessorId, getProcessorName } from '@/lib/document-ai-config'
-import { getGoogleClientOptions } from '@/lib/google-credentials'
 import { SmartRetry, RetryConfigs, circuitBreakers } from '@/lib/retry-logic'
 import { logger, measurePerformance, withRequestContext } from '@/lib/logger'
 import { analyzeDocumentSize, estimateProcessingTime, requiresSpecialHandling, type DocumentSizeAnalysis } from '@/lib/document-size-strategies'
@@ -15,8 +13,12 @@ import { SENTENCES_PER_CHUNK, SENTENCE_OVERLAP, MIN_CHUNK_CHARACTERS, MAX_CHUNK_
 import { chunkByParagraphs, countCharacters, type Paragraph } from '@/lib/chunking/paragraph-chunker'
 import { chunkBySentences } from '@/lib/chunking/sentence-chunker'
 import type { GenericSupabaseSchema } from '@/types/supabase'
-import { saveDocumentAIResponse } from '@/lib/debug-document-ai'
 import { queueQdrantDeletion } from '@/lib/qdrant-cleanup-worker'
+import { recordTextFingerprint } from '@/lib/duplicate-detection'
+import { autoLinkDocumentVersion } from '@/lib/document-families'
+import { assignTemplateCluster } from '@/lib/similarity/template-clusters'
+import { refreshBoilerplateIndex } from '@/lib/boilerplate-index'
+import { getOcrProvider, extractTextByPages, extractParagraphsFromDocument, type ProcessedDocumentData } from '@/lib/ocr'
 
 // Processing pipeline fingerprint - increment when major changes are made
 const PROCESSING_PIPELINE_VERSION = '5.0.0'
@@ -27,6 +29,10 @@ const PROCESSING_FEATURES = {
   structuredLogging: 'winston-pino-v1'        // Structured logging system
 }
 
+// Chunks embedded per slice; the provider packs each slice into as few requests as its limits allow
+const EMBEDDING_SLICE_SIZE = 500
+const MAX_CHUNK_RETRIES = 3 // Retries for individual chunks within a batch
+
 type CircuitBreakerLike = {
   execute<T>(operation: () => Promise<T>): Promise<T>
 } | undefined
@@ -42,13 +48,7 @@ async function executeWithCircuitBreaker<T>(
 }
 import type {
   DocumentAIDocument,
-  DocumentAIPage,
-  DocumentAITextAnchor,
-  DocumentAIBoundingBox,
   BusinessMetadata,
-  ExtractedField,
-  SimplifiedEntity,
-  SimplifiedTable,
   DatabaseDocument
 } from '@/types/external-apis'
 
@@ -56,6 +56,8 @@ interface EmbeddingGenerationStats {
   chunkCount: number
   attempts: number
   retryCount: number
+  cacheHits: number
+  cacheLookups: number
 }
 
 export interface DocumentProcessingMetrics {
@@ -64,6 +66,9 @@ export interface DocumentProcessingMetrics {
   chunkCount: number
   embeddingsAttempts: number
   embeddingsRetries: number
+  embeddingCacheHits: number
+  embeddingCacheMisses: number
+  embeddingCacheHitRate: number  // Share of chunk lookups served from the embedding cache, 0-1
   structuredFieldCount: number
   textLength: number
   processor: {
@@ -79,32 +84,10 @@ export interface ProcessDocumentResult {
   metrics?: DocumentProcessingMetrics
 }
 
-interface ProcessedDocumentData {
-  extractedText: string
-  structuredData: ReturnType<typeof extractStructuredFields>
-  pageCount: number
-  pagesText: { text: string; pageNumber: number }[]
-  paragraphs: Paragraph[]
-}
-
 interface SaveProcessedDocumentResult {
   embeddingStats: EmbeddingGenerationStats
 }
 
-type DocumentAIKeyValuePair = {
-  key?: {
-    textAnchor?: DocumentAITextAnchor
-    confidence?: number
-  }
-  value?: {
-    textAnchor?: DocumentAITextAnchor
-  }
-}
-
-type DocumentAIPageWithKeyValues = DocumentAIPage & {
-  keyValuePairs?: DocumentAIKeyValuePair[]
-}
-
 /**
  * Check if document processing has been cancelled by user
  */
@@ -310,6 +293,7 @@ export async function processDocument(documentId: string): Promise<ProcessDocume
                 extracted_fields,
                 metadata,
                 page_count,
+                embedding_model,
                 created_at,
                 updated_at,
                 document_content(extracted_text)
@@ -386,10 +370,7 @@ export async function processDocument(documentId: string): Promise<ProcessDocume
           fileSize: document.file_size 
         })
 
-        // Convert to base64
         const arrayBuffer = await fileData.arrayBuffer()
-        const base64Content = Buffer.from(arrayBuffer).toString('base64')
-        logger.debug('Document converted to base64', { documentId, base64Length: base64Content.length })
 
         // Detect actual page count from PDF to avoid wasteful retries
         let actualPageCount: number | null = null
@@ -408,190 +389,36 @@ export async function processDocument(documentId: string): Promise<ProcessDocume
           })
         }
 
-        // CHECKPOINT 2: Check cancellation before Document AI processing
+        // CHECKPOINT 2: Check cancellation before text extraction
         if (await checkCancellation(documentId)) {
-          logger.info('Document cancelled before Document AI processing', { documentId })
+          logger.info('Document cancelled before text extraction', { documentId })
           throw new ProcessingCancelledException(documentId)
         }
 
-        // Update processing status
-        await updateProcessingStatus(documentId, 'processing', 40, 'Processing with Document AI...')
-        logger.logDocumentProcessing('document-ai-processing', documentId, 'started', { progress: 40 })
+        const ocrProvider = getOcrProvider()
+        const extractionMessage = ocrProvider.name === 'document-ai'
+          ? 'Processing with Document AI...'
+          : 'Extracting PDF text...'
 
-        // Always try sync processing first - let Document AI tell us if it's too large
-        const client = new DocumentProcessorServiceClient(getGoogleClientOptions())
-        const fileSizeMB = document.file_size / (1024 * 1024)
-        logger.info('Starting Document AI processing', { 
-          documentId, 
-          fileSizeMB: parseFloat(fileSizeMB.toFixed(1)),
-          strategy: 'sync-first' 
+        // Update processing status
+        await updateProcessingStatus(documentId, 'processing', 40, extractionMessage)
+        logger.logDocumentProcessing('text-extraction', documentId, 'started', {
+          progress: 40,
+          ocrProvider: ocrProvider.name
         })
 
-        // Process with Google Document AI using intelligent size-based strategy
-        // Auto-detect optimal processor based on document characteristics and size analysis
-        logger.info('Selecting optimal processor', {
+        const ocrResult = await ocrProvider.extract({
           documentId,
-          tier: sizeAnalysis.tier,
-          strategy: sizeAnalysis.strategy,
-          estimatedPages: sizeAnalysis.estimatedPages,
-          component: 'document-processing'
-        })
-        
-        const optimalProcessor = detectOptimalProcessor(document.filename, document.file_size)
-        const processorId = getProcessorId(optimalProcessor)
-        const name = getProcessorName(processorId)
-        
-        logger.info('Document AI processor selected', { 
-          documentId, 
-          processor: optimalProcessor,
-          processorId 
+          pdfArrayBuffer: arrayBuffer,
+          filename: document.filename,
+          fileSize: document.file_size,
+          actualPageCount,
+          estimatedPageCount: sizeAnalysis.estimatedPages
         })
-        
-        const request = {
-          name,
-          rawDocument: {
-            content: base64Content,
-            mimeType: 'application/pdf',
-          },
-        }
-
-        const syncPageLimit = Number.parseInt(process.env['DOCUMENT_AI_SYNC_PAGE_LIMIT'] || '15', 10)
-        // Use actual page count if available, otherwise use estimation
-        const pageCount = actualPageCount ?? sizeAnalysis.estimatedPages
-        const shouldUseSyncFirst = pageCount <= syncPageLimit
-
-        if (!shouldUseSyncFirst) {
-          logger.info('Skipping sync-first Document AI processing due to page count', {
-            documentId,
-            actualPages: actualPageCount,
-            estimatedPages: sizeAnalysis.estimatedPages,
-            pageCountUsed: pageCount,
-            syncPageLimit,
-            reason: actualPageCount !== null ? 'actual-page-count' : 'estimated-page-count'
-          })
-
-          try {
-            return await processDocumentWithChunks({
-              pdfArrayBuffer: arrayBuffer,
-              processorId,
-              processorName: name,
-              processorType: optimalProcessor,
-              documentId,
-              client,
-              supabase,
-              document,
-              sizeAnalysis,
-              timeEstimate
-            })
-          } catch (chunkError) {
-            if (chunkError instanceof ProcessingCancelledException) {
-              throw chunkError
-            }
-
-            await cleanupPartialEmbeddings(documentId)
-            logger.error('Chunked processing fallback failed - document too large', chunkError as Error, { documentId })
-            throw new Error('Document exceeds processing limits. Please try a smaller document.')
-          }
-        }
-
-        let result;
-        try {
-          // Use smart retry with circuit breaker for Document AI processing
-          const retryResult = await circuitBreakers.documentAI.execute(async () => {
-            return await SmartRetry.execute(
-              async () => {
-                logger.debug('Attempting Document AI processing', { 
-                  documentId,
-                  processor: optimalProcessor 
-                })
-                const response = await client.processDocument(request)
-                return Array.isArray(response) ? response[0] : response
-              },
-              RetryConfigs.documentAI
-            )
-          })
-
-          if (!retryResult.success) {
-            throw retryResult.error
-          }
-
-          result = retryResult.result!
-          logger.info('Document AI processing completed successfully', {
-            documentId,
-            attempts: retryResult.attempts,
-            totalTime: retryResult.totalTime,
-            processor: optimalProcessor
-          })
-
-          // Save raw Document AI output for analysis (non-blocking) - only if debug flag is enabled
-          if (result.document && process.env['DUMP_DOCUMENT_AI'] === '1') {
-            saveDocumentAIResponse(
-              documentId,
-              result.document as unknown as DocumentAIDocument,
-              {
-                filename: document.filename,
-                fileSize: document.file_size,
-                pageCount: result.document.pages?.length,
-                processor: optimalProcessor
-              }
-            ).catch(error => {
-              logger.warn('Failed to save Document AI debug output', {
-                documentId,
-                error: error instanceof Error ? error.message : String(error)
-              })
-            })
-          }
-
-        } catch (error: unknown) {
-          const documentAiError = error as { code?: number; details?: string } | null
-          // Handle page limit errors by processing document in manageable chunks before falling back to batch
-          if (
-            documentAiError?.code === 3 &&
-            typeof documentAiError.details === 'string' &&
-            documentAiError.details.includes('exceed the limit')
-          ) {
-            logger.warn('Page limit exceeded, attempting chunked processing fallback', {
-              documentId,
-              errorCode: documentAiError.code !== undefined ? String(documentAiError.code) : undefined,
-              errorDetails: documentAiError.details
-            })
-
-            try {
-              return await processDocumentWithChunks({
-                pdfArrayBuffer: arrayBuffer,
-                processorId,
-                processorName: name,
-                processorType: optimalProcessor,
-                documentId,
-                client,
-                supabase,
-                document,
-                sizeAnalysis,
-                timeEstimate
-              })
-            } catch (chunkError) {
-              if (chunkError instanceof ProcessingCancelledException) {
-                throw chunkError
-              }
 
-              await cleanupPartialEmbeddings(documentId)
-              logger.error('Chunked processing fallback failed - document too large', chunkError as Error, { documentId })
-              throw new Error('Document exceeds processing limits. Please try a smaller document.')
-            }
-          }
-          // Re-throw other errors
-          logger.error('Document AI processing failed', error as Error, { documentId })
-          throw error
-        }
-    
-        if (!result.document) {
-          logger.error('No document returned from Document AI', undefined, { documentId })
-          throw new Error('No document returned from Document AI')
-        }
-
-        // CHECKPOINT 2B: Check cancellation after Document AI completes
+        // CHECKPOINT 2B: Check cancellation after text extraction completes
         if (await checkCancellation(documentId)) {
-          logger.info('Document cancelled after Document AI completed', { documentId })
+          logger.info('Document cancelled after text extraction completed', { documentId })
           throw new ProcessingCancelledException(documentId)
         }
 
@@ -599,7 +426,7 @@ export async function processDocument(documentId: string): Promise<ProcessDocume
         await updateProcessingStatus(documentId, 'processing', 60, 'Extracting structured data...')
         logger.logDocumentProcessing('data-extraction', documentId, 'started', { progress: 60 })
 
-        const processedData = buildProcessedDocumentData(result.document as unknown as DocumentAIDocument)
+        const processedData = ocrResult.data
 
         logger.info('Document data extracted successfully', {
           documentId,
@@ -623,7 +450,7 @@ export async function processDocument(documentId: string): Promise<ProcessDocume
           processedData,
           document,
           sizeAnalysis,
-          result.document as unknown as DocumentAIDocument
+          ocrResult.rawDocument
         )
 
         await updateProcessingStatus(documentId, 'completed', 100, 'Document processing completed successfully')
@@ -638,6 +465,49 @@ export async function processDocument(documentId: string): Promise<ProcessDocume
           })
           .eq('id', documentId)
 
+        try {
+          await recordTextFingerprint(documentId, processedData.extractedText)
+        } catch (fingerprintError) {
+          // Duplicate flags are advisory - never fail a processed document over them
+          logger.warn('Failed to record text fingerprint', {
+            documentId,
+            error: fingerprintError instanceof Error ? fingerprintError.message : String(fingerprintError),
+            component: 'document-processing'
+          })
+        }
+
+        try {
+          await refreshBoilerplateIndex(documentId)
+        } catch (boilerplateError) {
+          // A stale count only softens boilerplate weighting until the next refresh or rebuild
+          logger.warn('Failed to refresh boilerplate index', {
+            documentId,
+            error: boilerplateError instanceof Error ? boilerplateError.message : String(boilerplateError),
+            component: 'document-processing'
+          })
+        }
+
+        try {
+          await autoLinkDocumentVersion(documentId)
+        } catch (versionLinkError) {
+          logger.warn('Automatic version linking failed', {
+            documentId,
+            error: versionLinkError instanceof Error ? versionLinkError.message : String(versionLinkError),
+            component: 'document-processing'
+          })
+        }
+
+        try {
+          await assignTemplateCluster(documentId)
+        } catch (templateClusterError) {
+          // The next corpus rebuild picks the document up
+          logger.warn('Template cluster assignment failed', {
+            documentId,
+            error: templateClusterError instanceof Error ? templateClusterError.message : String(templateClusterError),
+            component: 'document-processing'
+          })
+        }
+
         logger.logDocumentProcessing('completion', documentId, 'completed')
         await invalidateDocumentCaches(documentId, document.user_id)
 
@@ -647,17 +517,18 @@ export async function processDocument(documentId: string): Promise<ProcessDocume
           chunkCount: embeddingStats.chunkCount,
           embeddingsAttempts: embeddingStats.attempts,
           embeddingsRetries: embeddingStats.retryCount,
+          embeddingCacheHits: embeddingStats.cacheHits,
+          embeddingCacheMisses: embeddingStats.cacheLookups - embeddingStats.cacheHits,
+          embeddingCacheHitRate: embeddingStats.cacheLookups > 0
+            ? embeddingStats.cacheHits / embeddingStats.cacheLookups
+            : 0,
           structuredFieldCount: processedData.structuredData.fields?.length || 0,
           textLength: processedData.extractedText.length,
-          processor: {
-            id: processorId,
-            name,
-            type: optimalProcessor
-          },
+          processor: ocrResult.processor,
           estimatedProcessingSeconds: timeEstimate.estimatedMinutes * 60
         }
 
-        return { switchedToBatch: false, metrics } // Successful sync processing
+        return { switchedToBatch: false, metrics }
 
       } catch (error) {
         // Handle cancellation specially - clean up all partial data
@@ -713,6 +584,156 @@ export async function processDocument(documentId: string): Promise<ProcessDocume
   })
 }
 
+export interface RechunkDocumentResult {
+  previousChunkCount: number
+  chunkCount: number
+  staleVectorCount: number
+  cacheHits: number
+  cacheLookups: number
+}
+
+interface StoredDocumentStructure {
+  paragraphs: Paragraph[] | null
+  pages_text: { text: string; pageNumber: number }[] | null
+}
+
+/**
+ * Rebuild chunks, embeddings, Qdrant points and centroid from the paragraph structure
+ * stored by the last OCR pass. Used after chunking changes - Document AI is never called.
+ */
+export async function rechunkDocument(documentId: string): Promise<RechunkDocumentResult> {
+  return withRequestContext({
+    correlationId: `rechunk_${documentId}`
+  }, async () => {
+    const supabase = await createServiceClient()
+
+    try {
+      const { data, error } = await supabase
+        .from('documents')
+        .select(`
+          id,
+          user_id,
+          title,
+          filename,
+          file_path,
+          file_size,
+          content_type,
+          status,
+          metadata,
+          embedding_model,
+          created_at,
+          updated_at,
+          document_content(paragraphs, pages_text)
+        `)
+        .eq('id', documentId)
+        .single()
+
+      if (error || !data) {
+        throw new Error(`Document ${documentId} not found`)
+      }
+
+      const document = data as unknown as DatabaseDocument & {
+        document_content?: StoredDocumentStructure | StoredDocumentStructure[] | null
+      }
+
+      if (document.status === 'cancelled') {
+        throw new Error(`Document ${documentId} was cancelled`)
+      }
+
+      const storedContent = Array.isArray(document.document_content)
+        ? document.document_content[0]
+        : document.document_content
+      const pagesText = storedContent?.pages_text ?? null
+      const paragraphs = storedContent?.paragraphs ?? null
+
+      if (!pagesText || pagesText.length === 0) {
+        // Documents processed before OCR structure was persisted need one full retry first
+        throw new Error(`Document ${documentId} has no stored OCR structure - retry processing once before rechunking`)
+      }
+
+      const previousVectorIds = await getVectorIdsForDocument(documentId)
+
+      await supabase
+        .from('documents')
+        .update({ status: 'processing', processing_error: null })
+        .eq('id', documentId)
+      await updateProcessingStatus(documentId, 'processing', 80, 'Re-chunking from stored OCR output...')
+
+      try {
+        const embeddingStats = await generateEmbeddingsWithUnlimitedRetries(
+          documentId,
+          null,
+          document,
+          analyzeDocumentSize(document.file_size, document.filename, document.content_type),
+          pagesText,
+          paragraphs && paragraphs.length > 0 ? paragraphs : undefined
+        )
+
+        // Chunk IDs are positional, so only indexes past the new chunk count are orphaned
+        const currentVectorIds = new Set(
+          Array.from({ length: embeddingStats.chunkCount }, (_, index) => `${documentId}_chunk_${index}`)
+        )
+        const staleVectorIds = previousVectorIds.filter(vectorId => !currentVectorIds.has(vectorId))
+        if (staleVectorIds.length > 0) {
+          queueQdrantDeletion(documentId, staleVectorIds)
+        }
+
+        await supabase
+          .from('documents')
+          .update({
+            status: 'completed',
+            processing_error: null,
+            updated_at: new Date().toISOString()
+          })
+          .eq('id', documentId)
+        await updateProcessingStatus(documentId, 'completed', 100, 'Document re-chunked successfully')
+
+        // New chunk boundaries mean new clusters
+        try {
+          await refreshBoilerplateIndex(documentId)
+        } catch (boilerplateError) {
+          logger.warn('Failed to refresh boilerplate index after rechunk', {
+            documentId,
+            error: boilerplateError instanceof Error ? boilerplateError.message : String(boilerplateError),
+            component: 'document-processing'
+          })
+        }
+
+        logger.info('Document re-chunked from stored OCR output', {
+          documentId,
+          previousChunkCount: previousVectorIds.length,
+          chunkCount: embeddingStats.chunkCount,
+          staleVectorCount: staleVectorIds.length,
+          component: 'document-processing'
+        })
+
+        return {
+          previousChunkCount: previousVectorIds.length,
+          chunkCount: embeddingStats.chunkCount,
+          staleVectorCount: staleVectorIds.length,
+          cacheHits: embeddingStats.cacheHits,
+          cacheLookups: embeddingStats.cacheLookups
+        }
+      } catch (rechunkError) {
+        const errorMessage = rechunkError instanceof Error ? rechunkError.message : 'Unknown rechunk error'
+
+        // Old rows may already be deleted, so their points are passed in explicitly
+        await cleanupPartialEmbeddings(documentId, previousVectorIds)
+
+        await supabase
+          .from('documents')
+          .update({ status: 'error', processing_error: errorMessage })
+          .eq('id', documentId)
+        await updateProcessingStatus(documentId, 'error', 0, 'Re-chunking failed', errorMessage)
+
+        throw rechunkError
+      }
+    } finally {
+      releaseServiceClient(supabase)
+    }
+  })
+}
+
 async function updateProcessingStatus(
   documentId: string,
   status: 'queued' | 'processing' | 'completed' | 'error',
@@ -735,160 +756,6 @@ async function updateProcessingStatus(
   }
 }
 
-function extractStructuredFields(document: DocumentAIDocument, pageOffset: number = 0) {
-  const fields: ExtractedField[] = []
-  const entities: SimplifiedEntity[] = []
-  const tables: SimplifiedTable[] = []
-
-  const fullText = document.text || ''
-
-  if (document.entities) {
-    for (const entity of document.entities) {
-      if (entity.type && entity.mentionText) {
-        const pageNumber = getPageNumber(entity.pageAnchor)
-        const adjustedPageNumber = pageNumber !== null ? pageNumber + pageOffset : undefined
-        const boundingBox = getBoundingBox(entity.pageAnchor)
-
-        fields.push({
-          name: entity.type,
-          value: entity.mentionText,
-          type: getFieldType(entity.type),
-          confidence: entity.confidence || 0,
-          pageNumber: adjustedPageNumber,
-          boundingBox: boundingBox ?? undefined,
-        })
-
-        entities.push({
-          type: entity.type,
-          value: entity.mentionText,
-          confidence: entity.confidence,
-          pageNumber: adjustedPageNumber,
-        })
-      }
-    }
-  }
-
-  if (document.pages) {
-    for (const page of document.pages) {
-      const pageNumber = page.pageNumber || 1
-      const adjustedPageNumber = pageNumber + pageOffset
-
-      if (page.formFields) {
-        for (const field of page.formFields) {
-          const fieldName = getTextFromTextAnchor(fullText, field.fieldName?.textAnchor)
-          const fieldValue = getTextFromTextAnchor(fullText, field.fieldValue?.textAnchor)
-
-          if (fieldName && fieldValue) {
-            fields.push({
-              name: fieldName.trim(),
-              value: fieldValue.trim(),
-              type: 'text',
-              confidence: field.fieldName?.confidence || 0,
-              pageNumber: adjustedPageNumber,
-            })
-          }
-        }
-      }
-
-      const pageWithKeyValues = page as DocumentAIPageWithKeyValues
-      if (Array.isArray(pageWithKeyValues.keyValuePairs)) {
-        for (const kvp of pageWithKeyValues.keyValuePairs) {
-          const keyText = getTextFromTextAnchor(fullText, kvp.key?.textAnchor)
-          const valueText = getTextFromTextAnchor(fullText, kvp.value?.textAnchor)
-
-          if (keyText && valueText) {
-            fields.push({
-              name: keyText.trim(),
-              value: valueText.trim(),
-              type: 'text',
-              confidence: kvp.key?.confidence || 0,
-              pageNumber: adjustedPageNumber,
-            })
-          }
-        }
-      }
-
-      if (page.tables) {
-        for (const table of page.tables) {
-          const headerRows = (table.headerRows || [])
-            .map(row => (row.cells || [])
-              .map(cell => getTextFromTextAnchor(fullText, cell.layout?.textAnchor))
-              .filter((cellText): cellText is string => !!cellText && cellText.trim().length > 0)
-              .map(cellText => cellText.trim()))
-            .filter(row => row.length > 0)
-
-          const bodyRows = (table.bodyRows || [])
-            .map(row => (row.cells || [])
-              .map(cell => getTextFromTextAnchor(fullText, cell.layout?.textAnchor))
-              .filter((cellText): cellText is string => !!cellText && cellText.trim().length > 0)
-              .map(cellText => cellText.trim()))
-            .filter(row => row.length > 0)
-
-          if (bodyRows.length > 0) {
-            tables.push({
-              pageNumber: adjustedPageNumber,
-              headerRows: headerRows.length > 0 ? headerRows : undefined,
-              bodyRows,
-            })
-          }
-        }
-      }
-    }
-  }
-
-  return {
-    fields,
-    entities,
-    tables,
-  }
-}
-
-function getFieldType(entityType: string): 'text' | 'number' | 'date' | 'currency' | 'address' | 'phone' | 'email' | 'url' | 'boolean' {
-  const type = entityType.toLowerCase()
-  if (type.includes('date') || type.includes('time')) return 'date'
-  if (type.includes('number') || type.includes('amount') || type.includes('price')) return 'number'
-  if (type.includes('currency') || type.includes('money') || type.includes('dollar')) return 'currency'
-  if (type.includes('address')) return 'address'
-  if (type.includes('phone') || type.includes('tel')) return 'phone'
-  if (type.includes('email') || type.includes('mail')) return 'email'
-  if (type.includes('url') || type.includes('link') || type.includes('website')) return 'url'
-  if (type.includes('checkbox') || type.includes('bool')) return 'boolean'
-  return 'text'
-}
-
-function getPageNumber(pageAnchor: { pageRefs?: Array<{ page?: string | number }> } | undefined): number | null {
-  const pageValue = pageAnchor?.pageRefs?.[0]?.page
-  if (pageValue !== undefined && pageValue !== null) {
-    if (typeof pageValue === 'number') {
-      return pageValue + 1
-    }
-    if (typeof pageValue === 'string') {
-      const parsed = Number.parseInt(pageValue, 10)
-      if (!Number.isNaN(parsed)) {
-        return parsed + 1
-      }
-    }
-  }
-  return null
-}
-
-function getBoundingBox(pageAnchor: { pageRefs?: Array<{ boundingPoly?: DocumentAIBoundingBox }> } | undefined): DocumentAIBoundingBox | null {
-  if (pageAnchor?.pageRefs?.[0]?.boundingPoly) {
-    return pageAnchor.pageRefs[0].boundingPoly
-  }
-  return null
-}
-
-function getTextFromTextAnchor(documentText: string, textAnchor: DocumentAITextAnchor | undefined): string | null {
-  if (!textAnchor?.textSegments?.[0]) return null
-  
-  const segment = textAnchor.textSegments[0]
-  const startIndex = parseInt(segment.startIndex || '0')
-  const endIndex = parseInt(segment.endIndex || documentText.length.toString())
-  
-  return documentText.substring(startIndex, endIndex)
-}
-
 // Generate embeddings with page tracking (enterprise-scale version)
 export async function generateAndIndexPagedEmbeddings(
   documentId: string, 
@@ -900,9 +767,9 @@ export async function generateAndIndexPagedEmbeddings(
   try {
     const { data: docRecord, error: docError } = await supabase
       .from('documents')
-      .select('metadata, filename, user_id')
+      .select('metadata, filename, user_id, embedding_model')
       .eq('id', documentId)
-      .single<{ metadata: BusinessMetadata | null; filename: string | null; user_id: string | null }>()
+      .single<{ metadata: BusinessMetadata | null; filename: string | null; user_id: string | null; embedding_model: string | null }>()
 
     if (docError) {
       logger.warn('Could not fetch document metadata', { documentId, error: docError?.message, component: 'document-processing' })
@@ -916,40 +783,178 @@ export async function generateAndIndexPagedEmbeddings(
     const pagesText = extractTextByPages(document)
     const paragraphs = extractParagraphsFromDocument(document)
   
-    return await generateEmbeddingsFromPages(documentId, pagesText, businessMetadata, filename, userId, sizeAnalysis, document, paragraphs)
+    return await generateEmbeddingsFromPages(documentId, pagesText, businessMetadata, filename, userId, docRecord?.embedding_model ?? null, sizeAnalysis, document, paragraphs)
   } finally {
     releaseServiceClient(supabase)
   }
 }
 
-// Extract chunk processing into separate function for better error handling
-async function processChunkWithRetry(
+/**
+ * Embed a batch of chunks, serving repeated chunk text from the embedding cache
+ * Returns one outcome per chunk so callers can retry only the chunks that failed
+ */
+async function generateChunkEmbeddings(
+  pagedChunks: PagedChunk[],
+  embeddingProvider: EmbeddingProvider
+): Promise<CachedEmbeddingBatch> {
+  // Only remote providers go through the Vertex circuit breaker
+  const embeddingBreaker = embeddingProvider.model === DEFAULT_EMBEDDING_MODEL ? circuitBreakers.vertexAI : undefined
+
+  const guardedProvider: EmbeddingProvider = {
+    ...embeddingProvider,
+    embedBatch: async (texts) => {
+      try {
+        return await executeWithCircuitBreaker(embeddingBreaker, async () => {
+          logger.debug('Generating embeddings for chunk batch', {
+            chunkCount: texts.length,
+            embeddingModel: embeddingProvider.model,
+            component: 'document-processing'
+          })
+          const outcomes = await embeddingProvider.embedBatch(texts)
+          // Providers report failures per chunk instead of throwing. When nothing succeeded and
+          // a request failed as a whole, it is an outage and has to reach the breaker; invalid
+          // inputs stay per-chunk outcomes
+          const requestError = outcomes
+            .map(outcome => 'error' in outcome ? outcome.error : null)
+            .find(error => error instanceof EmbeddingRequestError)
+          if (requestError && outcomes.every(outcome => 'error' in outcome)) {
+            throw requestError
+          }
+          return outcomes
+        })
+      } catch (error) {
+        // Circuit open or provider-level failure: every uncached chunk in the batch failed
+        const batchError = error instanceof Error ? error : new Error(String(error))
+        return texts.map(() => ({ error: batchError }))
+      }
+    }
+  }
+
+  return await embedBatchWithCache(guardedProvider, pagedChunks.map(pagedChunk => pagedChunk.text))
+}
+
+function chunkRetriesExhaustedError(documentId: string, failedChunks: PagedChunk[]): Error {
+  logger.error(
+    `Failed to process ${failedChunks.length} chunks after ${MAX_CHUNK_RETRIES} attempts. Aborting document processing.`,
+    undefined,
+    {
+      documentId,
+      failedChunkIndexes: failedChunks.map(chunk => chunk.chunkIndex)
+    }
+  )
+  const error = new Error(`Failed to process ${failedChunks.length} chunks after multiple retries.`) as Error & { documentId?: string }
+  error.documentId = documentId
+  return error
+}
+
+/**
+ * Embed a slice of chunks, re-requesting only the chunks that failed
+ * Returns embeddings keyed by chunk index; throws once a chunk exhausts its retries
+ */
+async function embedChunksWithRetry(
   documentId: string,
-  pagedChunk: PagedChunk,
+  chunks: PagedChunk[],
+  embeddingProvider: EmbeddingProvider
+): Promise<{ embeddings: Map<number, number[]>; cacheHits: number; cacheLookups: number }> {
+  const embeddings = new Map<number, number[]>()
+  let cacheHits = 0
+  let cacheLookups = 0
+  let pending = chunks
+
+  for (let attempt = 0; pending.length > 0 && attempt < MAX_CHUNK_RETRIES; attempt++) {
+    if (attempt > 0) {
+      logger.warn(`Retrying embeddings for ${pending.length} chunks`, { attempt, documentId })
+      await new Promise(resolve => setTimeout(resolve, Math.pow(2, attempt) * 1000))
+    }
+
+    const batch = await generateChunkEmbeddings(pending, embeddingProvider)
+    cacheHits += batch.cacheHits
+    cacheLookups += batch.cacheLookups
+
+    pending = pending.filter((pagedChunk, index) => {
+      const outcome = batch.outcomes[index]
+      if (outcome && 'embedding' in outcome) {
+        embeddings.set(pagedChunk.chunkIndex, outcome.embedding)
+        return false
+      }
+      logger.error('Failed to generate embeddings for chunk', outcome?.error, { chunkIndex: pagedChunk.chunkIndex, component: 'document-processing' })
+      return true
+    })
+  }
+
+  if (pending.length > 0) {
+    throw chunkRetriesExhaustedError(documentId, pending)
+  }
+
+  return { embeddings, cacheHits, cacheLookups }
+}
+
+/**
+ * Store a batch of embedded chunks concurrently, retrying the chunks whose writes failed
+ */
+async function storeChunkBatchWithRetry(
+  documentId: string,
+  batch: PagedChunk[],
+  embeddings: Map<number, number[]>,
   businessMetadata: BusinessMetadata,
   filename: string,
-  userId: string | null
+  userId: string | null,
+  embeddingModel: string
 ): Promise<void> {
-  try {
-    // Generate embedding with Vertex AI using smart retry
-    const embeddingResult = await executeWithCircuitBreaker(circuitBreakers.vertexAI, async () => {
-      return await SmartRetry.execute(
-        async () => {
-          logger.debug('Generating embeddings for chunk', { chunkIndex: pagedChunk.chunkIndex, component: 'document-processing' })
-          return await generateEmbeddings(pagedChunk.text)
-        },
-        RetryConfigs.vertexEmbeddings
-      )
-    })
+  let failedChunks = batch
 
-    if (!embeddingResult.success) {
-      logger.error('Failed to generate embeddings for chunk', embeddingResult.error, { chunkIndex: pagedChunk.chunkIndex, component: 'document-processing' })
-      throw embeddingResult.error
+  for (let attempt = 0; failedChunks.length > 0 && attempt < MAX_CHUNK_RETRIES; attempt++) {
+    if (attempt > 0) {
+      logger.warn(`Retrying ${failedChunks.length} failed chunks in batch`, { attempt, documentId })
+      await new Promise(resolve => setTimeout(resolve, Math.pow(2, attempt) * 1000))
     }
 
-    const embedding = embeddingResult.result!
-    logger.debug('Embeddings generated successfully', { chunkIndex: pagedChunk.chunkIndex, attempts: embeddingResult.attempts, component: 'document-processing' })
+    const results = await Promise.allSettled(
+      failedChunks.map(pagedChunk => processChunkWithRetry(
+        documentId,
+        pagedChunk,
+        businessMetadata,
+        filename,
+        userId,
+        embeddingModel,
+        embeddings.get(pagedChunk.chunkIndex)!
+      ))
+    )
+
+    const attemptFailures: PagedChunk[] = []
+    results.forEach((result, index) => {
+      if (result.status === 'rejected') {
+        const failedChunk = failedChunks[index]
+        if (failedChunk) {
+          attemptFailures.push(failedChunk)
+        }
+        logger.warn('Chunk processing failed, will retry.', {
+          chunkIndex: failedChunk?.chunkIndex,
+          error: result.reason?.message,
+          documentId,
+          attempt: attempt + 1
+        })
+      }
+    })
+    failedChunks = attemptFailures
+  }
+
+  if (failedChunks.length > 0) {
+    throw chunkRetriesExhaustedError(documentId, failedChunks)
+  }
+}
 
+// Extract chunk processing into separate function for better error handling
+async function processChunkWithRetry(
+  documentId: string,
+  pagedChunk: PagedChunk,
+  businessMetadata: BusinessMetadata,
+  filename: string,
+  userId: string | null,
+  embeddingModel: string,
+  embedding: number[]
+): Promise<void> {
+  try {
     // CRITICAL: Check cancellation before saving - prevents orphaned embeddings in Qdrant
     if (await checkCancellation(documentId)) {
       logger.info('Document cancelled after embedding generation, skipping save', {
@@ -1025,6 +1030,7 @@ async function processChunkWithRetry(
               end_page_number: pagedChunk.endPageNumber,
               text: pagedChunk.text,
               filename,
+              embedding_model: embeddingModel,
               ...(userId ? { user_id: userId } : {}),
               // Include business metadata for filtering
               ...businessMetadata
@@ -1095,7 +1101,10 @@ async function saveProcessedDocumentData(
     .from('document_content')
     .upsert({
       document_id: documentId,
-      extracted_text: processedData.extractedText
+      extracted_text: processedData.extractedText,
+      // Kept so rechunkDocument() can rebuild chunks without re-running OCR
+      paragraphs: paragraphsForEmbedding,
+      pages_text: pagesForEmbedding
     }, { onConflict: 'document_id' })
 
   if (contentError) {
@@ -1128,236 +1137,9 @@ async function saveProcessedDocumentData(
   }
 }
 
-async function processDocumentInChunks(
-  pdfArrayBuffer: ArrayBuffer,
-  processorId: string,
-  processorName: string,
-  processorType: string,
-  documentId: string,
-  client: DocumentProcessorServiceClient
-): Promise<ProcessedDocumentData> {
-  const pdfDoc = await PDFDocument.load(pdfArrayBuffer)
-  const totalPages = pdfDoc.getPageCount()
-
-  const configuredLimit = parseInt(process.env['DOCUMENT_AI_SYNC_PAGE_LIMIT'] || '15', 10)
-  // Google Document AI OCR processors cap synchronous requests at 15 pages; keep chunks within that hard limit
-  const maxPagesPerChunk = Number.isFinite(configuredLimit) && configuredLimit > 0 ? Math.min(configuredLimit, 15) : 15
-
-  logger.info('Processing document with chunked strategy', {
-    documentId,
-    totalPages,
-    maxPagesPerChunk
-  })
-
-  const aggregatedTextParts: string[] = []
-  const aggregatedFields: ExtractedField[] = []
-  const aggregatedEntities: SimplifiedEntity[] = []
-  const aggregatedTables: SimplifiedTable[] = []
-  const aggregatedPagesText: { text: string; pageNumber: number }[] = []
-  const aggregatedParagraphs: Paragraph[] = []
-  let totalPageCount = 0
-
-  for (let start = 0; start < totalPages; start += maxPagesPerChunk) {
-    const end = Math.min(totalPages, start + maxPagesPerChunk)
-    const pageIndices = Array.from({ length: end - start }, (_, index) => start + index)
-
-    logger.debug('Creating chunk for Document AI processing', {
-      documentId,
-      chunkStartPage: start + 1,
-      chunkEndPage: end
-    })
-
-    const chunkDoc = await PDFDocument.create()
-    const copiedPages = await chunkDoc.copyPages(pdfDoc, pageIndices)
-    copiedPages.forEach(page => chunkDoc.addPage(page))
-
-    const chunkBytes = await chunkDoc.save()
-    const chunkBase64 = Buffer.from(chunkBytes).toString('base64')
-
-    const chunkRequest = {
-      name: processorName,
-      rawDocument: {
-        content: chunkBase64,
-        mimeType: 'application/pdf'
-      }
-    }
-
-    const chunkResult = await circuitBreakers.documentAI.execute(async () => {
-      return await SmartRetry.execute(
-        async () => {
-          logger.debug('Attempting Document AI chunk processing', {
-            documentId,
-            processor: processorType,
-            processorId,
-            chunkStartPage: start + 1,
-            chunkEndPage: end
-          })
-          const response = await client.processDocument(chunkRequest)
-          return Array.isArray(response) ? response[0] : response
-        },
-        RetryConfigs.documentAI
-      )
-    })
-
-    if (!chunkResult.success) {
-      throw chunkResult.error
-    }
-
-    const chunkDocument = chunkResult.result!.document
-
-    if (!chunkDocument) {
-      throw new Error('No document returned from Document AI chunk')
-    }
-
-    // Save raw Document AI chunk output for analysis (non-blocking) - only if debug flag is enabled
-    if (process.env['DUMP_DOCUMENT_AI'] === '1') {
-      saveDocumentAIResponse(
-        `${documentId}_chunk_${start + 1}-${end}`,
-        chunkDocument as unknown as DocumentAIDocument,
-        {
-          filename: `Chunk ${start + 1}-${end}`,
-          fileSize: chunkBytes.byteLength,
-          pageCount: chunkDocument.pages?.length,
-          processor: processorType
-        }
-      ).catch(error => {
-        logger.warn('Failed to save Document AI chunk debug output', {
-          documentId,
-          chunkStartPage: start + 1,
-          chunkEndPage: end,
-          error: error instanceof Error ? error.message : String(error)
-        })
-      })
-    }
-
-    const chunkData = buildProcessedDocumentData(chunkDocument as unknown as DocumentAIDocument, start)
-
-    if (chunkData.extractedText) {
-      aggregatedTextParts.push(chunkData.extractedText)
-    }
-
-    aggregatedFields.push(...(chunkData.structuredData.fields || []))
-    aggregatedEntities.push(...(chunkData.structuredData.entities || []))
-    aggregatedTables.push(...(chunkData.structuredData.tables || []))
-    aggregatedPagesText.push(...chunkData.pagesText)
-    aggregatedParagraphs.push(...chunkData.paragraphs)
-    totalPageCount += chunkData.pageCount
-  }
-
-  const normalizedParagraphs = aggregatedParagraphs.map((paragraph, index) => ({
-    ...paragraph,
-    index
-  }))
-
-  return {
-    extractedText: aggregatedTextParts.join('\n'),
-    structuredData: {
-      fields: aggregatedFields,
-      entities: aggregatedEntities,
-      tables: aggregatedTables
-    },
-    pageCount: totalPageCount,
-    pagesText: aggregatedPagesText,
-    paragraphs: normalizedParagraphs
-  }
-}
-
-interface ChunkProcessingParams {
-  pdfArrayBuffer: ArrayBuffer
-  processorId: string
-  processorName: string
-  processorType: string
-  documentId: string
-  client: DocumentProcessorServiceClient
-  supabase: SupabaseClient
-  document: DatabaseDocumentWithContent
-  sizeAnalysis: DocumentSizeAnalysis
-  timeEstimate: ReturnType<typeof estimateProcessingTime>
-}
-
-async function processDocumentWithChunks(params: ChunkProcessingParams) {
-  const {
-    pdfArrayBuffer,
-    processorId,
-    processorName,
-    processorType,
-    documentId,
-    client,
-    supabase,
-    document,
-    sizeAnalysis,
-    timeEstimate,
-  } = params
-
-  const chunkedData = await processDocumentInChunks(
-    pdfArrayBuffer,
-    processorId,
-    processorName,
-    processorType,
-    documentId,
-    client
-  )
-
-  if (await checkCancellation(documentId)) {
-    logger.info('Document cancelled before chunked embedding generation', { documentId })
-    throw new ProcessingCancelledException(documentId)
-  }
-
-  await updateProcessingStatus(documentId, 'processing', 60, 'Extracting structured data from chunks...')
-  await updateProcessingStatus(documentId, 'processing', 80, 'Generating embeddings from chunks...')
-  logger.logDocumentProcessing('embedding-generation', documentId, 'started', { progress: 80 })
-
-  const { embeddingStats } = await saveProcessedDocumentData(
-    supabase,
-    documentId,
-    chunkedData,
-    document,
-    sizeAnalysis,
-    null
-  )
-
-  await updateProcessingStatus(documentId, 'completed', 100, 'Document processing completed successfully')
-  logger.logDocumentProcessing('embedding-generation', documentId, 'completed', { progress: 100 })
-
-  await supabase
-    .from('documents')
-    .update({
-      status: 'completed',
-      processing_error: null,
-      updated_at: new Date().toISOString()
-    })
-    .eq('id', documentId)
-
-  logger.logDocumentProcessing('completion', documentId, 'completed')
-  await invalidateDocumentCaches(documentId, document.user_id)
-
-  const metrics: DocumentProcessingMetrics = {
-    sizeAnalysis,
-    pageCount: chunkedData.pageCount,
-    chunkCount: embeddingStats.chunkCount,
-    embeddingsAttempts: embeddingStats.attempts,
-    embeddingsRetries: embeddingStats.retryCount,
-    structuredFieldCount: chunkedData.structuredData.fields?.length || 0,
-    textLength: chunkedData.extractedText.length,
-    processor: {
-      id: processorId,
-      name: processorName,
-      type: `${processorType}-chunked`
-    },
-    estimatedProcessingSeconds: timeEstimate.estimatedMinutes * 60
-  }
-
-  logger.info('Chunked processing completed successfully', {
-    documentId,
-    chunksProcessed: metrics.chunkCount,
-    totalPages: metrics.pageCount
-  })
-
-  return { switchedToBatch: false, metrics }
-}
-
-async function cleanupPartialEmbeddings(documentId: string) {
-  const vectorIds = await getVectorIdsForDocument(documentId)
+async function cleanupPartialEmbeddings(documentId: string, knownVectorIds: string[] = []) {
+  // Queued IDs replace any pending task for the document, so merge rather than queue twice
+  const vectorIds = Array.from(new Set([...knownVectorIds, ...await getVectorIdsForDocument(documentId)]))
   queueQdrantDeletion(documentId, vectorIds)
 
   const supabase = await createServiceClient()
@@ -1396,120 +1178,6 @@ interface PagedChunk {
   characterCount: number
 }
 
-// Extract text page by page from Document AI result
-function extractTextByPages(document: DocumentAIDocument, pageOffset: number = 0): { text: string; pageNumber: number }[] {
-  const pagesText: { text: string; pageNumber: number }[] = []
-  
-  if (document.pages) {
-    for (let pageIndex = 0; pageIndex < document.pages.length; pageIndex++) {
-      const page = document.pages[pageIndex]
-      if (!page) continue
-      // Use 1-based page numbering: either the explicit pageNumber or the array index + 1
-      const pageNumber = page.pageNumber || (pageIndex + 1)
-      const adjustedPageNumber = pageNumber + pageOffset
-      
-      logger.debug('Processing document page', { 
-        pageIndex: pageIndex + 1, 
-        documentAIPageNumber: page.pageNumber, 
-        assignedPageNumber: adjustedPageNumber,
-        component: 'document-processing'
-      })
-      
-      // Extract text for this specific page using text anchors
-      let pageText = ''
-      
-      if (page.paragraphs) {
-        for (const paragraph of page.paragraphs) {
-          if (paragraph.layout?.textAnchor) {
-            const paragraphText = getTextFromTextAnchor(document.text || '', paragraph.layout.textAnchor)
-            if (paragraphText) {
-              pageText += paragraphText + '\n'
-            }
-          }
-        }
-      }
-      
-      // Fallback: if no paragraphs, try to extract from lines
-      if (!pageText && page.lines) {
-        for (const line of page.lines) {
-          if (line.layout?.textAnchor) {
-            const lineText = getTextFromTextAnchor(document.text || '', line.layout.textAnchor)
-            if (lineText) {
-              pageText += lineText + '\n'
-            }
-          }
-        }
-      }
-      
-      if (pageText.trim()) {
-        pagesText.push({
-          text: pageText.trim(),
-          pageNumber: adjustedPageNumber
-        })
-      }
-    }
-  }
-  
-  // Fallback: if no pages structure, treat entire text as page 1
-  if (pagesText.length === 0 && document.text) {
-    pagesText.push({
-      text: document.text,
-      pageNumber: pageOffset + 1
-    })
-  }
-  
-  return pagesText
-}
-
-/**
- * Extract paragraphs from Document AI response for paragraph-based chunking
- * Returns array of paragraphs with their text, page number, and index
- */
-function extractParagraphsFromDocument(document: DocumentAIDocument, pageOffset: number = 0): Paragraph[] {
-  const paragraphs: Paragraph[] = []
-  let globalIndex = 0
-
-  if (document.pages) {
-    for (let pageIndex = 0; pageIndex < document.pages.length; pageIndex++) {
-      const page = document.pages[pageIndex]
-      if (!page) continue
-
-      const pageNumber = (page.pageNumber || (pageIndex + 1)) + pageOffset
-
-      if (page.paragraphs) {
-        for (const paragraph of page.paragraphs) {
-          if (paragraph.layout?.textAnchor) {
-            const paragraphText = getTextFromTextAnchor(document.text || '', paragraph.layout.textAnchor)
-            if (paragraphText && paragraphText.trim()) {
-              paragraphs.push({
-                text: paragraphText,
-                pageNumber: pageNumber,
-                index: globalIndex++
-              })
-            }
-          }
-        }
-      }
-    }
-  }
-
-  return paragraphs
-}
-
-function buildProcessedDocumentData(document: DocumentAIDocument, pageOffset: number = 0): ProcessedDocumentData {
-  const structuredData = extractStructuredFields(document, pageOffset)
-  const pagesText = extractTextByPages(document, pageOffset)
-  const paragraphs = extractParagraphsFromDocument(document, pageOffset)
-
-  return {
-    extractedText: document.text || '',
-    structuredData,
-    pageCount: document.pages ? document.pages.length : 0,
-    pagesText,
-    paragraphs
-  }
-}
-
 // Split text into chunks while preserving page information
 // Uses sentence-based chunking across the full document, then assigns page numbers
 function splitTextIntoPagedChunks(
@@ -1646,6 +1314,7 @@ async function generateEmbeddingsWithUnlimitedRetries(
         businessMetadata,
         filename,
         docRecord.user_id ?? null,
+        docRecord.embedding_model ?? null,
         sizeAnalysis,
         document,
         paragraphsOverride
@@ -1655,7 +1324,9 @@ async function generateEmbeddingsWithUnlimitedRetries(
       return {
         chunkCount: chunkStats.chunkCount,
         attempts: attempt + 1,
-        retryCount: attempt
+        retryCount: attempt,
+        cacheHits: chunkStats.cacheHits,
+        cacheLookups: chunkStats.cacheLookups
       }
 
     } catch (error) {
@@ -1688,7 +1359,9 @@ async function generateEmbeddingsWithUnlimitedRetries(
         return {
           chunkCount: 0,
           attempts: attempt,
-          retryCount: attempt
+          retryCount: attempt,
+          cacheHits: 0,
+          cacheLookups: 0
         }
       }
 
@@ -1725,18 +1398,27 @@ async function generateEmbeddingsWithUnlimitedRetries(
   return {
     chunkCount: 0,
     attempts: attempt,
-    retryCount: attempt
+    retryCount: attempt,
+    cacheHits: 0,
+    cacheLookups: 0
   }
 }
 
 /**
  * Compute centroid embedding and effective chunk count for similarity search
  * CRITICAL: This enables production-ready 3-stage similarity search
+ *
+ * With staged set, the centroid is computed from migration_embedding and written to
+ * migration_centroid_embedding so the live centroid is untouched until an embedding
+ * migration is activated. Returns whether a centroid was stored.
  */
 export async function computeAndStoreCentroid(
   documentId: string,
-  totalChunks: number
-): Promise<void> {
+  totalChunks: number,
+  embeddingModel: string = DEFAULT_EMBEDDING_MODEL,
+  options: { staged?: boolean } = {}
+): Promise<boolean> {
+  const staged = options.staged === true
   const supabase = await createServiceClient()
 
   try {
@@ -1748,10 +1430,18 @@ export async function computeAndStoreCentroid(
 
     // 1. Fetch all embeddings for this document
     // IMPORTANT: Add explicit limit to avoid Supabase default row limits
-    const { data: allEmbeddings, error: fetchError } = await supabase
+    let embeddingsQuery = supabase
       .from('document_embeddings')
-      .select('chunk_index, embedding, chunk_text, character_count')
+      .select(staged
+        ? 'chunk_index, embedding:migration_embedding, chunk_text, character_count'
+        : 'chunk_index, embedding, chunk_text, character_count')
       .eq('document_id', documentId)
+
+    if (staged) {
+      embeddingsQuery = embeddingsQuery.not('migration_embedding', 'is', null)
+    }
+
+    const { data: allEmbeddings, error: fetchError } = await embeddingsQuery
       .order('chunk_index', { ascending: true })
       .limit(100000) // Support very large documents
 
@@ -1763,7 +1453,7 @@ export async function computeAndStoreCentroid(
         embeddingsReturned: allEmbeddings?.length || 0,
         component: 'document-processing'
       })
-      return
+      return false
     }
 
     // CRITICAL: Deduplicate by chunk_index (some documents may have duplicates)
@@ -1829,7 +1519,7 @@ export async function computeAndStoreCentroid(
         originalCount: embeddings.length,
         component: 'document-processing'
       })
-      return
+      return false
     }
 
     logger.info('Successfully parsed embeddings', {
@@ -1852,7 +1542,7 @@ export async function computeAndStoreCentroid(
           embeddingType: typeof embedding,
           component: 'document-processing'
         })
-        return
+        return false
       }
 
       if (embedding.length !== dimensions) {
@@ -1863,7 +1553,7 @@ export async function computeAndStoreCentroid(
           actualDimensions: embedding.length,
           component: 'document-processing'
         })
-        return
+        return false
       }
 
       // Check for null/undefined values in embedding
@@ -1876,7 +1566,7 @@ export async function computeAndStoreCentroid(
             value: embedding[i],
             component: 'document-processing'
           })
-          return
+          return false
         }
       }
     }
@@ -1901,7 +1591,7 @@ export async function computeAndStoreCentroid(
           centroidValue: centroid[i],
           component: 'document-processing'
         })
-        return
+        return false
       }
     }
 
@@ -1934,12 +1624,16 @@ export async function computeAndStoreCentroid(
     // IMPORTANT: effective_chunk_count should equal actual chunks indexed
     const { error: updateError } = await supabase
       .from('documents')
-      .update({
-        centroid_embedding: normalizedCentroid,
-        effective_chunk_count: actualChunkCount,  // Use actual count, not theoretical
-        total_characters: totalCharacters,
-        embedding_model: 'text-embedding-005'
-      })
+      .update(staged
+        ? { migration_centroid_embedding: normalizedCentroid }
+        : {
+            centroid_embedding: normalizedCentroid,
+            effective_chunk_count: actualChunkCount,  // Use actual count, not theoretical
+            total_characters: totalCharacters,
+            embedding_model: embeddingModel,
+            // Fresh chunks invalidate anything a running embedding migration staged
+            migration_centroid_embedding: null
+          })
       .eq('id', documentId)
 
     if (updateError) {
@@ -1948,22 +1642,25 @@ export async function computeAndStoreCentroid(
         component: 'document-processing'
       })
       // Don't throw - centroid is optional, document processing should complete
-      return
+      return false
     }
 
     logger.info('Centroid, effective chunk count, and total characters stored successfully', {
       documentId,
       effectiveChunkCount: actualChunkCount,
       totalCharacters,
+      staged,
       component: 'document-processing'
     })
 
+    return true
   } catch (error) {
     logger.error('Failed to compute centroid', error as Error, {
       documentId,
       component: 'document-processing'
     })
     // Don't throw - centroid is optional, document processing should complete
+    return false
   } finally {
     releaseServiceClient(supabase)
   }
@@ -1975,10 +1672,13 @@ async function generateEmbeddingsFromPages(
   businessMetadata: BusinessMetadata,
   filename: string,
   userId: string | null,
+  embeddingModel: string | null,
   sizeAnalysis?: DocumentSizeAnalysis,
   document?: DocumentAIDocument | null,
   paragraphsOverride?: Paragraph[]
-): Promise<{ chunkCount: number }> {
+): Promise<{ chunkCount: number; cacheHits: number; cacheLookups: number }> {
+  const embeddingProvider = getEmbeddingProvider(embeddingModel)
+
   // Use paragraph-based chunking if document is available, otherwise fall back to text-based
   let pagedChunks: PagedChunk[]
 
@@ -2051,80 +1751,57 @@ async function generateEmbeddingsFromPages(
     useAsyncProcessing: true,
     priorityLevel: 'normal' as const
   }
-  const batchSize = Math.min(maxConcurrentChunks, processingConfig.batchSize)
-
-  for (let i = 0; i < pagedChunks.length; i += batchSize) {
-    // CHECKPOINT: Check cancellation between batches
+  const writeBatchSize = Math.min(maxConcurrentChunks, processingConfig.batchSize)
+  let cacheHits = 0
+  let cacheLookups = 0
+
+  // Embeddings are generated over large slices so the provider can pack them into few
+  // requests; the write batches below only bound concurrent Supabase/Qdrant writes
+  for (let sliceStart = 0; sliceStart < pagedChunks.length; sliceStart += EMBEDDING_SLICE_SIZE) {
+    // CHECKPOINT: Check cancellation before each embedding slice
     if (await checkCancellation(documentId)) {
-      logger.info('Document cancelled during embedding generation', { documentId, processedChunks: i })
+      logger.info('Document cancelled during embedding generation', { documentId, processedChunks: sliceStart })
       throw new ProcessingCancelledException(documentId)
     }
 
-    const batch = pagedChunks.slice(i, i + batchSize);
-    logger.debug('Processing chunk batch', {
-      batchNumber: Math.floor(i / batchSize) + 1,
-      totalBatches: Math.ceil(pagedChunks.length / batchSize),
-      batchSize: batch.length,
-      component: 'document-processing'
-    });
-
-    let attempts = 0;
-    let failedChunks = batch;
-    const MAX_CHUNK_RETRIES = 3; // Retries for individual chunks within a batch
+    const slice = pagedChunks.slice(sliceStart, sliceStart + EMBEDDING_SLICE_SIZE)
+    const sliceEmbeddings = await embedChunksWithRetry(documentId, slice, embeddingProvider)
+    cacheHits += sliceEmbeddings.cacheHits
+    cacheLookups += sliceEmbeddings.cacheLookups
 
-    while (failedChunks.length > 0 && attempts < MAX_CHUNK_RETRIES) {
-      if (attempts > 0) {
-        const delay = Math.pow(2, attempts) * 1000; // Exponential backoff
-        logger.warn(`Retrying ${failedChunks.length} failed chunks in batch`, { attempt: attempts, documentId });
-        await new Promise(resolve => setTimeout(resolve, delay));
+    for (let i = 0; i < slice.length; i += writeBatchSize) {
+      // CHECKPOINT: Check cancellation between batches
+      if (await checkCancellation(documentId)) {
+        logger.info('Document cancelled while storing embeddings', { documentId, processedChunks: sliceStart + i })
+        throw new ProcessingCancelledException(documentId)
       }
 
-      const results = await Promise.allSettled(
-        failedChunks.map(pagedChunk => processChunkWithRetry(documentId, pagedChunk, businessMetadata, filename, userId))
-      );
-
-      const newFailedChunks: typeof failedChunks = [];
-      results.forEach((result, index) => {
-        if (result.status === 'rejected') {
-          const failedChunk = failedChunks[index];
-          if (failedChunk) {
-            newFailedChunks.push(failedChunk);
-          }
-          logger.warn('Chunk processing failed, will retry.', {
-            chunkIndex: failedChunk?.chunkIndex,
-            error: result.reason?.message,
-            documentId,
-            attempt: attempts + 1
-          });
-        }
-      });
-
-      failedChunks = newFailedChunks;
-      attempts++;
-    }
+      const batch = slice.slice(i, i + writeBatchSize)
+      logger.debug('Processing chunk batch', {
+        batchNumber: Math.floor((sliceStart + i) / writeBatchSize) + 1,
+        totalBatches: Math.ceil(pagedChunks.length / writeBatchSize),
+        batchSize: batch.length,
+        component: 'document-processing'
+      })
 
-    if (failedChunks.length > 0) {
-      const failedChunkIndexes = failedChunks.map(c => c.chunkIndex);
-      logger.error(
-        `Failed to process ${failedChunks.length} chunks after ${MAX_CHUNK_RETRIES} attempts. Aborting document processing.`,
-        undefined,
-        {
-          documentId,
-          failedChunkIndexes
-        }
-      );
-      const error = new Error(`Failed to process ${failedChunks.length} chunks after multiple retries.`) as Error & { documentId?: string };
-      error.documentId = documentId;
-      throw error;
-    }
+      await storeChunkBatchWithRetry(
+        documentId,
+        batch,
+        sliceEmbeddings.embeddings,
+        businessMetadata,
+        filename,
+        userId,
+        embeddingProvider.model
+      )
 
-    if (i + batchSize < pagedChunks.length) {
-      await new Promise(resolve => setTimeout(resolve, processingConfig.delayBetweenBatches))
+      if (sliceStart + i + writeBatchSize < pagedChunks.length) {
+        await new Promise(resolve => setTimeout(resolve, processingConfig.delayBetweenBatches))
 
-      if (sizeAnalysis?.memoryRequirements.garbageCollectionHints) {
-        const globalWithGc = globalThis as typeof globalThis & { gc?: (() => void) | undefined }
-        if (typeof globalWithGc.gc === 'function') {
-          globalWithGc.gc()
+        if (sizeAnalysis?.memoryRequirements.garbageCollectionHints) {
+          const globalWithGc = globalThis as typeof globalThis & { gc?: (() => void) | undefined }
+          if (typeof globalWithGc.gc === 'function') {
+            globalWithGc.gc()
+          }
         }
       }
     }
@@ -2145,7 +1822,7 @@ async function generateEmbeddingsFromPages(
     totalChunks: pagedChunks.length,
     component: 'document-processing'
   })
-  await computeAndStoreCentroid(documentId, pagedChunks.length)
+  await computeAndStoreCentroid(documentId, pagedChunks.length, embeddingProvider.model)
   logger.info('Finished computing centroid', {
     documentId,
     component: 'document-processing'
@@ -2158,7 +1835,17 @@ async function generateEmbeddingsFromPages(
     component: 'document-processing'
   })
 
-  return { chunkCount: pagedChunks.length }
+  if (cacheLookups > 0) {
+    logger.info('Embedding cache usage', {
+      documentId,
+      cacheHits,
+      cacheLookups,
+      hitRate: Number((cacheHits / cacheLookups).toFixed(3)),
+      component: 'document-processing'
+    })
+  }
+
+  return { chunkCount: pagedChunks.length, cacheHits, cacheLookups }
 }
 
 /**
@@ -0,0 +1,150 @@
+/**
+ * Rechunk jobs
+ * Queues document_jobs that rebuild chunks from the OCR structure stored in
+ * document_content, so chunking changes roll out without re-running Document AI
+ */
+
+import { createServiceClient, releaseServiceClient } from '@/lib/supabase/server'
+import { logger } from '@/lib/logger'
+
+export const RECHUNK_OPERATION = 'rechunk'
+
+const RECHUNK_JOB_PRIORITY = 3  // Below user uploads (default 5), above embedding migrations
+const RECHUNK_BATCH_SIZE = 500
+
+export interface QueueRechunkJobsResult {
+  queued: number
+  alreadyQueued: number
+  skippedDocumentIds: string[]
+}
+
+interface RechunkCandidate {
+  id: string
+  user_id: string
+}
+
+async function listRechunkCandidates(documentIds?: string[]): Promise<RechunkCandidate[]> {
+  const candidates: RechunkCandidate[] = []
+  const supabase = await createServiceClient()
+
+  try {
+    const fetchPage = (start: number, ids?: string[]) => {
+      let query = supabase
+        .from('documents')
+        .select('id, user_id, document_content!inner(document_id)')
+        .eq('status', 'completed')
+        .not('document_content.pages_text', 'is', null)
+
+      if (ids) {
+        query = query.in('id', ids)
+      }
+
+      return query
+        .order('created_at', { ascending: true })
+        .range(start, start + RECHUNK_BATCH_SIZE - 1)
+    }
+
+    const idBatches: Array<string[] | undefined> = []
+    if (documentIds) {
+      for (let i = 0; i < documentIds.length; i += RECHUNK_BATCH_SIZE) {
+        idBatches.push(documentIds.slice(i, i + RECHUNK_BATCH_SIZE))
+      }
+    } else {
+      idBatches.push(undefined)
+    }
+
+    for (const ids of idBatches) {
+      for (let start = 0; ; start += RECHUNK_BATCH_SIZE) {
+        const { data, error } = await fetchPage(start, ids)
+
+        if (error) {
+          throw new Error(`Failed to list documents for rechunking: ${error.message}`)
+        }
+
+        const rows = (data ?? []) as unknown as RechunkCandidate[]
+        candidates.push(...rows.map(row => ({ id: row.id, user_id: row.user_id })))
+
+        if (rows.length < RECHUNK_BATCH_SIZE) {
+          break
+        }
+      }
+    }
+
+    return candidates
+  } finally {
+    releaseServiceClient(supabase)
+  }
+}
+
+/**
+ * Queue rechunk jobs for the given documents, or for every completed document when omitted
+ * Requested documents that are not completed or have no stored OCR structure are reported
+ * back instead of queued - the latter need a normal retry first
+ */
+export async function queueRechunkJobs(documentIds?: string[]): Promise<QueueRechunkJobsResult> {
+  const requestedIds = documentIds ? Array.from(new Set(documentIds)) : undefined
+  const candidates = await listRechunkCandidates(requestedIds)
+
+  const candidateIds = new Set(candidates.map(candidate => candidate.id))
+  const skippedDocumentIds = requestedIds
+    ? requestedIds.filter(documentId => !candidateIds.has(documentId))
+    : []
+
+  const supabase = await createServiceClient()
+  try {
+    const activeDocumentIds = new Set<string>()
+
+    for (let i = 0; i < candidates.length; i += RECHUNK_BATCH_SIZE) {
+      const { data, error } = await supabase
+        .from('document_jobs')
+        .select('document_id')
+        .eq('operation_type', RECHUNK_OPERATION)
+        .in('status', ['queued', 'processing'])
+        .in('document_id', candidates.slice(i, i + RECHUNK_BATCH_SIZE).map(candidate => candidate.id))
+
+      if (error) {
+        throw new Error(`Failed to load existing rechunk jobs: ${error.message}`)
+      }
+
+      for (const row of (data ?? []) as Array<{ document_id: string }>) {
+        activeDocumentIds.add(row.document_id)
+      }
+    }
+
+    const newJobs = candidates
+      .filter(candidate => !activeDocumentIds.has(candidate.id))
+      .map(candidate => ({
+        user_id: candidate.user_id,
+        document_id: candidate.id,
+        operation_type: RECHUNK_OPERATION,
+        processing_method: 'sync',
+        priority: RECHUNK_JOB_PRIORITY,
+        status: 'queued'
+      }))
+
+    for (let i = 0; i < newJobs.length; i += RECHUNK_BATCH_SIZE) {
+      const { error: insertError } = await supabase
+        .from('document_jobs')
+        .insert(newJobs.slice(i, i + RECHUNK_BATCH_SIZE))
+
+      if (insertError) {
+        throw new Error(`Failed to enqueue rechunk jobs: ${insertError.message}`)
+      }
+    }
+
+    logger.info('Rechunk jobs queued', {
+      queued: newJobs.length,
+      alreadyQueued: activeDocumentIds.size,
+      skipped: skippedDocumentIds.length,
+      component: 'document-rechunk'
+    })
+
+    return {
+      queued: newJobs.length,
+      alreadyQueued: activeDocumentIds.size,
+      skippedDocumentIds
+    }
+  } finally {
+    releaseServiceClient(supabase)
+  }
+}
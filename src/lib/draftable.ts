@@ -1,17 +1,152 @@
 /**
  * Draftable API Client
- * Provides document comparison functionality via self-hosted Draftable instance
+ * Provides document comparison functionality via self-hosted Draftable instance.
+ * Optional - the native redline comparison is used when Draftable is not configured.
  */
 
 import { client } from '@draftable/compare-api'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { logger } from '@/lib/logger'
+import {
+  DRAFTABLE_COMPARISON_EXPIRY_MS,
+  DRAFTABLE_TIMEOUT_MS,
+  DRAFTABLE_VIEWER_VALIDITY_MS,
+  SIGNED_URL_EXPIRY_SECONDS
+} from '@/lib/constants'
+import type { GenericSupabaseSchema } from '@/types/supabase'
 
-const accountId = process.env.NEXT_PUBLIC_DRAFTABLE_ACCOUNT_ID
-const authToken = process.env.DRAFTABLE_AUTH_TOKEN
-const apiUrl = process.env.NEXT_PUBLIC_DRAFTABLE_API_URL || 'https://api.draftable.com/v1'
+type DraftableClient = ReturnType<typeof client>
+type DraftableFileType = 'pdf' | 'docx' | 'docm' | 'doc' | 'rtf' | 'pptx' | 'pptm' | 'ppt' | 'txt'
 
-if (!accountId || !authToken) {
-  throw new Error('Draftable credentials not configured. Please set NEXT_PUBLIC_DRAFTABLE_ACCOUNT_ID and DRAFTABLE_AUTH_TOKEN in .env.local')
+export interface DraftableSourceDocument {
+  file_path: string
+  title: string
+  content_type: string
 }
 
-// Initialize Draftable client with custom self-hosted URL
-export const draftableClient = client(accountId, authToken, apiUrl)
+export interface DraftableComparison {
+  viewerUrl: string
+  identifier: string
+  ready: boolean
+}
+
+let draftableClient: DraftableClient | null = null
+
+export function isDraftableConfigured(): boolean {
+  return Boolean(process.env.NEXT_PUBLIC_DRAFTABLE_ACCOUNT_ID && process.env.DRAFTABLE_AUTH_TOKEN)
+}
+
+function getDraftableClient(): DraftableClient {
+  if (draftableClient) {
+    return draftableClient
+  }
+
+  const accountId = process.env.NEXT_PUBLIC_DRAFTABLE_ACCOUNT_ID
+  const authToken = process.env.DRAFTABLE_AUTH_TOKEN
+  const apiUrl = process.env.NEXT_PUBLIC_DRAFTABLE_API_URL || 'https://api.draftable.com/v1'
+
+  if (!accountId || !authToken) {
+    throw new Error('Draftable credentials not configured. Please set NEXT_PUBLIC_DRAFTABLE_ACCOUNT_ID and DRAFTABLE_AUTH_TOKEN in .env.local')
+  }
+
+  // Initialize Draftable client with custom self-hosted URL
+  draftableClient = client(accountId, authToken, apiUrl)
+  return draftableClient
+}
+
+const getFileType = (contentType: string): DraftableFileType => {
+  if (contentType.includes('pdf')) return 'pdf'
+  if (contentType.includes('docx')) return 'docx'
+  if (contentType.includes('doc')) return 'doc'
+  if (contentType.includes('rtf')) return 'rtf'
+  if (contentType.includes('pptx')) return 'pptx'
+  if (contentType.includes('ppt')) return 'ppt'
+  if (contentType.includes('txt')) return 'txt'
+  return 'pdf' // Default fallback
+}
+
+async function createPublicSignedUrl(
+  supabase: SupabaseClient<GenericSupabaseSchema>,
+  filePath: string,
+  label: string
+): Promise<string> {
+  const { data, error } = await supabase.storage
+    .from('documents')
+    .createSignedUrl(filePath, SIGNED_URL_EXPIRY_SECONDS)
+
+  if (error || !data?.signedUrl) {
+    throw new Error(`Failed to generate ${label} document URL`)
+  }
+
+  // SUPABASE_PUBLIC_URL is only used in local development with ngrok/localtunnel
+  // In production, leave it unset - production Supabase URLs work directly with Draftable
+  const supabasePublicUrl = process.env.SUPABASE_PUBLIC_URL
+  return supabasePublicUrl
+    ? data.signedUrl.replace('http://127.0.0.1:54321', supabasePublicUrl)
+    : data.signedUrl
+}
+
+/**
+ * Upload both documents to Draftable by signed URL and return a signed viewer URL
+ */
+export async function createDraftableComparison(
+  supabase: SupabaseClient<GenericSupabaseSchema>,
+  sourceDoc: DraftableSourceDocument,
+  targetDoc: DraftableSourceDocument
+): Promise<DraftableComparison> {
+  const draftable = getDraftableClient()
+
+  const [sourceUrl, targetUrl] = await Promise.all([
+    createPublicSignedUrl(supabase, sourceDoc.file_path, 'source'),
+    createPublicSignedUrl(supabase, targetDoc.file_path, 'target')
+  ])
+
+  logger.debug('Creating Draftable comparison', {
+    sourceTitle: sourceDoc.title,
+    targetTitle: targetDoc.title,
+    sourceFileType: getFileType(sourceDoc.content_type),
+    targetFileType: getFileType(targetDoc.content_type),
+    // Only log full URLs in development (they contain signed tokens)
+    ...(process.env.NODE_ENV === 'development' && { sourceUrl, targetUrl })
+  })
+
+  const comparisonPromise = draftable.comparisons.create({
+    left: {
+      source: sourceUrl,
+      fileType: getFileType(sourceDoc.content_type),
+      displayName: sourceDoc.title
+    },
+    right: {
+      source: targetUrl,
+      fileType: getFileType(targetDoc.content_type),
+      displayName: targetDoc.title
+    },
+    expires: new Date(Date.now() + DRAFTABLE_COMPARISON_EXPIRY_MS)
+  })
+
+  const timeoutPromise = new Promise<never>((_, reject) =>
+    setTimeout(
+      () => reject(new Error(`Draftable API request timed out after ${DRAFTABLE_TIMEOUT_MS / 1000} seconds`)),
+      DRAFTABLE_TIMEOUT_MS
+    )
+  )
+
+  const comparison = await Promise.race([comparisonPromise, timeoutPromise])
+
+  // wait=true makes the viewer wait for the comparison to be ready before redirecting
+  const validUntil = Date.now() + DRAFTABLE_VIEWER_VALIDITY_MS
+  const viewerUrl = draftable.comparisons.signedViewerURL(comparison.identifier, validUntil, true)
+
+  logger.debug('Generated Draftable viewer URL', {
+    identifier: comparison.identifier,
+    validUntil,
+    // Only log full viewer URL in development (contains signature)
+    ...(process.env.NODE_ENV === 'development' && { viewerUrl })
+  })
+
+  return {
+    viewerUrl,
+    identifier: comparison.identifier,
+    ready: comparison.ready
+  }
+}
@@ -0,0 +1,170 @@
+/**
+ * Duplicate document detection
+ * Exact duplicates are caught at upload by SHA-256 of the file bytes; near duplicates
+ * (re-scans, re-exports, minor edits) are caught after OCR by a simhash of the text
+ */
+
+import { createHash } from 'crypto'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createServiceClient, releaseServiceClient } from '@/lib/supabase/server'
+import { logger } from '@/lib/logger'
+import type { GenericSupabaseSchema } from '@/types/supabase'
+
+// Simhash bits that may differ for two documents to count as near duplicates
+export const NEAR_DUPLICATE_MAX_DISTANCE = 3
+
+const SHINGLE_SIZE = 5
+const FINGERPRINT_BITS = 64
+// Short texts produce unstable simhashes that collide on boilerplate alone
+const MIN_FINGERPRINT_TOKENS = 50
+
+export interface DuplicateDocumentSummary {
+  id: string
+  title: string
+  filename: string
+  status: string
+  created_at: string
+}
+
+export interface NearDuplicateMatch {
+  documentId: string
+  hammingDistance: number
+}
+
+export function computeFileHash(buffer: ArrayBuffer): string {
+  return createHash('sha256').update(Buffer.from(buffer)).digest('hex')
+}
+
+/**
+ * 64-bit simhash over word shingles, as 16 hex characters
+ * Returns null when the text is too short to fingerprint reliably
+ */
+export function computeTextFingerprint(text: string): string | null {
+  const tokens = text
+    .normalize('NFKC')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(token => token.length > 0)
+
+  if (tokens.length < MIN_FINGERPRINT_TOKENS) {
+    return null
+  }
+
+  const weights = new Array<number>(FINGERPRINT_BITS).fill(0)
+
+  for (let start = 0; start + SHINGLE_SIZE <= tokens.length; start++) {
+    const shingle = tokens.slice(start, start + SHINGLE_SIZE).join(' ')
+    const digest = createHash('sha256').update(shingle).digest()
+
+    for (let bit = 0; bit < FINGERPRINT_BITS; bit++) {
+      const isSet = (digest[bit >> 3]! >> (bit & 7)) & 1
+      weights[bit] = weights[bit]! + (isSet ? 1 : -1)
+    }
+  }
+
+  const fingerprint = Buffer.alloc(FINGERPRINT_BITS / 8)
+  weights.forEach((weight, bit) => {
+    if (weight > 0) {
+      fingerprint[bit >> 3] = fingerprint[bit >> 3]! | (1 << (bit & 7))
+    }
+  })
+
+  return fingerprint.toString('hex')
+}
+
+/**
+ * Live documents uploaded with identical bytes, oldest first
+ * Runs with the caller's client so it only sees documents the user can see
+ */
+export async function findExactDuplicates(
+  supabase: SupabaseClient<GenericSupabaseSchema>,
+  fileHash: string
+): Promise<DuplicateDocumentSummary[]> {
+  const { data, error } = await supabase
+    .from('documents')
+    .select('id, title, filename, status, created_at')
+    .eq('file_hash', fileHash)
+    .not('status', 'in', '(cancelled,error)')
+    .order('created_at', { ascending: true })
+    .limit(10)
+
+  if (error) {
+    throw new Error(`Failed to check for duplicate documents: ${error.message}`)
+  }
+
+  return (data ?? []) as unknown as DuplicateDocumentSummary[]
+}
+
+/**
+ * Store the text fingerprint and flag the document if it nearly matches an existing one
+ * Documents already flagged as exact duplicates keep that flag
+ */
+export async function recordTextFingerprint(
+  documentId: string,
+  extractedText: string
+): Promise<NearDuplicateMatch | null> {
+  const fingerprint = computeTextFingerprint(extractedText)
+  if (!fingerprint) {
+    return null
+  }
+
+  const supabase = await createServiceClient()
+  try {
+    const { data: document, error: updateError } = await supabase
+      .from('documents')
+      .update({ text_fingerprint: fingerprint })
+      .eq('id', documentId)
+      .select('duplicate_type')
+      .single()
+
+    if (updateError) {
+      throw new Error(`Failed to store text fingerprint: ${updateError.message}`)
+    }
+
+    if (document?.duplicate_type === 'exact') {
+      return null
+    }
+
+    const { data: matches, error: matchError } = await supabase.rpc('find_near_duplicate_documents', {
+      p_document_id: documentId,
+      p_fingerprint: fingerprint,
+      p_max_distance: NEAR_DUPLICATE_MAX_DISTANCE
+    })
+
+    if (matchError) {
+      throw new Error(`Failed to search for near duplicates: ${matchError.message}`)
+    }
+
+    const bestMatch = ((matches ?? []) as Array<{ document_id: string; hamming_distance: number }>)[0]
+    if (!bestMatch) {
+      if (document?.duplicate_type === 'near') {
+        // Reprocessed text no longer matches - drop the stale flag
+        await supabase
+          .from('documents')
+          .update({ duplicate_of: null, duplicate_type: null })
+          .eq('id', documentId)
+      }
+      return null
+    }
+
+    const { error: flagError } = await supabase
+      .from('documents')
+      .update({ duplicate_of: bestMatch.document_id, duplicate_type: 'near' })
+      .eq('id', documentId)
+
+    if (flagError) {
+      throw new Error(`Failed to flag near duplicate: ${flagError.message}`)
+    }
+
+    logger.info('Near-duplicate document detected', {
+      documentId,
+      duplicateOf: bestMatch.document_id,
+      hammingDistance: bestMatch.hamming_distance,
+      component: 'duplicate-detection'
+    })
+
+    return { documentId: bestMatch.document_id, hammingDistance: bestMatch.hamming_distance }
+  } finally {
+    releaseServiceClient(supabase)
+  }
+}
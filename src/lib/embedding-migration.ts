@@ -0,0 +1,755 @@
+/**
+ * Embedding model migration
+ * Re-embeds the stored chunk_text of every document with a new model - no OCR - into a
+ * fresh Qdrant collection. New vectors and centroids are staged next to the live ones and
+ * activate_embedding_migration() swaps them in once every document has been staged.
+ */
+
+import { createServiceClient, releaseServiceClient } from '@/lib/supabase/server'
+import {
+  createQdrantCollection,
+  getActiveCollectionName,
+  getBaseCollectionName,
+  indexDocumentInQdrant,
+  invalidateActiveCollectionCache
+} from '@/lib/qdrant'
+import { computeAndStoreCentroid } from '@/lib/document-processing'
+import { getDefaultEmbeddingModel, getEmbeddingProvider, resolveEmbeddingModel } from '@/lib/embeddings'
+import { embedBatchWithCache } from '@/lib/embeddings/cache'
+import { SmartRetry, RetryConfigs } from '@/lib/retry-logic'
+import { logger } from '@/lib/logger'
+import type { BusinessMetadata, DatabaseEmbeddingMigration } from '@/types/external-apis'
+
+export const EMBEDDING_MIGRATION_OPERATION = 'embedding_migration'
+
+// Staged vectors share the vector(768) columns with the live ones
+const STAGED_VECTOR_DIMENSIONS = 768
+
+const MIGRATION_CHUNK_BATCH_SIZE = 100
+const MIGRATION_ENQUEUE_BATCH_SIZE = 500
+const MIGRATION_LOOKUP_BATCH_SIZE = 200  // IDs per .in() filter, keeps request URLs short
+const MIGRATION_JOB_PRIORITY = 2  // Below user uploads (default 5) so migrations never delay them
+
+export class EmbeddingMigrationConflictError extends Error {
+  constructor(migrationId: string) {
+    super(`Embedding migration ${migrationId} is already running`)
+    this.name = 'EmbeddingMigrationConflictError'
+  }
+}
+
+export interface EmbeddingMigrationProgress {
+  migration: DatabaseEmbeddingMigration
+  jobs: {
+    queued: number
+    processing: number
+    completed: number
+    failed: number
+  }
+  percentComplete: number
+}
+
+export interface EmbeddingMigrationJobResult {
+  migrationId: string
+  skipped: boolean
+  chunkCount: number
+  cacheHits: number
+  cacheLookups: number
+}
+
+interface MigrationCandidate {
+  id: string
+  user_id: string
+  embedding_model: string
+}
+
+interface MigrationChunkRow {
+  chunk_index: number
+  chunk_text: string
+  page_number: number | null
+  start_page_number: number | null
+  end_page_number: number | null
+}
+
+function buildTargetCollectionName(targetModel: string): string {
+  const modelSlug = targetModel.replace(/[^a-zA-Z0-9_-]/g, '_')
+  return `${getBaseCollectionName()}_${modelSlug}_${Date.now().toString(36)}`
+}
+
+async function getMigration(migrationId: string): Promise<DatabaseEmbeddingMigration | null> {
+  const supabase = await createServiceClient()
+  try {
+    const { data, error } = await supabase
+      .from('embedding_migrations')
+      .select('*')
+      .eq('id', migrationId)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to load embedding migration: ${error.message}`)
+    }
+
+    return (data as DatabaseEmbeddingMigration | null) ?? null
+  } finally {
+    releaseServiceClient(supabase)
+  }
+}
+
+async function getRunningMigration(): Promise<DatabaseEmbeddingMigration | null> {
+  const supabase = await createServiceClient()
+  try {
+    const { data, error } = await supabase
+      .from('embedding_migrations')
+      .select('*')
+      .eq('status', 'running')
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to load running embedding migration: ${error.message}`)
+    }
+
+    return (data as DatabaseEmbeddingMigration | null) ?? null
+  } finally {
+    releaseServiceClient(supabase)
+  }
+}
+
+async function getActiveMigration(): Promise<DatabaseEmbeddingMigration | null> {
+  const supabase = await createServiceClient()
+  try {
+    const { data, error } = await supabase
+      .from('embedding_migrations')
+      .select('*')
+      .eq('status', 'active')
+      .order('activated_at', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to load active embedding migration: ${error.message}`)
+    }
+
+    return (data as DatabaseEmbeddingMigration | null) ?? null
+  } finally {
+    releaseServiceClient(supabase)
+  }
+}
+
+/**
+ * Model whose vectors live in the active collection: the target of the last activated
+ * migration, otherwise EMBEDDING_MODEL. Uploads and search queries both embed with it.
+ */
+export async function resolveActiveEmbeddingModel(): Promise<string> {
+  try {
+    const activeMigration = await getActiveMigration()
+    if (activeMigration) {
+      return activeMigration.target_model
+    }
+  } catch (error) {
+    logger.warn('Failed to resolve active embedding model; using EMBEDDING_MODEL', {
+      error: error instanceof Error ? error.message : String(error),
+      component: 'embedding-migration'
+    })
+  }
+  return getDefaultEmbeddingModel()
+}
+
+/**
+ * Model the documents being migrated are currently embedded with
+ * Mixed corpora record the most common one; with nothing to migrate, the model the last
+ * activated migration moved to (or the configured default) is the live one.
+ */
+async function resolveSourceModel(documents: MigrationCandidate[]): Promise<string> {
+  const counts = new Map<string, number>()
+  for (const document of documents) {
+    counts.set(document.embedding_model, (counts.get(document.embedding_model) ?? 0) + 1)
+  }
+
+  let sourceModel: string | null = null
+  for (const [model, count] of counts) {
+    if (sourceModel === null || count > counts.get(sourceModel)!) {
+      sourceModel = model
+    }
+  }
+
+  if (counts.size > 1) {
+    logger.warn('Documents to migrate use several embedding models', {
+      models: Object.fromEntries(counts),
+      sourceModel,
+      component: 'embedding-migration'
+    })
+  }
+
+  return sourceModel ?? await resolveActiveEmbeddingModel()
+}
+
+/**
+ * Queue one migration job per document
+ * Documents that already completed a job for this migration are re-queued instead of duplicated
+ */
+async function enqueueMigrationJobs(
+  migrationId: string,
+  documents: Array<{ id: string; user_id: string }>
+): Promise<number> {
+  if (documents.length === 0) {
+    return 0
+  }
+
+  const supabase = await createServiceClient()
+  try {
+    const existingByDocument = new Map<string, { id: string; document_id: string; status: string }>()
+    for (let i = 0; i < documents.length; i += MIGRATION_LOOKUP_BATCH_SIZE) {
+      const { data: existingJobs, error: existingError } = await supabase
+        .from('document_jobs')
+        .select('id, document_id, status')
+        .eq('operation_type', EMBEDDING_MIGRATION_OPERATION)
+        .eq('processing_config->>migration_id', migrationId)
+        .in('document_id', documents.slice(i, i + MIGRATION_LOOKUP_BATCH_SIZE).map(document => document.id))
+
+      if (existingError) {
+        throw new Error(`Failed to load existing migration jobs: ${existingError.message}`)
+      }
+
+      for (const job of (existingJobs ?? []) as Array<{ id: string; document_id: string; status: string }>) {
+        existingByDocument.set(job.document_id, job)
+      }
+    }
+
+    const completedJobIds = documents
+      .map(document => existingByDocument.get(document.id))
+      .filter((job): job is { id: string; document_id: string; status: string } => job?.status === 'completed')
+      .map(job => job.id)
+
+    for (let i = 0; i < completedJobIds.length; i += MIGRATION_LOOKUP_BATCH_SIZE) {
+      const { error: requeueError } = await supabase
+        .from('document_jobs')
+        .update({ status: 'queued', attempts: 0, metadata: {}, completed_at: null })
+        .in('id', completedJobIds.slice(i, i + MIGRATION_LOOKUP_BATCH_SIZE))
+
+      if (requeueError) {
+        throw new Error(`Failed to re-queue migration jobs: ${requeueError.message}`)
+      }
+    }
+
+    const newJobs = documents
+      .filter(document => !existingByDocument.has(document.id))
+      .map(document => ({
+        user_id: document.user_id,
+        document_id: document.id,
+        operation_type: EMBEDDING_MIGRATION_OPERATION,
+        processing_method: 'sync',
+        priority: MIGRATION_JOB_PRIORITY,
+        status: 'queued',
+        processing_config: { migration_id: migrationId }
+      }))
+
+    for (let i = 0; i < newJobs.length; i += MIGRATION_ENQUEUE_BATCH_SIZE) {
+      const { error: insertError } = await supabase
+        .from('document_jobs')
+        .insert(newJobs.slice(i, i + MIGRATION_ENQUEUE_BATCH_SIZE))
+
+      if (insertError) {
+        throw new Error(`Failed to enqueue migration jobs: ${insertError.message}`)
+      }
+    }
+
+    return completedJobIds.length + newJobs.length
+  } finally {
+    releaseServiceClient(supabase)
+  }
+}
+
+async function listDocumentsToMigrate(targetModel: string): Promise<MigrationCandidate[]> {
+  const documents: MigrationCandidate[] = []
+  const pageSize = 1000
+  const supabase = await createServiceClient()
+
+  try {
+    for (let start = 0; ; start += pageSize) {
+      const { data, error } = await supabase
+        .from('documents')
+        .select('id, user_id, embedding_model')
+        .eq('status', 'completed')
+        .not('centroid_embedding', 'is', null)
+        .order('created_at', { ascending: true })
+        .range(start, start + pageSize - 1)
+
+      if (error) {
+        throw new Error(`Failed to list documents for migration: ${error.message}`)
+      }
+
+      const rows = (data ?? []) as Array<{ id: string; user_id: string; embedding_model: string | null }>
+      for (const row of rows) {
+        const embeddingModel = resolveEmbeddingModel(row.embedding_model)
+        if (embeddingModel !== targetModel) {
+          documents.push({ id: row.id, user_id: row.user_id, embedding_model: embeddingModel })
+        }
+      }
+
+      if (rows.length < pageSize) {
+        return documents
+      }
+    }
+  } finally {
+    releaseServiceClient(supabase)
+  }
+}
+
+/**
+ * Start migrating the corpus to targetModel
+ * Creates the target collection, records the migration and queues one job per document
+ */
+export async function startEmbeddingMigration(
+  targetModel: string,
+  requestedBy: string | null
+): Promise<DatabaseEmbeddingMigration> {
+  const provider = getEmbeddingProvider(targetModel)
+  if (provider.dimensions !== STAGED_VECTOR_DIMENSIONS) {
+    throw new Error(
+      `Embedding model ${targetModel} produces ${provider.dimensions}-dimensional vectors; ` +
+      `migrations require ${STAGED_VECTOR_DIMENSIONS} to match the embedding columns`
+    )
+  }
+
+  const runningMigration = await getRunningMigration()
+  if (runningMigration) {
+    throw new EmbeddingMigrationConflictError(runningMigration.id)
+  }
+
+  const sourceCollection = await getActiveCollectionName()
+  const targetCollection = buildTargetCollectionName(targetModel)
+  await createQdrantCollection(targetCollection, provider.dimensions)
+
+  const documents = await listDocumentsToMigrate(targetModel)
+  const sourceModel = await resolveSourceModel(documents)
+
+  const supabase = await createServiceClient()
+  let migration: DatabaseEmbeddingMigration
+  try {
+    const { data, error } = await supabase
+      .from('embedding_migrations')
+      .insert({
+        source_model: sourceModel,
+        target_model: targetModel,
+        source_collection: sourceCollection,
+        target_collection: targetCollection,
+        total_documents: documents.length,
+        created_by: requestedBy
+      })
+      .select('*')
+      .single()
+
+    if (error || !data) {
+      // The partial unique index rejects a second running migration started concurrently
+      throw new Error(`Failed to record embedding migration: ${error?.message ?? 'no row returned'}`)
+    }
+
+    migration = data as unknown as DatabaseEmbeddingMigration
+  } finally {
+    releaseServiceClient(supabase)
+  }
+
+  await enqueueMigrationJobs(migration.id, documents)
+
+  logger.info('Embedding migration started', {
+    migrationId: migration.id,
+    targetModel,
+    sourceCollection,
+    targetCollection,
+    documentCount: documents.length,
+    component: 'embedding-migration'
+  })
+
+  if (documents.length === 0) {
+    await finalizeEmbeddingMigration(migration.id)
+  }
+
+  return migration
+}
+
+async function fetchChunkBatch(documentId: string, fromChunkIndex: number): Promise<MigrationChunkRow[]> {
+  const supabase = await createServiceClient()
+  try {
+    const { data, error } = await supabase
+      .from('document_embeddings')
+      .select('chunk_index, chunk_text, page_number, start_page_number, end_page_number')
+      .eq('document_id', documentId)
+      .gte('chunk_index', fromChunkIndex)
+      .order('chunk_index', { ascending: true })
+      .limit(MIGRATION_CHUNK_BATCH_SIZE)
+
+    if (error) {
+      throw new Error(`Failed to load chunks for migration: ${error.message}`)
+    }
+
+    return (data ?? []) as MigrationChunkRow[]
+  } finally {
+    releaseServiceClient(supabase)
+  }
+}
+
+async function stageChunkEmbedding(documentId: string, chunkIndex: number, embedding: number[]): Promise<void> {
+  const result = await SmartRetry.execute(async () => {
+    const supabase = await createServiceClient()
+    try {
+      const { error } = await supabase
+        .from('document_embeddings')
+        .update({ migration_embedding: embedding })
+        .eq('document_id', documentId)
+        .eq('chunk_index', chunkIndex)
+
+      if (error) throw error
+      return true
+    } finally {
+      releaseServiceClient(supabase)
+    }
+  }, RetryConfigs.supabaseOperations)
+
+  if (!result.success) {
+    throw new Error(`Failed to stage embedding for chunk ${chunkIndex}: ${result.error?.message}`)
+  }
+}
+
+async function saveJobCheckpoint(
+  jobId: string,
+  jobMetadata: Record<string, unknown>,
+  nextChunkIndex: number
+): Promise<void> {
+  const supabase = await createServiceClient()
+  try {
+    const { error } = await supabase
+      .from('document_jobs')
+      .update({ metadata: { ...jobMetadata, migration_next_chunk_index: nextChunkIndex } })
+      .eq('id', jobId)
+
+    if (error) {
+      // Losing a checkpoint only means redoing one batch after a restart
+      logger.warn('Failed to checkpoint migration job', { jobId, error: error.message, component: 'embedding-migration' })
+    }
+  } finally {
+    releaseServiceClient(supabase)
+  }
+}
+
+/**
+ * Re-embed one document for a migration
+ * Progress is checkpointed in document_jobs.metadata after every batch, so a job recovered
+ * after a crash or timeout resumes from the last staged chunk
+ */
+export async function runEmbeddingMigrationJob(job: {
+  id: string
+  document_id: string
+  processing_config?: Record<string, unknown> | null
+  metadata?: Record<string, unknown> | null
+}): Promise<EmbeddingMigrationJobResult> {
+  const migrationId = job.processing_config?.['migration_id']
+  if (typeof migrationId !== 'string') {
+    throw new Error(`Migration job ${job.id} has no migration_id`)
+  }
+
+  const migration = await getMigration(migrationId)
+  if (!migration || migration.status !== 'running') {
+    logger.info('Skipping job for inactive embedding migration', {
+      jobId: job.id,
+      migrationId,
+      status: migration?.status ?? 'missing',
+      component: 'embedding-migration'
+    })
+    return { migrationId, skipped: true, chunkCount: 0, cacheHits: 0, cacheLookups: 0 }
+  }
+
+  const documentId = job.document_id
+  const provider = getEmbeddingProvider(migration.target_model)
+
+  const supabase = await createServiceClient()
+  let document: { filename: string | null; user_id: string | null; metadata: BusinessMetadata | null }
+  try {
+    const { data, error } = await supabase
+      .from('documents')
+      .select('filename, user_id, metadata')
+      .eq('id', documentId)
+      .single()
+
+    if (error || !data) {
+      throw new Error(`Document ${documentId} not found for migration`)
+    }
+
+    document = data as typeof document
+  } finally {
+    releaseServiceClient(supabase)
+  }
+
+  const jobMetadata = job.metadata ?? {}
+  const checkpoint = jobMetadata['migration_next_chunk_index']
+  let nextChunkIndex = typeof checkpoint === 'number' ? checkpoint : 0
+  let cacheHits = 0
+  let cacheLookups = 0
+
+  logger.info('Migrating document embeddings', {
+    jobId: job.id,
+    migrationId,
+    documentId,
+    targetModel: migration.target_model,
+    resumeFromChunk: nextChunkIndex,
+    component: 'embedding-migration'
+  })
+
+  while (true) {
+    const chunks = await fetchChunkBatch(documentId, nextChunkIndex)
+    if (chunks.length === 0) {
+      break
+    }
+
+    const batch = await embedBatchWithCache(provider, chunks.map(chunk => chunk.chunk_text))
+    cacheHits += batch.cacheHits
+    cacheLookups += batch.cacheLookups
+
+    for (const [position, chunk] of chunks.entries()) {
+      const outcome = batch.outcomes[position]
+      if (!outcome || 'error' in outcome) {
+        throw outcome?.error ?? new Error(`No embedding returned for chunk ${chunk.chunk_index}`)
+      }
+
+      await stageChunkEmbedding(documentId, chunk.chunk_index, outcome.embedding)
+
+      const vectorId = `${documentId}_chunk_${chunk.chunk_index}`
+      const indexResult = await SmartRetry.execute(async () => {
+        await indexDocumentInQdrant(
+          vectorId,
+          outcome.embedding,
+          {
+            document_id: documentId,
+            chunk_index: chunk.chunk_index,
+            page_number: chunk.page_number,
+            start_page_number: chunk.start_page_number,
+            end_page_number: chunk.end_page_number,
+            text: chunk.chunk_text,
+            filename: document.filename ?? `${documentId}.pdf`,
+            embedding_model: provider.model,
+            ...(document.user_id ? { user_id: document.user_id } : {}),
+            ...(document.metadata ?? {})
+          },
+          migration.target_collection
+        )
+        return true
+      }, RetryConfigs.qdrantIndexing)
+
+      if (!indexResult.success) {
+        throw new Error(`Qdrant indexing failed for ${vectorId}: ${indexResult.error?.message}`)
+      }
+    }
+
+    const lastChunk = chunks[chunks.length - 1]!
+    nextChunkIndex = lastChunk.chunk_index + 1
+    await saveJobCheckpoint(job.id, jobMetadata, nextChunkIndex)
+  }
+
+  const chunkCount = await countDocumentChunks(documentId)
+  if (chunkCount > 0) {
+    const stored = await computeAndStoreCentroid(documentId, chunkCount, provider.model, { staged: true })
+    if (!stored) {
+      throw new Error(`Failed to compute staged centroid for document ${documentId}`)
+    }
+  }
+
+  return { migrationId, skipped: false, chunkCount, cacheHits, cacheLookups }
+}
+
+async function countDocumentChunks(documentId: string): Promise<number> {
+  const supabase = await createServiceClient()
+  try {
+    const { count, error } = await supabase
+      .from('document_embeddings')
+      .select('id', { count: 'exact', head: true })
+      .eq('document_id', documentId)
+
+    if (error) {
+      throw new Error(`Failed to count chunks for migration: ${error.message}`)
+    }
+
+    return count ?? 0
+  } finally {
+    releaseServiceClient(supabase)
+  }
+}
+
+async function countMigrationJobs(migrationId: string, statuses: string[]): Promise<number> {
+  const supabase = await createServiceClient()
+  try {
+    const { count, error } = await supabase
+      .from('document_jobs')
+      .select('id', { count: 'exact', head: true })
+      .eq('operation_type', EMBEDDING_MIGRATION_OPERATION)
+      .eq('processing_config->>migration_id', migrationId)
+      .in('status', statuses)
+
+    if (error) {
+      throw new Error(`Failed to count migration jobs: ${error.message}`)
+    }
+
+    return count ?? 0
+  } finally {
+    releaseServiceClient(supabase)
+  }
+}
+
+/**
+ * Switch queries to the target collection once every document has been staged
+ * Safe to call after every job; it is a no-op while jobs are still outstanding
+ */
+export async function finalizeEmbeddingMigration(migrationId: string): Promise<boolean> {
+  const outstanding = await countMigrationJobs(migrationId, ['queued', 'processing'])
+  if (outstanding > 0) {
+    return false
+  }
+
+  const supabase = await createServiceClient()
+  let pendingDocumentIds: string[] = []
+  try {
+    const { data, error } = await supabase
+      .rpc('activate_embedding_migration', { p_migration_id: migrationId })
+      .single()
+
+    if (error || !data) {
+      throw new Error(`Failed to activate embedding migration: ${error?.message ?? 'no result'}`)
+    }
+
+    const result = data as { activated: boolean; pending_document_ids: string[] | null }
+    if (result.activated) {
+      invalidateActiveCollectionCache()
+      logger.info('Embedding migration activated', { migrationId, component: 'embedding-migration' })
+      return true
+    }
+
+    pendingDocumentIds = result.pending_document_ids ?? []
+  } finally {
+    releaseServiceClient(supabase)
+  }
+
+  if (pendingDocumentIds.length === 0) {
+    return false
+  }
+
+  // Documents uploaded or reprocessed since the migration started still need staging
+  const pendingDocuments = await loadDocumentOwners(pendingDocumentIds)
+  const queued = await enqueueMigrationJobs(migrationId, pendingDocuments)
+
+  if (queued === 0) {
+    logger.warn('Embedding migration blocked by failed jobs', {
+      migrationId,
+      pendingDocuments: pendingDocumentIds.length,
+      component: 'embedding-migration'
+    })
+  } else {
+    logger.info('Queued documents that changed during embedding migration', {
+      migrationId,
+      queued,
+      component: 'embedding-migration'
+    })
+  }
+
+  return false
+}
+
+async function loadDocumentOwners(documentIds: string[]): Promise<Array<{ id: string; user_id: string }>> {
+  const owners: Array<{ id: string; user_id: string }> = []
+  const supabase = await createServiceClient()
+  try {
+    for (let i = 0; i < documentIds.length; i += MIGRATION_LOOKUP_BATCH_SIZE) {
+      const { data, error } = await supabase
+        .from('documents')
+        .select('id, user_id')
+        .in('id', documentIds.slice(i, i + MIGRATION_LOOKUP_BATCH_SIZE))
+
+      if (error) {
+        throw new Error(`Failed to load documents for migration: ${error.message}`)
+      }
+
+      owners.push(...(data ?? []) as Array<{ id: string; user_id: string }>)
+    }
+
+    return owners
+  } finally {
+    releaseServiceClient(supabase)
+  }
+}
+
+/**
+ * Re-queue failed jobs of a running migration, keeping their chunk checkpoints
+ */
+export async function resumeEmbeddingMigration(migrationId: string): Promise<number> {
+  const migration = await getMigration(migrationId)
+  if (!migration || migration.status !== 'running') {
+    throw new Error(`Embedding migration ${migrationId} not found or not running`)
+  }
+
+  const supabase = await createServiceClient()
+  let requeued = 0
+  try {
+    const { data, error } = await supabase
+      .from('document_jobs')
+      .update({ status: 'queued', attempts: 0, error_message: null, completed_at: null })
+      .eq('operation_type', EMBEDDING_MIGRATION_OPERATION)
+      .eq('processing_config->>migration_id', migrationId)
+      .in('status', ['failed', 'error'])
+      .select('id')
+
+    if (error) {
+      throw new Error(`Failed to resume embedding migration: ${error.message}`)
+    }
+
+    requeued = data?.length ?? 0
+  } finally {
+    releaseServiceClient(supabase)
+  }
+
+  logger.info('Embedding migration resumed', { migrationId, requeued, component: 'embedding-migration' })
+
+  if (requeued === 0) {
+    await finalizeEmbeddingMigration(migrationId)
+  }
+
+  return requeued
+}
+
+export async function getEmbeddingMigrationProgress(migrationId: string): Promise<EmbeddingMigrationProgress | null> {
+  const migration = await getMigration(migrationId)
+  if (!migration) {
+    return null
+  }
+
+  const [queued, processing, completed, failed] = await Promise.all([
+    countMigrationJobs(migrationId, ['queued']),
+    countMigrationJobs(migrationId, ['processing']),
+    countMigrationJobs(migrationId, ['completed']),
+    countMigrationJobs(migrationId, ['failed', 'error'])
+  ])
+
+  const total = queued + processing + completed + failed
+
+  return {
+    migration,
+    jobs: { queued, processing, completed, failed },
+    percentComplete: migration.status === 'running'
+      ? (total > 0 ? Math.floor((completed / total) * 100) : 0)
+      : 100
+  }
+}
+
+export async function listEmbeddingMigrations(): Promise<DatabaseEmbeddingMigration[]> {
+  const supabase = await createServiceClient()
+  try {
+    const { data, error } = await supabase
+      .from('embedding_migrations')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(20)
+
+    if (error) {
+      throw new Error(`Failed to list embedding migrations: ${error.message}`)
+    }
+
+    return (data ?? []) as unknown as DatabaseEmbeddingMigration[]
+  } finally {
+    releaseServiceClient(supabase)
+  }
+}
@@ -2,74 +2,220 @@
 import { GoogleAuth } from 'google-auth-library'
 import { getGoogleClientOptions } from '@/lib/google-credentials'
 import type { VertexAIEmbeddingResponse } from '@/types/external-apis'
+import { EmbeddingRequestError, type EmbeddingOutcome } from '@/lib/embeddings/types'
+import { SmartRetry, RetryConfigs } from '@/lib/retry-logic'
 import { logger } from '@/lib/logger'
 
-export async function generateVertexEmbeddings(text: string): Promise<number[]> {
+// text-embedding-005 has 2048 token limit per input (tokens ≈ characters/4 for English)
+// Use conservative 3072 character limit; API auto-truncates at token boundary
+const MAX_INPUT_CHARACTERS = 3072
+
+// Vertex caps a predict request at 250 instances and 20k input tokens; stay under both
+const MAX_BATCH_INSTANCES = Math.min(
+  Number.parseInt(process.env['VERTEX_EMBEDDING_BATCH_SIZE'] || '250', 10) || 250,
+  250
+)
+const MAX_BATCH_TOKENS = Math.min(
+  Number.parseInt(process.env['VERTEX_EMBEDDING_BATCH_TOKENS'] || '16000', 10) || 16000,
+  20000
+)
+
+// Passages are indexed as documents; free-text searches are embedded as queries
+type VertexTaskType = 'RETRIEVAL_DOCUMENT' | 'RETRIEVAL_QUERY'
+
+interface PreparedInput {
+  index: number
+  content: string
+  estimatedTokens: number
+}
+
+function cleanEmbeddingText(text: string): string {
+  return text.replace(/\n/g, ' ').trim().substring(0, MAX_INPUT_CHARACTERS)
+}
+
+function getStatusCode(error: unknown): number | undefined {
+  return error instanceof Error && 'status' in error ? (error as { status: number }).status : undefined
+}
+
+function toFriendlyVertexError(error: unknown): Error {
+  const statusCode = getStatusCode(error)
+
+  if (statusCode === 403) {
+    return new Error('Vertex AI API not enabled. Enable it at: https://console.cloud.google.com/apis/library/aiplatform.googleapis.com')
+  } else if (statusCode === 401) {
+    return new Error('Invalid Google Cloud credentials. Check your service account.')
+  } else if (statusCode === 404) {
+    return new Error('Vertex AI model not found. The model may not be available in your region or project.')
+  } else if (statusCode === 429) {
+    return new Error('Vertex AI rate limit exceeded. Please try again in a few minutes.')
+  }
+
+  return new Error(`Failed to generate Vertex embeddings: ${error instanceof Error ? error.message : 'Unknown error'}`)
+}
+
+async function requestVertexEmbeddings(
+  contents: string[],
+  taskType: VertexTaskType = 'RETRIEVAL_DOCUMENT'
+): Promise<Array<number[] | undefined>> {
+  // Create fresh GoogleAuth client per request to prevent state corruption
+  const clientOptions = getGoogleClientOptions()
+  const auth = new GoogleAuth({
+    ...clientOptions,
+    scopes: ['https://www.googleapis.com/auth/cloud-platform'],
+  })
+
+  const client = await auth.getClient()
+  const projectId = process.env['GOOGLE_CLOUD_PROJECT_ID']!
+
+  // Use text-embedding-005 model (768 dimensions, specialized for English and code)
+  const url = `https://us-central1-aiplatform.googleapis.com/v1/projects/${projectId}/locations/us-central1/publishers/google/models/text-embedding-005:predict`
+
+  const response = await client.request({
+    url,
+    method: 'POST',
+    data: {
+      instances: contents.map(content => ({
+        content,
+        task_type: taskType
+      }))
+    }
+  })
+
+  const predictions = (response.data as VertexAIEmbeddingResponse)?.predictions ?? []
+  return contents.map((_, index) => {
+    const values = predictions[index]?.embeddings?.values
+    return Array.isArray(values) ? values : undefined
+  })
+}
+
+async function generateSingleVertexEmbedding(text: string, taskType: VertexTaskType): Promise<number[]> {
   try {
-    const cleanedText = text.replace(/\n/g, ' ').trim()
-    // text-embedding-005 has 2048 token limit (tokens ≈ characters/4 for English)
-    // Use conservative 3072 character limit; API auto-truncates at token boundary
-    const truncatedText = cleanedText.substring(0, 3072)
+    const truncatedText = cleanEmbeddingText(text)
 
     if (!truncatedText) {
       throw new Error('Text is empty after cleaning')
     }
 
-    logger.info('Generating Vertex AI embeddings', { textLength: truncatedText.length })
-
-    // Create fresh GoogleAuth client per request to prevent state corruption
-    const clientOptions = getGoogleClientOptions()
-    const auth = new GoogleAuth({
-      ...clientOptions,
-      scopes: ['https://www.googleapis.com/auth/cloud-platform'],
-    })
+    logger.info('Generating Vertex AI embeddings', { textLength: truncatedText.length, taskType })
 
-    const client = await auth.getClient()
-    const projectId = process.env['GOOGLE_CLOUD_PROJECT_ID']!
-
-    // Use text-embedding-005 model (768 dimensions, specialized for English and code)
-    const url = `https://us-central1-aiplatform.googleapis.com/v1/projects/${projectId}/locations/us-central1/publishers/google/models/text-embedding-005:predict`
-
-    const response = await client.request({
-      url,
-      method: 'POST',
-      data: {
-        instances: [
-          {
-            content: truncatedText,
-            task_type: 'RETRIEVAL_DOCUMENT'
-          }
-        ]
-      }
-    })
+    const [embeddings] = await requestVertexEmbeddings([truncatedText], taskType)
 
-    const embeddings = (response.data as VertexAIEmbeddingResponse)?.predictions?.[0]?.embeddings?.values
-
-    if (!embeddings || !Array.isArray(embeddings)) {
+    if (!embeddings) {
       throw new Error('No embeddings returned from Vertex AI')
     }
 
     return embeddings
   } catch (error: unknown) {
-    const statusCode = error instanceof Error && 'status' in error ? (error as { status: number }).status : undefined
-    logger.error('Error generating Vertex AI embeddings', error as Error, { statusCode })
-
-    
-    if (statusCode === 403) {
-      throw new Error('Vertex AI API not enabled. Enable it at: https://console.cloud.google.com/apis/library/aiplatform.googleapis.com')
-    } else if (statusCode === 401) {
-      throw new Error('Invalid Google Cloud credentials. Check your service account.')
-    } else if (statusCode === 404) {
-      throw new Error('Vertex AI model not found. The model may not be available in your region or project.')
-    } else if (statusCode === 429) {
-      throw new Error('Vertex AI rate limit exceeded. Please try again in a few minutes.')
+    logger.error('Error generating Vertex AI embeddings', error as Error, { statusCode: getStatusCode(error) })
+    throw toFriendlyVertexError(error)
+  }
+}
+
+export async function generateVertexEmbeddings(text: string): Promise<number[]> {
+  return generateSingleVertexEmbedding(text, 'RETRIEVAL_DOCUMENT')
+}
+
+export async function generateVertexQueryEmbedding(query: string): Promise<number[]> {
+  return generateSingleVertexEmbedding(query, 'RETRIEVAL_QUERY')
+}
+
+/**
+ * Pack inputs into as few predict requests as the instance and token limits allow
+ */
+function packIntoRequests(inputs: PreparedInput[]): PreparedInput[][] {
+  const requests: PreparedInput[][] = []
+  let current: PreparedInput[] = []
+  let currentTokens = 0
+
+  for (const input of inputs) {
+    const exceedsLimits = current.length >= MAX_BATCH_INSTANCES ||
+      currentTokens + input.estimatedTokens > MAX_BATCH_TOKENS
+
+    if (current.length > 0 && exceedsLimits) {
+      requests.push(current)
+      current = []
+      currentTokens = 0
     }
-    
-    throw new Error(`Failed to generate Vertex embeddings: ${error instanceof Error ? error.message : 'Unknown error'}`)
+
+    current.push(input)
+    currentTokens += input.estimatedTokens
+  }
+
+  if (current.length > 0) {
+    requests.push(current)
+  }
+
+  return requests
+}
+
+/**
+ * Send one packed request, writing a result or error for every input into outcomes
+ * Vertex rejects a whole request with 400 when a single instance is invalid, so those
+ * requests are bisected until the offending inputs are isolated
+ */
+async function embedPackedRequest(inputs: PreparedInput[], outcomes: EmbeddingOutcome[]): Promise<void> {
+  const retryResult = await SmartRetry.execute(
+    () => requestVertexEmbeddings(inputs.map(input => input.content)),
+    RetryConfigs.vertexEmbeddings
+  )
+
+  if (retryResult.success) {
+    retryResult.result!.forEach((embedding, position) => {
+      const input = inputs[position]!
+      outcomes[input.index] = embedding
+        ? { embedding }
+        : { error: new Error('No embeddings returned from Vertex AI') }
+    })
+    return
+  }
+
+  if (getStatusCode(retryResult.error) === 400 && inputs.length > 1) {
+    const middle = Math.ceil(inputs.length / 2)
+    await embedPackedRequest(inputs.slice(0, middle), outcomes)
+    await embedPackedRequest(inputs.slice(middle), outcomes)
+    return
+  }
+
+  logger.error('Error generating batched Vertex AI embeddings', retryResult.error, {
+    statusCode: getStatusCode(retryResult.error),
+    instanceCount: inputs.length
+  })
+  // A 400 here is a single invalid input; anything else failed the request itself
+  const friendlyError = toFriendlyVertexError(retryResult.error)
+  const error = getStatusCode(retryResult.error) === 400
+    ? friendlyError
+    : new EmbeddingRequestError(friendlyError.message)
+  for (const input of inputs) {
+    outcomes[input.index] = { error }
   }
 }
 
-// Main embedding function using Vertex AI
-export async function generateEmbeddings(text: string): Promise<number[]> {
-  return await generateVertexEmbeddings(text)
-}
\ No newline at end of file
+/**
+ * Embed many texts with as few HTTP round-trips as possible
+ * The returned array is aligned with texts; failures are reported per input instead of thrown
+ */
+export async function generateVertexEmbeddingsBatch(texts: string[]): Promise<EmbeddingOutcome[]> {
+  const outcomes: EmbeddingOutcome[] = new Array(texts.length)
+  const inputs: PreparedInput[] = []
+
+  texts.forEach((text, index) => {
+    const content = cleanEmbeddingText(text)
+    if (!content) {
+      outcomes[index] = { error: new Error('Text is empty after cleaning') }
+      return
+    }
+    inputs.push({ index, content, estimatedTokens: Math.ceil(content.length / 4) })
+  })
+
+  const requests = packIntoRequests(inputs)
+  logger.info('Generating batched Vertex AI embeddings', {
+    inputCount: texts.length,
+    requestCount: requests.length
+  })
+
+  for (const request of requests) {
+    await embedPackedRequest(request, outcomes)
+  }
+
+  return outcomes
+}
@@ -0,0 +1,173 @@
+/**
+ * Persistent content-hash embedding cache
+ * Chunks are keyed by SHA-256 of their whitespace-normalized text plus the embedding model,
+ * so boilerplate repeated across uploads is embedded once per model
+ */
+
+import { createHash } from 'crypto'
+import { createServiceClient, releaseServiceClient } from '@/lib/supabase/server'
+import { logger } from '@/lib/logger'
+import type { EmbeddingOutcome, EmbeddingProvider } from './types'
+
+export interface CachedEmbeddingBatch {
+  outcomes: EmbeddingOutcome[]
+  cacheHits: number
+  cacheLookups: number
+}
+
+function isCacheEnabled(): boolean {
+  return process.env['EMBEDDING_CACHE_ENABLED'] !== 'false'
+}
+
+/**
+ * Normalization must stay stable - changing it invalidates every cached entry
+ */
+export function hashChunkText(text: string): string {
+  const normalized = text.normalize('NFKC').replace(/\s+/g, ' ').trim()
+  return createHash('sha256').update(normalized).digest('hex')
+}
+
+function parseStoredEmbedding(value: unknown): number[] | null {
+  let parsed = value
+  if (typeof parsed === 'string') {
+    try {
+      parsed = JSON.parse(parsed)
+    } catch {
+      return null
+    }
+  }
+  return Array.isArray(parsed) && parsed.every(component => typeof component === 'number')
+    ? parsed as number[]
+    : null
+}
+
+async function lookupCachedEmbeddings(model: string, hashes: string[]): Promise<Map<string, number[]>> {
+  const cached = new Map<string, number[]>()
+  const supabase = await createServiceClient()
+
+  try {
+    const { data, error } = await supabase
+      .from('embedding_cache')
+      .select('content_hash, embedding')
+      .eq('embedding_model', model)
+      .in('content_hash', hashes)
+
+    if (error) {
+      throw error
+    }
+
+    for (const row of (data ?? []) as Array<{ content_hash: string; embedding: unknown }>) {
+      const embedding = parseStoredEmbedding(row.embedding)
+      if (embedding) {
+        cached.set(row.content_hash, embedding)
+      }
+    }
+
+    if (cached.size > 0) {
+      const { error: touchError } = await supabase.rpc('touch_embedding_cache', {
+        p_embedding_model: model,
+        p_content_hashes: Array.from(cached.keys())
+      })
+      if (touchError) {
+        logger.debug('Failed to record embedding cache hits', { error: touchError.message, component: 'embedding-cache' })
+      }
+    }
+  } finally {
+    releaseServiceClient(supabase)
+  }
+
+  return cached
+}
+
+async function storeCachedEmbeddings(model: string, entries: Map<string, number[]>): Promise<void> {
+  const supabase = await createServiceClient()
+
+  try {
+    const { error } = await supabase
+      .from('embedding_cache')
+      .upsert(
+        Array.from(entries, ([contentHash, embedding]) => ({
+          content_hash: contentHash,
+          embedding_model: model,
+          embedding
+        })),
+        { onConflict: 'content_hash,embedding_model', ignoreDuplicates: true }
+      )
+
+    if (error) {
+      throw error
+    }
+  } finally {
+    releaseServiceClient(supabase)
+  }
+}
+
+/**
+ * Embed texts through the cache: hits are served from the database, misses go to the provider
+ * Cache failures never fail embedding - they only cost a provider call
+ */
+export async function embedBatchWithCache(
+  provider: EmbeddingProvider,
+  texts: string[]
+): Promise<CachedEmbeddingBatch> {
+  if (!isCacheEnabled() || texts.length === 0) {
+    return { outcomes: await provider.embedBatch(texts), cacheHits: 0, cacheLookups: 0 }
+  }
+
+  const hashes = texts.map(hashChunkText)
+
+  let cached = new Map<string, number[]>()
+  try {
+    cached = await lookupCachedEmbeddings(provider.model, Array.from(new Set(hashes)))
+  } catch (error) {
+    logger.warn('Embedding cache lookup failed, embedding without cache', {
+      embeddingModel: provider.model,
+      error: error instanceof Error ? error.message : String(error),
+      component: 'embedding-cache'
+    })
+  }
+
+  const outcomes: EmbeddingOutcome[] = new Array(texts.length)
+  const missIndexes: number[] = []
+
+  hashes.forEach((hash, index) => {
+    const embedding = cached.get(hash)
+    if (embedding) {
+      outcomes[index] = { embedding }
+    } else {
+      missIndexes.push(index)
+    }
+  })
+
+  if (missIndexes.length > 0) {
+    const providerOutcomes = await provider.embedBatch(missIndexes.map(index => texts[index]!))
+    const fresh = new Map<string, number[]>()
+
+    missIndexes.forEach((textIndex, position) => {
+      const outcome = providerOutcomes[position] ?? { error: new Error('No embedding returned for chunk') }
+      outcomes[textIndex] = outcome
+      if ('embedding' in outcome) {
+        fresh.set(hashes[textIndex]!, outcome.embedding)
+      }
+    })
+
+    if (fresh.size > 0) {
+      try {
+        await storeCachedEmbeddings(provider.model, fresh)
+      } catch (error) {
+        logger.warn('Failed to store embeddings in cache', {
+          embeddingModel: provider.model,
+          entries: fresh.size,
+          error: error instanceof Error ? error.message : String(error),
+          component: 'embedding-cache'
+        })
+      }
+    }
+  }
+
+  return {
+    outcomes,
+    cacheHits: texts.length - missIndexes.length,
+    cacheLookups: texts.length
+  }
+}
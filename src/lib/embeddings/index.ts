@@ -0,0 +1,80 @@
+/**
+ * Embedding provider registry
+ *
+ * documents.embedding_model decides which provider embeds a document at ingest and
+ * which vectors it may be compared against at query time. New uploads use EMBEDDING_MODEL
+ * (default text-embedding-005).
+ */
+
+import {
+  generateVertexEmbeddings,
+  generateVertexEmbeddingsBatch,
+  generateVertexQueryEmbedding
+} from '@/lib/embeddings-vertex'
+import { localHashEmbeddingProvider } from './local-hash-provider'
+import type { EmbeddingProvider } from './types'
+
+export type { EmbeddingOutcome, EmbeddingProvider } from './types'
+export { EmbeddingRequestError } from './types'
+export { LOCAL_HASH_MODEL } from './local-hash-provider'
+
+export const DEFAULT_EMBEDDING_MODEL = 'text-embedding-005'
+
+const vertexEmbeddingProvider: EmbeddingProvider = {
+  model: DEFAULT_EMBEDDING_MODEL,
+  dimensions: 768,
+  embed: generateVertexEmbeddings,
+  embedQuery: generateVertexQueryEmbedding,
+  embedBatch: generateVertexEmbeddingsBatch
+}
+
+const providers = new Map<string, EmbeddingProvider>([
+  [vertexEmbeddingProvider.model, vertexEmbeddingProvider],
+  [localHashEmbeddingProvider.model, localHashEmbeddingProvider]
+])
+
+export function listEmbeddingModels(): string[] {
+  return Array.from(providers.keys())
+}
+
+export function isRegisteredEmbeddingModel(model: string): boolean {
+  return providers.has(model)
+}
+
+/**
+ * Model assigned to newly uploaded documents
+ */
+export function getDefaultEmbeddingModel(): string {
+  const configured = process.env['EMBEDDING_MODEL']?.trim()
+  if (!configured) {
+    return DEFAULT_EMBEDDING_MODEL
+  }
+
+  if (!providers.has(configured)) {
+    throw new Error(`EMBEDDING_MODEL "${configured}" is not registered (available: ${listEmbeddingModels().join(', ')})`)
+  }
+
+  return configured
+}
+
+/**
+ * Normalize a stored embedding_model value; rows written before the column existed are null
+ */
+export function resolveEmbeddingModel(model: string | null | undefined): string {
+  return model && model.trim() ? model.trim() : DEFAULT_EMBEDDING_MODEL
+}
+
+/**
+ * Look up the provider for a stored model name
+ * Throws rather than silently embedding with a different model, which would corrupt similarity scores
+ */
+export function getEmbeddingProvider(model?: string | null): EmbeddingProvider {
+  const resolved = resolveEmbeddingModel(model)
+  const provider = providers.get(resolved)
+
+  if (!provider) {
+    throw new Error(`No embedding provider registered for model "${resolved}" (available: ${listEmbeddingModels().join(', ')})`)
+  }
+
+  return provider
+}
@@ -0,0 +1,80 @@
+/**
+ * Deterministic local embedder based on feature hashing
+ * Word unigrams and bigrams are hashed into a fixed-size signed vector - no model download,
+ * no network access, identical output on every machine. Lexical only, so it is meant for
+ * CI and offline development rather than production similarity quality.
+ */
+
+import type { EmbeddingOutcome, EmbeddingProvider } from './types'
+
+export const LOCAL_HASH_MODEL = 'local-hash-768'
+
+// Matches the Vertex dimensionality so vectors fit the existing vector(768) columns and Qdrant collection
+const DIMENSIONS = 768
+
+/**
+ * 32-bit FNV-1a hash
+ */
+function fnv1a(value: string): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(token => token.length > 1)
+}
+
+async function embedWithHashing(text: string): Promise<number[]> {
+  const tokens = tokenize(text)
+
+  if (tokens.length === 0) {
+    throw new Error('Text is empty after cleaning')
+  }
+
+  const counts = new Map<string, number>()
+  for (let i = 0; i < tokens.length; i++) {
+    const unigram = tokens[i]!
+    counts.set(unigram, (counts.get(unigram) ?? 0) + 1)
+
+    const next = tokens[i + 1]
+    if (next) {
+      const bigram = `${unigram} ${next}`
+      counts.set(bigram, (counts.get(bigram) ?? 0) + 1)
+    }
+  }
+
+  const vector = new Array<number>(DIMENSIONS).fill(0)
+  for (const [feature, count] of counts) {
+    const hash = fnv1a(feature)
+    const sign = (hash & 0x80000000) === 0 ? 1 : -1
+    vector[hash % DIMENSIONS]! += sign * (1 + Math.log(count))
+  }
+
+  const magnitude = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0))
+  return magnitude === 0 ? vector : vector.map(value => value / magnitude)
+}
+
+async function embedBatchWithHashing(texts: string[]): Promise<EmbeddingOutcome[]> {
+  return Promise.all(texts.map(async text => {
+    try {
+      return { embedding: await embedWithHashing(text) }
+    } catch (error) {
+      return { error: error instanceof Error ? error : new Error(String(error)) }
+    }
+  }))
+}
+
+export const localHashEmbeddingProvider: EmbeddingProvider = {
+  model: LOCAL_HASH_MODEL,
+  dimensions: DIMENSIONS,
+  embed: embedWithHashing,
+  embedQuery: embedWithHashing,
+  embedBatch: embedBatchWithHashing
+}
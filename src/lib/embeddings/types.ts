@@ -0,0 +1,30 @@
+/**
+ * Type definitions for pluggable embedding providers
+ * Providers are keyed by the model name stored in documents.embedding_model
+ */
+
+/**
+ * Per-input result of a batch call, so one bad chunk does not fail its neighbours
+ */
+export type EmbeddingOutcome = { embedding: number[] } | { error: Error }
+
+/**
+ * A provider request failed as a whole (network, auth, quota) rather than on one input
+ * Only these count against the provider's circuit breaker.
+ */
+export class EmbeddingRequestError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'EmbeddingRequestError'
+  }
+}
+
+export interface EmbeddingProvider {
+  readonly model: string
+  readonly dimensions: number
+  embed(text: string): Promise<number[]>
+  // Embeds a search query; asymmetric models encode queries differently from passages
+  embedQuery(text: string): Promise<number[]>
+  // Result array is aligned with texts
+  embedBatch(texts: string[]): Promise<EmbeddingOutcome[]>
+}
@@ -0,0 +1,626 @@
+/**
+ * Google Document AI OCR provider
+ * Sync-first processing with automatic fallback to page-chunked requests for large PDFs
+ */
+
+import { DocumentProcessorServiceClient } from '@google-cloud/documentai'
+import { PDFDocument } from 'pdf-lib'
+import { detectOptimalProcessor, getProcessorId, getProcessorName } from '@/lib/document-ai-config'
+import { getGoogleClientOptions } from '@/lib/google-credentials'
+import { SmartRetry, RetryConfigs, circuitBreakers } from '@/lib/retry-logic'
+import { logger } from '@/lib/logger'
+import { saveDocumentAIResponse } from '@/lib/debug-document-ai'
+import type { Paragraph, ParagraphBoundingBox } from '@/lib/chunking/paragraph-chunker'
+import type {
+  DocumentAIDocument,
+  DocumentAIPage,
+  DocumentAITextAnchor,
+  DocumentAIBoundingBox,
+  ExtractedField,
+  SimplifiedEntity,
+  SimplifiedTable
+} from '@/types/external-apis'
+import type { OcrInput, OcrProvider, OcrResult, PageText, ProcessedDocumentData, StructuredDocumentData } from './types'
+
+type DocumentAIKeyValuePair = {
+  key?: {
+    textAnchor?: DocumentAITextAnchor
+    confidence?: number
+  }
+  value?: {
+    textAnchor?: DocumentAITextAnchor
+  }
+}
+
+type DocumentAIPageWithKeyValues = DocumentAIPage & {
+  keyValuePairs?: DocumentAIKeyValuePair[]
+}
+
+function extractStructuredFields(document: DocumentAIDocument, pageOffset: number = 0): StructuredDocumentData {
+  const fields: ExtractedField[] = []
+  const entities: SimplifiedEntity[] = []
+  const tables: SimplifiedTable[] = []
+
+  const fullText = document.text || ''
+
+  if (document.entities) {
+    for (const entity of document.entities) {
+      if (entity.type && entity.mentionText) {
+        const pageNumber = getPageNumber(entity.pageAnchor)
+        const adjustedPageNumber = pageNumber !== null ? pageNumber + pageOffset : undefined
+        const boundingBox = getBoundingBox(entity.pageAnchor)
+
+        fields.push({
+          name: entity.type,
+          value: entity.mentionText,
+          type: getFieldType(entity.type),
+          confidence: entity.confidence || 0,
+          pageNumber: adjustedPageNumber,
+          boundingBox: boundingBox ?? undefined,
+        })
+
+        entities.push({
+          type: entity.type,
+          value: entity.mentionText,
+          confidence: entity.confidence,
+          pageNumber: adjustedPageNumber,
+        })
+      }
+    }
+  }
+
+  if (document.pages) {
+    for (const page of document.pages) {
+      const pageNumber = page.pageNumber || 1
+      const adjustedPageNumber = pageNumber + pageOffset
+
+      if (page.formFields) {
+        for (const field of page.formFields) {
+          const fieldName = getTextFromTextAnchor(fullText, field.fieldName?.textAnchor)
+          const fieldValue = getTextFromTextAnchor(fullText, field.fieldValue?.textAnchor)
+
+          if (fieldName && fieldValue) {
+            fields.push({
+              name: fieldName.trim(),
+              value: fieldValue.trim(),
+              type: 'text',
+              confidence: field.fieldName?.confidence || 0,
+              pageNumber: adjustedPageNumber,
+            })
+          }
+        }
+      }
+
+      const pageWithKeyValues = page as DocumentAIPageWithKeyValues
+      if (Array.isArray(pageWithKeyValues.keyValuePairs)) {
+        for (const kvp of pageWithKeyValues.keyValuePairs) {
+          const keyText = getTextFromTextAnchor(fullText, kvp.key?.textAnchor)
+          const valueText = getTextFromTextAnchor(fullText, kvp.value?.textAnchor)
+
+          if (keyText && valueText) {
+            fields.push({
+              name: keyText.trim(),
+              value: valueText.trim(),
+              type: 'text',
+              confidence: kvp.key?.confidence || 0,
+              pageNumber: adjustedPageNumber,
+            })
+          }
+        }
+      }
+
+      if (page.tables) {
+        for (const table of page.tables) {
+          const headerRows = (table.headerRows || [])
+            .map(row => (row.cells || [])
+              .map(cell => getTextFromTextAnchor(fullText, cell.layout?.textAnchor))
+              .filter((cellText): cellText is string => !!cellText && cellText.trim().length > 0)
+              .map(cellText => cellText.trim()))
+            .filter(row => row.length > 0)
+
+          const bodyRows = (table.bodyRows || [])
+            .map(row => (row.cells || [])
+              .map(cell => getTextFromTextAnchor(fullText, cell.layout?.textAnchor))
+              .filter((cellText): cellText is string => !!cellText && cellText.trim().length > 0)
+              .map(cellText => cellText.trim()))
+            .filter(row => row.length > 0)
+
+          if (bodyRows.length > 0) {
+            tables.push({
+              pageNumber: adjustedPageNumber,
+              headerRows: headerRows.length > 0 ? headerRows : undefined,
+              bodyRows,
+            })
+          }
+        }
+      }
+    }
+  }
+
+  return {
+    fields,
+    entities,
+    tables,
+  }
+}
+
+function getFieldType(entityType: string): 'text' | 'number' | 'date' | 'currency' | 'address' | 'phone' | 'email' | 'url' | 'boolean' {
+  const type = entityType.toLowerCase()
+  if (type.includes('date') || type.includes('time')) return 'date'
+  if (type.includes('number') || type.includes('amount') || type.includes('price')) return 'number'
+  if (type.includes('currency') || type.includes('money') || type.includes('dollar')) return 'currency'
+  if (type.includes('address')) return 'address'
+  if (type.includes('phone') || type.includes('tel')) return 'phone'
+  if (type.includes('email') || type.includes('mail')) return 'email'
+  if (type.includes('url') || type.includes('link') || type.includes('website')) return 'url'
+  if (type.includes('checkbox') || type.includes('bool')) return 'boolean'
+  return 'text'
+}
+
+function getPageNumber(pageAnchor: { pageRefs?: Array<{ page?: string | number }> } | undefined): number | null {
+  const pageValue = pageAnchor?.pageRefs?.[0]?.page
+  if (pageValue !== undefined && pageValue !== null) {
+    if (typeof pageValue === 'number') {
+      return pageValue + 1
+    }
+    if (typeof pageValue === 'string') {
+      const parsed = Number.parseInt(pageValue, 10)
+      if (!Number.isNaN(parsed)) {
+        return parsed + 1
+      }
+    }
+  }
+  return null
+}
+
+function getBoundingBox(pageAnchor: { pageRefs?: Array<{ boundingPoly?: DocumentAIBoundingBox }> } | undefined): DocumentAIBoundingBox | null {
+  if (pageAnchor?.pageRefs?.[0]?.boundingPoly) {
+    return pageAnchor.pageRefs[0].boundingPoly
+  }
+  return null
+}
+
+/**
+ * Normalize a layout polygon to a page-relative box
+ * Prefers normalizedVertices; pixel vertices are scaled by the page dimension.
+ */
+function toParagraphBoundingBox(
+  poly: DocumentAIBoundingBox | undefined,
+  dimension: DocumentAIPage['dimension']
+): ParagraphBoundingBox | undefined {
+  let points = poly?.normalizedVertices ?? []
+  if (points.length === 0 && poly?.vertices?.length && dimension?.width && dimension?.height) {
+    const { width, height } = dimension
+    points = poly.vertices.map(vertex => ({ x: (vertex.x ?? 0) / width, y: (vertex.y ?? 0) / height }))
+  }
+  if (points.length === 0) {
+    return undefined
+  }
+
+  const xs = points.map(point => Math.min(1, Math.max(0, point.x ?? 0)))
+  const ys = points.map(point => Math.min(1, Math.max(0, point.y ?? 0)))
+  const box = {
+    left: Math.min(...xs),
+    top: Math.min(...ys),
+    right: Math.max(...xs),
+    bottom: Math.max(...ys)
+  }
+  return box.right > box.left && box.bottom > box.top ? box : undefined
+}
+
+function getTextFromTextAnchor(documentText: string, textAnchor: DocumentAITextAnchor | undefined): string | null {
+  if (!textAnchor?.textSegments?.[0]) return null
+  
+  const segment = textAnchor.textSegments[0]
+  const startIndex = parseInt(segment.startIndex || '0')
+  const endIndex = parseInt(segment.endIndex || documentText.length.toString())
+  
+  return documentText.substring(startIndex, endIndex)
+}
+
+// Extract text page by page from Document AI result
+export function extractTextByPages(document: DocumentAIDocument, pageOffset: number = 0): PageText[] {
+  const pagesText: PageText[] = []
+  
+  if (document.pages) {
+    for (let pageIndex = 0; pageIndex < document.pages.length; pageIndex++) {
+      const page = document.pages[pageIndex]
+      if (!page) continue
+      // Use 1-based page numbering: either the explicit pageNumber or the array index + 1
+      const pageNumber = page.pageNumber || (pageIndex + 1)
+      const adjustedPageNumber = pageNumber + pageOffset
+      
+      logger.debug('Processing document page', { 
+        pageIndex: pageIndex + 1, 
+        documentAIPageNumber: page.pageNumber, 
+        assignedPageNumber: adjustedPageNumber,
+        component: 'document-processing'
+      })
+      
+      // Extract text for this specific page using text anchors
+      let pageText = ''
+      
+      if (page.paragraphs) {
+        for (const paragraph of page.paragraphs) {
+          if (paragraph.layout?.textAnchor) {
+            const paragraphText = getTextFromTextAnchor(document.text || '', paragraph.layout.textAnchor)
+            if (paragraphText) {
+              pageText += paragraphText + '\n'
+            }
+          }
+        }
+      }
+      
+      // Fallback: if no paragraphs, try to extract from lines
+      if (!pageText && page.lines) {
+        for (const line of page.lines) {
+          if (line.layout?.textAnchor) {
+            const lineText = getTextFromTextAnchor(document.text || '', line.layout.textAnchor)
+            if (lineText) {
+              pageText += lineText + '\n'
+            }
+          }
+        }
+      }
+      
+      if (pageText.trim()) {
+        pagesText.push({
+          text: pageText.trim(),
+          pageNumber: adjustedPageNumber
+        })
+      }
+    }
+  }
+  
+  // Fallback: if no pages structure, treat entire text as page 1
+  if (pagesText.length === 0 && document.text) {
+    pagesText.push({
+      text: document.text,
+      pageNumber: pageOffset + 1
+    })
+  }
+  
+  return pagesText
+}
+
+/**
+ * Extract paragraphs from Document AI response for paragraph-based chunking
+ * Returns array of paragraphs with their text, page number, and index
+ */
+export function extractParagraphsFromDocument(document: DocumentAIDocument, pageOffset: number = 0): Paragraph[] {
+  const paragraphs: Paragraph[] = []
+  let globalIndex = 0
+
+  if (document.pages) {
+    for (let pageIndex = 0; pageIndex < document.pages.length; pageIndex++) {
+      const page = document.pages[pageIndex]
+      if (!page) continue
+
+      const pageNumber = (page.pageNumber || (pageIndex + 1)) + pageOffset
+
+      if (page.paragraphs) {
+        for (const paragraph of page.paragraphs) {
+          if (paragraph.layout?.textAnchor) {
+            const paragraphText = getTextFromTextAnchor(document.text || '', paragraph.layout.textAnchor)
+            if (paragraphText && paragraphText.trim()) {
+              const boundingBox = toParagraphBoundingBox(paragraph.layout.boundingPoly, page.dimension)
+              paragraphs.push({
+                text: paragraphText,
+                pageNumber: pageNumber,
+                index: globalIndex++,
+                ...(boundingBox ? { boundingBox } : {})
+              })
+            }
+          }
+        }
+      }
+    }
+  }
+
+  return paragraphs
+}
+
+function buildProcessedDocumentData(document: DocumentAIDocument, pageOffset: number = 0): ProcessedDocumentData {
+  const structuredData = extractStructuredFields(document, pageOffset)
+  const pagesText = extractTextByPages(document, pageOffset)
+  const paragraphs = extractParagraphsFromDocument(document, pageOffset)
+
+  return {
+    extractedText: document.text || '',
+    structuredData,
+    pageCount: document.pages ? document.pages.length : 0,
+    pagesText,
+    paragraphs
+  }
+}
+
+async function processDocumentInChunks(
+  pdfArrayBuffer: ArrayBuffer,
+  processorId: string,
+  processorName: string,
+  processorType: string,
+  documentId: string,
+  client: DocumentProcessorServiceClient
+): Promise<ProcessedDocumentData> {
+  const pdfDoc = await PDFDocument.load(pdfArrayBuffer)
+  const totalPages = pdfDoc.getPageCount()
+
+  const configuredLimit = parseInt(process.env['DOCUMENT_AI_SYNC_PAGE_LIMIT'] || '15', 10)
+  // Google Document AI OCR processors cap synchronous requests at 15 pages; keep chunks within that hard limit
+  const maxPagesPerChunk = Number.isFinite(configuredLimit) && configuredLimit > 0 ? Math.min(configuredLimit, 15) : 15
+
+  logger.info('Processing document with chunked strategy', {
+    documentId,
+    totalPages,
+    maxPagesPerChunk
+  })
+
+  const aggregatedTextParts: string[] = []
+  const aggregatedFields: ExtractedField[] = []
+  const aggregatedEntities: SimplifiedEntity[] = []
+  const aggregatedTables: SimplifiedTable[] = []
+  const aggregatedPagesText: PageText[] = []
+  const aggregatedParagraphs: Paragraph[] = []
+  let totalPageCount = 0
+
+  for (let start = 0; start < totalPages; start += maxPagesPerChunk) {
+    const end = Math.min(totalPages, start + maxPagesPerChunk)
+    const pageIndices = Array.from({ length: end - start }, (_, index) => start + index)
+
+    logger.debug('Creating chunk for Document AI processing', {
+      documentId,
+      chunkStartPage: start + 1,
+      chunkEndPage: end
+    })
+
+    const chunkDoc = await PDFDocument.create()
+    const copiedPages = await chunkDoc.copyPages(pdfDoc, pageIndices)
+    copiedPages.forEach(page => chunkDoc.addPage(page))
+
+    const chunkBytes = await chunkDoc.save()
+    const chunkBase64 = Buffer.from(chunkBytes).toString('base64')
+
+    const chunkRequest = {
+      name: processorName,
+      rawDocument: {
+        content: chunkBase64,
+        mimeType: 'application/pdf'
+      }
+    }
+
+    const chunkResult = await circuitBreakers.documentAI.execute(async () => {
+      return await SmartRetry.execute(
+        async () => {
+          logger.debug('Attempting Document AI chunk processing', {
+            documentId,
+            processor: processorType,
+            processorId,
+            chunkStartPage: start + 1,
+            chunkEndPage: end
+          })
+          const response = await client.processDocument(chunkRequest)
+          return Array.isArray(response) ? response[0] : response
+        },
+        RetryConfigs.documentAI
+      )
+    })
+
+    if (!chunkResult.success) {
+      throw chunkResult.error
+    }
+
+    const chunkDocument = chunkResult.result!.document
+
+    if (!chunkDocument) {
+      throw new Error('No document returned from Document AI chunk')
+    }
+
+    // Save raw Document AI chunk output for analysis (non-blocking) - only if debug flag is enabled
+    if (process.env['DUMP_DOCUMENT_AI'] === '1') {
+      saveDocumentAIResponse(
+        `${documentId}_chunk_${start + 1}-${end}`,
+        chunkDocument as unknown as DocumentAIDocument,
+        {
+          filename: `Chunk ${start + 1}-${end}`,
+          fileSize: chunkBytes.byteLength,
+          pageCount: chunkDocument.pages?.length,
+          processor: processorType
+        }
+      ).catch(error => {
+        logger.warn('Failed to save Document AI chunk debug output', {
+          documentId,
+          chunkStartPage: start + 1,
+          chunkEndPage: end,
+          error: error instanceof Error ? error.message : String(error)
+        })
+      })
+    }
+
+    const chunkData = buildProcessedDocumentData(chunkDocument as unknown as DocumentAIDocument, start)
+
+    if (chunkData.extractedText) {
+      aggregatedTextParts.push(chunkData.extractedText)
+    }
+
+    aggregatedFields.push(...(chunkData.structuredData.fields || []))
+    aggregatedEntities.push(...(chunkData.structuredData.entities || []))
+    aggregatedTables.push(...(chunkData.structuredData.tables || []))
+    aggregatedPagesText.push(...chunkData.pagesText)
+    aggregatedParagraphs.push(...chunkData.paragraphs)
+    totalPageCount += chunkData.pageCount
+  }
+
+  const normalizedParagraphs = aggregatedParagraphs.map((paragraph, index) => ({
+    ...paragraph,
+    index
+  }))
+
+  return {
+    extractedText: aggregatedTextParts.join('\n'),
+    structuredData: {
+      fields: aggregatedFields,
+      entities: aggregatedEntities,
+      tables: aggregatedTables
+    },
+    pageCount: totalPageCount,
+    pagesText: aggregatedPagesText,
+    paragraphs: normalizedParagraphs
+  }
+}
+
+async function extractWithDocumentAI(input: OcrInput): Promise<OcrResult> {
+  const { documentId, pdfArrayBuffer, filename, fileSize, actualPageCount, estimatedPageCount } = input
+
+  // Always try sync processing first - let Document AI tell us if it's too large
+  const client = new DocumentProcessorServiceClient(getGoogleClientOptions())
+  const fileSizeMB = fileSize / (1024 * 1024)
+  logger.info('Starting Document AI processing', {
+    documentId,
+    fileSizeMB: parseFloat(fileSizeMB.toFixed(1)),
+    strategy: 'sync-first'
+  })
+
+  // Auto-detect optimal processor based on document characteristics
+  const optimalProcessor = detectOptimalProcessor(filename, fileSize)
+  const processorId = getProcessorId(optimalProcessor)
+  const name = getProcessorName(processorId)
+
+  logger.info('Document AI processor selected', {
+    documentId,
+    processor: optimalProcessor,
+    processorId
+  })
+
+  const runChunked = async (): Promise<OcrResult> => {
+    try {
+      const data = await processDocumentInChunks(
+        pdfArrayBuffer,
+        processorId,
+        name,
+        optimalProcessor,
+        documentId,
+        client
+      )
+      return {
+        data,
+        processor: { id: processorId, name, type: `${optimalProcessor}-chunked` },
+        rawDocument: null
+      }
+    } catch (chunkError) {
+      logger.error('Chunked processing fallback failed - document too large', chunkError as Error, { documentId })
+      throw new Error('Document exceeds processing limits. Please try a smaller document.')
+    }
+  }
+
+  const syncPageLimit = Number.parseInt(process.env['DOCUMENT_AI_SYNC_PAGE_LIMIT'] || '15', 10)
+  // Use actual page count if available, otherwise use estimation
+  const pageCount = actualPageCount ?? estimatedPageCount
+  const shouldUseSyncFirst = pageCount <= syncPageLimit
+
+  if (!shouldUseSyncFirst) {
+    logger.info('Skipping sync-first Document AI processing due to page count', {
+      documentId,
+      actualPages: actualPageCount,
+      estimatedPages: estimatedPageCount,
+      pageCountUsed: pageCount,
+      syncPageLimit,
+      reason: actualPageCount !== null ? 'actual-page-count' : 'estimated-page-count'
+    })
+
+    return runChunked()
+  }
+
+  const request = {
+    name,
+    rawDocument: {
+      content: Buffer.from(pdfArrayBuffer).toString('base64'),
+      mimeType: 'application/pdf',
+    },
+  }
+
+  let result
+  try {
+    // Use smart retry with circuit breaker for Document AI processing
+    const retryResult = await circuitBreakers.documentAI.execute(async () => {
+      return await SmartRetry.execute(
+        async () => {
+          logger.debug('Attempting Document AI processing', {
+            documentId,
+            processor: optimalProcessor
+          })
+          const response = await client.processDocument(request)
+          return Array.isArray(response) ? response[0] : response
+        },
+        RetryConfigs.documentAI
+      )
+    })
+
+    if (!retryResult.success) {
+      throw retryResult.error
+    }
+
+    result = retryResult.result!
+    logger.info('Document AI processing completed successfully', {
+      documentId,
+      attempts: retryResult.attempts,
+      totalTime: retryResult.totalTime,
+      processor: optimalProcessor
+    })
+
+    // Save raw Document AI output for analysis (non-blocking) - only if debug flag is enabled
+    if (result.document && process.env['DUMP_DOCUMENT_AI'] === '1') {
+      saveDocumentAIResponse(
+        documentId,
+        result.document as unknown as DocumentAIDocument,
+        {
+          filename,
+          fileSize,
+          pageCount: result.document.pages?.length,
+          processor: optimalProcessor
+        }
+      ).catch(error => {
+        logger.warn('Failed to save Document AI debug output', {
+          documentId,
+          error: error instanceof Error ? error.message : String(error)
+        })
+      })
+    }
+  } catch (error: unknown) {
+    const documentAiError = error as { code?: number; details?: string } | null
+    // Handle page limit errors by processing document in manageable chunks
+    if (
+      documentAiError?.code === 3 &&
+      typeof documentAiError.details === 'string' &&
+      documentAiError.details.includes('exceed the limit')
+    ) {
+      logger.warn('Page limit exceeded, attempting chunked processing fallback', {
+        documentId,
+        errorCode: documentAiError.code !== undefined ? String(documentAiError.code) : undefined,
+        errorDetails: documentAiError.details
+      })
+
+      return runChunked()
+    }
+    // Re-throw other errors
+    logger.error('Document AI processing failed', error as Error, { documentId })
+    throw error
+  }
+
+  if (!result.document) {
+    logger.error('No document returned from Document AI', undefined, { documentId })
+    throw new Error('No document returned from Document AI')
+  }
+
+  const rawDocument = result.document as unknown as DocumentAIDocument
+
+  return {
+    data: buildProcessedDocumentData(rawDocument),
+    processor: { id: processorId, name, type: optimalProcessor },
+    rawDocument
+  }
+}
+
+export const documentAiOcrProvider: OcrProvider = {
+  name: 'document-ai',
+  extract: extractWithDocumentAI
+}
@@ -0,0 +1,76 @@
+/**
+ * OCR provider selection
+ *
+ * OCR_PROVIDER=document-ai  Google Document AI for every document (default)
+ * OCR_PROVIDER=text-layer   Embedded PDF text only, fails on scanned documents
+ * OCR_PROVIDER=auto         Text layer when it covers enough pages, Document AI otherwise
+ */
+
+import { logger } from '@/lib/logger'
+import { documentAiOcrProvider } from './document-ai-provider'
+import { textLayerOcrProvider, MissingTextLayerError } from './text-layer-provider'
+import type { OcrInput, OcrProvider, OcrProviderName, OcrResult } from './types'
+
+export type { OcrInput, OcrProvider, OcrProviderName, OcrResult, ProcessedDocumentData, PageText, StructuredDocumentData } from './types'
+export { extractTextByPages, extractParagraphsFromDocument } from './document-ai-provider'
+
+function getMinTextLayerCoverage(): number {
+  const parsed = Number.parseFloat(process.env['OCR_TEXT_LAYER_MIN_COVERAGE'] || '0.9')
+  return Number.isFinite(parsed) && parsed >= 0 && parsed <= 1 ? parsed : 0.9
+}
+
+/**
+ * Prefer the free text layer, falling back to Document AI for scanned or partially scanned PDFs
+ */
+async function extractWithAutoDetection(input: OcrInput): Promise<OcrResult> {
+  try {
+    const result = await textLayerOcrProvider.extract(input)
+    const { pagesText, pageCount } = result.data
+    const coverage = pageCount > 0 ? pagesText.length / pageCount : 0
+    const minCoverage = getMinTextLayerCoverage()
+
+    if (coverage >= minCoverage) {
+      return result
+    }
+
+    logger.info('Text layer coverage too low, falling back to Document AI', {
+      documentId: input.documentId,
+      coverage: Number(coverage.toFixed(2)),
+      minCoverage,
+      component: 'ocr'
+    })
+  } catch (error) {
+    if (!(error instanceof MissingTextLayerError)) {
+      logger.warn('Text layer extraction failed, falling back to Document AI', {
+        documentId: input.documentId,
+        error: error instanceof Error ? error.message : String(error),
+        component: 'ocr'
+      })
+    }
+  }
+
+  return documentAiOcrProvider.extract(input)
+}
+
+const autoOcrProvider: OcrProvider = {
+  name: 'auto',
+  extract: extractWithAutoDetection
+}
+
+const providers: Record<OcrProviderName, OcrProvider> = {
+  'document-ai': documentAiOcrProvider,
+  'text-layer': textLayerOcrProvider,
+  auto: autoOcrProvider
+}
+
+export function getOcrProvider(): OcrProvider {
+  const configured = (process.env['OCR_PROVIDER'] || 'document-ai').trim().toLowerCase()
+
+  const provider = providers[configured as OcrProviderName]
+  if (!provider) {
+    logger.warn('Unknown OCR_PROVIDER, using Document AI', { configured, component: 'ocr' })
+    return documentAiOcrProvider
+  }
+
+  return provider
+}
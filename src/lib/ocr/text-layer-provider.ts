@@ -0,0 +1,171 @@
+/**
+ * Local PDF text-layer provider
+ * Reads the embedded text of born-digital PDFs with pdfjs - no network calls, no OCR cost
+ * Scanned documents have no text layer and must go through Document AI instead
+ */
+
+import { logger } from '@/lib/logger'
+import type { Paragraph } from '@/lib/chunking/paragraph-chunker'
+import type { OcrInput, OcrProvider, OcrResult, PageText } from './types'
+
+// A vertical gap larger than this multiple of the line height starts a new paragraph
+const PARAGRAPH_GAP_RATIO = 1.5
+
+interface PositionedText {
+  str: string
+  transform: number[]
+  height: number
+  hasEOL: boolean
+}
+
+interface TextLine {
+  text: string
+  y: number
+  height: number
+}
+
+export class MissingTextLayerError extends Error {
+  constructor(documentId: string) {
+    super(`Document ${documentId} has no embedded text layer`)
+    this.name = 'MissingTextLayerError'
+  }
+}
+
+/**
+ * Group pdfjs text items into visual lines
+ * Items are split on explicit end-of-line markers or when the baseline moves
+ */
+function collectLines(items: PositionedText[]): TextLine[] {
+  const lines: TextLine[] = []
+  let current: TextLine | null = null
+
+  for (const item of items) {
+    const y = item.transform[5] ?? 0
+    const height = item.height || Math.abs(item.transform[3] ?? 0)
+
+    if (current && Math.abs(current.y - y) > Math.max(current.height, height) / 2) {
+      lines.push(current)
+      current = null
+    }
+
+    if (!current) {
+      current = { text: '', y, height }
+    }
+
+    current.text += item.str
+    current.height = Math.max(current.height, height)
+
+    if (item.hasEOL) {
+      lines.push(current)
+      current = null
+    }
+  }
+
+  if (current) {
+    lines.push(current)
+  }
+
+  return lines
+    .map(line => ({ ...line, text: line.text.replace(/\s+/g, ' ').trim() }))
+    .filter(line => line.text.length > 0)
+}
+
+/**
+ * Merge consecutive lines into paragraphs using vertical spacing
+ */
+function groupLinesIntoParagraphs(lines: TextLine[]): string[] {
+  const paragraphs: string[] = []
+  let buffer: string[] = []
+  let previous: TextLine | null = null
+
+  for (const line of lines) {
+    if (previous) {
+      const gap = Math.abs(previous.y - line.y)
+      const lineHeight = Math.max(previous.height, line.height, 1)
+      if (gap > lineHeight * PARAGRAPH_GAP_RATIO) {
+        paragraphs.push(buffer.join('\n'))
+        buffer = []
+      }
+    }
+
+    buffer.push(line.text)
+    previous = line
+  }
+
+  if (buffer.length > 0) {
+    paragraphs.push(buffer.join('\n'))
+  }
+
+  return paragraphs
+}
+
+async function extractTextLayer(input: OcrInput): Promise<OcrResult> {
+  const { documentId } = input
+  const { getDocument } = await import('pdfjs-dist/legacy/build/pdf.mjs')
+
+  // pdfjs transfers the buffer it is given, so hand it a copy
+  const loadingTask = getDocument({
+    data: new Uint8Array(input.pdfArrayBuffer.slice(0)),
+    isEvalSupported: false,
+    disableFontFace: true,
+    useSystemFonts: false,
+    verbosity: 0 // Font warnings are irrelevant when only reading text
+  })
+  const pdf = await loadingTask.promise
+  const pageCount = pdf.numPages
+
+  const pagesText: PageText[] = []
+  const paragraphs: Paragraph[] = []
+  let globalIndex = 0
+
+  try {
+    for (let pageNumber = 1; pageNumber <= pageCount; pageNumber++) {
+      const page = await pdf.getPage(pageNumber)
+      const content = await page.getTextContent()
+      const items = content.items.filter((item): item is Extract<typeof item, PositionedText> => 'str' in item)
+      const pageParagraphs = groupLinesIntoParagraphs(collectLines(items))
+      page.cleanup()
+
+      if (pageParagraphs.length === 0) {
+        continue
+      }
+
+      for (const text of pageParagraphs) {
+        paragraphs.push({ text, pageNumber, index: globalIndex++ })
+      }
+
+      pagesText.push({ text: pageParagraphs.join('\n'), pageNumber })
+    }
+  } finally {
+    await loadingTask.destroy()
+  }
+
+  if (pagesText.length === 0) {
+    throw new MissingTextLayerError(documentId)
+  }
+
+  logger.info('Extracted PDF text layer', {
+    documentId,
+    pageCount,
+    pagesWithText: pagesText.length,
+    paragraphCount: paragraphs.length,
+    component: 'ocr-text-layer'
+  })
+
+  return {
+    data: {
+      extractedText: pagesText.map(page => page.text).join('\n'),
+      structuredData: { fields: [], entities: [], tables: [] },
+      pageCount,
+      pagesText,
+      paragraphs
+    },
+    processor: { id: 'pdfjs', name: 'pdfjs-dist text layer', type: 'text-layer' },
+    rawDocument: null
+  }
+}
+
+export const textLayerOcrProvider: OcrProvider = {
+  name: 'text-layer',
+  extract: extractTextLayer
+}
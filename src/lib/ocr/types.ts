@@ -0,0 +1,59 @@
+/**
+ * Type definitions for pluggable OCR / text extraction providers
+ * Every provider returns the same ProcessedDocumentData shape consumed by the embedding pipeline
+ */
+
+import type { Paragraph } from '@/lib/chunking/paragraph-chunker'
+import type {
+  DocumentAIDocument,
+  ExtractedField,
+  SimplifiedEntity,
+  SimplifiedTable
+} from '@/types/external-apis'
+
+export type OcrProviderName = 'document-ai' | 'text-layer' | 'auto'
+
+export interface PageText {
+  text: string
+  pageNumber: number
+}
+
+export interface StructuredDocumentData {
+  fields: ExtractedField[]
+  entities: SimplifiedEntity[]
+  tables: SimplifiedTable[]
+}
+
+export interface ProcessedDocumentData {
+  extractedText: string
+  structuredData: StructuredDocumentData
+  pageCount: number
+  pagesText: PageText[]
+  paragraphs: Paragraph[]
+}
+
+export interface OcrInput {
+  documentId: string
+  pdfArrayBuffer: ArrayBuffer
+  filename: string
+  fileSize: number
+  actualPageCount: number | null  // Page count read from the PDF, null if pdf-lib could not parse it
+  estimatedPageCount: number      // Size-based estimate used when the actual count is unknown
+}
+
+export interface OcrProcessorInfo {
+  id: string
+  name: string
+  type: string
+}
+
+export interface OcrResult {
+  data: ProcessedDocumentData
+  processor: OcrProcessorInfo
+  rawDocument: DocumentAIDocument | null  // Only Document AI sync responses carry a raw document
+}
+
+export interface OcrProvider {
+  readonly name: OcrProviderName
+  extract(input: OcrInput): Promise<OcrResult>
+}
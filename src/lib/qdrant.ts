@@ -25,10 +25,133 @@ function getQdrantClient(): QdrantClient {
 
 export { getQdrantClient }
 
-function getCollectionName(): string {
+const ACTIVE_COLLECTION_TTL_MS = 30000
+
+let activeCollectionCache: { name: string; expiresAt: number } | null = null
+
+/**
+ * Collection configured for this deployment - the corpus lives here until an
+ * embedding migration has been activated
+ */
+export function getBaseCollectionName(): string {
   return process.env['QDRANT_COLLECTION_NAME'] || 'documents'
 }
 
+/**
+ * Collection that queries and new uploads use
+ * Resolves to the target collection of the most recently activated embedding migration
+ */
+export async function getActiveCollectionName(): Promise<string> {
+  if (activeCollectionCache && activeCollectionCache.expiresAt > Date.now()) {
+    return activeCollectionCache.name
+  }
+
+  const supabase = await createServiceClient()
+  try {
+    const { data, error } = await supabase
+      .from('embedding_migrations')
+      .select('target_collection')
+      .eq('status', 'active')
+      .order('activated_at', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    if (error) {
+      // Keep serving the last known collection rather than silently reverting to the base one
+      logger.warn('Failed to resolve active Qdrant collection', { error: error.message })
+      return activeCollectionCache?.name ?? getBaseCollectionName()
+    }
+
+    const name = typeof data?.target_collection === 'string' ? data.target_collection : getBaseCollectionName()
+    activeCollectionCache = { name, expiresAt: Date.now() + ACTIVE_COLLECTION_TTL_MS }
+    return name
+  } finally {
+    releaseServiceClient(supabase)
+  }
+}
+
+export function invalidateActiveCollectionCache(): void {
+  activeCollectionCache = null
+}
+
+/**
+ * Every collection that must stay consistent with Supabase: the active one plus the
+ * target of a running embedding migration
+ */
+async function getLiveCollectionNames(): Promise<string[]> {
+  const activeCollection = await getActiveCollectionName()
+
+  const supabase = await createServiceClient()
+  try {
+    const { data, error } = await supabase
+      .from('embedding_migrations')
+      .select('target_collection')
+      .eq('status', 'running')
+
+    if (error) {
+      logger.warn('Failed to load running embedding migrations', { error: error.message })
+      return [activeCollection]
+    }
+
+    const migrationCollections = (data ?? [])
+      .map(row => row.target_collection)
+      .filter((name): name is string => typeof name === 'string' && name !== activeCollection)
+
+    return [activeCollection, ...migrationCollections]
+  } finally {
+    releaseServiceClient(supabase)
+  }
+}
+
+/**
+ * Create a collection laid out like the one built by scripts/init-qdrant-collection.ts
+ */
+export async function createQdrantCollection(collectionName: string, dimensions: number): Promise<void> {
+  const client = getQdrantClient()
+
+  await client.createCollection(collectionName, {
+    vectors: {
+      size: dimensions,
+      distance: 'Cosine'
+    },
+    optimizers_config: {
+      default_segment_number: 2
+    },
+    hnsw_config: {
+      m: 16,
+      ef_construct: 100,
+      full_scan_threshold: 10000
+    },
+    wal_config: {
+      wal_capacity_mb: 32
+    }
+  })
+
+  const payloadIndexes: Array<[string, 'keyword' | 'integer']> = [
+    ['document_id', 'keyword'],
+    ['user_id', 'keyword'],
+    ['chunk_index', 'integer'],
+    ['page_number', 'integer'],
+    ['start_page_number', 'integer'],
+    ['end_page_number', 'integer'],
+    ['embedding_model', 'keyword'],
+    ['law_firm', 'keyword'],
+    ['fund_manager', 'keyword'],
+    ['fund_admin', 'keyword'],
+    ['jurisdiction', 'keyword']
+  ]
+
+  for (const [fieldName, fieldSchema] of payloadIndexes) {
+    await client.createPayloadIndex(collectionName, {
+      field_name: fieldName,
+      field_schema: fieldSchema,
+      wait: true
+    })
+  }
+
+  logger.info('Created Qdrant collection', { collection: collectionName, dimensions })
+}
+
 /**
  * Generate a cryptographically secure numeric ID from a string
  * Uses SHA-256 hash to generate a 64-bit positive integer
@@ -64,6 +187,15 @@ export interface SimilaritySearchResult {
   document_id: string
   text: string
   metadata?: BusinessMetadata
+  chunk_index?: number
+  page_number?: number
+  start_page_number?: number
+  end_page_number?: number
+}
+
+function readPayloadInteger(payload: Record<string, unknown>, key: string): number | undefined {
+  const value = payload[key]
+  return typeof value === 'number' && Number.isInteger(value) ? value : undefined
 }
 
 /**
@@ -84,7 +216,15 @@ interface QdrantRangeCondition {
   }
 }
 
-type QdrantCondition = QdrantMatchCondition | QdrantRangeCondition
+interface QdrantIsEmptyCondition {
+  is_empty: { key: string }
+}
+
+interface QdrantNestedCondition {
+  should: QdrantCondition[]
+}
+
+type QdrantCondition = QdrantMatchCondition | QdrantRangeCondition | QdrantIsEmptyCondition | QdrantNestedCondition
 
 interface QdrantFilter {
   must?: QdrantCondition[]
@@ -139,7 +279,15 @@ export function convertToQdrantFilter(filter: Record<string, unknown>): QdrantFi
       // $in operator
       if ('$in' in operators && Array.isArray(operators['$in'])) {
         const values = operators['$in'] as unknown[]
-        if (values.length === 1) {
+        const presentValues = values.filter(value => value !== null)
+        if (presentValues.length !== values.length) {
+          // Mongo semantics: null in $in also matches points where the field is missing
+          const alternatives: QdrantCondition[] = [{ is_empty: { key: field } }]
+          if (presentValues.length > 0) {
+            alternatives.unshift({ key: field, match: { any: presentValues } })
+          }
+          must.push({ should: alternatives })
+        } else if (values.length === 1) {
           must.push({ key: field, match: { value: values[0] } })
         } else if (values.length > 1) {
           must.push({ key: field, match: { any: values } })
@@ -183,11 +331,12 @@ export function convertToQdrantFilter(filter: Record<string, unknown>): QdrantFi
 export async function indexDocumentInQdrant(
   id: string,
   vector: number[],
-  payload: Record<string, unknown>
+  payload: Record<string, unknown>,
+  targetCollection?: string
 ): Promise<void> {
   try {
     const client = getQdrantClient()
-    const collectionName = getCollectionName()
+    const collectionName = targetCollection ?? await getActiveCollectionName()
 
     // Store the original string ID in the payload
     const fullPayload = {
@@ -249,7 +398,7 @@ export async function searchSimilarDocuments(
 
     // Search for similar vectors
     const client = getQdrantClient()
-    const collectionName = getCollectionName()
+    const collectionName = await getActiveCollectionName()
 
     const searchResults = await client.search(collectionName, {
       vector: sourceVector,
@@ -310,7 +459,7 @@ export async function vectorSearch(
     const qdrantFilter = convertToQdrantFilter(filter)
 
     const client = getQdrantClient()
-    const collectionName = getCollectionName()
+    const collectionName = await getActiveCollectionName()
 
     const searchResults = await client.search(collectionName, {
       vector: queryVector,
@@ -339,7 +488,11 @@ export async function vectorSearch(
         score: match.score,
         document_id: metadataDocumentId,
         text: typeof metadataText === 'string' ? metadataText : '',
-        metadata: payload as BusinessMetadata
+        metadata: payload as BusinessMetadata,
+        chunk_index: readPayloadInteger(payload, 'chunk_index'),
+        page_number: readPayloadInteger(payload, 'page_number'),
+        start_page_number: readPayloadInteger(payload, 'start_page_number'),
+        end_page_number: readPayloadInteger(payload, 'end_page_number')
       })
     }
 
@@ -370,7 +523,7 @@ export async function deleteDocumentFromQdrant(documentId: string, presetVectorI
     let totalAttempted = 0
 
     const client = getQdrantClient()
-    const collectionName = getCollectionName()
+    const collectionNames = await getLiveCollectionNames()
 
     for (let i = 0; i < vectorIds.length; i += BATCH_SIZE) {
       const batch = vectorIds.slice(i, i + BATCH_SIZE)
@@ -378,10 +531,12 @@ export async function deleteDocumentFromQdrant(documentId: string, presetVectorI
       // Convert string IDs to numeric IDs
       const numericIds = batch.map(id => hashStringToNumber(id))
 
-      await client.delete(collectionName, {
-        wait: true,
-        points: numericIds
-      })
+      for (const collectionName of collectionNames) {
+        await client.delete(collectionName, {
+          wait: true,
+          points: numericIds
+        })
+      }
 
       totalAttempted += batch.length
 
@@ -467,13 +622,14 @@ export async function updateDocumentMetadataInQdrant(
       // 2. Update payload in Qdrant
       // Qdrant setPayload merges new payload with existing payload
       const client = getQdrantClient()
-      const collectionName = getCollectionName()
 
-      await client.setPayload(collectionName, {
-        payload: newMetadata,
-        points: numericIds,
-        wait: true
-      })
+      for (const collectionName of await getLiveCollectionNames()) {
+        await client.setPayload(collectionName, {
+          payload: newMetadata,
+          points: numericIds,
+          wait: true
+        })
+      }
 
       logger.info('Successfully updated metadata in Qdrant', { documentId, vectorsUpdated: vectorIds.length })
 
@@ -519,7 +675,7 @@ async function getDocumentVector(
     const qdrantFilter = convertToQdrantFilter(filter)
 
     const client = getQdrantClient()
-    const collectionName = getCollectionName()
+    const collectionName = await getActiveCollectionName()
 
     // Scroll through all matching vectors if page range specified
     const limit = pageRange ? 10000 : 1
@@ -605,7 +761,7 @@ async function getDocumentVector(
 export async function getQdrantStats() {
   try {
     const client = getQdrantClient()
-    const collectionName = getCollectionName()
+    const collectionName = await getActiveCollectionName()
 
     const collectionInfo = await client.getCollection(collectionName)
 
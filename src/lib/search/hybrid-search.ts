@@ -0,0 +1,208 @@
+/**
+ * Hybrid keyword + vector search
+ * Lexical candidates come from search_document_keywords_paginated (ts_rank over chunk text)
+ * and semantic candidates from Qdrant via searchPassages. Both lists rank documents, and
+ * they are merged with weighted reciprocal rank fusion:
+ *
+ *   score(d) = (1 - w) / (k + rank_lexical(d)) + w / (k + rank_semantic(d))
+ *
+ * where w is the semantic weight and a document missing from a list contributes nothing
+ * for that list. The lexical side takes the keyword query language (with synonym
+ * expansion), and both sides are limited to the user's own documents.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { logger } from '@/lib/logger'
+import type { KeywordMatch, KeywordSearchDBRow } from '@/types/search'
+import type { GenericSupabaseSchema } from '@/types/supabase'
+import { compileKeywordQuery } from './keyword-query'
+import { SEMANTIC_SEARCH_MAX_PASSAGES, searchPassages, type SemanticPassage } from './semantic-search'
+import { loadSynonymGroups } from './synonyms'
+
+export const HYBRID_SEARCH_MAX_CANDIDATES = 100
+export const HYBRID_SEARCH_MAX_RESULTS = 100
+
+const DEFAULT_CANDIDATES = 50
+const DEFAULT_RESULT_LIMIT = 20
+const DEFAULT_SEMANTIC_WEIGHT = 0.5
+// Standard RRF damping constant; larger values flatten the advantage of top ranks
+const DEFAULT_RRF_K = 60
+const MATCHES_PER_DOCUMENT = 3
+
+export type HybridProvenance = 'lexical' | 'semantic' | 'both'
+
+export interface HybridSearchOptions {
+  /** Weight of the semantic list in [0, 1]; the lexical list gets 1 - semanticWeight */
+  semanticWeight?: number
+  rrfK?: number
+  /** Documents taken from each retriever before fusion */
+  candidates?: number
+  limit?: number
+}
+
+export interface HybridSearchResult {
+  documentId: string
+  title: string
+  filename: string
+  score: number
+  provenance: HybridProvenance
+  lexicalRank: number | null
+  semanticRank: number | null
+  keywordMatches: KeywordMatch[]
+  passages: SemanticPassage[]
+}
+
+export interface HybridSearchResponse {
+  query: string
+  semanticWeight: number
+  rrfK: number
+  results: HybridSearchResult[]
+  counts: {
+    lexical: number
+    semantic: number
+    both: number
+  }
+  timing: {
+    lexical_ms: number
+    semantic_ms: number
+    total_ms: number
+  }
+}
+
+async function retrieveLexical(
+  supabase: SupabaseClient<GenericSupabaseSchema>,
+  userId: string,
+  query: string,
+  tsquery: string,
+  candidates: number
+): Promise<KeywordSearchDBRow[]> {
+  const { data, error } = await supabase.rpc('search_document_keywords_paginated', {
+    p_user_id: userId,
+    p_search_query: query,
+    p_max_pages_per_doc: MATCHES_PER_DOCUMENT,
+    p_page_size: candidates,
+    p_page_offset: 0,
+    p_tsquery: tsquery
+  })
+
+  if (error) {
+    throw new Error(`Lexical retrieval failed: ${error.message}`)
+  }
+
+  return (data ?? []) as KeywordSearchDBRow[]
+}
+
+const timed = async <T>(run: () => Promise<T>): Promise<{ value: T; ms: number }> => {
+  const start = Date.now()
+  const value = await run()
+  return { value, ms: Date.now() - start }
+}
+
+/**
+ * Run lexical and semantic retrieval in parallel and fuse the document rankings
+ * Both sides are limited to documents owned by userId, the same scope as keyword search.
+ * Throws KeywordQueryError when the query is not valid keyword syntax.
+ */
+export async function hybridSearch(
+  supabase: SupabaseClient<GenericSupabaseSchema>,
+  userId: string,
+  query: string,
+  options: HybridSearchOptions = {}
+): Promise<HybridSearchResponse> {
+  const startTime = Date.now()
+  const {
+    semanticWeight = DEFAULT_SEMANTIC_WEIGHT,
+    rrfK = DEFAULT_RRF_K,
+    candidates = DEFAULT_CANDIDATES,
+    limit = DEFAULT_RESULT_LIMIT
+  } = options
+
+  const tsquery = compileKeywordQuery(query, await loadSynonymGroups())
+
+  const [lexical, semantic] = await Promise.all([
+    timed(() => retrieveLexical(supabase, userId, query, tsquery, Math.min(candidates, HYBRID_SEARCH_MAX_CANDIDATES))),
+    timed(() => searchPassages(supabase, query, {
+      userId,
+      // Passages, not documents: leave room for several hits per document
+      limit: Math.min(candidates * MATCHES_PER_DOCUMENT, SEMANTIC_SEARCH_MAX_PASSAGES),
+      maxPassagesPerDocument: MATCHES_PER_DOCUMENT
+    }))
+  ])
+
+  const fused = new Map<string, HybridSearchResult>()
+  const entryFor = (documentId: string, title: string, filename: string): HybridSearchResult => {
+    let entry = fused.get(documentId)
+    if (!entry) {
+      entry = {
+        documentId,
+        title,
+        filename,
+        score: 0,
+        provenance: 'lexical',
+        lexicalRank: null,
+        semanticRank: null,
+        keywordMatches: [],
+        passages: []
+      }
+      fused.set(documentId, entry)
+    }
+    return entry
+  }
+
+  lexical.value.forEach((row, index) => {
+    const entry = entryFor(row.document_id, row.title, row.filename)
+    entry.lexicalRank = index + 1
+    entry.score += (1 - semanticWeight) / (rrfK + entry.lexicalRank)
+    entry.keywordMatches = row.matches ?? []
+  })
+
+  semantic.value.results.slice(0, candidates).forEach((result, index) => {
+    const entry = entryFor(result.documentId, result.title, result.filename)
+    entry.semanticRank = index + 1
+    entry.score += semanticWeight / (rrfK + entry.semanticRank)
+    entry.passages = result.passages
+  })
+
+  const counts = { lexical: 0, semantic: 0, both: 0 }
+  for (const entry of fused.values()) {
+    entry.provenance = entry.lexicalRank !== null && entry.semanticRank !== null
+      ? 'both'
+      : entry.lexicalRank !== null ? 'lexical' : 'semantic'
+    counts[entry.provenance]++
+  }
+
+  // Ties (e.g. a zero weight) fall back to whichever list ranked the document higher
+  const results = Array.from(fused.values())
+    .sort((a, b) =>
+      b.score - a.score ||
+      Math.min(a.lexicalRank ?? Infinity, a.semanticRank ?? Infinity) -
+        Math.min(b.lexicalRank ?? Infinity, b.semanticRank ?? Infinity)
+    )
+    .slice(0, limit)
+
+  const totalMs = Date.now() - startTime
+
+  logger.info('Hybrid search completed', {
+    queryLength: query.length,
+    semanticWeight,
+    rrfK,
+    lexicalDocuments: lexical.value.length,
+    semanticDocuments: semantic.value.results.length,
+    fusedDocuments: fused.size,
+    durationMs: totalMs,
+    component: 'hybrid-search'
+  })
+
+  return {
+    query,
+    semanticWeight,
+    rrfK,
+    results,
+    counts,
+    timing: {
+      lexical_ms: lexical.ms,
+      semantic_ms: semantic.ms,
+      total_ms: totalMs
+    }
+  }
+}
@@ -0,0 +1,106 @@
+/**
+ * Keyword search filters
+ * Validates the request's filters and converts them to the p_filters JSONB taken by
+ * search_document_keywords_paginated, get_additional_keyword_pages and search_document_keywords_fuzzy.
+ */
+
+import type { KeywordSearchFilters } from '@/types/search'
+
+const METADATA_FILTER_KEYS = ['law_firm', 'fund_manager', 'fund_admin', 'jurisdiction'] as const
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string')
+
+const isPositiveInteger = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value > 0
+
+// Round-trips through Date so impossible days like 2024-02-30 are rejected before reaching ::DATE
+const isIsoDate = (value: unknown): value is string =>
+  typeof value === 'string' && ISO_DATE.test(value) &&
+  !Number.isNaN(Date.parse(value)) && new Date(value).toISOString().startsWith(value)
+
+/**
+ * Validate request filters; returns an error message when they are malformed
+ */
+export function parseKeywordSearchFilters(raw: unknown): KeywordSearchFilters | string {
+  const filters: KeywordSearchFilters = {}
+  if (raw === undefined || raw === null) {
+    return filters
+  }
+  if (typeof raw !== 'object' || Array.isArray(raw)) {
+    return 'filters must be an object'
+  }
+
+  const { metadata, templateClusterIds, uploadedFrom, uploadedTo, pageRange } = raw as Record<string, unknown>
+
+  if (metadata !== undefined) {
+    if (typeof metadata !== 'object' || metadata === null || Array.isArray(metadata)) {
+      return 'filters.metadata must be an object'
+    }
+    filters.metadata = {}
+    for (const key of METADATA_FILTER_KEYS) {
+      const values = (metadata as Record<string, unknown>)[key]
+      if (values === undefined) continue
+      if (!isStringArray(values)) {
+        return `filters.metadata.${key} must be an array of strings`
+      }
+      filters.metadata[key] = values
+    }
+  }
+
+  if (templateClusterIds !== undefined) {
+    if (!isStringArray(templateClusterIds)) {
+      return 'filters.templateClusterIds must be an array of strings'
+    }
+    filters.templateClusterIds = templateClusterIds
+  }
+
+  if (uploadedFrom !== undefined) {
+    if (!isIsoDate(uploadedFrom)) {
+      return 'filters.uploadedFrom must be a date (YYYY-MM-DD)'
+    }
+    filters.uploadedFrom = uploadedFrom
+  }
+
+  if (uploadedTo !== undefined) {
+    if (!isIsoDate(uploadedTo)) {
+      return 'filters.uploadedTo must be a date (YYYY-MM-DD)'
+    }
+    filters.uploadedTo = uploadedTo
+  }
+
+  if (filters.uploadedFrom && filters.uploadedTo && filters.uploadedFrom > filters.uploadedTo) {
+    return 'filters.uploadedFrom must not be after filters.uploadedTo'
+  }
+
+  if (pageRange !== undefined) {
+    const { start_page: startPage, end_page: endPage } = (pageRange ?? {}) as Record<string, unknown>
+    if (!isPositiveInteger(startPage) || !isPositiveInteger(endPage) || startPage > endPage) {
+      return 'filters.pageRange needs positive start_page <= end_page'
+    }
+    filters.pageRange = { start_page: startPage, end_page: endPage }
+  }
+
+  return filters
+}
+
+/**
+ * p_filters argument for the keyword search functions, or null when nothing is filtered
+ */
+export function toKeywordFilterParam(filters: KeywordSearchFilters): Record<string, unknown> | null {
+  const param: Record<string, unknown> = {}
+
+  const metadata = Object.fromEntries(
+    Object.entries(filters.metadata ?? {}).filter(([, values]) => values && values.length > 0)
+  )
+  if (Object.keys(metadata).length > 0) param['metadata'] = metadata
+  if (filters.templateClusterIds && filters.templateClusterIds.length > 0) {
+    param['template_cluster_ids'] = filters.templateClusterIds
+  }
+  if (filters.uploadedFrom) param['uploaded_from'] = filters.uploadedFrom
+  if (filters.uploadedTo) param['uploaded_to'] = filters.uploadedTo
+  if (filters.pageRange) param['page_range'] = filters.pageRange
+
+  return Object.keys(param).length > 0 ? param : null
+}
@@ -0,0 +1,387 @@
+/**
+ * Keyword query language for content search
+ * Compiles user queries into to_tsquery('english', ...) text:
+ *
+ *   "most favored nation"     phrase (words in order)
+ *   indemnif*                 prefix match (at least 3 characters before *)
+ *   a AND b, a b              both (AND is implied between adjacent terms)
+ *   a OR b                    either
+ *   NOT a                     exclude
+ *   a NEAR/5 b                within 5 words of each other, in either order
+ *   ( ... )                   grouping
+ *
+ * Precedence is NOT, then NEAR, then AND, then OR. Operators are only recognised in upper
+ * case, so lower-case "and"/"or"/"not" are ordinary (stop) words. Every word is emitted as a
+ * quoted tsquery literal, so user text can never inject tsquery syntax.
+ *
+ * Words and quoted phrases that match a synonym group (lib/search/synonyms) are expanded to an
+ * OR of every term in the group, so LPA also finds "Limited Partnership Agreement".
+ */
+
+export const KEYWORD_QUERY_MAX_TERMS = 32
+export const KEYWORD_QUERY_MAX_NEAR_DISTANCE = 10
+const MIN_PREFIX_LENGTH = 3
+
+export type KeywordQueryNode =
+  | { type: 'term'; value: string; prefix: boolean }
+  | { type: 'phrase'; words: string[] }
+  | { type: 'not'; operand: KeywordQueryNode }
+  | { type: 'and' | 'or'; operands: KeywordQueryNode[] }
+  | { type: 'near'; distance: number; left: KeywordQueryNode; right: KeywordQueryNode }
+
+/**
+ * Parse failure with the character range of the offending input
+ */
+export class KeywordQueryError extends Error {
+  constructor(
+    message: string,
+    public readonly position: number,
+    public readonly length: number = 1
+  ) {
+    super(message)
+    this.name = 'KeywordQueryError'
+  }
+}
+
+type Token =
+  | { kind: 'word'; text: string; start: number; end: number }
+  | { kind: 'phrase'; words: string[]; start: number; end: number }
+  | { kind: 'and' | 'or' | 'not' | 'lparen' | 'rparen'; start: number; end: number }
+  | { kind: 'near'; distance: number; start: number; end: number }
+
+const isWhitespace = (char: string) => /\s/.test(char)
+const hasSearchableCharacters = (text: string) => /[\p{L}\p{N}]/u.test(text)
+
+function tokenize(query: string): Token[] {
+  const tokens: Token[] = []
+  let i = 0
+
+  while (i < query.length) {
+    const char = query[i] as string
+
+    if (isWhitespace(char)) {
+      i++
+      continue
+    }
+
+    if (char === '(' || char === ')') {
+      tokens.push({ kind: char === '(' ? 'lparen' : 'rparen', start: i, end: i + 1 })
+      i++
+      continue
+    }
+
+    if (char === '"') {
+      const close = query.indexOf('"', i + 1)
+      if (close === -1) {
+        throw new KeywordQueryError('Missing closing quote for phrase', i)
+      }
+      const words = query.slice(i + 1, close).split(/\s+/).filter(hasSearchableCharacters)
+      if (words.length === 0) {
+        throw new KeywordQueryError('Quoted phrase is empty', i, close - i + 1)
+      }
+      tokens.push({ kind: 'phrase', words, start: i, end: close + 1 })
+      i = close + 1
+      continue
+    }
+
+    // Words run to whitespace, a quote, or a ')' that closes a group; parentheses opened
+    // inside a word (e.g. "2.1(a)") stay part of it
+    const start = i
+    let depth = 0
+    while (i < query.length) {
+      const next = query[i] as string
+      if (isWhitespace(next) || next === '"') break
+      if (next === '(') depth++
+      if (next === ')') {
+        if (depth === 0) break
+        depth--
+      }
+      i++
+    }
+    const text = query.slice(start, i)
+
+    if (text === 'AND' || text === 'OR' || text === 'NOT') {
+      tokens.push({ kind: text === 'AND' ? 'and' : text === 'OR' ? 'or' : 'not', start, end: i })
+      continue
+    }
+
+    if (text.startsWith('NEAR/')) {
+      const distance = Number(text.slice('NEAR/'.length))
+      if (!Number.isInteger(distance) || distance < 1 || distance > KEYWORD_QUERY_MAX_NEAR_DISTANCE) {
+        throw new KeywordQueryError(
+          `NEAR needs a distance between 1 and ${KEYWORD_QUERY_MAX_NEAR_DISTANCE}, e.g. NEAR/5`,
+          start,
+          text.length
+        )
+      }
+      tokens.push({ kind: 'near', distance, start, end: i })
+      continue
+    }
+
+    // Stray punctuation ("-", "&", "§") produces no lexemes, so it is dropped
+    if (hasSearchableCharacters(text)) {
+      tokens.push({ kind: 'word', text, start, end: i })
+    }
+  }
+
+  return tokens
+}
+
+class Parser {
+  private index = 0
+  private termCount = 0
+
+  constructor(
+    private readonly tokens: Token[],
+    private readonly queryLength: number
+  ) {}
+
+  parse(): KeywordQueryNode {
+    if (this.tokens.length === 0) {
+      throw new KeywordQueryError('Search query has no searchable words', 0, this.queryLength)
+    }
+
+    const node = this.parseOr()
+    const extra = this.peek()
+    if (extra) {
+      throw new KeywordQueryError(
+        extra.kind === 'rparen' ? 'Unmatched closing parenthesis' : 'Unexpected input',
+        extra.start,
+        extra.end - extra.start
+      )
+    }
+    return node
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.index]
+  }
+
+  private next(): Token | undefined {
+    return this.tokens[this.index++]
+  }
+
+  private parseOr(): KeywordQueryNode {
+    const operands = [this.parseAnd()]
+    while (this.peek()?.kind === 'or') {
+      this.operand(this.next() as Token)
+      operands.push(this.parseAnd())
+    }
+    return operands.length === 1 ? operands[0] as KeywordQueryNode : { type: 'or', operands }
+  }
+
+  private parseAnd(): KeywordQueryNode {
+    const operands = [this.parseNear()]
+    for (;;) {
+      const token = this.peek()
+      if (token?.kind === 'and') {
+        this.operand(this.next() as Token)
+      } else if (!token || !['word', 'phrase', 'lparen', 'not'].includes(token.kind)) {
+        break
+      }
+      operands.push(this.parseNear())
+    }
+    return operands.length === 1 ? operands[0] as KeywordQueryNode : { type: 'and', operands }
+  }
+
+  private parseNear(): KeywordQueryNode {
+    let left = this.parseUnary()
+    for (;;) {
+      const token = this.peek()
+      if (token?.kind !== 'near') break
+      this.operand(this.next() as Token)
+      const right = this.parseUnary()
+      for (const side of [left, right]) {
+        if (side.type !== 'term' && side.type !== 'phrase') {
+          throw new KeywordQueryError('NEAR can only join words or quoted phrases', token.start, token.end - token.start)
+        }
+      }
+      left = { type: 'near', distance: token.distance, left, right }
+    }
+    return left
+  }
+
+  private parseUnary(): KeywordQueryNode {
+    if (this.peek()?.kind === 'not') {
+      this.operand(this.next() as Token)
+      return { type: 'not', operand: this.parseUnary() }
+    }
+    return this.parsePrimary()
+  }
+
+  private parsePrimary(): KeywordQueryNode {
+    const token = this.next()
+    if (!token) {
+      throw new KeywordQueryError('Search query ends unexpectedly', this.queryLength, 0)
+    }
+
+    switch (token.kind) {
+      case 'lparen': {
+        if (this.peek()?.kind === 'rparen') {
+          throw new KeywordQueryError('Parentheses are empty', token.start, 2)
+        }
+        const node = this.parseOr()
+        if (this.next()?.kind !== 'rparen') {
+          throw new KeywordQueryError('Missing closing parenthesis', token.start)
+        }
+        return node
+      }
+      case 'phrase':
+        this.countTerms(token.words.length, token)
+        return { type: 'phrase', words: token.words }
+      case 'word':
+        this.countTerms(1, token)
+        return parseWord(token)
+      default:
+        throw new KeywordQueryError('Expected a word or phrase', token.start, token.end - token.start)
+    }
+  }
+
+  /**
+   * Guard the token after an operator: it must start an operand
+   */
+  private operand(operator: Token): void {
+    const token = this.peek()
+    if (!token || token.kind === 'rparen' || token.kind === 'and' || token.kind === 'or' || token.kind === 'near') {
+      const name = operator.kind === 'near' ? 'NEAR' : operator.kind.toUpperCase()
+      throw new KeywordQueryError(`Expected a word or phrase after ${name}`, operator.start, operator.end - operator.start)
+    }
+  }
+
+  private countTerms(count: number, token: Token): void {
+    this.termCount += count
+    if (this.termCount > KEYWORD_QUERY_MAX_TERMS) {
+      throw new KeywordQueryError(
+        `Search query has too many words (max ${KEYWORD_QUERY_MAX_TERMS})`,
+        token.start,
+        token.end - token.start
+      )
+    }
+  }
+}
+
+function parseWord(token: Extract<Token, { kind: 'word' }>): KeywordQueryNode {
+  const prefix = token.text.endsWith('*')
+  const value = prefix ? token.text.slice(0, -1) : token.text
+
+  if (value.includes('*')) {
+    throw new KeywordQueryError('Wildcards are only supported at the end of a word', token.start, token.end - token.start)
+  }
+  if (prefix && value.length < MIN_PREFIX_LENGTH) {
+    throw new KeywordQueryError(
+      `Prefix searches need at least ${MIN_PREFIX_LENGTH} characters before *`,
+      token.start,
+      token.end - token.start
+    )
+  }
+
+  return { type: 'term', value, prefix }
+}
+
+/**
+ * A query made only of exclusions would scan every chunk, so at least one positive term is required
+ */
+function hasPositiveTerm(node: KeywordQueryNode): boolean {
+  switch (node.type) {
+    case 'term':
+    case 'phrase':
+    case 'near':
+      return true
+    case 'not':
+      return false
+    case 'and':
+      return node.operands.some(hasPositiveTerm)
+    case 'or':
+      return node.operands.every(hasPositiveTerm)
+  }
+}
+
+export function parseKeywordQuery(query: string): KeywordQueryNode {
+  const node = new Parser(tokenize(query), query.length).parse()
+  if (!hasPositiveTerm(node)) {
+    throw new KeywordQueryError('Search query needs at least one word that is not excluded with NOT', 0, query.length)
+  }
+  return node
+}
+
+const normalizeWord = (word: string) => word.toLowerCase().replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, '')
+const synonymKey = (words: string[]) => words.map(normalizeWord).join(' ')
+
+/**
+ * Index synonym groups by normalized term, each entry listing every term of its group as words
+ */
+function buildSynonymIndex(groups: string[][]): Map<string, string[][]> {
+  const index = new Map<string, string[][]>()
+  for (const group of groups) {
+    const alternatives = group
+      .map(term => term.split(/\s+/).filter(hasSearchableCharacters))
+      .filter(words => words.length > 0)
+    for (const words of alternatives) {
+      index.set(synonymKey(words), alternatives)
+    }
+  }
+  return index
+}
+
+/**
+ * Replace words and phrases found in the synonym index with an OR of their group
+ * Prefix terms are left alone: "LP*" is a deliberate spelling, not an abbreviation.
+ */
+function expandSynonyms(node: KeywordQueryNode, index: Map<string, string[][]>): KeywordQueryNode {
+  switch (node.type) {
+    case 'term':
+    case 'phrase': {
+      if (node.type === 'term' && node.prefix) return node
+      const alternatives = index.get(synonymKey(node.type === 'term' ? [node.value] : node.words))
+      if (!alternatives) return node
+      return {
+        type: 'or',
+        operands: alternatives.map((words): KeywordQueryNode =>
+          words.length === 1 ? { type: 'term', value: words[0] as string, prefix: false } : { type: 'phrase', words }
+        )
+      }
+    }
+    case 'not':
+      return { type: 'not', operand: expandSynonyms(node.operand, index) }
+    case 'and':
+    case 'or':
+      return { type: node.type, operands: node.operands.map(operand => expandSynonyms(operand, index)) }
+    case 'near':
+      return { ...node, left: expandSynonyms(node.left, index), right: expandSynonyms(node.right, index) }
+  }
+}
+
+const quoteLexeme = (text: string) => `'${text.replace(/\\/g, '\\\\').replace(/'/g, "''")}'`
+
+function compileNode(node: KeywordQueryNode): string {
+  switch (node.type) {
+    case 'term':
+      return node.prefix ? `${quoteLexeme(node.value)}:*` : quoteLexeme(node.value)
+    case 'phrase':
+      return `(${node.words.map(quoteLexeme).join(' <-> ')})`
+    case 'not':
+      return `!${compileNode(node.operand)}`
+    case 'and':
+    case 'or':
+      return `(${node.operands.map(compileNode).join(node.type === 'and' ? ' & ' : ' | ')})`
+    case 'near': {
+      // tsquery <N> means exactly N positions apart, so "within N" is every distance in both orders
+      const left = compileNode(node.left)
+      const right = compileNode(node.right)
+      const alternatives: string[] = []
+      for (let distance = 1; distance <= node.distance; distance++) {
+        alternatives.push(`${left} <${distance}> ${right}`, `${right} <${distance}> ${left}`)
+      }
+      return `(${alternatives.join(' | ')})`
+    }
+  }
+}
+
+/**
+ * Compile a keyword query to to_tsquery('english', ...) text, expanding synonym groups
+ * Throws KeywordQueryError on invalid syntax.
+ */
+export function compileKeywordQuery(query: string, synonymGroups: string[][] = []): string {
+  const node = parseKeywordQuery(query)
+  return compileNode(synonymGroups.length > 0 ? expandSynonyms(node, buildSynonymIndex(synonymGroups)) : node)
+}
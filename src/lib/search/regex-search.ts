@@ -0,0 +1,184 @@
+/**
+ * Regex and exact-string keyword search (search_document_keywords_regex)
+ * Patterns run on PostgreSQL's regex engine, so they use its syntax ([[:digit:]], \y word
+ * boundaries) rather than JavaScript's. Patterns are checked here for the constructs that make
+ * matching expensive; the SQL function bounds the run time with a deadline.
+ */
+
+import type { PatternSearchMode } from '@/types/search'
+
+export const REGEX_PATTERN_MAX_LENGTH = 500
+export const REGEX_MAX_REPETITION = 100
+export const REGEX_SEARCH_TIMEOUT_MS = 5000
+
+export const PATTERN_SEARCH_MODES: readonly PatternSearchMode[] = ['regex', 'exact']
+
+export class RegexPatternError extends Error {
+  constructor(
+    message: string,
+    public readonly position: number,
+    public readonly length: number
+  ) {
+    super(message)
+    this.name = 'RegexPatternError'
+  }
+}
+
+// An open or just-closed group, and whether anything inside it is quantified
+interface GroupFrame {
+  start: number
+  quantified: boolean
+}
+
+/**
+ * Pattern for search_document_keywords_regex
+ * Exact strings use the ***= director, which makes the rest of the pattern a literal.
+ */
+export function compileSearchPattern(input: string, mode: PatternSearchMode): string {
+  if (input.length > REGEX_PATTERN_MAX_LENGTH) {
+    throw new RegexPatternError(
+      `Pattern is too long (max ${REGEX_PATTERN_MAX_LENGTH} characters)`,
+      REGEX_PATTERN_MAX_LENGTH,
+      input.length - REGEX_PATTERN_MAX_LENGTH
+    )
+  }
+
+  if (mode === 'exact') {
+    return `***=${input}`
+  }
+
+  assertPatternComplexity(input)
+  return input
+}
+
+/**
+ * Reject backreferences, nested quantifiers like (a+)+ and large repetition counts
+ * Syntax errors are left to PostgreSQL, which reports them as invalid_regular_expression.
+ */
+function assertPatternComplexity(pattern: string): void {
+  if (pattern.startsWith('***')) {
+    throw new RegexPatternError('Regex directors (***) are not supported', 0, 3)
+  }
+
+  const openGroups: GroupFrame[] = []
+  let i = 0
+
+  while (i < pattern.length) {
+    const char = pattern[i]!
+
+    if (char === '\\') {
+      if (/[1-9]/.test(pattern[i + 1] ?? '')) {
+        throw new RegexPatternError('Backreferences are not supported', i, 2)
+      }
+      i += 2
+      continue
+    }
+
+    if (char === '[') {
+      i = bracketExpressionEnd(pattern, i)
+      continue
+    }
+
+    if (char === '(') {
+      openGroups.push({ start: i, quantified: false })
+      // (?: and lookaround markers are not quantifiers
+      i += pattern[i + 1] === '?' ? 2 : 1
+      continue
+    }
+
+    if (char === ')') {
+      const group = openGroups.pop()
+      i++
+      const quantifier = group ? quantifierLength(pattern, i) : 0
+      if (group && quantifier > 0 && group.quantified) {
+        throw new RegexPatternError(
+          'Nested quantifiers like (a+)+ are not supported',
+          group.start,
+          i + quantifier - group.start
+        )
+      }
+      if (group?.quantified) {
+        openGroups.forEach(frame => { frame.quantified = true })
+      }
+      continue
+    }
+
+    const quantifier = quantifierLength(pattern, i)
+    if (quantifier > 0) {
+      openGroups.forEach(frame => { frame.quantified = true })
+      i += quantifier
+      continue
+    }
+
+    i++
+  }
+}
+
+/**
+ * Length of the quantifier at position (*, +, ?, {m}, {m,}, {m,n}, each optionally non-greedy)
+ */
+function quantifierLength(pattern: string, position: number): number {
+  const char = pattern[position]
+  let length = 0
+
+  if (char === '*' || char === '+' || char === '?') {
+    length = 1
+  } else if (char === '{') {
+    const bound = /^\{(\d+)(?:,(\d*))?\}/.exec(pattern.slice(position))
+    if (!bound) return 0
+    const largest = Math.max(Number(bound[1]), Number(bound[2] || 0))
+    if (largest > REGEX_MAX_REPETITION) {
+      throw new RegexPatternError(
+        `Repetition counts above ${REGEX_MAX_REPETITION} are not supported`,
+        position,
+        bound[0].length
+      )
+    }
+    length = bound[0].length
+  }
+
+  return length > 0 && pattern[position + length] === '?' ? length + 1 : length
+}
+
+/**
+ * Position after the ] closing the bracket expression at start ([^]x], [[:digit:]-] etc.)
+ */
+function bracketExpressionEnd(pattern: string, start: number): number {
+  let i = start + 1
+  if (pattern[i] === '^') i++
+  if (pattern[i] === ']') i++
+
+  while (i < pattern.length && pattern[i] !== ']') {
+    const next = pattern[i + 1] ?? ''
+    if (pattern[i] === '[' && (next === ':' || next === '.' || next === '=')) {
+      const close = pattern.indexOf(`${next}]`, i + 2)
+      i = close === -1 ? pattern.length : close + 2
+    } else if (pattern[i] === '\\') {
+      i += 2
+    } else {
+      i++
+    }
+  }
+
+  return i + 1
+}
+
+/**
+ * Client-facing error for a failed regex search RPC, or null for unexpected failures
+ */
+export function describeRegexSearchError(
+  error: { code?: string; message: string }
+): { error: string; status: number } | null {
+  // invalid_regular_expression, including "regular expression is too complex"
+  if (error.code === '2201B') {
+    return { error: `Invalid pattern: ${error.message}`, status: 400 }
+  }
+  // query_canceled, raised by the search deadline
+  if (error.code === '57014') {
+    return {
+      error: 'Pattern search timed out. Use a more specific pattern or narrow the filters.',
+      status: 504
+    }
+  }
+  return null
+}
@@ -0,0 +1,212 @@
+/**
+ * Free-text semantic search over chunk vectors
+ * The query is embedded with the active model's query encoder (RETRIEVAL_QUERY for
+ * Vertex) and matched against chunk points in Qdrant. Passages are grouped per document
+ * and documents the caller cannot see under RLS are dropped.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { DEFAULT_EMBEDDING_MODEL, getEmbeddingProvider, resolveEmbeddingModel } from '@/lib/embeddings'
+import { resolveActiveEmbeddingModel } from '@/lib/embedding-migration'
+import { vectorSearch } from '@/lib/qdrant'
+import { logger } from '@/lib/logger'
+import type { GenericSupabaseSchema } from '@/types/supabase'
+
+export const SEMANTIC_SEARCH_MAX_QUERY_LENGTH = 2000
+export const SEMANTIC_SEARCH_MAX_PASSAGES = 200
+
+const DEFAULT_PASSAGE_LIMIT = 60
+const DEFAULT_MIN_SCORE = 0.55
+const DEFAULT_MAX_PASSAGES_PER_DOCUMENT = 3
+
+export const SEMANTIC_METADATA_FILTER_KEYS = ['law_firm', 'fund_manager', 'fund_admin', 'jurisdiction'] as const
+export type SemanticMetadataFilterKey = typeof SEMANTIC_METADATA_FILTER_KEYS[number]
+
+// Filter value that matches documents with no value for the field
+export const BLANK_METADATA_FILTER_VALUE = '(blank)'
+
+export interface SemanticSearchFilters {
+  documentIds?: string[]
+  pageRange?: { start_page: number; end_page: number }
+  metadata?: Partial<Record<SemanticMetadataFilterKey, string[]>>
+}
+
+export interface SemanticSearchOptions {
+  filters?: SemanticSearchFilters
+  /** Only return documents owned by this user, on top of what supabase can see */
+  userId?: string
+  limit?: number
+  minScore?: number
+  maxPassagesPerDocument?: number
+}
+
+export interface SemanticPassage {
+  chunkIndex: number | null
+  pageNumber: number | null
+  startPageNumber: number | null
+  endPageNumber: number | null
+  text: string
+  score: number
+}
+
+export interface SemanticSearchResult {
+  documentId: string
+  title: string
+  filename: string
+  metadata: Record<string, unknown>
+  bestScore: number
+  totalPassages: number
+  passages: SemanticPassage[]
+}
+
+export interface SemanticSearchResponse {
+  query: string
+  embeddingModel: string
+  results: SemanticSearchResult[]
+  totalPassages: number
+  timing: {
+    embedding_ms: number
+    search_ms: number
+    total_ms: number
+  }
+}
+
+function buildQdrantFilter(embeddingModel: string, filters: SemanticSearchFilters): Record<string, unknown> {
+  const filter: Record<string, unknown> = {
+    // Points indexed before the payload carried embedding_model used the default model
+    embedding_model: embeddingModel === DEFAULT_EMBEDDING_MODEL
+      ? { $in: [DEFAULT_EMBEDDING_MODEL, null] }
+      : embeddingModel
+  }
+
+  if (filters.documentIds) {
+    filter['document_id'] = { $in: filters.documentIds }
+  }
+
+  if (filters.pageRange) {
+    filter['page_number'] = { $gte: filters.pageRange.start_page, $lte: filters.pageRange.end_page }
+  }
+
+  for (const key of SEMANTIC_METADATA_FILTER_KEYS) {
+    const values = filters.metadata?.[key]
+    if (values && values.length > 0) {
+      filter[key] = { $in: values.map(value => value === BLANK_METADATA_FILTER_VALUE ? null : value) }
+    }
+  }
+
+  return filter
+}
+
+/**
+ * Rank passages for a free-text query
+ * supabase is the caller's client, so only documents visible to them are returned.
+ */
+export async function searchPassages(
+  supabase: SupabaseClient<GenericSupabaseSchema>,
+  query: string,
+  options: SemanticSearchOptions = {}
+): Promise<SemanticSearchResponse> {
+  const startTime = Date.now()
+  const {
+    filters = {},
+    userId,
+    limit = DEFAULT_PASSAGE_LIMIT,
+    minScore = DEFAULT_MIN_SCORE,
+    maxPassagesPerDocument = DEFAULT_MAX_PASSAGES_PER_DOCUMENT
+  } = options
+
+  const embeddingModel = resolveEmbeddingModel(await resolveActiveEmbeddingModel())
+  const queryVector = await getEmbeddingProvider(embeddingModel).embedQuery(query)
+  const embeddingMs = Date.now() - startTime
+
+  const matches = await vectorSearch(queryVector, {
+    topK: Math.min(limit, SEMANTIC_SEARCH_MAX_PASSAGES),
+    threshold: minScore,
+    filter: buildQdrantFilter(embeddingModel, filters)
+  })
+
+  const documentIds = Array.from(new Set(matches.map(match => match.document_id)))
+  const documents = new Map<string, { title: string; filename: string; metadata: Record<string, unknown> }>()
+
+  if (documentIds.length > 0) {
+    let documentQuery = supabase
+      .from('documents')
+      .select('id, title, filename, metadata')
+      .in('id', documentIds)
+      .eq('status', 'completed')
+
+    if (userId) {
+      documentQuery = documentQuery.eq('user_id', userId)
+    }
+
+    const { data, error } = await documentQuery
+
+    if (error) {
+      throw new Error(`Failed to load documents for semantic search: ${error.message}`)
+    }
+
+    for (const row of (data ?? []) as Array<{ id: string; title: string; filename: string; metadata: unknown }>) {
+      documents.set(row.id, {
+        title: row.title,
+        filename: row.filename,
+        metadata: row.metadata && typeof row.metadata === 'object' ? row.metadata as Record<string, unknown> : {}
+      })
+    }
+  }
+
+  // Qdrant returns matches best first, so documents keep the order of their best passage
+  const grouped = new Map<string, SemanticSearchResult>()
+  let totalPassages = 0
+  for (const match of matches) {
+    const document = documents.get(match.document_id)
+    if (!document) continue
+
+    totalPassages++
+    let result = grouped.get(match.document_id)
+    if (!result) {
+      result = {
+        documentId: match.document_id,
+        ...document,
+        bestScore: match.score,
+        totalPassages: 0,
+        passages: []
+      }
+      grouped.set(match.document_id, result)
+    }
+
+    result.totalPassages++
+    if (result.passages.length < maxPassagesPerDocument) {
+      result.passages.push({
+        chunkIndex: match.chunk_index ?? null,
+        pageNumber: match.page_number ?? null,
+        startPageNumber: match.start_page_number ?? null,
+        endPageNumber: match.end_page_number ?? null,
+        text: match.text,
+        score: match.score
+      })
+    }
+  }
+
+  const totalMs = Date.now() - startTime
+
+  logger.info('Semantic search completed', {
+    queryLength: query.length,
+    embeddingModel,
+    passages: totalPassages,
+    documents: grouped.size,
+    durationMs: totalMs,
+    component: 'semantic-search'
+  })
+
+  return {
+    query,
+    embeddingModel,
+    results: Array.from(grouped.values()),
+    totalPassages,
+    timing: {
+      embedding_ms: embeddingMs,
+      search_ms: totalMs - embeddingMs,
+      total_ms: totalMs
+    }
+  }
+}
@@ -0,0 +1,213 @@
+/**
+ * Search synonym dictionary
+ * Admin-managed groups of equivalent terms ("LPA" / "Limited Partnership Agreement") stored in
+ * search_synonyms. Keyword search expands queries to every term in a group, and Jaccard
+ * tokenization maps a group's terms to one token so abbreviations are not scored as paraphrases.
+ */
+
+import { createServiceClient, releaseServiceClient } from '@/lib/supabase/server'
+import { logger } from '@/lib/logger'
+
+export const SYNONYM_GROUP_MAX_TERMS = 20
+export const SYNONYM_TERM_MAX_LENGTH = 100
+
+const SYNONYM_CACHE_TTL_MS = 60000
+
+let synonymCache: { groups: string[][]; expiresAt: number } | null = null
+
+export class SynonymGroupInputError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'SynonymGroupInputError'
+  }
+}
+
+export class SynonymGroupConflictError extends Error {
+  constructor(public readonly term: string) {
+    super(`"${term}" already belongs to another synonym group`)
+    this.name = 'SynonymGroupConflictError'
+  }
+}
+
+export interface SynonymGroup {
+  id: string
+  terms: string[]
+  createdAt: string
+  updatedAt: string
+}
+
+interface SynonymGroupRow {
+  id: string
+  terms: string[]
+  created_at: string
+  updated_at: string
+}
+
+const toSynonymGroup = (row: SynonymGroupRow): SynonymGroup => ({
+  id: row.id,
+  terms: row.terms,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at
+})
+
+// Case and spacing do not distinguish terms
+const termKey = (term: string) => term.toLowerCase().replace(/\s+/g, ' ')
+
+/**
+ * Validate the terms of a group: trimmed, de-duplicated (case-insensitively), 2 or more
+ */
+export function normalizeSynonymTerms(raw: unknown): string[] {
+  if (!Array.isArray(raw) || !raw.every(term => typeof term === 'string')) {
+    throw new SynonymGroupInputError('terms must be an array of strings')
+  }
+
+  const terms: string[] = []
+  const seen = new Set<string>()
+  for (const value of raw as string[]) {
+    const term = value.trim().replace(/\s+/g, ' ')
+    if (term.length === 0) continue
+    if (term.length > SYNONYM_TERM_MAX_LENGTH) {
+      throw new SynonymGroupInputError(`Terms must be at most ${SYNONYM_TERM_MAX_LENGTH} characters`)
+    }
+    if (!/[\p{L}\p{N}]/u.test(term)) {
+      throw new SynonymGroupInputError(`"${term}" has no searchable characters`)
+    }
+    if (!seen.has(termKey(term))) {
+      seen.add(termKey(term))
+      terms.push(term)
+    }
+  }
+
+  if (terms.length < 2) {
+    throw new SynonymGroupInputError('A synonym group needs at least two different terms')
+  }
+  if (terms.length > SYNONYM_GROUP_MAX_TERMS) {
+    throw new SynonymGroupInputError(`A synonym group can have at most ${SYNONYM_GROUP_MAX_TERMS} terms`)
+  }
+  return terms
+}
+
+export async function listSynonymGroups(): Promise<SynonymGroup[]> {
+  const supabase = await createServiceClient()
+  try {
+    const { data, error } = await supabase
+      .from('search_synonyms')
+      .select('id, terms, created_at, updated_at')
+      .order('created_at', { ascending: true })
+
+    if (error) {
+      throw new Error(`Failed to load search synonyms: ${error.message}`)
+    }
+
+    return ((data ?? []) as SynonymGroupRow[]).map(toSynonymGroup)
+  } finally {
+    releaseServiceClient(supabase)
+  }
+}
+
+/**
+ * A term may only belong to one group, otherwise expansion would silently merge groups
+ */
+async function assertTermsAvailable(terms: string[], exceptId?: string): Promise<void> {
+  const groups = await listSynonymGroups()
+  const taken = new Set(
+    groups.filter(group => group.id !== exceptId).flatMap(group => group.terms.map(termKey))
+  )
+  const conflict = terms.find(term => taken.has(termKey(term)))
+  if (conflict) {
+    throw new SynonymGroupConflictError(conflict)
+  }
+}
+
+export async function createSynonymGroup(terms: string[]): Promise<SynonymGroup> {
+  await assertTermsAvailable(terms)
+
+  const supabase = await createServiceClient()
+  try {
+    const { data, error } = await supabase
+      .from('search_synonyms')
+      .insert({ terms })
+      .select('id, terms, created_at, updated_at')
+      .single()
+
+    if (error) {
+      throw new Error(`Failed to create synonym group: ${error.message}`)
+    }
+
+    synonymCache = null
+    return toSynonymGroup(data as SynonymGroupRow)
+  } finally {
+    releaseServiceClient(supabase)
+  }
+}
+
+/**
+ * Replace a group's terms; returns null when the group does not exist
+ */
+export async function updateSynonymGroup(id: string, terms: string[]): Promise<SynonymGroup | null> {
+  await assertTermsAvailable(terms, id)
+
+  const supabase = await createServiceClient()
+  try {
+    const { data, error } = await supabase
+      .from('search_synonyms')
+      .update({ terms, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .select('id, terms, created_at, updated_at')
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to update synonym group: ${error.message}`)
+    }
+
+    synonymCache = null
+    return data ? toSynonymGroup(data as SynonymGroupRow) : null
+  } finally {
+    releaseServiceClient(supabase)
+  }
+}
+
+/**
+ * Delete a group; returns false when the group does not exist
+ */
+export async function deleteSynonymGroup(id: string): Promise<boolean> {
+  const supabase = await createServiceClient()
+  try {
+    const { data, error } = await supabase
+      .from('search_synonyms')
+      .delete()
+      .eq('id', id)
+      .select('id')
+
+    if (error) {
+      throw new Error(`Failed to delete synonym group: ${error.message}`)
+    }
+
+    synonymCache = null
+    return (data ?? []).length > 0
+  } finally {
+    releaseServiceClient(supabase)
+  }
+}
+
+/**
+ * Term groups used for query expansion and Jaccard tokenization
+ * Cached briefly; a failed load disables expansion rather than failing the search.
+ */
+export async function loadSynonymGroups(): Promise<string[][]> {
+  if (synonymCache && synonymCache.expiresAt > Date.now()) {
+    return synonymCache.groups
+  }
+
+  try {
+    const groups = (await listSynonymGroups()).map(group => group.terms)
+    synonymCache = { groups, expiresAt: Date.now() + SYNONYM_CACHE_TTL_MS }
+    return groups
+  } catch (error) {
+    logger.warn('Failed to load search synonyms; searching without expansion', {
+      error: error instanceof Error ? error.message : String(error),
+      component: 'search-synonyms'
+    })
+    return synonymCache?.groups ?? []
+  }
+}
@@ -0,0 +1,291 @@
+/**
+ * Annotated PDF export for a source/target comparison
+ * Copies one of the two PDFs and highlights every matched chunk, labelling each matched
+ * section with where it appears in the other document and how closely it matches.
+ * Highlights use the paragraph bounding boxes stored from Document AI; pages without
+ * layout (text-layer extraction, older documents) get a margin bar instead.
+ */
+
+import { PDFDocument, StandardFonts, rgb, type PDFFont, type PDFPage, type RGB } from 'pdf-lib'
+import { createServiceClient, releaseServiceClient } from '@/lib/supabase/server'
+import { logger } from '@/lib/logger'
+import type { Paragraph, ParagraphBoundingBox } from '@/lib/chunking/paragraph-chunker'
+import { parseSectionPageRange } from './core/section-detection'
+import { computeSimilarityEvidence, type EvidenceChunk, type SimilarityEvidenceOptions } from './evidence'
+import type { SectionMatch } from './types'
+
+export type AnnotatedPdfSide = 'source' | 'target'
+
+export interface AnnotatedPdf {
+  bytes: Uint8Array
+  filename: string
+  highlightedPages: number
+}
+
+// Paragraphs shorter than this are too generic to place a chunk by text containment
+const MIN_PARAGRAPH_MATCH_CHARACTERS = 20
+const HIGHLIGHT_OPACITY = 0.25
+const LABEL_FONT_SIZE = 7
+const LABEL_PADDING = 2
+const MARGIN_BAR_WIDTH = 4
+
+const SECTION_COLORS: RGB[] = [
+  rgb(1, 0.85, 0.2),
+  rgb(0.4, 0.75, 1),
+  rgb(0.55, 0.9, 0.45),
+  rgb(1, 0.6, 0.75),
+  rgb(0.75, 0.6, 1)
+]
+
+interface StoredParagraph {
+  normalizedText: string
+  pageNumber: number
+  boundingBox: ParagraphBoundingBox
+}
+
+interface PageSectionRegions {
+  sectionIndex: number
+  boxes: ParagraphBoundingBox[]
+}
+
+function normalizeForPlacement(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+    // Numbering such as "1.", "(a)" or "2.1" is stripped from chunk text during chunking
+    .replace(/^(?:[a-z0-9]{1,3} )+/, '')
+}
+
+async function loadDocumentForAnnotation(documentId: string): Promise<{
+  pdfBytes: ArrayBuffer
+  filename: string
+  paragraphs: StoredParagraph[]
+}> {
+  const supabase = await createServiceClient()
+  try {
+    const { data: document, error } = await supabase
+      .from('documents')
+      .select('file_path, filename, document_content(paragraphs)')
+      .eq('id', documentId)
+      .single()
+
+    if (error || !document) {
+      throw new Error(`Document ${documentId} not found`)
+    }
+
+    const { data: file, error: downloadError } = await supabase.storage
+      .from('documents')
+      .download(String(document.file_path))
+
+    if (downloadError || !file) {
+      throw new Error(`Failed to download document ${documentId}: ${downloadError?.message ?? 'no data'}`)
+    }
+
+    const content = document.document_content as unknown as
+      | { paragraphs: Paragraph[] | null }
+      | { paragraphs: Paragraph[] | null }[]
+      | null
+    const storedParagraphs = (Array.isArray(content) ? content[0] : content)?.paragraphs ?? []
+
+    const paragraphs: StoredParagraph[] = []
+    for (const paragraph of storedParagraphs) {
+      if (paragraph.boundingBox) {
+        paragraphs.push({
+          normalizedText: normalizeForPlacement(paragraph.text),
+          pageNumber: paragraph.pageNumber,
+          boundingBox: paragraph.boundingBox
+        })
+      }
+    }
+
+    return {
+      pdfBytes: await file.arrayBuffer(),
+      filename: String(document.filename ?? `${documentId}.pdf`),
+      paragraphs
+    }
+  } finally {
+    releaseServiceClient(supabase)
+  }
+}
+
+/**
+ * Paragraph boxes covered by a chunk
+ * Chunks either merge whole paragraphs or split a long one, so containment is checked both ways.
+ */
+function findChunkBoxes(chunk: EvidenceChunk, paragraphs: StoredParagraph[]): ParagraphBoundingBox[] {
+  const chunkText = normalizeForPlacement(chunk.text)
+  if (chunkText.length === 0) {
+    return []
+  }
+
+  return paragraphs
+    .filter(paragraph =>
+      // Chunks may run onto the following page
+      (paragraph.pageNumber === chunk.pageNumber || paragraph.pageNumber === chunk.pageNumber + 1) &&
+      paragraph.normalizedText.length >= MIN_PARAGRAPH_MATCH_CHARACTERS &&
+      (chunkText.includes(paragraph.normalizedText) || paragraph.normalizedText.includes(chunkText))
+    )
+    .map(paragraph => paragraph.boundingBox)
+}
+
+function sectionIndexForSourcePage(sections: SectionMatch[], pageNumber: number): number {
+  return sections.findIndex(section => {
+    const range = parseSectionPageRange(section.docA_pageRange)
+    return range !== null && pageNumber >= range.start && pageNumber <= range.end
+  })
+}
+
+function formatPageRange(range: string): string {
+  return range.replace('-', '–')
+}
+
+function drawLabel(page: PDFPage, font: PDFFont, text: string, x: number, y: number, color: RGB): void {
+  const { width: pageWidth } = page.getSize()
+  const textWidth = font.widthOfTextAtSize(text, LABEL_FONT_SIZE)
+  const left = Math.max(2, Math.min(x, pageWidth - textWidth - LABEL_PADDING * 2 - 2))
+
+  page.drawRectangle({
+    x: left,
+    y,
+    width: textWidth + LABEL_PADDING * 2,
+    height: LABEL_FONT_SIZE + LABEL_PADDING * 2,
+    color: rgb(1, 1, 1),
+    opacity: 0.9,
+    borderColor: color,
+    borderWidth: 0.75
+  })
+  page.drawText(text, {
+    x: left + LABEL_PADDING,
+    y: y + LABEL_PADDING + 1,
+    size: LABEL_FONT_SIZE,
+    font,
+    color: rgb(0.15, 0.15, 0.15)
+  })
+}
+
+function annotatePage(
+  page: PDFPage,
+  font: PDFFont,
+  regions: PageSectionRegions[],
+  labelFor: (sectionIndex: number) => string
+): void {
+  const { width, height } = page.getSize()
+  // Bounding boxes are relative to the upright page image
+  const canPlaceBoxes = page.getRotation().angle % 360 === 0
+  const labelHeight = LABEL_FONT_SIZE + LABEL_PADDING * 2
+  let marginLabelOffset = 0
+
+  for (const region of regions) {
+    const color = SECTION_COLORS[region.sectionIndex % SECTION_COLORS.length]!
+    const label = labelFor(region.sectionIndex)
+
+    if (canPlaceBoxes && region.boxes.length > 0) {
+      for (const box of region.boxes) {
+        page.drawRectangle({
+          x: box.left * width,
+          y: height - box.bottom * height,
+          width: (box.right - box.left) * width,
+          height: (box.bottom - box.top) * height,
+          color,
+          opacity: HIGHLIGHT_OPACITY
+        })
+      }
+
+      const first = region.boxes.reduce((top, box) => box.top < top.top ? box : top)
+      const aboveBox = height - first.top * height + 1
+      drawLabel(page, font, label, first.left * width, Math.min(aboveBox, height - labelHeight - 1), color)
+      continue
+    }
+
+    page.drawRectangle({
+      x: 2,
+      y: 12,
+      width: MARGIN_BAR_WIDTH,
+      height: height - 24,
+      color,
+      opacity: 0.6
+    })
+    drawLabel(page, font, label, MARGIN_BAR_WIDTH + 6, height - labelHeight - 6 - marginLabelOffset, color)
+    marginLabelOffset += labelHeight + 2
+  }
+}
+
+/**
+ * Copy of the source or target PDF with matched regions highlighted and cross-referenced
+ */
+export async function buildAnnotatedPdf(
+  sourceDocumentId: string,
+  targetDocumentId: string,
+  side: AnnotatedPdfSide,
+  options: SimilarityEvidenceOptions = {}
+): Promise<AnnotatedPdf> {
+  const documentId = side === 'source' ? sourceDocumentId : targetDocumentId
+
+  const [evidence, annotated] = await Promise.all([
+    computeSimilarityEvidence(sourceDocumentId, targetDocumentId, options),
+    loadDocumentForAnnotation(documentId)
+  ])
+
+  const pdf = await PDFDocument.load(annotated.pdfBytes, { ignoreEncryption: true })
+  const font = await pdf.embedFont(StandardFonts.Helvetica)
+  const pages = pdf.getPages()
+
+  // page number -> section index -> boxes
+  const regionsByPage = new Map<number, Map<number, ParagraphBoundingBox[]>>()
+  for (const pair of evidence.pairs) {
+    const sectionIndex = sectionIndexForSourcePage(evidence.sections, pair.source.pageNumber)
+    if (sectionIndex < 0) {
+      continue
+    }
+
+    const chunk = side === 'source' ? pair.source : pair.target
+    const pageRegions = regionsByPage.get(chunk.pageNumber) ?? new Map<number, ParagraphBoundingBox[]>()
+    const boxes = pageRegions.get(sectionIndex) ?? []
+    for (const box of findChunkBoxes(chunk, annotated.paragraphs)) {
+      if (!boxes.includes(box)) {
+        boxes.push(box)
+      }
+    }
+    pageRegions.set(sectionIndex, boxes)
+    regionsByPage.set(chunk.pageNumber, pageRegions)
+  }
+
+  const otherSide = side === 'source' ? 'target' : 'source'
+  const labelFor = (sectionIndex: number): string => {
+    const section = evidence.sections[sectionIndex]!
+    const range = side === 'source' ? section.docB_pageRange : section.docA_pageRange
+    return `Matches ${otherSide} p.${formatPageRange(range)}, ${Math.round(section.avgScore * 100)}%`
+  }
+
+  for (const [pageNumber, pageRegions] of regionsByPage) {
+    const page = pages[pageNumber - 1]
+    if (!page) {
+      continue
+    }
+    annotatePage(
+      page,
+      font,
+      Array.from(pageRegions, ([sectionIndex, boxes]) => ({ sectionIndex, boxes })),
+      labelFor
+    )
+  }
+
+  const bytes = await pdf.save()
+  const baseName = annotated.filename.replace(/\.pdf$/i, '')
+
+  logger.info('Annotated PDF generated', {
+    sourceDocumentId,
+    targetDocumentId,
+    side,
+    sections: evidence.sections.length,
+    highlightedPages: regionsByPage.size,
+    component: 'annotated-pdf'
+  })
+
+  return {
+    bytes,
+    filename: `${baseName}-annotated.pdf`,
+    highlightedPages: regionsByPage.size
+  }
+}
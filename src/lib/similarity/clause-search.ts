@@ -0,0 +1,210 @@
+/**
+ * Paste-a-clause similarity search
+ * Pasted text is chunked like an uploaded document and embedded, then run through Stage 1 and
+ * Stage 2 as an ephemeral source that is never uploaded or stored. Stage 0 is skipped because
+ * there is no stored centroid; Stage 1 ranks every document with a neighbouring chunk instead.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { chunkByParagraphs, type Paragraph } from '@/lib/chunking/paragraph-chunker'
+import { MAX_CHUNK_CHARACTERS } from '@/lib/constants/chunking'
+import { getEmbeddingProvider, resolveEmbeddingModel } from '@/lib/embeddings'
+import { resolveActiveEmbeddingModel } from '@/lib/embedding-migration'
+import { logger } from '@/lib/logger'
+import { stage1ChunkPrefilter } from './stages/stage1-chunk-prefilter'
+import { stage2FinalScoring } from './stages/stage2-final-scoring'
+import { l2Normalize } from './utils/vector-operations'
+import type { Chunk } from './types'
+import type { GenericSupabaseSchema } from '@/types/supabase'
+
+export const CLAUSE_SEARCH_MIN_CHARACTERS = 20
+export const CLAUSE_SEARCH_MAX_CHARACTERS = 20000
+
+const DEFAULT_THRESHOLD = 0.85
+const STAGE1_TOP_K = 100
+const EPHEMERAL_SOURCE_ID = 'pasted-clause'
+
+export class ClauseSearchInputError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ClauseSearchInputError'
+  }
+}
+
+export interface ClauseSearchOptions {
+  threshold?: number
+}
+
+export interface ClauseHit {
+  clauseChunkIndex: number
+  targetChunkIndex: number
+  pageNumber: number
+  cosineScore: number
+  jaccardScore: number
+}
+
+export interface ClauseSearchResult {
+  documentId: string
+  title: string
+  filename: string
+  // Share of the pasted text found in the document
+  clauseCoverage: number
+  pages: number[]
+  hits: ClauseHit[]
+}
+
+export interface ClauseSearchResponse {
+  clauseChunks: number
+  clauseCharacters: number
+  threshold: number
+  embeddingModel: string
+  results: ClauseSearchResult[]
+  timing: {
+    embedding_ms: number
+    stage1_ms: number
+    stage2_ms: number
+    total_ms: number
+  }
+}
+
+/**
+ * Split pasted text into chunks the same way Document AI paragraphs are chunked
+ * Blank lines separate paragraphs; everything is treated as page 1.
+ */
+function chunkClauseText(text: string) {
+  const paragraphs: Paragraph[] = text
+    .split(/\n\s*\n/)
+    .map(paragraph => paragraph.replace(/\s+/g, ' ').trim())
+    .filter(paragraph => paragraph.length > 0)
+    .map((paragraph, index) => ({ text: paragraph, pageNumber: 1, index }))
+
+  return chunkByParagraphs(paragraphs, MAX_CHUNK_CHARACTERS)
+}
+
+/**
+ * Find documents containing the pasted clause or a close variant
+ * supabase is the caller's client; documents they cannot see are dropped from the results.
+ */
+export async function searchClause(
+  supabase: SupabaseClient<GenericSupabaseSchema>,
+  text: string,
+  options: ClauseSearchOptions = {}
+): Promise<ClauseSearchResponse> {
+  const startTime = Date.now()
+  const threshold = options.threshold ?? DEFAULT_THRESHOLD
+
+  const clauseChunks = chunkClauseText(text)
+  if (clauseChunks.length === 0) {
+    throw new ClauseSearchInputError('Pasted text has no searchable content')
+  }
+
+  const embeddingModel = resolveEmbeddingModel(await resolveActiveEmbeddingModel())
+  const outcomes = await getEmbeddingProvider(embeddingModel).embedBatch(clauseChunks.map(chunk => chunk.text))
+
+  const sourceChunks: Chunk[] = clauseChunks.map((chunk, index) => {
+    const outcome = outcomes[index]
+    if (!outcome || 'error' in outcome) {
+      throw new Error(`Failed to embed pasted text: ${outcome?.error.message ?? 'missing embedding'}`)
+    }
+    return {
+      id: `${EPHEMERAL_SOURCE_ID}_chunk_${chunk.chunkIndex}`,
+      index: chunk.chunkIndex,
+      pageNumber: chunk.pageNumber,
+      startPageNumber: chunk.startPageNumber,
+      endPageNumber: chunk.endPageNumber,
+      embedding: l2Normalize(outcome.embedding),
+      text: chunk.text,
+      characterCount: chunk.characterCount
+    }
+  })
+  const clauseCharacters = sourceChunks.reduce((sum, chunk) => sum + chunk.characterCount, 0)
+  const embeddingMs = Date.now() - startTime
+
+  const stage1 = await stage1ChunkPrefilter(sourceChunks, null, { topK: STAGE1_TOP_K })
+
+  const stage2Start = Date.now()
+  const stage2Results = stage1.candidateIds.length > 0
+    ? await stage2FinalScoring(
+        {
+          id: EPHEMERAL_SOURCE_ID,
+          title: 'Pasted clause',
+          effective_chunk_count: sourceChunks.length,
+          total_characters: clauseCharacters
+        },
+        stage1.candidateIds,
+        {
+          threshold,
+          sourceChunksOverride: sourceChunks,
+          requireMinimumEvidence: false,
+          includeChunkMatches: true
+        }
+      )
+    : []
+  const stage2Ms = Date.now() - stage2Start
+
+  // Stage 1 searches the whole collection, so visibility is enforced here
+  const visibleIds = new Set<string>()
+  if (stage2Results.length > 0) {
+    const { data, error } = await supabase
+      .from('documents')
+      .select('id')
+      .in('id', stage2Results.map(result => result.document.id))
+      .eq('status', 'completed')
+
+    if (error) {
+      throw new Error(`Failed to check document access: ${error.message}`)
+    }
+    for (const row of (data ?? []) as Array<{ id: string }>) {
+      visibleIds.add(row.id)
+    }
+  }
+
+  const results: ClauseSearchResult[] = stage2Results
+    .filter(result => visibleIds.has(result.document.id))
+    .map(result => {
+      const hits = (result.chunkMatches ?? [])
+        .map(match => ({
+          clauseChunkIndex: match.chunkA.index,
+          targetChunkIndex: match.chunkB.index,
+          pageNumber: match.chunkB.pageNumber,
+          cosineScore: match.score,
+          jaccardScore: match.jaccardScore ?? 0
+        }))
+        .sort((a, b) => b.cosineScore - a.cosineScore)
+
+      return {
+        documentId: result.document.id,
+        title: result.document.title,
+        filename: result.document.filename,
+        clauseCoverage: result.scores.sourceScore,
+        pages: Array.from(new Set(hits.map(hit => hit.pageNumber))).sort((a, b) => a - b),
+        hits
+      }
+    })
+
+  const totalMs = Date.now() - startTime
+
+  logger.info('Clause search completed', {
+    clauseChunks: sourceChunks.length,
+    clauseCharacters,
+    threshold,
+    stage1Candidates: stage1.candidateIds.length,
+    results: results.length,
+    durationMs: totalMs,
+    component: 'clause-search'
+  })
+
+  return {
+    clauseChunks: sourceChunks.length,
+    clauseCharacters,
+    threshold,
+    embeddingModel,
+    results,
+    timing: {
+      embedding_ms: embeddingMs,
+      stage1_ms: stage1.timeMs,
+      stage2_ms: stage2Ms,
+      total_ms: totalMs
+    }
+  }
+}
@@ -2,6 +2,10 @@
  * Character-Based Adaptive Scoring Formula
  * Uses actual content volume (characters) for accurate similarity measurement
  * Final score = matched coverage of the larger document (in characters)
+ *
+ * When weighted totals are supplied, adjusted scores are also reported: each chunk
+ * counts characterCount × boilerplateWeight on both sides of the ratio, so text found
+ * throughout the corpus adds little to coverage.
  */
 
 import { ChunkMatch, SimilarityScores } from '../types'
@@ -9,7 +13,11 @@ import { ChunkMatch, SimilarityScores } from '../types'
 export function computeAdaptiveScore(
   matchedPairs: ChunkMatch[],
   docA_totalCharacters: number,  // CRITICAL: Total characters in document A
-  docB_totalCharacters: number   // CRITICAL: Total characters in document B
+  docB_totalCharacters: number,  // CRITICAL: Total characters in document B
+  weightedTotals?: {
+    docA_weightedCharacters: number
+    docB_weightedCharacters: number
+  }
 ): SimilarityScores {
 
   // Validate inputs
@@ -23,6 +31,8 @@ export function computeAdaptiveScore(
   // Each match contributes characters from both chunks
   let matchedCharactersA = 0  // Characters from doc A in matched pairs
   let matchedCharactersB = 0  // Characters from doc B in matched pairs
+  let weightedMatchedA = 0
+  let weightedMatchedB = 0
 
   const uniqueSourceChunks = new Set<string>()
   const uniqueTargetChunks = new Set<string>()
@@ -30,11 +40,13 @@ export function computeAdaptiveScore(
   for (const match of matchedPairs) {
     if (!uniqueSourceChunks.has(match.chunkA.id)) {
       matchedCharactersA += match.chunkA.characterCount
+      weightedMatchedA += match.chunkA.characterCount * (match.chunkA.boilerplateWeight ?? 1)
       uniqueSourceChunks.add(match.chunkA.id)
     }
 
     if (!uniqueTargetChunks.has(match.chunkB.id)) {
       matchedCharactersB += match.chunkB.characterCount
+      weightedMatchedB += match.chunkB.characterCount * (match.chunkB.boilerplateWeight ?? 1)
       uniqueTargetChunks.add(match.chunkB.id)
     }
   }
@@ -45,18 +57,38 @@ export function computeAdaptiveScore(
 
   // User-Facing Explanation
   const matchedPairs_count = matchedPairs.length
-  const explanation =
+  let explanation =
     `Source reuse ${(sourceScore * 100).toFixed(1)}% (${matchedCharactersA.toLocaleString()}/${docA_totalCharacters.toLocaleString()} characters), ` +
     `target reuse ${(targetScore * 100).toFixed(1)}% (${matchedCharactersB.toLocaleString()}/${docB_totalCharacters.toLocaleString()} characters) ` +
     `across ${matchedPairs_count} chunk pairs.`
 
-  return {
+  const scores: SimilarityScores = {
     sourceScore,
     targetScore,
     matchedSourceCharacters: matchedCharactersA,
     matchedTargetCharacters: matchedCharactersB,
     explanation
   }
+
+  if (weightedTotals) {
+    // Clamp: weighted totals come from chunk sums, which can trail total_characters slightly
+    const adjustedSourceScore = weightedTotals.docA_weightedCharacters > 0
+      ? Math.min(1, weightedMatchedA / weightedTotals.docA_weightedCharacters)
+      : 0
+    const adjustedTargetScore = weightedTotals.docB_weightedCharacters > 0
+      ? Math.min(1, weightedMatchedB / weightedTotals.docB_weightedCharacters)
+      : 0
+
+    explanation +=
+      ` Excluding corpus boilerplate: source ${(adjustedSourceScore * 100).toFixed(1)}%, ` +
+      `target ${(adjustedTargetScore * 100).toFixed(1)}%.`
+
+    scores.adjustedSourceScore = adjustedSourceScore
+    scores.adjustedTargetScore = adjustedTargetScore
+    scores.explanation = explanation
+  }
+
+  return scores
 }
 
 /**
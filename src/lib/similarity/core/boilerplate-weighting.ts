@@ -0,0 +1,49 @@
+/**
+ * Boilerplate Down-Weighting (IDF-style)
+ * Chunks whose text cluster appears in many documents of the corpus (W-9, FATCA,
+ * standard AML representations) contribute less to coverage than distinctive text.
+ *
+ * weight = ln(N / df) / ln(N / 2), clamped to [0, 1]
+ * where N = corpus document count and df = documents containing the chunk's cluster.
+ * Text shared by only two documents keeps full weight; text in every document weighs 0.
+ */
+
+import { Chunk } from '../types'
+
+// Clusters present in at most this many documents are treated as distinctive
+export const BOILERPLATE_FULL_WEIGHT_MAX_DOCUMENTS = 2
+
+export function computeBoilerplateWeight(documentCount: number, corpusSize: number): number {
+  if (documentCount <= BOILERPLATE_FULL_WEIGHT_MAX_DOCUMENTS || corpusSize <= BOILERPLATE_FULL_WEIGHT_MAX_DOCUMENTS) {
+    return 1
+  }
+
+  const weight = Math.log(corpusSize / documentCount) / Math.log(corpusSize / BOILERPLATE_FULL_WEIGHT_MAX_DOCUMENTS)
+  return Math.min(1, Math.max(0, weight))
+}
+
+/**
+ * Attach boilerplate weights to chunks
+ *
+ * @param chunks - Document chunks
+ * @param documentFrequencies - Map of chunk_index → number of documents sharing its cluster
+ * @param corpusSize - Total documents in the corpus
+ * @returns New chunk array with boilerplateWeight set (chunks missing from the map keep weight 1)
+ */
+export function applyBoilerplateWeights(
+  chunks: Chunk[],
+  documentFrequencies: Map<number, number>,
+  corpusSize: number
+): Chunk[] {
+  return chunks.map(chunk => ({
+    ...chunk,
+    boilerplateWeight: computeBoilerplateWeight(documentFrequencies.get(chunk.index) ?? 1, corpusSize)
+  }))
+}
+
+/**
+ * Sum of characterCount × boilerplateWeight across chunks
+ */
+export function weightedCharacterTotal(chunks: Chunk[]): number {
+  return chunks.reduce((sum, chunk) => sum + chunk.characterCount * (chunk.boilerplateWeight ?? 1), 0)
+}
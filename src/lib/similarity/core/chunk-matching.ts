@@ -8,12 +8,15 @@
 import { logger } from '@/lib/logger'
 import { ChunkMatch, Chunk } from '../types'
 import { cosineSimilarity } from '../utils/vector-operations'
-import { jaccardSimilarity } from '../utils/jaccard-similarity'
+import { jaccardSimilarity, type WordSynonyms } from '../utils/jaccard-similarity'
 import { hasSufficientEvidence } from './adaptive-scoring'
 
-interface MatchingOptions {
+export interface MatchingOptions {
   primaryThreshold?: number    // Cosine similarity threshold (default: 0.90)
   jaccardThreshold?: number    // Jaccard similarity threshold (default: 0.60)
+  boilerplateWeighting?: boolean // Count matched characters by chunk boilerplate weight (default: false)
+  requireMinimumEvidence?: boolean // Return null below the minimum evidence threshold (default: true)
+  synonyms?: WordSynonyms          // Treat synonym variants as the same word in Jaccard (default: none)
 }
 
 /**
@@ -35,7 +38,10 @@ export async function findBidirectionalMatches(
     ? { primaryThreshold: thresholdOrOptions, jaccardThreshold: 0.60 }
     : {
         primaryThreshold: thresholdOrOptions.primaryThreshold ?? 0.90,
-        jaccardThreshold: thresholdOrOptions.jaccardThreshold ?? 0.60
+        jaccardThreshold: thresholdOrOptions.jaccardThreshold ?? 0.60,
+        boilerplateWeighting: thresholdOrOptions.boilerplateWeighting ?? false,
+        requireMinimumEvidence: thresholdOrOptions.requireMinimumEvidence ?? true,
+        synonyms: thresholdOrOptions.synonyms
       }
 
   // Direction A→B: For each chunk in A, find best match in B
@@ -49,13 +55,33 @@ export async function findBidirectionalMatches(
 
   // Dynamic minimum evidence filter (CRITICAL)
   // Prevents false positives from coincidental matches
+  if (options.requireMinimumEvidence !== false && !meetsMinimumEvidence(allMatches, chunksA, chunksB, options)) {
+    return null
+  }
+
+  return allMatches
+}
+
+/**
+ * Dynamic minimum evidence check on a set of matched pairs
+ * Exported so callers that keep low-evidence matches (e.g. evidence review) can report it
+ */
+export function meetsMinimumEvidence(
+  allMatches: ChunkMatch[],
+  chunksA: Chunk[],
+  chunksB: Chunk[],
+  options: Pick<MatchingOptions, 'boilerplateWeighting'> = {}
+): boolean {
   // Calculate total characters for both documents
   const totalCharactersA = chunksA.reduce((sum, chunk) => sum + chunk.characterCount, 0)
   const totalCharactersB = chunksB.reduce((sum, chunk) => sum + chunk.characterCount, 0)
 
   // Calculate matched characters (use smaller of A or B for conservative check)
-  const matchedCharactersA = allMatches.reduce((sum, match) => sum + match.chunkA.characterCount, 0)
-  const matchedCharactersB = allMatches.reduce((sum, match) => sum + match.chunkB.characterCount, 0)
+  // With boilerplate weighting, matches made only of corpus-wide text cannot meet the threshold
+  const weightOf = (chunk: ChunkMatch['chunkA']) =>
+    options.boilerplateWeighting ? (chunk.boilerplateWeight ?? 1) : 1
+  const matchedCharactersA = allMatches.reduce((sum, match) => sum + match.chunkA.characterCount * weightOf(match.chunkA), 0)
+  const matchedCharactersB = allMatches.reduce((sum, match) => sum + match.chunkB.characterCount * weightOf(match.chunkB), 0)
   const matchedCharacters = Math.min(matchedCharactersA, matchedCharactersB)
 
   const sufficientEvidence = hasSufficientEvidence(
@@ -71,12 +97,13 @@ export async function findBidirectionalMatches(
       matchedCharacters,
       totalCharactersA,
       totalCharactersB,
-      requiredCharacters: minRequired
+      requiredCharacters: minRequired,
+      boilerplateWeighting: options.boilerplateWeighting ?? false
     })
-    return null
+    return false
   }
 
-  return allMatches
+  return true
 }
 
 /**
@@ -129,7 +156,7 @@ function findBestMatches(
       // Stage 2: Jaccard similarity filter (lexical overlap)
       // Only applies if threshold > 0 and both chunks have text
       if (jaccardEnabled && chunkA.text && chunkB.text) {
-        const jaccardScore = jaccardSimilarity(chunkA.text, chunkB.text)
+        const jaccardScore = jaccardSimilarity(chunkA.text, chunkB.text, options.synonyms)
 
         if (jaccardScore < jaccardThreshold) {
           totalJaccardFiltered++
@@ -178,13 +205,15 @@ function findBestMatches(
         id: chunkA.id,
         index: chunkA.index,
         pageNumber: chunkA.pageNumber,
-        characterCount: chunkA.characterCount
+        characterCount: chunkA.characterCount,
+        boilerplateWeight: chunkA.boilerplateWeight
       },
       chunkB: {
         id: bestMatch.chunkB.id,
         index: bestMatch.chunkB.index,
         pageNumber: bestMatch.chunkB.pageNumber,
-        characterCount: bestMatch.chunkB.characterCount
+        characterCount: bestMatch.chunkB.characterCount,
+        boilerplateWeight: bestMatch.chunkB.boilerplateWeight
       },
       score: bestMatch.score,
       jaccardScore: bestMatch.jaccardScore
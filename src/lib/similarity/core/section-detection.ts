@@ -121,6 +121,16 @@ function summarizeSection(section: {
   }
 }
 
+/**
+ * Parse a section page range ("12-20" or "12") back into numbers
+ */
+export function parseSectionPageRange(range: string): { start: number; end: number } | null {
+  const [startText, endText] = range.split('-')
+  const start = Number.parseInt(startText ?? '', 10)
+  const end = endText === undefined ? start : Number.parseInt(endText, 10)
+  return Number.isFinite(start) && Number.isFinite(end) ? { start, end } : null
+}
+
 /**
  * Classify sections by reusability
  * Returns sections grouped by quality tier
@@ -0,0 +1,267 @@
+/**
+ * Chunk-pair evidence for a single source/target comparison
+ * Re-runs Stage 2 matching for one pair and keeps every matched chunk pair with its text,
+ * so reviewers can see exactly which passages produced a similarity score.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createServiceClient, releaseServiceClient } from '@/lib/supabase/server'
+import { fetchChunkDocumentFrequencies, getCorpusDocumentCount } from '@/lib/boilerplate-index'
+import { findBidirectionalMatches, meetsMinimumEvidence } from './core/chunk-matching'
+import { computeAdaptiveScore } from './core/adaptive-scoring'
+import { groupMatchesIntoSections } from './core/section-detection'
+import { applyBoilerplateWeights, weightedCharacterTotal } from './core/boilerplate-weighting'
+import { fetchDocumentChunks } from './stages/stage2-final-scoring'
+import { buildWordSynonyms, jaccardSimilarity } from './utils/jaccard-similarity'
+import { loadSynonymGroups } from '@/lib/search/synonyms'
+import type { Chunk, SectionMatch, SimilarityScores } from './types'
+import type { GenericSupabaseSchema } from '@/types/supabase'
+
+const DEFAULT_THRESHOLD = 0.90
+const DEFAULT_JACCARD_THRESHOLD = 0.60
+const MIN_THRESHOLD = 0.5
+
+export interface EvidenceChunk {
+  chunkIndex: number
+  pageNumber: number
+  characterCount: number
+  text: string
+  boilerplateWeight?: number
+}
+
+export interface ChunkPairEvidence {
+  source: EvidenceChunk
+  target: EvidenceChunk
+  cosineScore: number
+  jaccardScore: number
+}
+
+export interface SimilarityEvidence {
+  sourceDocumentId: string
+  targetDocumentId: string
+  threshold: number
+  jaccardThreshold: number
+  sourcePageRange: { start_page: number; end_page: number } | null
+  sufficientEvidence: boolean
+  scores: SimilarityScores | null
+  sections: SectionMatch[]
+  pairs: ChunkPairEvidence[]
+}
+
+export interface SimilarityEvidenceOptions {
+  threshold?: number
+  sourcePageRange?: { start_page: number; end_page: number }
+  boilerplateWeighting?: boolean
+}
+
+export type SimilarityEvidenceRequestResult =
+  | { request: { targetDocumentId: string; options: SimilarityEvidenceOptions } }
+  | { error: { kind: 'validation' | 'not_found'; message: string } }
+
+function parsePage(value: string | null): number | undefined {
+  if (!value) return undefined
+  const parsed = Number.parseInt(value, 10)
+  return Number.isFinite(parsed) ? parsed : undefined
+}
+
+/**
+ * Validate evidence query parameters and check both documents are visible to the caller
+ * Query parameters: targetId (required), start_page + end_page, threshold, boilerplate_weighting
+ */
+export async function prepareSimilarityEvidenceRequest(
+  supabase: SupabaseClient<GenericSupabaseSchema>,
+  sourceDocumentId: string,
+  searchParams: URLSearchParams
+): Promise<SimilarityEvidenceRequestResult> {
+  const targetDocumentId = searchParams.get('targetId')?.trim()
+  if (!targetDocumentId) {
+    return { error: { kind: 'validation', message: 'targetId is required' } }
+  }
+
+  const startPage = parsePage(searchParams.get('start_page'))
+  const endPage = parsePage(searchParams.get('end_page'))
+  if ((startPage === undefined) !== (endPage === undefined)) {
+    return { error: { kind: 'validation', message: 'Provide both start_page and end_page' } }
+  }
+  if (startPage !== undefined && endPage !== undefined && (startPage < 1 || startPage > endPage)) {
+    return { error: { kind: 'validation', message: 'Invalid page range' } }
+  }
+
+  const rawThreshold = searchParams.get('threshold')
+  const threshold = rawThreshold !== null ? Number.parseFloat(rawThreshold) : undefined
+  if (threshold !== undefined && (!Number.isFinite(threshold) || threshold < MIN_THRESHOLD || threshold > 1)) {
+    return { error: { kind: 'validation', message: `threshold must be between ${MIN_THRESHOLD} and 1` } }
+  }
+
+  const { data: documents, error } = await supabase
+    .from('documents')
+    .select('id, status')
+    .in('id', [sourceDocumentId, targetDocumentId])
+
+  if (error) {
+    throw new Error(`Failed to load documents: ${error.message}`)
+  }
+
+  const statuses = new Map((documents ?? []).map(doc => [doc.id as string, doc.status as string]))
+  if (!statuses.has(sourceDocumentId)) {
+    return { error: { kind: 'not_found', message: 'Source document not found' } }
+  }
+  if (!statuses.has(targetDocumentId)) {
+    return { error: { kind: 'not_found', message: 'Target document not found' } }
+  }
+  if (statuses.get(sourceDocumentId) !== 'completed' || statuses.get(targetDocumentId) !== 'completed') {
+    return { error: { kind: 'validation', message: 'Both documents must be fully processed' } }
+  }
+
+  return {
+    request: {
+      targetDocumentId,
+      options: {
+        ...(threshold !== undefined ? { threshold } : {}),
+        ...(startPage !== undefined && endPage !== undefined
+          ? { sourcePageRange: { start_page: startPage, end_page: endPage } }
+          : {}),
+        boilerplateWeighting: searchParams.get('boilerplate_weighting') === 'true'
+      }
+    }
+  }
+}
+
+function toEvidenceChunk(chunk: Chunk): EvidenceChunk {
+  return {
+    chunkIndex: chunk.index,
+    pageNumber: chunk.pageNumber,
+    characterCount: chunk.characterCount,
+    text: chunk.text ?? '',
+    ...(chunk.boilerplateWeight !== undefined ? { boilerplateWeight: chunk.boilerplateWeight } : {})
+  }
+}
+
+async function fetchTotalCharacters(documentId: string): Promise<number | null> {
+  const supabase = await createServiceClient()
+  try {
+    const { data } = await supabase
+      .from('documents')
+      .select('total_characters')
+      .eq('id', documentId)
+      .maybeSingle()
+
+    return typeof data?.total_characters === 'number' && data.total_characters > 0
+      ? data.total_characters
+      : null
+  } finally {
+    releaseServiceClient(supabase)
+  }
+}
+
+/**
+ * Every matched chunk pair between two documents, ordered by source position
+ * Pairs are returned even when the match falls below the minimum evidence threshold,
+ * in which case sufficientEvidence is false (Stage 2 would have dropped the result).
+ */
+export async function computeSimilarityEvidence(
+  sourceDocumentId: string,
+  targetDocumentId: string,
+  options: SimilarityEvidenceOptions = {}
+): Promise<SimilarityEvidence> {
+  const threshold = options.threshold ?? DEFAULT_THRESHOLD
+  const boilerplateWeighting = options.boilerplateWeighting ?? false
+
+  const [fetchedSourceChunks, fetchedTargetChunks, targetTotalCharacters, synonymGroups] = await Promise.all([
+    fetchDocumentChunks(
+      sourceDocumentId,
+      options.sourcePageRange ? { pageRange: options.sourcePageRange } : undefined
+    ),
+    fetchDocumentChunks(targetDocumentId),
+    fetchTotalCharacters(targetDocumentId),
+    loadSynonymGroups()
+  ])
+  const synonyms = buildWordSynonyms(synonymGroups)
+
+  let sourceChunks = fetchedSourceChunks
+  let targetChunks = fetchedTargetChunks
+
+  if (boilerplateWeighting) {
+    const [corpusSize, sourceFrequencies, targetFrequencies] = await Promise.all([
+      getCorpusDocumentCount(),
+      fetchChunkDocumentFrequencies(sourceDocumentId),
+      fetchChunkDocumentFrequencies(targetDocumentId)
+    ])
+    sourceChunks = applyBoilerplateWeights(sourceChunks, sourceFrequencies, corpusSize)
+    targetChunks = applyBoilerplateWeights(targetChunks, targetFrequencies, corpusSize)
+  }
+
+  const emptyEvidence: SimilarityEvidence = {
+    sourceDocumentId,
+    targetDocumentId,
+    threshold,
+    jaccardThreshold: DEFAULT_JACCARD_THRESHOLD,
+    sourcePageRange: options.sourcePageRange ?? null,
+    sufficientEvidence: false,
+    scores: null,
+    sections: [],
+    pairs: []
+  }
+
+  if (sourceChunks.length === 0 || targetChunks.length === 0) {
+    return emptyEvidence
+  }
+
+  const matches = await findBidirectionalMatches(sourceChunks, targetChunks, {
+    primaryThreshold: threshold,
+    jaccardThreshold: DEFAULT_JACCARD_THRESHOLD,
+    boilerplateWeighting,
+    requireMinimumEvidence: false,
+    synonyms
+  }) ?? []
+
+  const sourceTotalCharacters = sourceChunks.reduce((sum, chunk) => sum + chunk.characterCount, 0)
+  const targetCharacters = targetTotalCharacters
+    ?? targetChunks.reduce((sum, chunk) => sum + chunk.characterCount, 0)
+
+  const scores = sourceTotalCharacters > 0 && targetCharacters > 0
+    ? computeAdaptiveScore(
+        matches,
+        sourceTotalCharacters,
+        targetCharacters,
+        boilerplateWeighting
+          ? {
+              docA_weightedCharacters: weightedCharacterTotal(sourceChunks),
+              docB_weightedCharacters: weightedCharacterTotal(targetChunks)
+            }
+          : undefined
+      )
+    : null
+
+  const sourceById = new Map(sourceChunks.map(chunk => [chunk.id, chunk]))
+  const targetById = new Map(targetChunks.map(chunk => [chunk.id, chunk]))
+
+  const pairs: ChunkPairEvidence[] = []
+  for (const match of matches) {
+    const sourceChunk = sourceById.get(match.chunkA.id)
+    const targetChunk = targetById.get(match.chunkB.id)
+    if (!sourceChunk || !targetChunk) {
+      continue
+    }
+
+    pairs.push({
+      source: toEvidenceChunk(sourceChunk),
+      target: toEvidenceChunk(targetChunk),
+      cosineScore: match.score,
+      // Pairs found in the B→A direction do not carry their Jaccard score
+      jaccardScore: match.jaccardScore ?? jaccardSimilarity(sourceChunk.text ?? '', targetChunk.text ?? '', synonyms)
+    })
+  }
+
+  pairs.sort((a, b) =>
+    a.source.chunkIndex - b.source.chunkIndex || b.cosineScore - a.cosineScore
+  )
+
+  return {
+    ...emptyEvidence,
+    sufficientEvidence: meetsMinimumEvidence(matches, sourceChunks, targetChunks, { boilerplateWeighting }),
+    scores,
+    sections: groupMatchesIntoSections(matches),
+    pairs
+  }
+}
@@ -17,6 +17,7 @@ import { stage1ChunkPrefilter } from './stages/stage1-chunk-prefilter'
 import { stage2FinalScoring } from './stages/stage2-final-scoring'
 import { SimilarityResult, Chunk, Stage1Result } from './types'
 import { countCharacters } from '@/lib/chunking/paragraph-chunker'
+import { isRegisteredEmbeddingModel, listEmbeddingModels } from '@/lib/embeddings'
 
 interface SupabaseDocumentRecord {
   id: string
@@ -29,6 +30,7 @@ export interface SimilaritySearchOptions {
   // Stage 0 options
   stage0_topK?: number              // Default: 600
   stage0_filters?: Record<string, unknown>
+  excludeOlderVersions?: boolean    // Default: false (drop drafts superseded within their family)
 
   // Stage 1 options
   stage1_topK?: number              // Default: 250
@@ -40,14 +42,23 @@ export interface SimilaritySearchOptions {
   stage2_parallelWorkers?: number   // Default: 28
   stage2_threshold?: number         // Default: 0.90
   stage2_timeout?: number           // Default: 180000ms
+  boilerplateWeighting?: boolean    // Default: false (also report/rank by boilerplate-adjusted coverage)
 
   // Source scope options
   sourcePageRange?: {
     start_page: number
     end_page: number
   }
+
+  // Progress reporting (search jobs stream these to the client)
+  onProgress?: (event: SimilaritySearchProgressEvent) => void
 }
 
+export type SimilaritySearchProgressEvent =
+  | { stage: 'stage0'; candidates: number; timeMs: number }
+  | { stage: 'stage1'; candidates: number; timeMs: number; skipped: boolean }
+  | { stage: 'stage2'; completedBatches: number; totalBatches: number; batchResults: SimilarityResult[] }
+
 export interface SimilaritySearchResult {
   results: SimilarityResult[]
   timing: {
@@ -115,6 +126,29 @@ export async function executeSimilaritySearch(
       sourcePageRange
     })
 
+    if (options.excludeOlderVersions && stage0Result.candidateIds.length > 0) {
+      const supersededIds = await fetchSupersededDocumentIds(stage0Result.candidateIds)
+      if (supersededIds.size > 0) {
+        const keptIndexes = stage0Result.candidateIds
+          .map((candidateId, index) => (supersededIds.has(candidateId) ? -1 : index))
+          .filter(index => index >= 0)
+
+        stage0Result.candidateIds = keptIndexes.map(index => stage0Result.candidateIds[index]!)
+        stage0Result.scores = keptIndexes.map(index => stage0Result.scores[index]!)
+
+        logger.info('Stage 0: excluded older document versions', {
+          sourceDocId,
+          excludedCount: supersededIds.size
+        })
+      }
+    }
+
+    reportProgress(options, {
+      stage: 'stage0',
+      candidates: stage0Result.candidateIds.length,
+      timeMs: stage0Result.timeMs
+    })
+
     if (stage0Result.candidateIds.length === 0) {
       logger.warn('Stage 0 found no candidates; returning empty results', { sourceDocId })
       return {
@@ -168,6 +202,13 @@ export async function executeSimilaritySearch(
         }
       )
 
+      reportProgress(options, {
+        stage: 'stage1',
+        candidates: stage1Result.candidateIds.length,
+        timeMs: stage1Result.timeMs,
+        skipped: false
+      })
+
       if (stage1Result.candidateIds.length === 0) {
         logger.warn('Stage 1 filtering produced no candidates; returning empty results', { sourceDocId })
         return {
@@ -196,6 +237,13 @@ export async function executeSimilaritySearch(
         matchCounts: stage0Result.candidateIds.map(() => 0),
         timeMs: 0
       }
+
+      reportProgress(options, {
+        stage: 'stage1',
+        candidates: stage1Result.candidateIds.length,
+        timeMs: 0,
+        skipped: true
+      })
     }
 
     // ============================================================
@@ -259,7 +307,16 @@ export async function executeSimilaritySearch(
         threshold: options.stage2_threshold ?? 0.90,
         timeout: options.stage2_timeout ?? 180000,
         sourceChunksOverride: sourceChunks,
-        sourcePageRange
+        sourcePageRange,
+        boilerplateWeighting: options.boilerplateWeighting ?? false,
+        onBatchComplete: options.onProgress
+          ? (batchResults, progress) => reportProgress(options, {
+              stage: 'stage2',
+              completedBatches: progress.completedBatches,
+              totalBatches: progress.totalBatches,
+              batchResults
+            })
+          : undefined
       }
     )
 
@@ -338,6 +395,24 @@ function computeCentroidFromChunks(chunks: Chunk[]): number[] {
   return centroid
 }
 
+/**
+ * Deliver a progress event; listener failures never abort the search
+ */
+function reportProgress(options: SimilaritySearchOptions, event: SimilaritySearchProgressEvent): void {
+  if (!options.onProgress) {
+    return
+  }
+
+  try {
+    options.onProgress(event)
+  } catch (error) {
+    logger.warn('Similarity search progress listener failed', {
+      stage: event.stage,
+      error: error instanceof Error ? error.message : String(error)
+    })
+  }
+}
+
 /**
  * Fetch all chunks for a document from Supabase
  * Returns chunks with pre-normalized embeddings
@@ -521,6 +596,36 @@ async function fetchDocumentChunks(
   }
 }
 
+/**
+ * IDs among documentIds that are not the latest version of their family
+ */
+async function fetchSupersededDocumentIds(documentIds: string[]): Promise<Set<string>> {
+  const supersededIds = new Set<string>()
+  const batchSize = 200  // Keeps the id list within PostgREST URL limits
+  const supabase = await createServiceClient()
+  try {
+    for (let i = 0; i < documentIds.length; i += batchSize) {
+      const { data, error } = await supabase
+        .from('documents')
+        .select('id')
+        .in('id', documentIds.slice(i, i + batchSize))
+        .eq('is_latest_version', false)
+
+      if (error) {
+        throw new Error(`Failed to load document versions: ${error.message}`)
+      }
+
+      for (const row of (data ?? []) as Array<{ id: string }>) {
+        supersededIds.add(row.id)
+      }
+    }
+
+    return supersededIds
+  } finally {
+    releaseServiceClient(supabase)
+  }
+}
+
 /**
  * Fetch document metadata from Supabase
  */
@@ -594,9 +699,8 @@ export async function validateDocumentForSimilarity(
     }
 
     // Warnings (non-blocking)
-    const expectedModels = ['text-embedding-005']
-    if (doc.embedding_model && !expectedModels.includes(doc.embedding_model as string)) {
-      warnings.push(`Unexpected embedding model: ${doc.embedding_model} (expected ${expectedModels.join(' or ')})`)
+    if (doc.embedding_model && !isRegisteredEmbeddingModel(doc.embedding_model as string)) {
+      warnings.push(`Unexpected embedding model: ${doc.embedding_model} (expected ${listEmbeddingModels().join(' or ')})`)
     }
 
     return {
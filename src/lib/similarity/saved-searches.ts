@@ -0,0 +1,132 @@
+/**
+ * Saved similarity searches
+ * Completed searches are stored with their configuration and results so analysts can
+ * reopen them later or share the exact result set via permalink.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createServiceClient, releaseServiceClient } from '@/lib/supabase/server'
+import { logger } from '@/lib/logger'
+import type { GenericSupabaseSchema } from '@/types/supabase'
+import type { PreparedSimilaritySearch, SimilaritySearchResponse } from './search-request'
+
+export interface SavedSimilaritySearchSummary {
+  id: string
+  source_document_id: string
+  created_by_email: string | null
+  page_range: { start_page: number; end_page: number } | null
+  filters: Record<string, unknown>
+  source_min_score: number | null
+  target_min_score: number | null
+  result_count: number
+  created_at: string
+}
+
+export interface SavedSimilaritySearch extends SavedSimilaritySearchSummary {
+  user_id: string | null
+  job_id: string | null
+  config: Record<string, unknown>
+  timing: Record<string, number>
+  stages: Record<string, number>
+  results: SimilaritySearchResponse['results']
+}
+
+const SUMMARY_COLUMNS =
+  'id, source_document_id, created_by_email, page_range, filters, source_min_score, target_min_score, result_count, created_at'
+
+/**
+ * Store a finished search; returns its ID, or null when saving failed
+ * A failed save is logged but never fails the search itself.
+ */
+export async function saveSimilaritySearch(
+  userId: string,
+  prepared: PreparedSimilaritySearch,
+  response: SimilaritySearchResponse,
+  jobId?: string
+): Promise<string | null> {
+  const supabase = await createServiceClient()
+  try {
+    const { data: user } = await supabase
+      .from('users')
+      .select('email')
+      .eq('id', userId)
+      .maybeSingle()
+
+    const { data, error } = await supabase
+      .from('similarity_searches')
+      .insert({
+        source_document_id: prepared.documentId,
+        user_id: userId,
+        created_by_email: typeof user?.email === 'string' ? user.email : null,
+        job_id: jobId ?? null,
+        page_range: prepared.options.sourcePageRange ?? null,
+        filters: prepared.config['filters'] ?? {},
+        source_min_score: prepared.sourceMinScore,
+        target_min_score: prepared.targetMinScore,
+        config: prepared.config,
+        timing: response.timing,
+        stages: response.stages,
+        results: response.results,
+        result_count: response.total_results
+      })
+      .select('id')
+      .single()
+
+    if (error || !data) {
+      throw new Error(error?.message ?? 'no row returned')
+    }
+
+    return data.id as string
+  } catch (error) {
+    logger.warn('Failed to save similarity search', {
+      documentId: prepared.documentId,
+      userId,
+      error: error instanceof Error ? error.message : String(error),
+      component: 'saved-searches'
+    })
+    return null
+  } finally {
+    releaseServiceClient(supabase)
+  }
+}
+
+/**
+ * Most recent saved searches for a source document, newest first
+ */
+export async function listSimilaritySearches(
+  supabase: SupabaseClient<GenericSupabaseSchema>,
+  documentId: string,
+  limit = 20
+): Promise<SavedSimilaritySearchSummary[]> {
+  const { data, error } = await supabase
+    .from('similarity_searches')
+    .select(SUMMARY_COLUMNS)
+    .eq('source_document_id', documentId)
+    .order('created_at', { ascending: false })
+    .limit(limit)
+
+  if (error) {
+    throw new Error(`Failed to list saved searches: ${error.message}`)
+  }
+
+  return (data ?? []) as unknown as SavedSimilaritySearchSummary[]
+}
+
+export async function getSimilaritySearch(
+  supabase: SupabaseClient<GenericSupabaseSchema>,
+  documentId: string,
+  searchId: string
+): Promise<SavedSimilaritySearch | null> {
+  const { data, error } = await supabase
+    .from('similarity_searches')
+    .select('*')
+    .eq('id', searchId)
+    .eq('source_document_id', documentId)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to load saved search: ${error.message}`)
+  }
+
+  return data as unknown as SavedSimilaritySearch | null
+}
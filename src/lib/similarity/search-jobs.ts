@@ -0,0 +1,197 @@
+/**
+ * Asynchronous similarity search jobs
+ * The 3-stage pipeline can outlive an HTTP request, so searches can run in the background
+ * with progress and partial Stage 2 results persisted to similarity_search_jobs.
+ * Writes use the service client; users read their own jobs through RLS.
+ */
+
+import { createServiceClient, releaseServiceClient } from '@/lib/supabase/server'
+import { logger } from '@/lib/logger'
+import { executeSimilaritySearch, type SimilaritySearchProgressEvent } from './orchestrator'
+import { compareSimilarityResults } from './stages/stage2-final-scoring'
+import {
+  buildSimilaritySearchResponse,
+  selectSimilarityResults,
+  type PreparedSimilaritySearch,
+  type SimilaritySearchRequestBody
+} from './search-request'
+import { saveSimilaritySearch } from './saved-searches'
+import type { SimilarityResult } from './types'
+
+export type SimilaritySearchJobStatus = 'queued' | 'running' | 'completed' | 'error'
+export type SimilaritySearchJobStage = 'stage0' | 'stage1' | 'stage2'
+
+export interface SimilaritySearchJob {
+  id: string
+  user_id: string
+  document_id: string
+  status: SimilaritySearchJobStatus
+  stage: SimilaritySearchJobStage | null
+  progress: number
+  stage_summary: Record<string, unknown>
+  partial_results: unknown[]
+  response: Record<string, unknown> | null
+  error_message: string | null
+  created_at: string
+  updated_at: string
+  started_at: string | null
+  completed_at: string | null
+}
+
+// A running job that has not written anything for this long was lost (e.g. a restart)
+export const SIMILARITY_JOB_STALE_MS = 15 * 60 * 1000
+
+// Share of the progress bar reached when each stage finishes; Stage 2 fills the rest
+const STAGE0_PROGRESS = 10
+const STAGE1_PROGRESS = 20
+
+export function isStaleSimilaritySearchJob(job: Pick<SimilaritySearchJob, 'status' | 'updated_at'>): boolean {
+  if (job.status !== 'queued' && job.status !== 'running') {
+    return false
+  }
+  return Date.now() - new Date(job.updated_at).getTime() > SIMILARITY_JOB_STALE_MS
+}
+
+export async function createSimilaritySearchJob(
+  userId: string,
+  documentId: string,
+  request: SimilaritySearchRequestBody
+): Promise<string> {
+  const supabase = await createServiceClient()
+  try {
+    const { data, error } = await supabase
+      .from('similarity_search_jobs')
+      .insert({
+        user_id: userId,
+        document_id: documentId,
+        status: 'queued',
+        request
+      })
+      .select('id')
+      .single()
+
+    if (error || !data) {
+      throw new Error(`Failed to create similarity search job: ${error?.message ?? 'no row returned'}`)
+    }
+
+    return data.id as string
+  } finally {
+    releaseServiceClient(supabase)
+  }
+}
+
+/**
+ * Run a queued job to completion, persisting progress as stages finish
+ * Never throws: failures are recorded on the job row.
+ */
+export async function runSimilaritySearchJob(
+  jobId: string,
+  userId: string,
+  prepared: PreparedSimilaritySearch
+): Promise<void> {
+  const supabase = await createServiceClient()
+  const startTime = Date.now()
+
+  // Progress callbacks fire synchronously from the pipeline; chain writes so they land in order
+  let pendingWrite: Promise<void> = Promise.resolve()
+  const writeJob = (patch: Record<string, unknown>) => {
+    pendingWrite = pendingWrite.then(async () => {
+      try {
+        const { error } = await supabase
+          .from('similarity_search_jobs')
+          .update({ ...patch, updated_at: new Date().toISOString() })
+          .eq('id', jobId)
+
+        if (error) {
+          throw new Error(error.message)
+        }
+      } catch (error) {
+        logger.warn('Failed to update similarity search job', {
+          jobId,
+          error: error instanceof Error ? error.message : String(error),
+          component: 'similarity-search-jobs'
+        })
+      }
+    })
+    return pendingWrite
+  }
+
+  const stageSummary: Record<string, unknown> = {}
+  const scoredResults: SimilarityResult[] = []
+
+  const handleProgress = (event: SimilaritySearchProgressEvent) => {
+    if (event.stage === 'stage0') {
+      stageSummary['stage0'] = { candidates: event.candidates, time_ms: event.timeMs }
+      void writeJob({ stage: 'stage0', progress: STAGE0_PROGRESS, stage_summary: { ...stageSummary } })
+      return
+    }
+
+    if (event.stage === 'stage1') {
+      stageSummary['stage1'] = { candidates: event.candidates, time_ms: event.timeMs, skipped: event.skipped }
+      void writeJob({ stage: 'stage1', progress: STAGE1_PROGRESS, stage_summary: { ...stageSummary } })
+      return
+    }
+
+    scoredResults.push(...event.batchResults)
+    stageSummary['stage2'] = {
+      completed_batches: event.completedBatches,
+      total_batches: event.totalBatches,
+      scored: scoredResults.length
+    }
+
+    const stage2Share = event.totalBatches > 0 ? event.completedBatches / event.totalBatches : 1
+    const partialResults = selectSimilarityResults(prepared, [...scoredResults].sort(compareSimilarityResults))
+
+    void writeJob({
+      stage: 'stage2',
+      // 100 is reserved for the persisted final response
+      progress: Math.min(99, Math.round(STAGE1_PROGRESS + stage2Share * (100 - STAGE1_PROGRESS))),
+      stage_summary: { ...stageSummary },
+      partial_results: partialResults
+    })
+  }
+
+  try {
+    await writeJob({ status: 'running', started_at: new Date().toISOString() })
+
+    const searchResult = await executeSimilaritySearch(prepared.documentId, {
+      ...prepared.options,
+      onProgress: handleProgress
+    })
+
+    const builtResponse = buildSimilaritySearchResponse(prepared, searchResult)
+    const searchId = await saveSimilaritySearch(userId, prepared, builtResponse, jobId)
+    const response = { ...builtResponse, search_id: searchId }
+
+    await writeJob({
+      status: 'completed',
+      progress: 100,
+      partial_results: response.results,
+      response,
+      completed_at: new Date().toISOString()
+    })
+
+    logger.info('Similarity search job completed', {
+      jobId,
+      documentId: prepared.documentId,
+      results: response.total_results,
+      durationMs: Date.now() - startTime,
+      component: 'similarity-search-jobs'
+    })
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    logger.error('Similarity search job failed', error instanceof Error ? error : new Error(String(error)), {
+      jobId,
+      documentId: prepared.documentId,
+      component: 'similarity-search-jobs'
+    })
+
+    await writeJob({
+      status: 'error',
+      error_message: errorMessage,
+      completed_at: new Date().toISOString()
+    })
+  } finally {
+    releaseServiceClient(supabase)
+  }
+}
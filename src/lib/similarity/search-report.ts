@@ -0,0 +1,436 @@
+/**
+ * Similarity search reports
+ * Turns a saved search run into a reviewer deliverable: a paginated PDF with the source
+ * document, configuration, ranked results, matched sections and pipeline timings, or a
+ * CSV of the ranked results.
+ */
+
+import { PDFDocument, StandardFonts, rgb, type PDFFont, type PDFPage } from 'pdf-lib'
+import type { MetadataCategory, MetadataOption } from '@/lib/metadata-options-server'
+import type { SavedSimilaritySearch } from './saved-searches'
+import type { SectionMatch } from './types'
+
+export interface ReportSourceDocument {
+  id: string
+  title: string
+  filename: string
+  page_count: number | null
+  metadata: Record<string, unknown> | null
+}
+
+export type MetadataLabels = Record<MetadataCategory, MetadataOption[]>
+
+interface ReportRow {
+  rank: number
+  documentId: string
+  title: string
+  filename: string
+  pages: number | null
+  lawFirm: string
+  fundManager: string
+  fundAdmin: string
+  jurisdiction: string
+  sourceScore: number
+  targetScore: number
+  adjustedSourceScore: number | null
+  adjustedTargetScore: number | null
+  matchedSourceCharacters: number
+  matchedTargetCharacters: number
+  matchedChunks: number
+  lengthRatio: number | null
+  sections: SectionMatch[]
+}
+
+const METADATA_KEYS: MetadataCategory[] = ['law_firm', 'fund_manager', 'fund_admin', 'jurisdiction']
+
+// Landscape US Letter
+const PAGE_WIDTH = 792
+const PAGE_HEIGHT = 612
+const MARGIN = 40
+const FOOTER_HEIGHT = 20
+const BODY_SIZE = 9
+const TABLE_SIZE = 8
+const LINE_GAP = 3
+
+const RESULT_COLUMNS: Array<{ header: string; width: number; cell: (row: ReportRow) => string }> = [
+  { header: '#', width: 22, cell: row => String(row.rank) },
+  { header: 'Document', width: 190, cell: row => row.title },
+  { header: 'Law firm', width: 85, cell: row => row.lawFirm },
+  { header: 'Fund manager', width: 85, cell: row => row.fundManager },
+  { header: 'Jurisdiction', width: 65, cell: row => row.jurisdiction },
+  { header: 'Source', width: 60, cell: row => formatScore(row.sourceScore, row.adjustedSourceScore) },
+  { header: 'Target', width: 60, cell: row => formatScore(row.targetScore, row.adjustedTargetScore) },
+  { header: 'Src chars', width: 50, cell: row => row.matchedSourceCharacters.toLocaleString('en-US') },
+  { header: 'Tgt chars', width: 50, cell: row => row.matchedTargetCharacters.toLocaleString('en-US') },
+  { header: 'Chunks', width: 45, cell: row => String(row.matchedChunks) }
+]
+
+const formatPercent = (value: number): string => `${Math.round(value * 100)}%`
+
+function formatScore(score: number, adjusted: number | null): string {
+  return adjusted === null ? formatPercent(score) : `${formatPercent(score)} (${formatPercent(adjusted)})`
+}
+
+function formatSection(section: SectionMatch): string {
+  return `Source p.${section.docA_pageRange} matches target p.${section.docB_pageRange} - ` +
+    `${formatPercent(section.avgScore)}, ${section.chunkCount} chunk${section.chunkCount === 1 ? '' : 's'}` +
+    (section.reusable ? ', reusable' : '')
+}
+
+function resolveLabel(value: unknown, options: MetadataOption[] | undefined): string {
+  if (typeof value !== 'string' || value.length === 0) return ''
+  return options?.find(option => option.value === value)?.label ?? value
+}
+
+function toNumber(value: unknown): number | null {
+  return typeof value === 'number' && Number.isFinite(value) ? value : null
+}
+
+function buildRows(search: SavedSimilaritySearch, labels: MetadataLabels): ReportRow[] {
+  return search.results.map((result, index) => {
+    const metadata = (result.document['metadata'] ?? {}) as Record<string, unknown>
+    return {
+      rank: index + 1,
+      documentId: result.document.id,
+      title: result.document.title,
+      filename: result.document.filename,
+      pages: toNumber(result.document.page_count),
+      lawFirm: resolveLabel(metadata['law_firm'], labels.law_firm),
+      fundManager: resolveLabel(metadata['fund_manager'], labels.fund_manager),
+      fundAdmin: resolveLabel(metadata['fund_admin'], labels.fund_admin),
+      jurisdiction: resolveLabel(metadata['jurisdiction'], labels.jurisdiction),
+      sourceScore: result.scores.sourceScore,
+      targetScore: result.scores.targetScore,
+      adjustedSourceScore: toNumber(result.scores.adjustedSourceScore),
+      adjustedTargetScore: toNumber(result.scores.adjustedTargetScore),
+      matchedSourceCharacters: result.scores.matchedSourceCharacters,
+      matchedTargetCharacters: result.scores.matchedTargetCharacters,
+      matchedChunks: result.matchedChunks,
+      lengthRatio: toNumber(result.scores.lengthRatio),
+      sections: result.sections ?? []
+    }
+  })
+}
+
+export function buildReportFilename(sourceDocument: ReportSourceDocument, search: SavedSimilaritySearch, extension: 'pdf' | 'csv'): string {
+  const base = sourceDocument.filename.replace(/\.[^.]+$/, '').replace(/[^\w.-]+/g, '_')
+  return `${base}-similarity-report-${search.created_at.slice(0, 10)}.${extension}`
+}
+
+// =============================================================================
+// CSV
+// =============================================================================
+
+function csvCell(value: string | number | null): string {
+  if (value === null) return ''
+  let text = String(value)
+  // Keep spreadsheet apps from evaluating document titles as formulas
+  if (/^[=+\-@]/.test(text)) {
+    text = `'${text}`
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export function buildSimilarityReportCsv(search: SavedSimilaritySearch, labels: MetadataLabels): string {
+  const header = [
+    'rank', 'document_id', 'title', 'filename', 'pages',
+    ...METADATA_KEYS,
+    'source_score', 'target_score', 'adjusted_source_score', 'adjusted_target_score',
+    'matched_source_characters', 'matched_target_characters', 'matched_chunks', 'length_ratio',
+    'sections'
+  ]
+
+  const lines = buildRows(search, labels).map(row => [
+    row.rank,
+    row.documentId,
+    row.title,
+    row.filename,
+    row.pages,
+    row.lawFirm,
+    row.fundManager,
+    row.fundAdmin,
+    row.jurisdiction,
+    row.sourceScore.toFixed(4),
+    row.targetScore.toFixed(4),
+    row.adjustedSourceScore?.toFixed(4) ?? null,
+    row.adjustedTargetScore?.toFixed(4) ?? null,
+    row.matchedSourceCharacters,
+    row.matchedTargetCharacters,
+    row.matchedChunks,
+    row.lengthRatio !== null ? (row.lengthRatio / 100).toFixed(2) : null,
+    row.sections.map(formatSection).join('; ')
+  ].map(csvCell).join(','))
+
+  // BOM so spreadsheet apps read non-ASCII titles as UTF-8
+  return '\uFEFF' + [header.join(','), ...lines].join('\r\n') + '\r\n'
+}
+
+// =============================================================================
+// PDF
+// =============================================================================
+
+/**
+ * Standard PDF fonts only encode WinAnsi; anything else is replaced rather than failing the export
+ */
+function toWinAnsi(text: string): string {
+  return text
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/[–—]/g, '-')
+    .replace(/…/g, '...')
+    .replace(/[\r\n\t]+/g, ' ')
+    .replace(/[^\x20-\x7E\xA0-\xFF]/g, '?')
+}
+
+class ReportWriter {
+  private page!: PDFPage
+  private y = 0
+  readonly pages: PDFPage[] = []
+
+  constructor(
+    private readonly pdf: PDFDocument,
+    private readonly font: PDFFont,
+    private readonly bold: PDFFont
+  ) {
+    this.addPage()
+  }
+
+  addPage(): void {
+    this.page = this.pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT])
+    this.pages.push(this.page)
+    this.y = PAGE_HEIGHT - MARGIN
+  }
+
+  ensureSpace(height: number): boolean {
+    if (this.y - height < MARGIN + FOOTER_HEIGHT) {
+      this.addPage()
+      return true
+    }
+    return false
+  }
+
+  gap(height: number): void {
+    this.y -= height
+  }
+
+  fit(text: string, width: number, size: number, font: PDFFont = this.font): string {
+    const safe = toWinAnsi(text)
+    if (font.widthOfTextAtSize(safe, size) <= width) return safe
+    let end = safe.length
+    while (end > 0 && font.widthOfTextAtSize(`${safe.slice(0, end)}...`, size) > width) {
+      end--
+    }
+    return `${safe.slice(0, end)}...`
+  }
+
+  wrap(text: string, width: number, size: number, font: PDFFont = this.font): string[] {
+    const lines: string[] = []
+    let current = ''
+    for (const word of toWinAnsi(text).split(' ')) {
+      const candidate = current ? `${current} ${word}` : word
+      if (current && font.widthOfTextAtSize(candidate, size) > width) {
+        lines.push(current)
+        current = word
+      } else {
+        current = candidate
+      }
+    }
+    if (current) lines.push(current)
+    return lines.map(line => this.fit(line, width, size, font))
+  }
+
+  heading(text: string, size = 13): void {
+    this.ensureSpace(size + 14)
+    this.y -= size
+    this.page.drawText(toWinAnsi(text), { x: MARGIN, y: this.y, size, font: this.bold, color: rgb(0.1, 0.1, 0.1) })
+    this.y -= 8
+  }
+
+  paragraph(text: string, size = BODY_SIZE, indent = 0): void {
+    for (const line of this.wrap(text, PAGE_WIDTH - MARGIN * 2 - indent, size)) {
+      this.ensureSpace(size + LINE_GAP)
+      this.y -= size
+      this.page.drawText(line, { x: MARGIN + indent, y: this.y, size, font: this.font, color: rgb(0.2, 0.2, 0.2) })
+      this.y -= LINE_GAP
+    }
+  }
+
+  keyValue(label: string, value: string): void {
+    const labelWidth = 140
+    const lines = this.wrap(value || '-', PAGE_WIDTH - MARGIN * 2 - labelWidth, BODY_SIZE)
+    this.ensureSpace((BODY_SIZE + LINE_GAP) * lines.length)
+    lines.forEach((line, index) => {
+      this.y -= BODY_SIZE
+      if (index === 0) {
+        this.page.drawText(toWinAnsi(label), { x: MARGIN, y: this.y, size: BODY_SIZE, font: this.bold, color: rgb(0.35, 0.35, 0.35) })
+      }
+      this.page.drawText(line, { x: MARGIN + labelWidth, y: this.y, size: BODY_SIZE, font: this.font, color: rgb(0.1, 0.1, 0.1) })
+      this.y -= LINE_GAP
+    })
+  }
+
+  tableRow(cells: string[], widths: number[], header = false): void {
+    const rowHeight = TABLE_SIZE + 8
+    const font = header ? this.bold : this.font
+    this.y -= rowHeight
+
+    if (header) {
+      this.page.drawRectangle({
+        x: MARGIN,
+        y: this.y,
+        width: widths.reduce((sum, width) => sum + width, 0),
+        height: rowHeight,
+        color: rgb(0.93, 0.94, 0.96)
+      })
+    } else {
+      this.page.drawLine({
+        start: { x: MARGIN, y: this.y },
+        end: { x: PAGE_WIDTH - MARGIN, y: this.y },
+        thickness: 0.5,
+        color: rgb(0.85, 0.85, 0.85)
+      })
+    }
+
+    let x = MARGIN
+    cells.forEach((cell, index) => {
+      const width = widths[index] ?? 0
+      this.page.drawText(this.fit(cell, width - 6, TABLE_SIZE, font), {
+        x: x + 3,
+        y: this.y + 5,
+        size: TABLE_SIZE,
+        font,
+        color: rgb(0.1, 0.1, 0.1)
+      })
+      x += width
+    })
+  }
+
+  table(rows: string[][], headers: string[], widths: number[]): void {
+    const rowHeight = TABLE_SIZE + 8
+    this.ensureSpace(rowHeight * 2)
+    this.tableRow(headers, widths, true)
+    for (const row of rows) {
+      // Repeat the header on every page the table spans
+      if (this.ensureSpace(rowHeight)) {
+        this.tableRow(headers, widths, true)
+      }
+      this.tableRow(row, widths)
+    }
+    this.y -= 6
+  }
+
+  drawFooters(footer: string): void {
+    this.pages.forEach((page, index) => {
+      const text = `${this.fit(footer, PAGE_WIDTH - MARGIN * 2 - 80, 7)}`
+      page.drawText(text, { x: MARGIN, y: MARGIN / 2, size: 7, font: this.font, color: rgb(0.5, 0.5, 0.5) })
+      const pageLabel = `Page ${index + 1} of ${this.pages.length}`
+      page.drawText(pageLabel, {
+        x: PAGE_WIDTH - MARGIN - this.font.widthOfTextAtSize(pageLabel, 7),
+        y: MARGIN / 2,
+        size: 7,
+        font: this.font,
+        color: rgb(0.5, 0.5, 0.5)
+      })
+    })
+  }
+}
+
+function describeFilters(filters: Record<string, unknown>, labels: MetadataLabels): string {
+  const entries = Object.entries(filters).filter(
+    ([key]) => !['page_range', 'topK', 'min_score', 'threshold'].includes(key)
+  )
+  if (entries.length === 0) return 'None'
+  return entries
+    .map(([key, value]) => {
+      const options = labels[key as MetadataCategory]
+      const values = (Array.isArray(value) ? value : [value]).map(item => resolveLabel(item, options) || String(item))
+      return `${key.replace(/_/g, ' ')}: ${values.join(', ')}`
+    })
+    .join('; ')
+}
+
+export async function buildSimilarityReportPdf(
+  search: SavedSimilaritySearch,
+  sourceDocument: ReportSourceDocument,
+  labels: MetadataLabels
+): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create()
+  pdf.setTitle(`Similarity report - ${toWinAnsi(sourceDocument.title)}`)
+  pdf.setCreationDate(new Date())
+
+  const writer = new ReportWriter(
+    pdf,
+    await pdf.embedFont(StandardFonts.Helvetica),
+    await pdf.embedFont(StandardFonts.HelveticaBold)
+  )
+  const rows = buildRows(search, labels)
+  const sourceMetadata = sourceDocument.metadata ?? {}
+  const boilerplateWeighting = search.config['boilerplate_weighting'] === true
+
+  writer.heading('Similarity Search Report', 16)
+  writer.keyValue('Generated', new Date().toISOString())
+  writer.keyValue('Search run', `${search.created_at}${search.created_by_email ? ` by ${search.created_by_email}` : ''}`)
+  writer.keyValue('Search ID', search.id)
+  writer.gap(8)
+
+  writer.heading('Source Document')
+  writer.keyValue('Title', sourceDocument.title)
+  writer.keyValue('File', sourceDocument.filename)
+  writer.keyValue('Pages', sourceDocument.page_count !== null ? String(sourceDocument.page_count) : '-')
+  for (const key of METADATA_KEYS) {
+    writer.keyValue(key.replace(/_/g, ' ').replace(/^\w/, letter => letter.toUpperCase()), resolveLabel(sourceMetadata[key], labels[key]) || '(blank)')
+  }
+  writer.gap(8)
+
+  writer.heading('Search Configuration')
+  writer.keyValue('Page range', search.page_range
+    ? `Pages ${search.page_range.start_page}-${search.page_range.end_page}`
+    : 'Entire document')
+  writer.keyValue('Filters', describeFilters(search.filters ?? {}, labels))
+  writer.keyValue('Minimum source score', search.source_min_score !== null ? formatPercent(search.source_min_score) : '-')
+  writer.keyValue('Minimum target score', search.target_min_score !== null ? formatPercent(search.target_min_score) : '-')
+  writer.keyValue('Result limit', String(search.filters?.['topK'] ?? '-'))
+  writer.keyValue('Exclude older versions', search.config['exclude_older_versions'] === true ? 'Yes' : 'No')
+  writer.keyValue('Boilerplate weighting', boilerplateWeighting ? 'Yes' : 'No')
+  writer.gap(8)
+
+  writer.heading('Pipeline')
+  const timing = search.timing ?? {}
+  const stages = search.stages ?? {}
+  writer.keyValue('Stage 0 (centroid sweep)', `${stages['stage0_candidates'] ?? '-'} candidates in ${timing['stage0_ms'] ?? '-'} ms`)
+  writer.keyValue('Stage 1 (chunk pre-filter)', `${stages['stage1_candidates'] ?? '-'} candidates in ${timing['stage1_ms'] ?? '-'} ms`)
+  writer.keyValue('Stage 2 (final scoring)', `${stages['final_results'] ?? '-'} results in ${timing['stage2_ms'] ?? '-'} ms`)
+  writer.keyValue('Total', `${timing['total_ms'] ?? '-'} ms`)
+  writer.gap(8)
+
+  writer.heading(`Results (${rows.length})`)
+  if (rows.length === 0) {
+    writer.paragraph('No documents met the configured thresholds.')
+  } else {
+    if (boilerplateWeighting) {
+      writer.paragraph('Scores in parentheses exclude text common across the corpus (boilerplate).', 8)
+    }
+    writer.table(
+      rows.map(row => RESULT_COLUMNS.map(column => column.cell(row))),
+      RESULT_COLUMNS.map(column => column.header),
+      RESULT_COLUMNS.map(column => column.width)
+    )
+
+    writer.heading('Matched Sections')
+    for (const row of rows) {
+      writer.ensureSpace(40)
+      writer.paragraph(`#${row.rank} ${row.title}`, BODY_SIZE + 1)
+      if (row.sections.length === 0) {
+        writer.paragraph('No contiguous sections recorded.', BODY_SIZE, 12)
+      }
+      for (const section of row.sections) {
+        writer.paragraph(formatSection(section), BODY_SIZE, 12)
+      }
+      writer.gap(4)
+    }
+  }
+
+  writer.drawFooters(`Similarity report - ${sourceDocument.title} - search ${search.id}`)
+
+  return pdf.save()
+}
@@ -0,0 +1,477 @@
+/**
+ * Similarity search request handling shared by the synchronous similar-v2 endpoint and
+ * asynchronous search jobs: body parsing, source document checks, result filtering and
+ * response shaping
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import {
+  validateDocumentForSimilarity,
+  type SimilaritySearchOptions,
+  type SimilaritySearchResult
+} from '@/lib/similarity/orchestrator'
+import type { SimilarityResult } from '@/lib/similarity/types'
+import { logger } from '@/lib/logger'
+import type { GenericSupabaseSchema } from '@/types/supabase'
+
+type RawFilters = Record<string, unknown>
+
+const FILTER_OPERATOR_IN = '$in'
+const MAX_RESULT_LIMIT = 100
+
+const parsePositiveInteger = (value: string | undefined): number | undefined => {
+  if (!value) return undefined
+  const parsed = Number.parseInt(value, 10)
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : undefined
+}
+
+const STAGE2_WORKERS_FALLBACK = parsePositiveInteger(process.env['SIMILARITY_STAGE2_WORKERS'])
+
+function normalizeTopK(value: unknown): number | undefined {
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    if (value <= 0) {
+      return undefined
+    }
+    return Math.min(MAX_RESULT_LIMIT, Math.floor(value))
+  }
+
+  if (typeof value === 'string') {
+    const parsed = parsePositiveInteger(value)
+    if (parsed === undefined) {
+      return undefined
+    }
+    return Math.min(MAX_RESULT_LIMIT, parsed)
+  }
+
+  return undefined
+}
+
+function normalizeFilterEntry(value: unknown): { vectorDb: unknown; client: unknown } | null {
+  if (value === null || value === undefined) {
+    return null
+  }
+
+  if (Array.isArray(value)) {
+    const sanitized = value
+      .map(item => {
+        if (typeof item === 'string') {
+          const trimmed = item.trim()
+          return trimmed.length > 0 ? trimmed : null
+        }
+        return item ?? null
+      })
+      .filter((item): item is string | number | boolean => item !== null)
+
+    if (sanitized.length === 0) {
+      return null
+    }
+
+    if (sanitized.length === 1) {
+      return {
+        vectorDb: sanitized[0],
+        client: sanitized[0]
+      }
+    }
+
+    return {
+      vectorDb: {
+        [FILTER_OPERATOR_IN]: sanitized
+      },
+      client: sanitized
+    }
+  }
+
+  if (typeof value === 'string') {
+    const trimmed = value.trim()
+    if (trimmed.length === 0) {
+      return null
+    }
+    return {
+      vectorDb: trimmed,
+      client: trimmed
+    }
+  }
+
+  return {
+    vectorDb: value,
+    client: value
+  }
+}
+
+function buildStage0Filters(rawFilters: RawFilters): {
+  vectorFilters: Record<string, unknown>
+  appliedFilters: Record<string, unknown>
+} {
+  const vectorFilters: Record<string, unknown> = {}
+  const appliedFilters: Record<string, unknown> = {}
+
+  for (const [key, value] of Object.entries(rawFilters)) {
+    const normalized = normalizeFilterEntry(value)
+    if (!normalized) continue
+
+    vectorFilters[key] = normalized.vectorDb
+    appliedFilters[key] = normalized.client
+  }
+
+  return { vectorFilters, appliedFilters }
+}
+
+interface SanitizedPageRangeResult {
+  value?: {
+    start_page: number
+    end_page: number
+  }
+  useEntireDocument: boolean
+  error?: string
+}
+
+function parsePageNumber(value: unknown): number | undefined {
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return Math.trunc(value)
+  }
+
+  if (typeof value === 'string') {
+    const trimmed = value.trim()
+    if (trimmed.length === 0) {
+      return undefined
+    }
+    const parsed = Number.parseInt(trimmed, 10)
+    return Number.isFinite(parsed) ? parsed : undefined
+  }
+
+  return undefined
+}
+
+function sanitizePageRangeInput(
+  input: unknown,
+  maxPage?: number
+): SanitizedPageRangeResult {
+  if (!input || typeof input !== 'object') {
+    return { useEntireDocument: true }
+  }
+
+  const raw = input as Record<string, unknown>
+  const useEntireDocument = raw.use_entire_document !== false
+
+  if (useEntireDocument) {
+    return { useEntireDocument: true }
+  }
+
+  const start = parsePageNumber(raw.start_page)
+  const end = parsePageNumber(raw.end_page)
+
+  if (start === undefined || end === undefined) {
+    return {
+      useEntireDocument: false,
+      error: 'Enter both start and end pages.'
+    }
+  }
+
+  if (start < 1 || end < 1) {
+    return {
+      useEntireDocument: false,
+      error: 'Page numbers must be at least 1.'
+    }
+  }
+
+  if (start > end) {
+    return {
+      useEntireDocument: false,
+      error: 'Start page must be less than or equal to end page.'
+    }
+  }
+
+  if (maxPage !== undefined) {
+    if (start > maxPage || end > maxPage) {
+      return {
+        useEntireDocument: false,
+        error: `Page range must be within 1-${maxPage}.`
+      }
+    }
+  }
+
+  return {
+    useEntireDocument: false,
+    value: {
+      start_page: start,
+      end_page: end
+    }
+  }
+}
+
+
+export interface SimilaritySearchRequestBody {
+  stage0_topK?: number
+  stage1_topK?: number
+  stage1_enabled?: boolean
+  stage1_neighborsPerChunk?: number
+  stage2_parallelWorkers?: number
+  filters?: Record<string, unknown>
+  source_min_score?: number
+  target_min_score?: number
+  exclude_older_versions?: boolean
+  boilerplate_weighting?: boolean
+}
+
+export interface SimilaritySourceDocument {
+  id: string
+  title: string
+  total_characters: number | null
+}
+
+export interface PreparedSimilaritySearch {
+  documentId: string
+  document: SimilaritySourceDocument
+  options: SimilaritySearchOptions
+  sourceMinScore: number
+  targetMinScore: number
+  topK: number | undefined
+  config: Record<string, unknown>
+}
+
+export type PrepareSimilaritySearchResult =
+  | { prepared: PreparedSimilaritySearch }
+  | { error: { status: number; body: Record<string, unknown> } }
+
+/**
+ * Parse a similar-v2 request body and check the source document is searchable
+ * The caller's client is used so users can only search documents visible to them.
+ */
+export async function prepareSimilaritySearch(
+  supabase: SupabaseClient<GenericSupabaseSchema>,
+  documentId: string,
+  body: SimilaritySearchRequestBody
+): Promise<PrepareSimilaritySearchResult> {
+  const {
+    stage0_topK = 600,
+    stage1_topK = 250,
+    stage1_enabled = true,
+    stage1_neighborsPerChunk,
+    stage2_parallelWorkers = STAGE2_WORKERS_FALLBACK,
+    filters: rawFilters = {},
+    source_min_score = 0.7,
+    target_min_score = 0.7,
+    exclude_older_versions = false,
+    boilerplate_weighting = false
+  } = body
+
+  // Extract non-vector-DB filter directives (handled in later stages)
+  const {
+    page_range: requestedPageRange,
+    min_score: requestedMinScore,
+    threshold: requestedThreshold,
+    topK: requestedTopK,
+    ...metadataFilters
+  } = rawFilters as RawFilters
+
+  const { vectorFilters, appliedFilters } = buildStage0Filters(metadataFilters)
+
+  const normalizedStage2Workers =
+    stage2_parallelWorkers !== undefined
+      ? Math.max(1, Math.floor(stage2_parallelWorkers))
+      : undefined
+
+  // Verify document exists and belongs to user
+  const { data: document, error: docError } = await supabase
+    .from('documents')
+    .select('id, title, status, centroid_embedding, effective_chunk_count, page_count, total_characters')
+    .eq('id', documentId)
+    .single()
+
+  if (docError || !document) {
+    return { error: { status: 404, body: { error: 'Document not found' } } }
+  }
+
+  if (document.status !== 'completed') {
+    return {
+      error: {
+        status: 400,
+        body: {
+          error: 'Document is not ready for similarity search',
+          status: document.status
+        }
+      }
+    }
+  }
+
+  const {
+    value: sanitizedPageRange,
+    error: pageRangeError
+  } = sanitizePageRangeInput(
+    requestedPageRange,
+    typeof document.page_count === 'number' ? document.page_count : undefined
+  )
+
+  if (pageRangeError) {
+    return { error: { status: 400, body: { error: pageRangeError } } }
+  }
+
+  // Validate document has required fields for similarity search
+  const validation = await validateDocumentForSimilarity(documentId)
+  if (!validation.valid) {
+    return {
+      error: {
+        status: 400,
+        body: {
+          error: 'Document is not ready for similarity search v2',
+          details: validation.errors,
+          warnings: validation.warnings,
+          instructions: [
+            'This document needs to be reprocessed with the new pipeline.',
+            'Option 1: Reupload the document',
+            'Option 2: Run the backfill script: npm run backfill:centroids',
+            'Option 3: Use the legacy /api/documents/[id]/similar endpoint'
+          ]
+        }
+      }
+    }
+  }
+
+  if (validation.warnings.length > 0) {
+    logger.warn('Similarity search validation warnings', {
+      documentId,
+      warnings: validation.warnings
+    })
+  }
+
+  const normalizedTopK = normalizeTopK(requestedTopK)
+  const pageRangeConfig = requestedPageRange !== undefined
+    ? sanitizedPageRange
+      ? { ...sanitizedPageRange, use_entire_document: false }
+      : { use_entire_document: true }
+    : undefined
+
+  return {
+    prepared: {
+      documentId,
+      document: {
+        id: documentId,
+        title: typeof document.title === 'string' ? document.title : documentId,
+        total_characters: typeof document.total_characters === 'number' && Number.isFinite(document.total_characters)
+          ? document.total_characters
+          : null
+      },
+      options: {
+        stage0_topK,
+        stage0_filters: vectorFilters,
+        excludeOlderVersions: exclude_older_versions === true,
+        stage1_topK,
+        stage1_enabled,
+        stage1_neighborsPerChunk,
+        stage2_parallelWorkers: normalizedStage2Workers,
+        boilerplateWeighting: boilerplate_weighting === true,
+        sourcePageRange: sanitizedPageRange
+      },
+      sourceMinScore: source_min_score,
+      targetMinScore: target_min_score,
+      topK: normalizedTopK,
+      config: {
+        stage0_topK,
+        stage1_topK,
+        stage1_enabled,
+        stage1_neighborsPerChunk,
+        stage2_parallelWorkers: normalizedStage2Workers,
+        filters: {
+          ...appliedFilters,
+          ...(pageRangeConfig ? { page_range: pageRangeConfig } : {}),
+          ...(requestedMinScore !== undefined ? { min_score: requestedMinScore } : {}),
+          ...(requestedThreshold !== undefined ? { threshold: requestedThreshold } : {}),
+          ...(normalizedTopK !== undefined ? { topK: normalizedTopK } : {})
+        },
+        source_min_score,
+        target_min_score,
+        exclude_older_versions: exclude_older_versions === true,
+        boilerplate_weighting: boilerplate_weighting === true
+      }
+    }
+  }
+}
+
+/**
+ * Apply the request's minimum scores and topK and add length ratios
+ * Also used on partial Stage 2 results so streamed rows match the final response.
+ */
+export function selectSimilarityResults(
+  prepared: PreparedSimilaritySearch,
+  results: SimilarityResult[]
+) {
+  const sourceTotalCharacters = prepared.document.total_characters
+
+  // Minimum scores apply to boilerplate-adjusted coverage when it was requested
+  const filteredResults = results.filter(result =>
+    (result.scores.adjustedSourceScore ?? result.scores.sourceScore) >= prepared.sourceMinScore &&
+    (result.scores.adjustedTargetScore ?? result.scores.targetScore) >= prepared.targetMinScore
+  )
+
+  const enrichedResults = filteredResults.map(result => {
+    const targetTotalCharactersFromResult = typeof result.document.total_characters === 'number' && Number.isFinite(result.document.total_characters as number)
+      ? (result.document.total_characters as number)
+      : null
+    const targetTotalCharactersFromEffective = typeof result.document.effective_chunk_count === 'number' && Number.isFinite(result.document.effective_chunk_count as number)
+      ? (result.document.effective_chunk_count as number)
+      : null
+    const targetTotalCharacters = targetTotalCharactersFromResult ?? targetTotalCharactersFromEffective
+
+    const lengthRatio = sourceTotalCharacters && targetTotalCharacters
+      ? (sourceTotalCharacters / targetTotalCharacters) * 100
+      : null
+
+    return {
+      ...result,
+      scores: {
+        ...result.scores,
+        lengthRatio
+      }
+    }
+  })
+
+  return prepared.topK !== undefined
+    ? enrichedResults.slice(0, prepared.topK)
+    : enrichedResults
+}
+
+export function buildSimilaritySearchResponse(
+  prepared: PreparedSimilaritySearch,
+  searchResult: SimilaritySearchResult
+) {
+  const limitedResults = selectSimilarityResults(prepared, searchResult.results)
+
+  logger.info('Similarity search completed', {
+    documentId: prepared.documentId,
+    stage0Candidates: searchResult.stages.stage0_candidates,
+    stage1Candidates: searchResult.stages.stage1_candidates,
+    finalResults: searchResult.stages.final_results,
+    deliveredResults: limitedResults.length,
+    appliedTopK: prepared.topK ?? null,
+    timing: searchResult.timing
+  })
+
+  return {
+    document_id: prepared.documentId,
+    document_title: prepared.document.title,
+    results: limitedResults,
+    total_results: limitedResults.length,
+    timing: {
+      stage0_ms: searchResult.timing.stage0_ms,
+      stage1_ms: searchResult.timing.stage1_ms,
+      stage2_ms: searchResult.timing.stage2_ms,
+      total_ms: searchResult.timing.total_ms
+    },
+    stages: {
+      stage0_candidates: searchResult.stages.stage0_candidates,
+      stage1_candidates: searchResult.stages.stage1_candidates,
+      final_results: searchResult.stages.final_results
+    },
+    config: prepared.config,
+    version: '2.0.0',
+    features: {
+      adaptive_scoring: true,
+      bidirectional_matching: true,
+      section_detection: true,
+      effective_chunk_count: true
+    },
+    timestamp: new Date().toISOString()
+  }
+}
+
+export type SimilaritySearchResponse = ReturnType<typeof buildSimilaritySearchResponse>
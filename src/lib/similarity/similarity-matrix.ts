@@ -0,0 +1,211 @@
+/**
+ * Many-to-many similarity matrix
+ * Scores every pair in a selected set with the same bidirectional matching and adaptive
+ * scoring as Stage 2, loading each document's chunks once, then clusters the set so
+ * related documents sit together in the heatmap.
+ */
+
+import { createServiceClient, releaseServiceClient } from '@/lib/supabase/server'
+import { logger } from '@/lib/logger'
+import { findBidirectionalMatches } from './core/chunk-matching'
+import { computeAdaptiveScore } from './core/adaptive-scoring'
+import { fetchDocumentChunks } from './stages/stage2-final-scoring'
+import { buildWordSynonyms } from './utils/jaccard-similarity'
+import { loadSynonymGroups } from '@/lib/search/synonyms'
+import { averageLinkageClustering, cutClusters, type ClusterMerge } from './utils/hierarchical-clustering'
+import type { Chunk } from './types'
+
+// 105 pairs; the matrix is computed inside the request
+export const MAX_MATRIX_DOCUMENTS = 15
+
+// Pair matching is synchronous, so the request is bounded between pairs rather than per pair:
+// pairs not reached within this budget are returned unscored
+const SCORING_BUDGET_MS = 60 * 1000
+
+// Documents whose symmetric coverage is at least this share one flat cluster
+const DEFAULT_CLUSTER_SIMILARITY = 0.5
+
+export interface SimilarityMatrixDocument {
+  id: string
+  title: string
+  filename: string
+  page_count: number | null
+  total_characters: number
+}
+
+export interface SimilarityMatrixCell {
+  coverage: number            // Share of the row document matched by the column document
+  matchedCharacters: number   // Row document characters matched
+  matchedChunks: number
+}
+
+export interface SimilarityMatrix {
+  documents: SimilarityMatrixDocument[]
+  // cells[i][j] describes row document i against column document j; null on the diagonal
+  cells: (SimilarityMatrixCell | null)[][]
+  // Pairs skipped after the scoring budget ran out; their cells are null
+  unscored_pairs: number
+  clustering: {
+    merges: ClusterMerge[]
+    order: number[]
+    clusters: number[]
+    clusterSimilarity: number
+  }
+  timing: {
+    load_ms: number
+    scoring_ms: number
+    total_ms: number
+  }
+}
+
+export interface SimilarityMatrixOptions {
+  threshold?: number
+  clusterSimilarity?: number
+}
+
+async function fetchMatrixDocuments(documentIds: string[]): Promise<Map<string, Omit<SimilarityMatrixDocument, 'total_characters'> & { total_characters: number | null }>> {
+  const supabase = await createServiceClient()
+  try {
+    const { data, error } = await supabase
+      .from('documents')
+      .select('id, title, filename, page_count, total_characters')
+      .in('id', documentIds)
+
+    if (error) {
+      throw new Error(`Failed to load matrix documents: ${error.message}`)
+    }
+
+    return new Map((data ?? []).map(row => [row.id as string, {
+      id: row.id as string,
+      title: String(row.title ?? ''),
+      filename: String(row.filename ?? ''),
+      page_count: typeof row.page_count === 'number' ? row.page_count : null,
+      total_characters: typeof row.total_characters === 'number' && row.total_characters > 0
+        ? row.total_characters
+        : null
+    }]))
+  } finally {
+    releaseServiceClient(supabase)
+  }
+}
+
+/**
+ * Pairwise coverage for documentIds (in the given order)
+ * Each unordered pair is matched once; both directions come from the same match set.
+ * Character totals use documents.total_characters, falling back to the chunk sum.
+ */
+export async function computeSimilarityMatrix(
+  documentIds: string[],
+  options: SimilarityMatrixOptions = {}
+): Promise<SimilarityMatrix> {
+  const startTime = Date.now()
+  const ids = Array.from(new Set(documentIds))
+
+  if (ids.length < 2) {
+    throw new Error('At least two documents are required for a similarity matrix')
+  }
+  if (ids.length > MAX_MATRIX_DOCUMENTS) {
+    throw new Error(`A similarity matrix supports at most ${MAX_MATRIX_DOCUMENTS} documents`)
+  }
+
+  const rows = await fetchMatrixDocuments(ids)
+  const missing = ids.filter(id => !rows.has(id))
+  if (missing.length > 0) {
+    throw new Error(`Documents not found: ${missing.join(', ')}`)
+  }
+
+  // Chunk cache: every document's embeddings are loaded once for all of its pairs
+  const chunkCache = new Map<string, Chunk[]>(
+    await Promise.all(ids.map(async id => [id, await fetchDocumentChunks(id)] as const))
+  )
+  const synonyms = buildWordSynonyms(await loadSynonymGroups())
+  const loadMs = Date.now() - startTime
+
+  const documents: SimilarityMatrixDocument[] = ids.map(id => {
+    const row = rows.get(id)!
+    const chunkCharacters = chunkCache.get(id)!.reduce((sum, chunk) => sum + chunk.characterCount, 0)
+    return { ...row, total_characters: row.total_characters ?? chunkCharacters }
+  })
+
+  const cells: (SimilarityMatrixCell | null)[][] = ids.map(() => ids.map(() => null))
+  const emptyCell: SimilarityMatrixCell = { coverage: 0, matchedCharacters: 0, matchedChunks: 0 }
+  const scoringDeadline = Date.now() + SCORING_BUDGET_MS
+  let unscoredPairs = 0
+
+  for (let i = 0; i < ids.length; i++) {
+    for (let j = i + 1; j < ids.length; j++) {
+      if (Date.now() > scoringDeadline) {
+        unscoredPairs++
+        continue
+      }
+
+      const chunksA = chunkCache.get(ids[i]!)!
+      const chunksB = chunkCache.get(ids[j]!)!
+      const totalA = documents[i]!.total_characters
+      const totalB = documents[j]!.total_characters
+
+      const matches = chunksA.length > 0 && chunksB.length > 0 && totalA > 0 && totalB > 0
+        ? await findBidirectionalMatches(chunksA, chunksB, {
+            ...(options.threshold !== undefined ? { primaryThreshold: options.threshold } : {}),
+            synonyms
+          })
+        : null
+
+      if (!matches) {
+        cells[i]![j] = emptyCell
+        cells[j]![i] = emptyCell
+        continue
+      }
+
+      const scores = computeAdaptiveScore(matches, totalA, totalB)
+      cells[i]![j] = {
+        coverage: scores.sourceScore,
+        matchedCharacters: scores.matchedSourceCharacters,
+        matchedChunks: matches.length
+      }
+      cells[j]![i] = {
+        coverage: scores.targetScore,
+        matchedCharacters: scores.matchedTargetCharacters,
+        matchedChunks: matches.length
+      }
+    }
+  }
+
+  // Cluster on the symmetric mean of both directions
+  const distances = ids.map((_, i) => ids.map((__, j) => {
+    if (i === j) return 0
+    return 1 - ((cells[i]![j]?.coverage ?? 0) + (cells[j]![i]?.coverage ?? 0)) / 2
+  }))
+  const clustering = averageLinkageClustering(distances)
+  const clusterSimilarity = options.clusterSimilarity ?? DEFAULT_CLUSTER_SIMILARITY
+  const clusters = cutClusters(clustering, ids.length, 1 - clusterSimilarity)
+
+  const totalMs = Date.now() - startTime
+
+  logger.info('Similarity matrix computed', {
+    documents: ids.length,
+    pairs: (ids.length * (ids.length - 1)) / 2,
+    clusters: new Set(clusters).size,
+    unscoredPairs,
+    loadMs,
+    totalMs,
+    component: 'similarity-matrix'
+  })
+
+  return {
+    documents,
+    cells,
+    unscored_pairs: unscoredPairs,
+    clustering: {
+      merges: clustering.merges,
+      order: clustering.leafOrder,
+      clusters,
+      clusterSimilarity
+    },
+    timing: {
+      load_ms: loadMs,
+      scoring_ms: totalMs - loadMs,
+      total_ms: totalMs
+    }
+  }
+}
@@ -7,8 +7,9 @@
  */
 
 import { createServiceClient, releaseServiceClient } from '@/lib/supabase/server'
-import { getQdrantClient, convertToQdrantFilter } from '@/lib/qdrant'
+import { getQdrantClient, getActiveCollectionName, getBaseCollectionName, convertToQdrantFilter } from '@/lib/qdrant'
 import { logger } from '@/lib/logger'
+import { DEFAULT_EMBEDDING_MODEL, resolveEmbeddingModel } from '@/lib/embeddings'
 import { Stage0Result } from '../types'
 
 const FILTER_OPERATOR_IN = '$in'
@@ -98,11 +99,12 @@ export async function stage0CandidateRetrieval(
   } = options
 
   const supabase = await createServiceClient()
+  let collectionName = getBaseCollectionName()
   try {
     // 1. Get source document centroid (pre-computed and cached)
     const { data: sourceDoc, error: fetchError } = await supabase
       .from('documents')
-      .select('id, centroid_embedding, effective_chunk_count')
+      .select('id, centroid_embedding, effective_chunk_count, embedding_model')
       .eq('id', sourceDocId)
       .single()
 
@@ -135,9 +137,16 @@ export async function stage0CandidateRetrieval(
       ? (filters as Record<string, unknown>)[ 'document_id' ]
       : undefined
 
+    // Vectors from different embedding models are not comparable. Points indexed before the
+    // payload carried embedding_model were all produced by the default model.
+    const sourceEmbeddingModel = resolveEmbeddingModel(sourceDoc.embedding_model as string | null)
+
     const searchFilter: Record<string, unknown> = {
       ...filters,
-      document_id: sanitizeDocumentIdFilter(existingDocumentIdFilter, sourceDocId)
+      document_id: sanitizeDocumentIdFilter(existingDocumentIdFilter, sourceDocId),
+      embedding_model: sourceEmbeddingModel === DEFAULT_EMBEDDING_MODEL
+        ? { $in: [DEFAULT_EMBEDDING_MODEL, null] }
+        : sourceEmbeddingModel
     }
 
     const qdrantFilter = convertToQdrantFilter(searchFilter)
@@ -175,7 +184,7 @@ export async function stage0CandidateRetrieval(
     })
 
     const client = getQdrantClient()
-    const collectionName = process.env['QDRANT_COLLECTION_NAME'] || 'documents'
+    collectionName = await getActiveCollectionName()
 
     const queryResponse = await client.search(collectionName, {
       vector: centroidVector,
@@ -300,7 +309,7 @@ export async function stage0CandidateRetrieval(
               sourceDocId
             )
           }),
-          collectionName: process.env['QDRANT_COLLECTION_NAME'] || 'documents',
+          collectionName,
           topK
         }
       }
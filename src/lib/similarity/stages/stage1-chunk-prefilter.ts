@@ -6,7 +6,7 @@
  * Purpose: Estimate coverage quickly, filter to small set for exact scoring
  */
 
-import { getQdrantClient } from '@/lib/qdrant'
+import { getQdrantClient, getActiveCollectionName } from '@/lib/qdrant'
 import { logger } from '@/lib/logger'
 import { Chunk, Stage1Result } from '../types'
 
@@ -15,13 +15,14 @@ import { Chunk, Stage1Result } from '../types'
  * CRITICAL: Candidate-aware (only counts matches for Stage 0 candidates)
  *
  * @param sourceChunks - All chunks from source document
- * @param stage0CandidateIds - Candidate IDs from Stage 0 (filter to these only!)
+ * @param stage0CandidateIds - Candidate IDs from Stage 0 (filter to these only!), or null for
+ *   ephemeral sources with no Stage 0 centroid, in which case every neighbour counts
  * @param options - Configuration options
  * @returns Top K candidates ranked by unique matched chunk count
  */
 export async function stage1ChunkPrefilter(
   sourceChunks: Chunk[],
-  stage0CandidateIds: string[],
+  stage0CandidateIds: string[] | null,
   options: {
     topK?: number
     neighborsPerChunk?: number
@@ -35,14 +36,14 @@ export async function stage1ChunkPrefilter(
   try {
     logger.info('Stage 1: starting chunk-level pre-filter', {
       sourceChunkCount: sourceChunks.length,
-      candidateCount: stage0CandidateIds.length,
+      candidateCount: stage0CandidateIds?.length ?? null,
       topK,
       neighborsPerChunk,
       batchSize
     })
 
     // CRITICAL: Create set for O(1) candidate lookup
-    const stage0Set = new Set(stage0CandidateIds)
+    const stage0Set = stage0CandidateIds ? new Set(stage0CandidateIds) : null
 
     // Track unique query chunks matched per candidate
     const candidateMatchCounts = new Map<string, Set<string>>()
@@ -93,7 +94,7 @@ export async function stage1ChunkPrefilter(
 
       // Query each vector individually
       const client = getQdrantClient()
-      const collectionName = process.env['QDRANT_COLLECTION_NAME'] || 'documents'
+      const collectionName = await getActiveCollectionName()
 
       const batchQueryPromises = chunkVectorPairs.map(({ vector }) =>
         client.search(collectionName, {
@@ -123,7 +124,7 @@ export async function stage1ChunkPrefilter(
           if (!candidateDocId) continue
 
           // ← CRITICAL: Only count Stage 0 candidates!
-          if (!stage0Set.has(candidateDocId)) continue
+          if (stage0Set && !stage0Set.has(candidateDocId)) continue
 
           // NMS: Skip if already matched this candidate with this query chunk
           if (seenCandidates.has(candidateDocId)) continue
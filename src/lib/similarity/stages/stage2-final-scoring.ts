@@ -11,7 +11,15 @@ import { SimilarityResult, Chunk } from '../types'
 import { findBidirectionalMatches } from '../core/chunk-matching'
 import { computeAdaptiveScore } from '../core/adaptive-scoring'
 import { groupMatchesIntoSections } from '../core/section-detection'
+import { applyBoilerplateWeights, weightedCharacterTotal } from '../core/boilerplate-weighting'
+import { fetchChunkDocumentFrequencies, getCorpusDocumentCount } from '@/lib/boilerplate-index'
 import { countCharacters } from '@/lib/chunking/paragraph-chunker'
+import { buildWordSynonyms, jaccardSimilarity, type WordSynonyms } from '../utils/jaccard-similarity'
+import { loadSynonymGroups } from '@/lib/search/synonyms'
+
+// Partial results are reported every few scored candidates, however candidates are split
+// across workers, so a single worker still streams progress
+const PROGRESS_CHUNK_CANDIDATES = 5
 
 /**
  * Compute final adaptive scores for all candidates in parallel
@@ -43,6 +51,16 @@ export async function stage2FinalScoring(
       start_page: number
       end_page: number
     }
+    boilerplateWeighting?: boolean
+    // Short ephemeral sources (e.g. a pasted clause) can never meet the minimum evidence floor
+    requireMinimumEvidence?: boolean
+    // Attach every matched chunk pair to each result
+    includeChunkMatches?: boolean
+    // Called with the results of every PROGRESS_CHUNK_CANDIDATES scored candidates
+    onBatchComplete?: (
+      batchResults: SimilarityResult[],
+      progress: { completedBatches: number; totalBatches: number }
+    ) => void
   } = {}
 ): Promise<SimilarityResult[]> {
 
@@ -51,7 +69,10 @@ export async function stage2FinalScoring(
   const {
     parallelWorkers = 28,
     threshold = 0.90,
-    timeout = 180000
+    timeout = 180000,
+    boilerplateWeighting = false,
+    requireMinimumEvidence = true,
+    includeChunkMatches = false
   } = options
 
   try {
@@ -69,7 +90,7 @@ export async function stage2FinalScoring(
     }
 
     // 2. Fetch source chunks once (reuse for all candidates)
-    const sourceChunks = Array.isArray(options.sourceChunksOverride) && options.sourceChunksOverride.length > 0
+    let sourceChunks = Array.isArray(options.sourceChunksOverride) && options.sourceChunksOverride.length > 0
       ? options.sourceChunksOverride
       : await fetchDocumentChunks(
         sourceDoc.id,
@@ -90,6 +111,25 @@ export async function stage2FinalScoring(
 
     const effectiveChunkCount = sourceChunks.length
 
+    // Boilerplate weights are resolved once for the source; candidates are weighted per worker
+    let boilerplateCorpusSize: number | null = null
+    if (boilerplateWeighting) {
+      const [corpusSize, sourceFrequencies] = await Promise.all([
+        getCorpusDocumentCount(),
+        fetchChunkDocumentFrequencies(sourceDoc.id)
+      ])
+      boilerplateCorpusSize = corpusSize
+      sourceChunks = applyBoilerplateWeights(sourceChunks, sourceFrequencies, corpusSize)
+
+      logger.info('Stage 2: boilerplate weighting enabled', {
+        corpusSize,
+        sourceTotalCharacters,
+        sourceWeightedCharacters: Math.round(weightedCharacterTotal(sourceChunks))
+      })
+    }
+
+    const synonyms = buildWordSynonyms(await loadSynonymGroups())
+
     logger.info('Stage 2: loaded source chunks', {
       candidateCount: candidateIds.length,
       sourceChunkCount: sourceChunks.length,
@@ -107,11 +147,45 @@ export async function stage2FinalScoring(
 
     const matchOptions = {
       threshold,
-      jaccardThreshold: 0.60
+      jaccardThreshold: 0.60,
+      boilerplateCorpusSize,
+      requireMinimumEvidence,
+      includeChunkMatches,
+      synonyms
+    }
+
+    const totalProgressChunks = Math.ceil(candidateIds.length / PROGRESS_CHUNK_CANDIDATES)
+    let scoredCandidates = 0
+    let unreportedResults: SimilarityResult[] = []
+
+    const handleCandidateScored = (result: SimilarityResult | null) => {
+      scoredCandidates++
+      if (result) {
+        unreportedResults.push(result)
+      }
+
+      const chunkComplete = scoredCandidates % PROGRESS_CHUNK_CANDIDATES === 0 ||
+        scoredCandidates === candidateIds.length
+      if (!options.onBatchComplete || !chunkComplete) {
+        return
+      }
+
+      const chunkResults = unreportedResults
+      unreportedResults = []
+      try {
+        options.onBatchComplete(chunkResults, {
+          completedBatches: Math.ceil(scoredCandidates / PROGRESS_CHUNK_CANDIDATES),
+          totalBatches: totalProgressChunks
+        })
+      } catch (callbackError) {
+        logger.warn('Stage 2: batch progress callback failed', {
+          error: callbackError instanceof Error ? callbackError.message : String(callbackError)
+        })
+      }
     }
 
     const batchPromises = batches.map(batch =>
-      processBatch(batch, sourceDoc, sourceChunks, matchOptions, timeout, sourceTotalCharacters)
+      processBatch(batch, sourceDoc, sourceChunks, matchOptions, timeout, sourceTotalCharacters, handleCandidateScored)
     )
 
     const batchResults = await Promise.all(batchPromises)
@@ -120,22 +194,7 @@ export async function stage2FinalScoring(
     const allResults = batchResults.flat().filter(r => r !== null) as SimilarityResult[]
 
     // 4. Multi-criteria sorting (tie-breaking)
-    allResults.sort((a, b) => {
-      // 1. Sort by source score (portion of source covered by candidate)
-      if (Math.abs(a.scores.sourceScore - b.scores.sourceScore) > 0.01) {
-        return b.scores.sourceScore - a.scores.sourceScore
-      }
-      // 2. Tie-break by target score (portion of target covered by source)
-      if (Math.abs(a.scores.targetScore - b.scores.targetScore) > 0.01) {
-        return b.scores.targetScore - a.scores.targetScore
-      }
-      // 3. Tie-break by matched target characters (higher reuse)
-      if (a.scores.matchedTargetCharacters !== b.scores.matchedTargetCharacters) {
-        return b.scores.matchedTargetCharacters - a.scores.matchedTargetCharacters
-      }
-      // 4. Final tie-break: More matched chunks
-      return b.matchedChunks - a.matchedChunks
-    })
+    allResults.sort(compareSimilarityResults)
 
     const timeMs = Date.now() - startTime
 
@@ -157,9 +216,33 @@ export async function stage2FinalScoring(
   }
 }
 
+/**
+ * Final result ordering, shared with callers that sort partial results
+ * Boilerplate-adjusted coverage ranks results when it was computed
+ */
+export function compareSimilarityResults(a: SimilarityResult, b: SimilarityResult): number {
+  const rankSource = (result: SimilarityResult) => result.scores.adjustedSourceScore ?? result.scores.sourceScore
+  const rankTarget = (result: SimilarityResult) => result.scores.adjustedTargetScore ?? result.scores.targetScore
+
+  // 1. Sort by source score (portion of source covered by candidate)
+  if (Math.abs(rankSource(a) - rankSource(b)) > 0.01) {
+    return rankSource(b) - rankSource(a)
+  }
+  // 2. Tie-break by target score (portion of target covered by source)
+  if (Math.abs(rankTarget(a) - rankTarget(b)) > 0.01) {
+    return rankTarget(b) - rankTarget(a)
+  }
+  // 3. Tie-break by matched target characters (higher reuse)
+  if (a.scores.matchedTargetCharacters !== b.scores.matchedTargetCharacters) {
+    return b.scores.matchedTargetCharacters - a.scores.matchedTargetCharacters
+  }
+  // 4. Final tie-break: More matched chunks
+  return b.matchedChunks - a.matchedChunks
+}
+
 /**
  * Process a batch of candidates
- * Each worker processes multiple candidates sequentially
+ * Each worker processes multiple candidates sequentially, reporting each one as it finishes
  */
 async function processBatch(
   candidateIds: string[],
@@ -168,19 +251,25 @@ async function processBatch(
   matchOptions: {
     threshold: number
     jaccardThreshold: number
+    boilerplateCorpusSize: number | null
+    requireMinimumEvidence: boolean
+    includeChunkMatches: boolean
+    synonyms: WordSynonyms
   },
   timeout: number,
-  sourceTotalCharacters: number
+  sourceTotalCharacters: number,
+  onCandidateScored: (result: SimilarityResult | null) => void
 ): Promise<(SimilarityResult | null)[]> {
 
   const results: (SimilarityResult | null)[] = []
 
   for (const candidateId of candidateIds) {
+    let result: SimilarityResult | null = null
     try {
       // Set timeout for each candidate
       let timeoutId: NodeJS.Timeout | null = null
 
-      const result = await Promise.race([
+      result = await Promise.race([
         processCandidate(candidateId, sourceDoc, sourceChunks, matchOptions, sourceTotalCharacters).then(result => {
           // Clear timeout if processing completes successfully
           if (timeoutId) clearTimeout(timeoutId)
@@ -197,16 +286,17 @@ async function processBatch(
         })
       ])
 
-      results.push(result)
-
     } catch (error) {
       logger.error(
         'Stage 2: candidate processing error',
         error instanceof Error ? error : new Error(String(error)),
         { candidateId }
       )
-      results.push(null)  // Continue with other candidates
+      result = null  // Continue with other candidates
     }
+
+    results.push(result)
+    onCandidateScored(result)
   }
 
   return results
@@ -222,16 +312,26 @@ async function processCandidate(
   matchOptions: {
     threshold: number
     jaccardThreshold: number
+    boilerplateCorpusSize: number | null
+    requireMinimumEvidence: boolean
+    includeChunkMatches: boolean
+    synonyms: WordSynonyms
   },
   sourceTotalCharacters: number
 ): Promise<SimilarityResult | null> {
 
   // 1. Fetch candidate chunks and metadata
-  const [candidateChunks, candidateMetadata] = await Promise.all([
+  const boilerplateCorpusSize = matchOptions.boilerplateCorpusSize
+  const [fetchedChunks, candidateMetadata, candidateFrequencies] = await Promise.all([
     fetchDocumentChunks(candidateId),
-    fetchDocumentMetadata(candidateId)
+    fetchDocumentMetadata(candidateId),
+    boilerplateCorpusSize !== null ? fetchChunkDocumentFrequencies(candidateId) : Promise.resolve(null)
   ])
 
+  const candidateChunks = boilerplateCorpusSize !== null && candidateFrequencies
+    ? applyBoilerplateWeights(fetchedChunks, candidateFrequencies, boilerplateCorpusSize)
+    : fetchedChunks
+
   if (candidateChunks.length === 0) {
     logger.warn('Stage 2: candidate has no chunks', { candidateId })
     return null
@@ -258,12 +358,15 @@ async function processCandidate(
     candidateChunks,
     {
       primaryThreshold: matchOptions.threshold,
-      jaccardThreshold: matchOptions.jaccardThreshold
+      jaccardThreshold: matchOptions.jaccardThreshold,
+      boilerplateWeighting: boilerplateCorpusSize !== null,
+      requireMinimumEvidence: matchOptions.requireMinimumEvidence,
+      synonyms: matchOptions.synonyms
     }
   )
 
   // Returns null if insufficient evidence
-  if (!matches) {
+  if (!matches || matches.length === 0) {
     return null
   }
 
@@ -279,7 +382,13 @@ async function processCandidate(
   const scores = computeAdaptiveScore(
     matches,
     sourceTotalCharacters,
-    candidateTotalCharacters
+    candidateTotalCharacters,
+    boilerplateCorpusSize !== null
+      ? {
+          docA_weightedCharacters: weightedCharacterTotal(sourceChunks),
+          docB_weightedCharacters: weightedCharacterTotal(candidateChunks)
+        }
+      : undefined
   )
 
   // 3.5. Aggregate Jaccard metrics (if available)
@@ -314,17 +423,33 @@ async function processCandidate(
     effective_chunk_count: candidateTotalCharacters  // Use total_characters as the definitive measure
   }
 
-  const result = {
+  const result: SimilarityResult = {
     document: normalizedDocument,
     scores,
     matchedChunks: matches.length,
     sections
   }
 
+  if (matchOptions.includeChunkMatches) {
+    const sourceTextById = new Map(sourceChunks.map(chunk => [chunk.id, chunk.text ?? '']))
+    const candidateTextById = new Map(candidateChunks.map(chunk => [chunk.id, chunk.text ?? '']))
+    // Pairs found in the B→A direction do not carry their Jaccard score
+    result.chunkMatches = matches.map(match => ({
+      ...match,
+      jaccardScore: match.jaccardScore ?? jaccardSimilarity(
+        sourceTextById.get(match.chunkA.id) ?? '',
+        candidateTextById.get(match.chunkB.id) ?? '',
+        matchOptions.synonyms
+      )
+    }))
+  }
+
   logger.info('Stage 2: candidate scoring complete', {
     candidateId,
     sourceScore: scores.sourceScore,
     targetScore: scores.targetScore,
+    adjustedSourceScore: scores.adjustedSourceScore,
+    adjustedTargetScore: scores.adjustedTargetScore,
     matchedSourceCharacters: scores.matchedSourceCharacters,
     matchedTargetCharacters: scores.matchedTargetCharacters,
     matchedChunks: matches.length
@@ -337,7 +462,7 @@ async function processCandidate(
  * Fetch all chunks for a document from Supabase
  * Returns chunks with pre-normalized embeddings
  */
-async function fetchDocumentChunks(
+export async function fetchDocumentChunks(
   documentId: string,
   options: { pageRange?: { start_page: number; end_page: number } } = {}
 ): Promise<Chunk[]> {
@@ -0,0 +1,662 @@
+/**
+ * Corpus template clustering
+ * Groups completed documents built from the same template (e.g. every Cayman LP
+ * subscription agreement drafted from one precedent). Centroid cosine similarity picks
+ * candidate clusters cheaply; Stage 2 chunk matching against each cluster's representative
+ * confirms membership. A rebuild runs as a background job over the whole corpus and new
+ * uploads are assigned to an existing cluster once processing completes.
+ */
+
+import { createServiceClient, releaseServiceClient } from '@/lib/supabase/server'
+import { logger } from '@/lib/logger'
+import { resolveEmbeddingModel } from '@/lib/embeddings'
+import { findBidirectionalMatches } from './core/chunk-matching'
+import { computeAdaptiveScore } from './core/adaptive-scoring'
+import { fetchDocumentChunks } from './stages/stage2-final-scoring'
+import { cosineSimilarity } from './utils/vector-operations'
+import type { Chunk } from './types'
+
+export type TemplateClusterRunStatus = 'queued' | 'running' | 'completed' | 'error'
+
+export interface TemplateClusterRun {
+  id: string
+  status: TemplateClusterRunStatus
+  requested_by: string | null
+  progress: number
+  document_count: number | null
+  cluster_count: number | null
+  clustered_document_count: number | null
+  error_message: string | null
+  created_at: string
+  updated_at: string
+  started_at: string | null
+  completed_at: string | null
+}
+
+export class TemplateClusterRunConflictError extends Error {
+  constructor() {
+    super('A template clustering run is already in progress')
+    this.name = 'TemplateClusterRunConflictError'
+  }
+}
+
+export interface TemplateCluster {
+  id: string
+  label: string
+  representative_document_id: string | null
+  embedding_model: string
+  member_count: number
+  created_at: string
+}
+
+// Centroid cosine a document must reach before the chunk-level check is attempted
+const CENTROID_MIN_SIMILARITY = 0.9
+// Both directions must cover at least this share of the other document
+const TEMPLATE_MIN_COVERAGE = 0.6
+// Clusters verified per document, best centroid match first
+const MAX_VERIFIED_CANDIDATES = 3
+const MIN_CLUSTER_SIZE = 2
+
+// Representative chunks are reused across the whole run; bound memory on large corpora
+const REPRESENTATIVE_CHUNK_CACHE_SIZE = 50
+const DOCUMENT_PAGE_SIZE = 500
+const PROGRESS_UPDATE_INTERVAL = 25
+
+// A running rebuild that has not written anything for this long was lost (e.g. a restart)
+const RUN_STALE_MS = 30 * 60 * 1000
+
+const LABEL_MAX_KEYWORDS = 3
+const LABEL_KEYWORD_MIN_SHARE = 0.6
+const LABEL_STOPWORDS = new Set([
+  'a', 'an', 'and', 'the', 'of', 'for', 'to', 'in', 'on', 'by', 'with', 'copy',
+  'draft', 'final', 'clean', 'redline', 'execution', 'version', 'form', 'doc', 'pdf'
+])
+
+interface ClusterableDocument {
+  id: string
+  title: string
+  created_at: string
+  embedding_model: string
+  jurisdiction: string | null
+  centroid: number[]
+  total_characters: number | null
+}
+
+interface ClusterCandidate {
+  representative: ClusterableDocument
+}
+
+interface TemplateMatch<T extends ClusterCandidate> {
+  cluster: T
+  centroidSimilarity: number
+  coverage: number
+}
+
+function isAutoAssignEnabled(): boolean {
+  return process.env['TEMPLATE_CLUSTER_AUTO_ASSIGN_ENABLED'] !== 'false'
+}
+
+function parseCentroid(value: unknown): number[] | null {
+  let parsed = value
+  if (typeof parsed === 'string') {
+    try {
+      parsed = JSON.parse(parsed)
+    } catch {
+      return null
+    }
+  }
+  return Array.isArray(parsed) && parsed.length > 0 ? parsed as number[] : null
+}
+
+function toClusterableDocument(row: Record<string, unknown>): ClusterableDocument | null {
+  const centroid = parseCentroid(row['centroid_embedding'])
+  if (!centroid) {
+    return null
+  }
+
+  const metadata = (row['metadata'] && typeof row['metadata'] === 'object' ? row['metadata'] : {}) as Record<string, unknown>
+  const jurisdiction = typeof metadata['jurisdiction'] === 'string' && metadata['jurisdiction'].trim().length > 0
+    ? metadata['jurisdiction'].trim()
+    : null
+
+  return {
+    id: row['id'] as string,
+    title: String(row['title'] ?? ''),
+    created_at: String(row['created_at'] ?? ''),
+    embedding_model: resolveEmbeddingModel(row['embedding_model'] as string | null),
+    jurisdiction,
+    centroid,
+    total_characters: typeof row['total_characters'] === 'number' && row['total_characters'] > 0
+      ? row['total_characters']
+      : null
+  }
+}
+
+const CLUSTERABLE_DOCUMENT_COLUMNS = 'id, title, created_at, embedding_model, metadata, centroid_embedding, total_characters'
+
+async function listClusterableDocuments(): Promise<ClusterableDocument[]> {
+  const documents: ClusterableDocument[] = []
+  const supabase = await createServiceClient()
+
+  try {
+    for (let start = 0; ; start += DOCUMENT_PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('documents')
+        .select(CLUSTERABLE_DOCUMENT_COLUMNS)
+        .eq('status', 'completed')
+        .not('centroid_embedding', 'is', null)
+        .order('created_at', { ascending: true })
+        .order('id', { ascending: true })
+        .range(start, start + DOCUMENT_PAGE_SIZE - 1)
+
+      if (error) {
+        throw new Error(`Failed to list documents for template clustering: ${error.message}`)
+      }
+
+      const rows = (data ?? []) as unknown as Record<string, unknown>[]
+      for (const row of rows) {
+        const document = toClusterableDocument(row)
+        if (document) {
+          documents.push(document)
+        }
+      }
+
+      if (rows.length < DOCUMENT_PAGE_SIZE) {
+        break
+      }
+    }
+
+    return documents
+  } finally {
+    releaseServiceClient(supabase)
+  }
+}
+
+/**
+ * Chunk loader with a small LRU of representative documents
+ */
+function createChunkLoader() {
+  const cache = new Map<string, Chunk[]>()
+
+  return async (documentId: string, cacheResult: boolean): Promise<Chunk[]> => {
+    const cached = cache.get(documentId)
+    if (cached) {
+      cache.delete(documentId)
+      cache.set(documentId, cached)
+      return cached
+    }
+
+    const chunks = await fetchDocumentChunks(documentId)
+    if (cacheResult) {
+      cache.set(documentId, chunks)
+      if (cache.size > REPRESENTATIVE_CHUNK_CACHE_SIZE) {
+        const oldest = cache.keys().next().value
+        if (oldest !== undefined) {
+          cache.delete(oldest)
+        }
+      }
+    }
+    return chunks
+  }
+}
+
+type ChunkLoader = ReturnType<typeof createChunkLoader>
+
+const totalCharacters = (document: ClusterableDocument, chunks: Chunk[]) =>
+  document.total_characters ?? chunks.reduce((sum, chunk) => sum + chunk.characterCount, 0)
+
+/**
+ * First candidate cluster whose representative passes the Stage 2 coverage check
+ * The document's own chunks are only loaded once a centroid candidate exists.
+ */
+async function findTemplateMatch<T extends ClusterCandidate>(
+  document: ClusterableDocument,
+  clusters: T[],
+  loadChunks: ChunkLoader
+): Promise<TemplateMatch<T> | null> {
+  const candidates = clusters
+    .filter(cluster =>
+      cluster.representative.id !== document.id &&
+      cluster.representative.embedding_model === document.embedding_model &&
+      cluster.representative.centroid.length === document.centroid.length
+    )
+    .map(cluster => ({ cluster, centroidSimilarity: cosineSimilarity(document.centroid, cluster.representative.centroid) }))
+    .filter(candidate => candidate.centroidSimilarity >= CENTROID_MIN_SIMILARITY)
+    .sort((a, b) => b.centroidSimilarity - a.centroidSimilarity)
+    .slice(0, MAX_VERIFIED_CANDIDATES)
+
+  if (candidates.length === 0) {
+    return null
+  }
+
+  const documentChunks = await loadChunks(document.id, false)
+  const documentCharacters = totalCharacters(document, documentChunks)
+  if (documentChunks.length === 0 || documentCharacters <= 0) {
+    return null
+  }
+
+  for (const candidate of candidates) {
+    const representative = candidate.cluster.representative
+    const representativeChunks = await loadChunks(representative.id, true)
+    const representativeCharacters = totalCharacters(representative, representativeChunks)
+    if (representativeChunks.length === 0 || representativeCharacters <= 0) {
+      continue
+    }
+
+    const matches = await findBidirectionalMatches(documentChunks, representativeChunks)
+    if (!matches) {
+      continue
+    }
+
+    const scores = computeAdaptiveScore(matches, documentCharacters, representativeCharacters)
+    const coverage = Math.min(scores.sourceScore, scores.targetScore)
+    if (coverage >= TEMPLATE_MIN_COVERAGE) {
+      return { cluster: candidate.cluster, centroidSimilarity: candidate.centroidSimilarity, coverage }
+    }
+  }
+
+  return null
+}
+
+async function loadJurisdictionLabels(): Promise<Map<string, string>> {
+  const supabase = await createServiceClient()
+  try {
+    const { data, error } = await supabase
+      .from('metadata_options')
+      .select('value, label')
+      .eq('category', 'jurisdiction')
+      .eq('status', 'approved')
+
+    if (error) {
+      logger.warn('Failed to load jurisdiction labels for template clusters', {
+        error: error.message,
+        component: 'template-clusters'
+      })
+      return new Map()
+    }
+
+    return new Map((data ?? []).map(row => [String(row.value), String(row.label)]))
+  } finally {
+    releaseServiceClient(supabase)
+  }
+}
+
+function tokenizeTitle(title: string): string[] {
+  return title
+    .replace(/\.[a-z0-9]{2,4}$/i, '')
+    .split(/[^A-Za-z]+/)
+    .filter(token => token.length > 1)
+}
+
+/**
+ * Base label such as "Cayman LP subscription template": the members' most common
+ * jurisdiction followed by title words shared by most members, in the representative's
+ * spelling and order. Falls back to the representative's title.
+ */
+function buildBaseLabel(members: ClusterableDocument[], jurisdictionLabels: Map<string, string>): string {
+  const representative = members[0]!
+
+  const jurisdictionCounts = new Map<string, number>()
+  for (const member of members) {
+    if (member.jurisdiction) {
+      jurisdictionCounts.set(member.jurisdiction, (jurisdictionCounts.get(member.jurisdiction) ?? 0) + 1)
+    }
+  }
+  const topJurisdiction = Array.from(jurisdictionCounts.entries()).sort((a, b) => b[1] - a[1])[0]?.[0]
+  const jurisdiction = topJurisdiction ? jurisdictionLabels.get(topJurisdiction) ?? topJurisdiction : null
+  const jurisdictionWords = new Set(jurisdiction ? tokenizeTitle(jurisdiction).map(word => word.toLowerCase()) : [])
+
+  const titleShare = new Map<string, number>()
+  for (const member of members) {
+    for (const word of new Set(tokenizeTitle(member.title).map(token => token.toLowerCase()))) {
+      titleShare.set(word, (titleShare.get(word) ?? 0) + 1)
+    }
+  }
+
+  const keywords: string[] = []
+  const seen = new Set<string>()
+  for (const token of tokenizeTitle(representative.title)) {
+    const word = token.toLowerCase()
+    if (seen.has(word) || LABEL_STOPWORDS.has(word) || jurisdictionWords.has(word)) continue
+    seen.add(word)
+    if ((titleShare.get(word) ?? 0) / members.length >= LABEL_KEYWORD_MIN_SHARE) {
+      keywords.push(token === token.toUpperCase() ? token : word)
+    }
+    if (keywords.length === LABEL_MAX_KEYWORDS) break
+  }
+
+  if (keywords.length === 0) {
+    return representative.title || 'Untitled template'
+  }
+
+  return [jurisdiction, ...keywords, 'template'].filter(Boolean).join(' ')
+}
+
+/**
+ * Labels for each cluster; clusters sharing a base label are numbered v1, v2, ...
+ * in order of their oldest member
+ */
+function buildClusterLabels(clusters: ClusterableDocument[][], jurisdictionLabels: Map<string, string>): string[] {
+  const baseLabels = clusters.map(members => buildBaseLabel(members, jurisdictionLabels))
+
+  const groups = new Map<string, number[]>()
+  baseLabels.forEach((label, index) => {
+    groups.set(label, [...(groups.get(label) ?? []), index])
+  })
+
+  const labels = [...baseLabels]
+  for (const indexes of groups.values()) {
+    if (indexes.length < 2) continue
+    indexes
+      .sort((a, b) => clusters[a]![0]!.created_at.localeCompare(clusters[b]![0]!.created_at))
+      .forEach((clusterIndex, position) => {
+        labels[clusterIndex] = `${baseLabels[clusterIndex]} v${position + 1}`
+      })
+  }
+  return labels
+}
+
+async function updateTemplateClusterRun(runId: string, update: Record<string, unknown>): Promise<void> {
+  const supabase = await createServiceClient()
+  try {
+    const { error } = await supabase
+      .from('template_cluster_runs')
+      .update({ ...update, updated_at: new Date().toISOString() })
+      .eq('id', runId)
+
+    if (error) {
+      logger.warn('Failed to update template cluster run', {
+        runId,
+        error: error.message,
+        component: 'template-clusters'
+      })
+    }
+  } finally {
+    releaseServiceClient(supabase)
+  }
+}
+
+/**
+ * Queue a corpus rebuild
+ * Runs that stopped writing progress are failed first so a lost run cannot block rebuilds.
+ */
+export async function createTemplateClusterRun(requestedBy: string): Promise<string> {
+  const supabase = await createServiceClient()
+  try {
+    const staleBefore = new Date(Date.now() - RUN_STALE_MS).toISOString()
+    await supabase
+      .from('template_cluster_runs')
+      .update({
+        status: 'error',
+        error_message: 'Run stopped reporting progress',
+        completed_at: new Date().toISOString()
+      })
+      .in('status', ['queued', 'running'])
+      .lt('updated_at', staleBefore)
+
+    const { data, error } = await supabase
+      .from('template_cluster_runs')
+      .insert({ status: 'queued', requested_by: requestedBy })
+      .select('id')
+      .single()
+
+    if (error) {
+      // Unique index on active runs
+      if (error.code === '23505') {
+        throw new TemplateClusterRunConflictError()
+      }
+      throw new Error(`Failed to create template cluster run: ${error.message}`)
+    }
+
+    return data.id as string
+  } finally {
+    releaseServiceClient(supabase)
+  }
+}
+
+export async function getLatestTemplateClusterRun(): Promise<TemplateClusterRun | null> {
+  const supabase = await createServiceClient()
+  try {
+    const { data, error } = await supabase
+      .from('template_cluster_runs')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to load template cluster run: ${error.message}`)
+    }
+
+    return data as unknown as TemplateClusterRun | null
+  } finally {
+    releaseServiceClient(supabase)
+  }
+}
+
+/**
+ * Replace the stored clusters with the ones from this run
+ * replace_template_clusters swaps them in one transaction, so a failure keeps the previous
+ * clusters and memberships.
+ */
+async function replaceTemplateClusters(
+  runId: string,
+  clusters: ClusterableDocument[][],
+  labels: string[]
+): Promise<void> {
+  const supabase = await createServiceClient()
+  try {
+    const { error } = await supabase.rpc('replace_template_clusters', {
+      p_run_id: runId,
+      p_clusters: clusters.map((members, index) => ({
+        label: labels[index],
+        representative_document_id: members[0]!.id,
+        embedding_model: members[0]!.embedding_model,
+        member_ids: members.map(member => member.id)
+      }))
+    })
+
+    if (error) {
+      throw new Error(`Failed to store template clusters: ${error.message}`)
+    }
+  } finally {
+    releaseServiceClient(supabase)
+  }
+}
+
+/**
+ * Cluster every completed document and store the result
+ * Documents are visited oldest first, so each cluster's representative is the earliest
+ * upload of its template. Documents that match no other document stay unclustered.
+ */
+export async function runTemplateClustering(runId: string): Promise<void> {
+  const startTime = Date.now()
+
+  try {
+    await updateTemplateClusterRun(runId, { status: 'running', started_at: new Date().toISOString() })
+
+    const documents = await listClusterableDocuments()
+    await updateTemplateClusterRun(runId, { document_count: documents.length })
+
+    const loadChunks = createChunkLoader()
+    const clusters: Array<{ representative: ClusterableDocument; members: ClusterableDocument[] }> = []
+
+    for (let index = 0; index < documents.length; index++) {
+      const document = documents[index]!
+      const match = await findTemplateMatch(document, clusters, loadChunks)
+
+      if (match) {
+        match.cluster.members.push(document)
+      } else {
+        clusters.push({ representative: document, members: [document] })
+      }
+
+      if ((index + 1) % PROGRESS_UPDATE_INTERVAL === 0) {
+        await updateTemplateClusterRun(runId, {
+          progress: Math.floor(((index + 1) / documents.length) * 100)
+        })
+      }
+    }
+
+    const storedClusters = clusters
+      .map(cluster => cluster.members)
+      .filter(members => members.length >= MIN_CLUSTER_SIZE)
+    const labels = buildClusterLabels(storedClusters, await loadJurisdictionLabels())
+
+    await replaceTemplateClusters(runId, storedClusters, labels)
+
+    const clusteredDocumentCount = storedClusters.reduce((sum, members) => sum + members.length, 0)
+    await updateTemplateClusterRun(runId, {
+      status: 'completed',
+      progress: 100,
+      cluster_count: storedClusters.length,
+      clustered_document_count: clusteredDocumentCount,
+      completed_at: new Date().toISOString()
+    })
+
+    logger.info('Template clustering completed', {
+      runId,
+      documentCount: documents.length,
+      clusterCount: storedClusters.length,
+      clusteredDocumentCount,
+      durationMs: Date.now() - startTime,
+      component: 'template-clusters'
+    })
+  } catch (error) {
+    logger.error('Template clustering failed', error as Error, { runId, component: 'template-clusters' })
+    await updateTemplateClusterRun(runId, {
+      status: 'error',
+      error_message: error instanceof Error ? error.message : 'Unknown error',
+      completed_at: new Date().toISOString()
+    })
+  }
+}
+
+export async function listTemplateClusters(): Promise<TemplateCluster[]> {
+  const supabase = await createServiceClient()
+  try {
+    const { data, error } = await supabase
+      .from('template_clusters')
+      .select('id, label, representative_document_id, embedding_model, member_count, created_at')
+      .order('label', { ascending: true })
+
+    if (error) {
+      throw new Error(`Failed to load template clusters: ${error.message}`)
+    }
+
+    return (data ?? []) as unknown as TemplateCluster[]
+  } finally {
+    releaseServiceClient(supabase)
+  }
+}
+
+async function loadClusterRepresentatives(): Promise<Array<{ id: string; representative: ClusterableDocument }>> {
+  const supabase = await createServiceClient()
+  try {
+    const { data: clusters, error } = await supabase
+      .from('template_clusters')
+      .select('id, representative_document_id')
+      .not('representative_document_id', 'is', null)
+
+    if (error) {
+      throw new Error(`Failed to load template clusters: ${error.message}`)
+    }
+
+    const rows = (clusters ?? []) as Array<{ id: string; representative_document_id: string }>
+    const representatives = new Map<string, ClusterableDocument>()
+
+    for (let i = 0; i < rows.length; i += DOCUMENT_PAGE_SIZE) {
+      const { data, error: documentsError } = await supabase
+        .from('documents')
+        .select(CLUSTERABLE_DOCUMENT_COLUMNS)
+        .in('id', rows.slice(i, i + DOCUMENT_PAGE_SIZE).map(row => row.representative_document_id))
+
+      if (documentsError) {
+        throw new Error(`Failed to load template cluster representatives: ${documentsError.message}`)
+      }
+
+      for (const row of (data ?? []) as unknown as Record<string, unknown>[]) {
+        const document = toClusterableDocument(row)
+        if (document) {
+          representatives.set(document.id, document)
+        }
+      }
+    }
+
+    return rows.flatMap(row => {
+      const representative = representatives.get(row.representative_document_id)
+      return representative ? [{ id: row.id, representative }] : []
+    })
+  } finally {
+    releaseServiceClient(supabase)
+  }
+}
+
+/**
+ * Put a freshly processed document into the existing cluster for its template
+ * Returns the cluster ID, or null when no cluster matches. A new template only gets a
+ * cluster on the next rebuild, once a second document uses it.
+ */
+export async function assignTemplateCluster(documentId: string): Promise<string | null> {
+  if (!isAutoAssignEnabled()) {
+    return null
+  }
+
+  const supabase = await createServiceClient()
+  try {
+    const { data: row, error } = await supabase
+      .from('documents')
+      .select(`${CLUSTERABLE_DOCUMENT_COLUMNS}, template_cluster_id`)
+      .eq('id', documentId)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to load document for template clustering: ${error.message}`)
+    }
+
+    const record = row as unknown as Record<string, unknown> | null
+    const document = record ? toClusterableDocument(record) : null
+    if (!record || !document || record['template_cluster_id']) {
+      return null
+    }
+
+    const clusters = await loadClusterRepresentatives()
+    const match = await findTemplateMatch(document, clusters, createChunkLoader())
+    if (!match) {
+      return null
+    }
+
+    const { error: updateError } = await supabase
+      .from('documents')
+      .update({ template_cluster_id: match.cluster.id })
+      .eq('id', documentId)
+
+    if (updateError) {
+      throw new Error(`Failed to assign template cluster: ${updateError.message}`)
+    }
+
+    const { count } = await supabase
+      .from('documents')
+      .select('id', { count: 'exact', head: true })
+      .eq('template_cluster_id', match.cluster.id)
+
+    if (typeof count === 'number') {
+      await supabase
+        .from('template_clusters')
+        .update({ member_count: count, updated_at: new Date().toISOString() })
+        .eq('id', match.cluster.id)
+    }
+
+    logger.info('Document assigned to template cluster', {
+      documentId,
+      clusterId: match.cluster.id,
+      centroidSimilarity: Number(match.centroidSimilarity.toFixed(4)),
+      coverage: Number(match.coverage.toFixed(4)),
+      component: 'template-clusters'
+    })
+
+    return match.cluster.id
+  } finally {
+    releaseServiceClient(supabase)
+  }
+}
@@ -9,12 +9,14 @@ export interface ChunkMatch {
     index: number
     pageNumber: number
     characterCount: number
+    boilerplateWeight?: number
   }
   chunkB: {
     id: string
     index: number
     pageNumber: number
     characterCount: number
+    boilerplateWeight?: number
   }
   score: number           // Cosine similarity score
   jaccardScore?: number   // Jaccard similarity score (optional, 0 if disabled)
@@ -37,6 +39,8 @@ export interface SimilarityScores {
   averageJaccard?: number              // Average Jaccard similarity across all matched chunks
   minJaccard?: number                  // Minimum Jaccard similarity among matches
   maxJaccard?: number                  // Maximum Jaccard similarity among matches
+  adjustedSourceScore?: number         // Source coverage with corpus boilerplate down-weighted
+  adjustedTargetScore?: number         // Target coverage with corpus boilerplate down-weighted
 }
 
 export interface SimilarityDocument {
@@ -53,6 +57,7 @@ export interface SimilarityResult {
   scores: SimilarityScores
   matchedChunks: number
   sections: SectionMatch[]
+  chunkMatches?: ChunkMatch[]  // Only when Stage 2 runs with includeChunkMatches
   timings?: {
     stage0?: number
     stage1?: number
@@ -70,6 +75,7 @@ export interface Chunk {
   embedding: number[]        // Pre-normalized (L2 normalized at write time)
   text?: string
   characterCount: number     // Required for character-based similarity scoring
+  boilerplateWeight?: number // IDF-style weight in [0, 1]; lower for text common across the corpus
 }
 
 export interface Stage0Result {
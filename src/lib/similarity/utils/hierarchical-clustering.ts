@@ -0,0 +1,113 @@
+/**
+ * Average-linkage agglomerative clustering over a symmetric distance matrix
+ * Small inputs only (O(n³)) - used to order and group a few dozen documents.
+ */
+
+export interface ClusterMerge {
+  left: number      // Node ID: 0..n-1 are leaves, n+i is the cluster made by merge i
+  right: number
+  distance: number
+  size: number
+}
+
+export interface HierarchicalClustering {
+  merges: ClusterMerge[]
+  leafOrder: number[]  // Leaves in dendrogram order, so similar items sit next to each other
+}
+
+export function averageLinkageClustering(distances: number[][]): HierarchicalClustering {
+  const n = distances.length
+  if (n === 0) {
+    return { merges: [], leafOrder: [] }
+  }
+
+  // Active clusters: node ID -> member leaves
+  const active = new Map<number, number[]>()
+  for (let i = 0; i < n; i++) {
+    active.set(i, [i])
+  }
+
+  const averageDistance = (a: number[], b: number[]): number => {
+    let total = 0
+    for (const i of a) {
+      for (const j of b) {
+        total += distances[i]?.[j] ?? 1
+      }
+    }
+    return total / (a.length * b.length)
+  }
+
+  const merges: ClusterMerge[] = []
+  const children = new Map<number, [number, number]>()
+
+  while (active.size > 1) {
+    let best: { left: number; right: number; distance: number } | null = null
+    const ids = Array.from(active.keys())
+
+    for (let x = 0; x < ids.length; x++) {
+      for (let y = x + 1; y < ids.length; y++) {
+        const left = ids[x]!
+        const right = ids[y]!
+        const distance = averageDistance(active.get(left)!, active.get(right)!)
+        if (!best || distance < best.distance) {
+          best = { left, right, distance }
+        }
+      }
+    }
+
+    const merged = [...active.get(best!.left)!, ...active.get(best!.right)!]
+    const nodeId = n + merges.length
+    merges.push({ left: best!.left, right: best!.right, distance: best!.distance, size: merged.length })
+    children.set(nodeId, [best!.left, best!.right])
+    active.delete(best!.left)
+    active.delete(best!.right)
+    active.set(nodeId, merged)
+  }
+
+  const leafOrder: number[] = []
+  const visit = (node: number) => {
+    const pair = children.get(node)
+    if (!pair) {
+      leafOrder.push(node)
+      return
+    }
+    visit(pair[0])
+    visit(pair[1])
+  }
+  visit(Array.from(active.keys())[0]!)
+
+  return { merges, leafOrder }
+}
+
+/**
+ * Flat cluster label per leaf after cutting the tree at maxDistance
+ * Labels are numbered in leaf order starting at 0.
+ */
+export function cutClusters(clustering: HierarchicalClustering, leafCount: number, maxDistance: number): number[] {
+  const parent = Array.from({ length: leafCount + clustering.merges.length }, (_, i) => i)
+  const find = (node: number): number => {
+    while (parent[node] !== node) {
+      node = parent[node]!
+    }
+    return node
+  }
+
+  clustering.merges.forEach((merge, index) => {
+    if (merge.distance <= maxDistance) {
+      const nodeId = leafCount + index
+      parent[find(merge.left)] = nodeId
+      parent[find(merge.right)] = nodeId
+    }
+  })
+
+  const labels = new Array<number>(leafCount).fill(-1)
+  const labelByRoot = new Map<number, number>()
+  for (const leaf of clustering.leafOrder) {
+    const root = find(leaf)
+    if (!labelByRoot.has(root)) {
+      labelByRoot.set(root, labelByRoot.size)
+    }
+    labels[leaf] = labelByRoot.get(root)!
+  }
+  return labels
+}
@@ -16,7 +16,62 @@
  *
  * - "Investors must submit..." vs "To redeem shares, investors must provide..."
  *   → Low Jaccard (~0.20) - filtered as paraphrase
+ *
+ * With a synonym dictionary, "LPA" and "Limited Partnership Agreement" count as the same word.
+ */
+
+/**
+ * Synonym lookup for word extraction, keyed by the first word of each variant
+ * Variants are listed longest first so the longest match wins.
+ */
+export type WordSynonyms = Map<string, Array<{ words: string[]; canonical: string }>>
+
+const splitWords = (text: string): string[] =>
+  text
+    .toLowerCase()                      // Normalize case: "Investor" → "investor"
+    .replace(/[^\w\s]/g, ' ')          // Remove punctuation: "Person." → "Person "
+    .split(/\s+/)                       // Split on whitespace
+    .filter(word => word.length > 0)    // Remove empty strings
+
+/**
+ * Build the lookup from synonym groups (lib/search/synonyms)
+ * Every variant of a group is replaced by the group's first term.
  */
+export function buildWordSynonyms(groups: string[][]): WordSynonyms {
+  const synonyms: WordSynonyms = new Map()
+  for (const group of groups) {
+    const variants = group.map(splitWords).filter(words => words.length > 0)
+    const first = variants[0]
+    if (!first) continue
+    const canonical = first.join(' ')
+    for (const words of variants) {
+      const key = words[0] as string
+      const entries = synonyms.get(key) ?? []
+      entries.push({ words, canonical })
+      synonyms.set(key, entries)
+    }
+  }
+  for (const entries of synonyms.values()) {
+    entries.sort((a, b) => b.words.length - a.words.length)
+  }
+  return synonyms
+}
+
+function applyWordSynonyms(words: string[], synonyms: WordSynonyms): string[] {
+  const result: string[] = []
+  for (let i = 0; i < words.length; i++) {
+    const match = synonyms.get(words[i] as string)?.find(entry =>
+      entry.words.every((word, offset) => words[i + offset] === word)
+    )
+    if (match) {
+      result.push(match.canonical)
+      i += match.words.length - 1
+    } else {
+      result.push(words[i] as string)
+    }
+  }
+  return result
+}
 
 /**
  * Extract normalized words from text
@@ -26,18 +81,17 @@
  * - Remove punctuation
  * - Keep ALL words including stop words (important for this use case)
  * - No stemming/lemmatization (want exact lexical matches)
+ * - Synonym variants collapse to one canonical word ("limited partnership agreement" → "lpa")
  *
  * @param text - Input text to extract words from
+ * @param synonyms - Optional synonym lookup from buildWordSynonyms
  * @returns Array of normalized words
  */
-export function extractWords(text: string): string[] {
+export function extractWords(text: string, synonyms?: WordSynonyms): string[] {
   if (!text) return []
 
-  return text
-    .toLowerCase()                      // Normalize case: "Investor" → "investor"
-    .replace(/[^\w\s]/g, ' ')          // Remove punctuation: "Person." → "Person "
-    .split(/\s+/)                       // Split on whitespace
-    .filter(word => word.length > 0)    // Remove empty strings
+  const words = splitWords(text)
+  return synonyms && synonyms.size > 0 ? applyWordSynonyms(words, synonyms) : words
 }
 
 /**
@@ -45,6 +99,7 @@ export function extractWords(text: string): string[] {
  *
  * @param textA - First text
  * @param textB - Second text
+ * @param synonyms - Optional synonym lookup from buildWordSynonyms
  * @returns Jaccard similarity score (0 to 1)
  *
  * @example
@@ -62,9 +117,9 @@ export function extractWords(text: string): string[] {
  * ) // → ~0.20
  * ```
  */
-export function jaccardSimilarity(textA: string, textB: string): number {
-  const wordsA = extractWords(textA)
-  const wordsB = extractWords(textB)
+export function jaccardSimilarity(textA: string, textB: string, synonyms?: WordSynonyms): number {
+  const wordsA = extractWords(textA, synonyms)
+  const wordsB = extractWords(textB, synonyms)
 
   // Handle empty inputs
   if (wordsA.length === 0 && wordsB.length === 0) {
@@ -94,6 +149,7 @@ export function jaccardSimilarity(textA: string, textB: string): number {
  * @param textA - First text
  * @param textB - Second text
  * @param threshold - Minimum Jaccard score required (0 to 1)
+ * @param synonyms - Optional synonym lookup from buildWordSynonyms
  * @returns True if Jaccard similarity >= threshold
  *
  * @example
@@ -108,12 +164,13 @@ export function jaccardSimilarity(textA: string, textB: string): number {
 export function meetsJaccardThreshold(
   textA: string,
   textB: string,
-  threshold: number
+  threshold: number,
+  synonyms?: WordSynonyms
 ): boolean {
   if (threshold <= 0) {
     return true  // Threshold disabled
   }
 
-  const similarity = jaccardSimilarity(textA, textB)
+  const similarity = jaccardSimilarity(textA, textB, synonyms)
   return similarity >= threshold
 }
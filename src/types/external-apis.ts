@@ -939,6 +939,15 @@ export interface DatabaseDocument {
   page_count?: number
   processing_error?: string
   metadata?: BusinessMetadata
+  embedding_model?: string | null
+  file_hash?: string | null
+  text_fingerprint?: string | null
+  duplicate_of?: string | null
+  duplicate_type?: 'exact' | 'near' | null
+  family_id?: string | null
+  family_version?: number | null
+  is_latest_version?: boolean
+  template_cluster_id?: string | null
   created_at: string
   updated_at: string
 }
@@ -951,11 +960,13 @@ export interface DatabaseDocumentJob {
   id: string
   document_id: string
   user_id: string
+  operation_type?: string
   status: 'queued' | 'processing' | 'completed' | 'failed' | 'cancelled'
   priority: number
   attempts: number
   max_attempts: number
   processing_method?: 'sync' | 'batch'
+  processing_config?: Record<string, unknown> | null
   batch_operation_id?: string
   error_message?: string
   metadata?: Record<string, unknown>
@@ -965,6 +976,19 @@ export interface DatabaseDocumentJob {
   updated_at: string
 }
 
+export interface DatabaseEmbeddingMigration {
+  id: string
+  source_model: string
+  target_model: string
+  source_collection: string
+  target_collection: string
+  status: 'running' | 'active' | 'superseded'
+  total_documents: number
+  created_by: string | null
+  created_at: string
+  activated_at: string | null
+}
+
 export interface DatabaseDocumentEmbedding {
   id: string
   document_id: string
@@ -25,6 +25,29 @@ export enum SearchMode {
 // KEYWORD SEARCH
 // ============================================================================
 
+/**
+ * Filters applied to keyword search, mirroring the dashboard filter panel
+ * Values are OR-ed within a field and fields are AND-ed; '(blank)' matches documents without a value.
+ */
+export interface KeywordSearchFilters {
+  /** Allowed values per metadata field */
+  metadata?: Partial<Record<'law_firm' | 'fund_manager' | 'fund_admin' | 'jurisdiction', string[]>>
+  /** Allowed template cluster IDs */
+  templateClusterIds?: string[]
+  /** Earliest upload date, inclusive (YYYY-MM-DD, UTC) */
+  uploadedFrom?: string
+  /** Latest upload date, inclusive (YYYY-MM-DD, UTC) */
+  uploadedTo?: string
+  /** Only match pages in this range */
+  pageRange?: { start_page: number; end_page: number }
+}
+
+/**
+ * Pattern search over extracted text instead of the keyword query language
+ * regex: PostgreSQL regular expression; exact: the query is matched literally
+ */
+export type PatternSearchMode = 'regex' | 'exact'
+
 /**
  * Request parameters for keyword search API
  */
@@ -37,6 +60,14 @@ export interface KeywordSearchRequest {
   pageSize?: number
   /** Offset for document pagination (default: 0) */
   pageOffset?: number
+  /** Typo-tolerant trigram matching instead of the query language (default: false) */
+  fuzzy?: boolean
+  /** Match the query as a regex or exact string (cannot be combined with fuzzy) */
+  patternMode?: PatternSearchMode
+  /** Case-sensitive pattern matching (default: true, pattern modes only) */
+  caseSensitive?: boolean
+  /** Metadata, template, upload date and page range filters */
+  filters?: KeywordSearchFilters
 }
 
 /**
@@ -50,6 +81,10 @@ export interface KeywordMatch {
   excerpt: string
   /** Relevance score (0.0 to 1.0, higher is more relevant) */
   score: number
+  /** True when the page matched only by trigram similarity (fuzzy mode) */
+  fuzzy?: boolean
+  /** Number of pattern matches on the page (pattern modes; score is always 1) */
+  occurrences?: number
 }
 
 /**
@@ -93,6 +128,28 @@ export interface KeywordSearchResponse {
   pageSize: number
   /** Current page offset */
   pageOffset: number
+  /** Whether the search ran in fuzzy mode */
+  fuzzy?: boolean
+  /** Pattern mode the search ran in, if any */
+  patternMode?: PatternSearchMode
+  /** Whether pattern matching was case-sensitive */
+  caseSensitive?: boolean
+  /** Filters the search ran with */
+  filters?: KeywordSearchFilters
+}
+
+/**
+ * 400 response from keyword search when the query does not parse
+ * position/length locate the offending characters in the submitted query
+ */
+export interface KeywordQueryErrorResponse {
+  error: string
+  code: 'VALIDATION_ERROR'
+  queryError: {
+    message: string
+    position: number
+    length: number
+  }
 }
 
 /**
@@ -107,6 +164,13 @@ export interface LoadMorePagesRequest {
   skipPages?: number
   /** Number of additional pages to fetch (default: 5) */
   fetchPages?: number
+  /** Must match the original search's mode */
+  fuzzy?: boolean
+  /** Must match the original search's pattern mode and case sensitivity */
+  patternMode?: PatternSearchMode
+  caseSensitive?: boolean
+  /** Must match the original search's filters (the page range applies within the document) */
+  filters?: KeywordSearchFilters
 }
 
 /**
@@ -138,5 +202,7 @@ export interface KeywordSearchDBRow {
     pageNumber: number
     excerpt: string
     score: number
+    fuzzy?: boolean
+    occurrences?: number
   }[]
 }